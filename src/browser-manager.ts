@@ -1,8 +1,30 @@
 import puppeteer, { Browser, Page } from 'puppeteer';
-import { BrowserConfig, PageInfo } from './types.js';
+import { AppliedDeviceEmulation, AppliedThrottling, BrowserConfig, PageInfo } from './types.js';
+import { applyThrottling } from './utils/throttling-utils.js';
+import { applyDeviceEmulation, DEFAULT_VIEWPORT } from './utils/device-utils.js';
 import { existsSync } from 'fs';
 import { access } from 'fs/promises';
 
+/**
+ * 页面创建监听器（在新页面首次导航前调用）
+ */
+export type PageCreatedListener = (page: Page) => void | Promise<void>;
+
+/**
+ * 页面关闭监听器（在 closePage / closeAllPages 移除事件监听器之前调用）
+ */
+export type PageClosingListener = (page: Page) => void | Promise<void>;
+
+/**
+ * 获取页面时的选项
+ */
+export interface PageOptions {
+  /**
+   * 设备模拟配置（新页面在首次导航前应用）
+   */
+  emulation?: AppliedDeviceEmulation;
+}
+
 /**
  * 浏览器管理器 - 单例模式管理持久化浏览器连接
  */
@@ -18,6 +40,16 @@ export class BrowserManager {
   // 页面清理间隔（毫秒）
   private readonly pageCleanupInterval = 5 * 60 * 1000; // 5 分钟
   private cleanupTimer: NodeJS.Timeout | null = null;
+  // 是否通过 puppeteer.connect 附加到已运行的浏览器（此时关闭时只断开连接）
+  private connected = false;
+  // 新页面创建监听器（如网络捕获需要在首次导航前挂载）
+  private pageCreatedListeners: Set<PageCreatedListener> = new Set();
+  // 页面关闭监听器（如拦截规则需要在关闭时清理）
+  private pageClosingListeners: Set<PageClosingListener> = new Set();
+  // 页面持久生效的节流配置（页面关闭后自动回收）
+  private pageThrottling: WeakMap<Page, AppliedThrottling> = new WeakMap();
+  // 页面持久生效的设备模拟配置（页面关闭后自动回收）
+  private pageEmulation: WeakMap<Page, AppliedDeviceEmulation> = new WeakMap();
 
   private constructor(config: BrowserConfig = {}) {
     // 优化浏览器启动参数，减少内存占用
@@ -91,6 +123,14 @@ export class BrowserManager {
           return;
         }
 
+        // 连接模式：附加到已运行的 Chrome，而不是启动新进程
+        const connectOptions = this.resolveConnectOptions();
+        if (connectOptions) {
+          await this.connectToBrowser(connectOptions);
+          this.startPageCleanup();
+          return;
+        }
+
         // 尝试查找本地浏览器路径（可选）
         // 如果找不到本地浏览器，puppeteer 会使用自带的 Chromium
         const executablePath = await this.findChromeExecutablePath();
@@ -110,11 +150,19 @@ export class BrowserManager {
         }
 
         this.browser = await puppeteer.launch(launchOptions);
+        this.connected = false;
 
         // 启动页面清理定时器
         this.startPageCleanup();
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : String(error);
+        const connectOptions = this.resolveConnectOptions();
+        if (connectOptions) {
+          throw new Error(
+            `Failed to connect to browser at ${connectOptions.browserWSEndpoint ?? connectOptions.browserURL}: ${errorMessage}\n` +
+            `Make sure Chrome is running with --remote-debugging-port (e.g. chrome --remote-debugging-port=9222).`
+          );
+        }
         throw new Error(
           `Failed to launch browser: ${errorMessage}\n` +
           `If no local browser is found, puppeteer will use its bundled Chromium.\n` +
@@ -129,6 +177,80 @@ export class BrowserManager {
     return this.initializing;
   }
 
+  /**
+   * 解析连接模式配置
+   * 优先使用 BrowserConfig，其次读取环境变量 PUPPETEER_BROWSER_WS_ENDPOINT / PUPPETEER_BROWSER_URL
+   * 两者都未设置时返回 null，表示使用启动模式
+   */
+  private resolveConnectOptions(): { browserURL?: string; browserWSEndpoint?: string } | null {
+    const browserWSEndpoint =
+      this.config.browserWSEndpoint || process.env.PUPPETEER_BROWSER_WS_ENDPOINT || undefined;
+    const browserURL =
+      this.config.browserURL || process.env.PUPPETEER_BROWSER_URL || undefined;
+
+    if (browserWSEndpoint) {
+      return { browserWSEndpoint };
+    }
+    if (browserURL) {
+      return { browserURL };
+    }
+    return null;
+  }
+
+  /**
+   * 附加到已运行的浏览器，并把已有标签页登记到 pages 中
+   */
+  private async connectToBrowser(options: {
+    browserURL?: string;
+    browserWSEndpoint?: string;
+  }): Promise<void> {
+    const browser = await puppeteer.connect({
+      ...options,
+      // 保留用户浏览器原有的窗口尺寸，不强制设置默认视口
+      defaultViewport: null,
+      ignoreHTTPSErrors: true,
+    });
+
+    this.browser = browser;
+    this.connected = true;
+
+    // 用户关闭浏览器或连接断开时，重置状态，下次调用工具时重新连接
+    browser.on('disconnected', () => {
+      if (this.browser === browser) {
+        this.stopPageCleanup();
+        this.browser = null;
+        const trackedPages = Array.from(this.pages.values(), (pageInfo) => pageInfo.page);
+        this.pages.clear();
+        // 通知各处理器释放这些页面的 CDP 会话与状态（连接已断开，释放时的错误由处理器自行忽略）
+        for (const page of trackedPages) {
+          this.notifyPageClosing(page).catch(() => {
+            // 忽略通知错误
+          });
+        }
+      }
+    });
+
+    // 发现已有标签页
+    const existingPages = await browser.pages();
+    for (const page of existingPages) {
+      const pageUrl = page.url();
+      if (!pageUrl || pageUrl === 'about:blank' || page.isClosed()) {
+        continue;
+      }
+      const normalizedUrl = this.normalizeUrl(pageUrl);
+      if (!this.pages.has(normalizedUrl)) {
+        this.pages.set(normalizedUrl, {
+          page,
+          url: normalizedUrl,
+          createdAt: new Date(),
+          attached: true,
+        });
+        // 已有标签页与新建页面一样通知监听器（如提前开始网络捕获）
+        await this.notifyPageCreated(page);
+      }
+    }
+  }
+
   /**
    * 查找并验证 Chrome/Chromium 可执行文件路径
    * 支持跨平台和自定义路径
@@ -214,7 +336,7 @@ export class BrowserManager {
   /**
    * 获取或创建页面
    */
-  public async getPage(url?: string): Promise<Page> {
+  public async getPage(url?: string, options: PageOptions = {}): Promise<Page> {
     if (!this.browser) {
       await this.initialize();
     }
@@ -232,6 +354,9 @@ export class BrowserManager {
         const pageInfo = this.pages.get(normalizedUrl)!;
         // 检查页面是否仍然有效
         if (!pageInfo.page.isClosed()) {
+          if (options.emulation) {
+            await this.setEmulation(pageInfo.page, options.emulation);
+          }
           return pageInfo.page;
         } else {
           // 页面已关闭，移除并创建新页面
@@ -243,8 +368,7 @@ export class BrowserManager {
       await this.cleanupOldPagesIfNeeded();
 
       // 创建新页面
-      const page = await this.browser.newPage();
-      await page.setViewport({ width: 1920, height: 1080 });
+      const page = await this.createPage(options.emulation);
 
       // 导航到 URL
       await page.goto(url, {
@@ -265,21 +389,130 @@ export class BrowserManager {
     // 如果没有提供 URL，返回第一个可用页面或创建新页面
     const firstPage = Array.from(this.pages.values())[0];
     if (firstPage && !firstPage.page.isClosed()) {
+      if (options.emulation) {
+        await this.setEmulation(firstPage.page, options.emulation);
+      }
       return firstPage.page;
     }
 
     // 创建新页面
-    const page = await this.browser.newPage();
-    await page.setViewport({ width: 1920, height: 1080 });
+    return this.createPage(options.emulation);
+  }
+
+  /**
+   * 创建新页面并通知监听器（未指定设备模拟时使用默认视口）
+   */
+  private async createPage(emulation?: AppliedDeviceEmulation): Promise<Page> {
+    const page = await this.browser!.newPage();
+    if (emulation) {
+      await this.setEmulation(page, emulation);
+    } else {
+      await page.setViewport(DEFAULT_VIEWPORT);
+    }
+
+    await this.notifyPageCreated(page);
     return page;
   }
 
   /**
-   * 导航到指定 URL
+   * 通知页面创建监听器
+   */
+  private async notifyPageCreated(page: Page): Promise<void> {
+    for (const listener of this.pageCreatedListeners) {
+      try {
+        await listener(page);
+      } catch (error) {
+        console.error('Page created listener failed:', error);
+      }
+    }
+  }
+
+  /**
+   * 通知页面关闭监听器
+   */
+  private async notifyPageClosing(page: Page): Promise<void> {
+    for (const listener of this.pageClosingListeners) {
+      try {
+        await listener(page);
+      } catch (error) {
+        console.error('Page closing listener failed:', error);
+      }
+    }
+  }
+
+  /**
+   * 注册页面关闭监听器，返回取消注册函数
    */
-  public async navigate(url: string): Promise<Page> {
-    const page = await this.getPage(url);
+  public onPageClosing(listener: PageClosingListener): () => void {
+    this.pageClosingListeners.add(listener);
+    return () => {
+      this.pageClosingListeners.delete(listener);
+    };
+  }
+
+  /**
+   * 注册页面创建监听器，返回取消注册函数
+   */
+  public onPageCreated(listener: PageCreatedListener): () => void {
+    this.pageCreatedListeners.add(listener);
+    return () => {
+      this.pageCreatedListeners.delete(listener);
+    };
+  }
+
+  /**
+   * 获取页面当前持久生效的节流配置（未节流时返回 undefined）
+   */
+  public getThrottling(page: Page): AppliedThrottling | undefined {
+    return this.pageThrottling.get(page);
+  }
+
+  /**
+   * 在页面上应用节流配置并记录（profile 为 none 时清除记录）
+   */
+  public async setThrottling(page: Page, throttling: AppliedThrottling): Promise<void> {
+    await applyThrottling(page, throttling);
+    if (throttling.profile === 'none') {
+      this.pageThrottling.delete(page);
+    } else {
+      this.pageThrottling.set(page, throttling);
+    }
+  }
+
+  /**
+   * 获取页面当前持久生效的设备模拟配置（使用默认视口时返回 undefined）
+   */
+  public getEmulation(page: Page): AppliedDeviceEmulation | undefined {
+    return this.pageEmulation.get(page);
+  }
+
+  /**
+   * 在页面上应用设备模拟配置并记录，传入 null 时恢复默认视口和 User-Agent
+   */
+  public async setEmulation(page: Page, emulation: AppliedDeviceEmulation | null): Promise<void> {
+    const previous = this.pageEmulation.get(page);
+    // 之前覆盖过 User-Agent 而新配置未覆盖时，恢复浏览器默认值
+    const defaultUserAgent =
+      previous?.userAgent && !emulation?.userAgent && this.browser
+        ? await this.browser.userAgent()
+        : undefined;
+
+    await applyDeviceEmulation(page, emulation ?? { viewport: DEFAULT_VIEWPORT }, defaultUserAgent);
+    if (emulation) {
+      this.pageEmulation.set(page, emulation);
+    } else {
+      this.pageEmulation.delete(page);
+    }
+  }
+
+  /**
+   * 导航到指定 URL（可同时指定设备模拟配置）
+   */
+  public async navigate(url: string, options: PageOptions = {}): Promise<Page> {
     const normalizedUrl = this.normalizeUrl(url);
+    const existing = this.pages.get(normalizedUrl);
+    const reused = existing !== undefined && !existing.page.isClosed();
+    const page = await this.getPage(url, options);
 
     // 如果页面已存在，导航到新 URL
     if (!page.url() || page.url() !== normalizedUrl) {
@@ -299,6 +532,12 @@ export class BrowserManager {
           createdAt: new Date(),
         });
       }
+    } else if (reused && options.emulation) {
+      // 已有页面切换设备后重新加载，使 User-Agent 和移动端布局生效
+      await page.reload({
+        waitUntil: 'networkidle2',
+        timeout: this.config.timeout,
+      });
     }
 
     return page;
@@ -322,11 +561,7 @@ export class BrowserManager {
 
     if (pageInfo && !pageInfo.page.isClosed()) {
       try {
-        // 移除所有事件监听器，防止内存泄漏
-        pageInfo.page.removeAllListeners();
-        await pageInfo.page.close();
-      } catch (error) {
-        // 忽略关闭错误
+        await this.releasePage(pageInfo);
       } finally {
         this.pages.delete(normalizedUrl);
       }
@@ -334,25 +569,38 @@ export class BrowserManager {
   }
 
   /**
-   * 关闭所有页面
+   * 关闭所有页面（连接模式下发现的用户标签页只解除管理，不关闭）
    */
   public async closeAllPages(): Promise<void> {
     const closePromises = Array.from(this.pages.values())
       .filter((info) => !info.page.isClosed())
-      .map(async (info) => {
-        try {
-          // 移除所有事件监听器，防止内存泄漏
-          info.page.removeAllListeners();
-          await info.page.close();
-        } catch (error) {
-          // 忽略关闭错误
-        }
-      });
+      .map((info) => this.releasePage(info));
 
     await Promise.all(closePromises);
     this.pages.clear();
   }
 
+  /**
+   * 通知页面关闭监听器后关闭页面（用户已有的标签页只解除管理，不关闭）
+   *
+   * 所有关闭页面的路径（包括自动清理）都经过这里，保证各处理器能释放该页面的 CDP 会话与状态。
+   */
+  private async releasePage(pageInfo: PageInfo): Promise<void> {
+    if (pageInfo.page.isClosed()) {
+      return;
+    }
+    try {
+      await this.notifyPageClosing(pageInfo.page);
+      // 移除所有事件监听器，防止内存泄漏
+      pageInfo.page.removeAllListeners();
+      if (!pageInfo.attached) {
+        await pageInfo.page.close();
+      }
+    } catch (error) {
+      // 忽略关闭错误
+    }
+  }
+
   /**
    * 启动页面清理定时器
    */
@@ -380,24 +628,22 @@ export class BrowserManager {
    * 清理旧页面（如果超过限制）
    */
   private async cleanupOldPagesIfNeeded(): Promise<void> {
-    if (this.pages.size < this.maxPages) {
+    // 用户已有的标签页不计入数量限制
+    const ownedPages = Array.from(this.pages.entries()).filter(
+      ([, info]) => !info.attached
+    );
+    if (ownedPages.length < this.maxPages) {
       return;
     }
 
     // 按创建时间排序，删除最旧的页面
-    const sortedPages = Array.from(this.pages.entries())
+    const sortedPages = ownedPages
       .sort((a, b) => a[1].createdAt.getTime() - b[1].createdAt.getTime());
 
-    const pagesToRemove = sortedPages.slice(0, this.pages.size - this.maxPages + 1);
+    const pagesToRemove = sortedPages.slice(0, ownedPages.length - this.maxPages + 1);
 
     for (const [url, pageInfo] of pagesToRemove) {
-      try {
-        if (!pageInfo.page.isClosed()) {
-          await pageInfo.page.close();
-        }
-      } catch (error) {
-        // 忽略关闭错误
-      }
+      await this.releasePage(pageInfo);
       this.pages.delete(url);
     }
   }
@@ -413,13 +659,11 @@ export class BrowserManager {
       const age = now - pageInfo.createdAt.getTime();
 
       if (age > maxAge) {
-        try {
-          if (!pageInfo.page.isClosed()) {
-            await pageInfo.page.close();
-          }
-        } catch (error) {
-          // 忽略关闭错误
+        // 用户已有的标签页不参与定期清理
+        if (pageInfo.attached && !pageInfo.page.isClosed()) {
+          continue;
         }
+        await this.releasePage(pageInfo);
         this.pages.delete(url);
       }
     }
@@ -445,14 +689,21 @@ export class BrowserManager {
     await this.closeAllPages();
 
     if (this.browser) {
+      const browser = this.browser;
+      this.browser = null;
       try {
-        await this.browser.close();
+        if (this.connected) {
+          // 连接模式：只断开连接，不关闭用户的浏览器
+          await browser.disconnect();
+        } else {
+          await browser.close();
+        }
       } catch (error) {
         // 忽略关闭错误，可能浏览器已经关闭或进程已终止
         console.error('Error closing browser (may already be closed):', error);
       }
-      this.browser = null;
     }
+    this.connected = false;
 
     // 清除初始化锁
     this.initializing = null;
@@ -480,5 +731,12 @@ export class BrowserManager {
   public isInitialized(): boolean {
     return this.browser !== null;
   }
+
+  /**
+   * 是否处于连接模式（附加到已运行的浏览器）
+   */
+  public isConnectedMode(): boolean {
+    return this.connected;
+  }
 }
 
@@ -0,0 +1,400 @@
+import { CDPSession, Page } from 'puppeteer';
+import { AuditFailure, CategoryAuditResult } from './lighthouse-types.js';
+import {
+  AuditRuleDefinition,
+  MAX_REPORTED_FAILURES,
+  RuleCheck,
+  buildRuleResult,
+  describeBackendNodes,
+  describeElementInPage,
+  scoreAuditRules,
+} from './audit-utils.js';
+
+/**
+ * 可访问性规则（id 与权重参考 Lighthouse / axe-core）
+ */
+export const ACCESSIBILITY_RULES: AuditRuleDefinition[] = [
+  { id: 'image-alt', title: 'Image elements have [alt] attributes', weight: 10 },
+  { id: 'label', title: 'Form elements have associated labels', weight: 7 },
+  { id: 'button-name', title: 'Buttons have an accessible name', weight: 10 },
+  { id: 'link-name', title: 'Links have a discernible name', weight: 7 },
+  { id: 'heading-order', title: 'Heading elements appear in a sequentially-descending order', weight: 3 },
+  { id: 'duplicate-id', title: 'IDs on the page are unique', weight: 3 },
+  { id: 'html-has-lang', title: '<html> element has a [lang] attribute', weight: 7 },
+  { id: 'html-lang-valid', title: '<html> element has a valid value for its [lang] attribute', weight: 7 },
+  { id: 'color-contrast', title: 'Background and foreground colors have a sufficient contrast ratio', weight: 7 },
+];
+
+/**
+ * 最多检查对比度的文本元素数量
+ */
+const MAX_TEXT_ELEMENTS = 500;
+
+const IMAGE_ROLES = new Set(['image', 'img']);
+const FORM_CONTROL_ROLES = new Set([
+  'textbox',
+  'searchbox',
+  'combobox',
+  'listbox',
+  'checkbox',
+  'radio',
+  'slider',
+  'spinbutton',
+  'switch',
+]);
+
+/**
+ * CDP Accessibility.AXNode（仅包含使用到的字段）
+ */
+export interface AXNode {
+  nodeId: string;
+  ignored: boolean;
+  role?: { value?: string };
+  name?: { value?: string };
+  properties?: Array<{ name: string; value: { value?: unknown } }>;
+  backendDOMNodeId?: number;
+}
+
+/**
+ * 基于无障碍树的检查结果（失败节点以 backendNodeId 表示）
+ */
+export interface AXRuleCheck {
+  checked: number;
+  failures: Array<{ backendNodeId?: number; explanation?: string }>;
+}
+
+/**
+ * 页面中收集的 DOM 信息
+ */
+export interface DomAccessibilityFacts {
+  lang: string | null;
+  idCount: number;
+  duplicateIds: Array<{ id: string; count: number; element: AuditFailure }>;
+  textElements: TextElementFacts[];
+}
+
+export interface TextElementFacts {
+  element: AuditFailure;
+  color: string;
+  /**
+   * 从元素自身到根元素的背景色
+   */
+  backgrounds: string[];
+  /**
+   * 元素或祖先存在背景图片（无法确定实际背景色）
+   */
+  backgroundImage: boolean;
+  fontSizePx: number;
+  fontWeight: number;
+}
+
+/**
+ * 运行可访问性审计
+ */
+export async function runAccessibilityAudit(
+  page: Page,
+  client: CDPSession,
+  skipRules: string[] = []
+): Promise<CategoryAuditResult> {
+  const rules = ACCESSIBILITY_RULES.filter((rule) => !skipRules.includes(rule.id));
+
+  const { nodes } = (await client.send('Accessibility.getFullAXTree')) as { nodes: AXNode[] };
+  const axChecks = checkAXTree(nodes);
+
+  const facts = (await page.evaluate(
+    `(${collectDomAccessibilityFactsInPage.toString()})(${describeElementInPage.toString()}, ${MAX_TEXT_ELEMENTS})`
+  )) as DomAccessibilityFacts;
+  const domChecks = checkDomFacts(facts);
+
+  const results = [];
+  for (const rule of rules) {
+    const axCheck = axChecks[rule.id];
+    const check = axCheck ? await resolveAXFailures(client, axCheck) : domChecks[rule.id];
+    results.push(buildRuleResult(rule, check ?? { checked: 0, failures: [] }));
+  }
+
+  return scoreAuditRules(results);
+}
+
+/**
+ * 将无障碍树检查的失败节点转换为选择器（仅解析需要返回的部分）
+ */
+async function resolveAXFailures(client: CDPSession, check: AXRuleCheck): Promise<RuleCheck> {
+  const reported = check.failures.slice(0, MAX_REPORTED_FAILURES);
+  const described = await describeBackendNodes(
+    client,
+    reported.filter((failure) => failure.backendNodeId !== undefined).map((failure) => failure.backendNodeId!)
+  );
+
+  let index = 0;
+  const failures = reported.map((failure) => {
+    const element = failure.backendNodeId !== undefined ? described[index++] : { selector: '(unknown)' };
+    return failure.explanation ? { ...element, explanation: failure.explanation } : element;
+  });
+
+  return { checked: check.checked, failures, failureCount: check.failures.length };
+}
+
+/**
+ * 基于无障碍树检查规则
+ */
+export function checkAXTree(nodes: AXNode[]): Record<string, AXRuleCheck> {
+  const checks: Record<string, AXRuleCheck> = {
+    'image-alt': { checked: 0, failures: [] },
+    label: { checked: 0, failures: [] },
+    'button-name': { checked: 0, failures: [] },
+    'link-name': { checked: 0, failures: [] },
+    'heading-order': { checked: 0, failures: [] },
+  };
+
+  let previousLevel = 0;
+  for (const node of nodes) {
+    if (node.ignored) {
+      continue;
+    }
+    const role = node.role?.value ?? '';
+    const hasName = typeof node.name?.value === 'string' && node.name.value.trim().length > 0;
+    const target = { backendNodeId: node.backendDOMNodeId };
+
+    const ruleId = IMAGE_ROLES.has(role)
+      ? 'image-alt'
+      : FORM_CONTROL_ROLES.has(role)
+        ? 'label'
+        : role === 'button'
+          ? 'button-name'
+          : role === 'link'
+            ? 'link-name'
+            : undefined;
+    if (ruleId) {
+      checks[ruleId].checked++;
+      if (!hasName) {
+        checks[ruleId].failures.push(target);
+      }
+      continue;
+    }
+
+    if (role === 'heading') {
+      const level = Number(node.properties?.find((property) => property.name === 'level')?.value.value);
+      if (!Number.isFinite(level)) {
+        continue;
+      }
+      checks['heading-order'].checked++;
+      // 标题级别逐级递增，不能跳级（如 h2 之后直接出现 h4）
+      if (level > previousLevel + 1 && previousLevel > 0) {
+        checks['heading-order'].failures.push({
+          ...target,
+          explanation: `Heading level jumps from h${previousLevel} to h${level}`,
+        });
+      }
+      previousLevel = level;
+    }
+  }
+
+  return checks;
+}
+
+/**
+ * 基于 DOM 信息检查规则
+ */
+export function checkDomFacts(facts: DomAccessibilityFacts): Record<string, RuleCheck> {
+  const lang = facts.lang?.trim() ?? '';
+
+  return {
+    'duplicate-id': {
+      checked: facts.idCount,
+      failures: facts.duplicateIds.map(({ id, count, element }) => ({
+        ...element,
+        explanation: `id "${id}" is used by ${count} elements`,
+      })),
+    },
+    'html-has-lang': {
+      checked: 1,
+      failures: lang ? [] : [{ selector: 'html', snippet: '<html>', explanation: 'Missing lang attribute' }],
+    },
+    'html-lang-valid': {
+      checked: lang ? 1 : 0,
+      // 缺少 lang 时只由 html-has-lang 报告
+      failures:
+        !lang || /^[a-z]{2,3}(-[a-z0-9]{1,8})*$/i.test(lang)
+          ? []
+          : [{ selector: 'html', explanation: `Invalid lang value "${lang}"` }],
+    },
+    'color-contrast': checkColorContrast(facts.textElements),
+  };
+}
+
+/**
+ * 检查文本与背景的对比度（WCAG AA：普通文本 4.5，大号文本 3）
+ *
+ * 存在背景图片或颜色无法解析的元素不参与检查。
+ */
+export function checkColorContrast(elements: TextElementFacts[]): RuleCheck {
+  const failures: AuditFailure[] = [];
+  let checked = 0;
+
+  for (const element of elements) {
+    if (element.backgroundImage) {
+      continue;
+    }
+    const background = resolveBackground(element.backgrounds);
+    const foreground = parseCssColor(element.color);
+    if (!background || !foreground) {
+      continue;
+    }
+
+    checked++;
+    const ratio = contrastRatio(blend(foreground, background), background);
+    const largeText = element.fontSizePx >= 24 || (element.fontSizePx >= 18.66 && element.fontWeight >= 700);
+    const required = largeText ? 3 : 4.5;
+    if (ratio < required) {
+      failures.push({
+        ...element.element,
+        explanation: `Contrast ratio ${ratio.toFixed(2)}:1 is below ${required}:1 (${element.color} on ${toCssColor(background)})`,
+      });
+    }
+  }
+
+  return { checked, failures };
+}
+
+type Rgba = [number, number, number, number];
+
+/**
+ * 解析 getComputedStyle 返回的 rgb()/rgba() 颜色
+ */
+export function parseCssColor(value: string): Rgba | null {
+  const match = /^rgba?\(\s*([\d.]+)[,\s]+([\d.]+)[,\s]+([\d.]+)(?:\s*[,/]\s*([\d.]+%?))?\s*\)$/i.exec(value.trim());
+  if (!match) {
+    return value.trim() === 'transparent' ? [0, 0, 0, 0] : null;
+  }
+  const alpha = match[4] === undefined
+    ? 1
+    : match[4].endsWith('%')
+      ? parseFloat(match[4]) / 100
+      : parseFloat(match[4]);
+  return [parseFloat(match[1]), parseFloat(match[2]), parseFloat(match[3]), alpha];
+}
+
+/**
+ * 由内到外叠加背景色，最终叠加在白色画布上
+ */
+function resolveBackground(backgrounds: string[]): Rgba | null {
+  let result: Rgba = [255, 255, 255, 1];
+  for (let i = backgrounds.length - 1; i >= 0; i--) {
+    const color = parseCssColor(backgrounds[i]);
+    if (!color) {
+      return null;
+    }
+    result = blend(color, result);
+  }
+  return result;
+}
+
+function blend(top: Rgba, bottom: Rgba): Rgba {
+  const alpha = top[3];
+  return [
+    top[0] * alpha + bottom[0] * (1 - alpha),
+    top[1] * alpha + bottom[1] * (1 - alpha),
+    top[2] * alpha + bottom[2] * (1 - alpha),
+    1,
+  ];
+}
+
+/**
+ * WCAG 2.x 对比度
+ */
+export function contrastRatio(a: Rgba, b: Rgba): number {
+  const luminance = (color: Rgba) => {
+    const [r, g, b] = color.slice(0, 3).map((channel) => {
+      const c = channel / 255;
+      return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+    });
+    return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+  };
+  const [lighter, darker] = [luminance(a), luminance(b)].sort((x, y) => y - x);
+  return (lighter + 0.05) / (darker + 0.05);
+}
+
+function toCssColor(color: Rgba): string {
+  return `rgb(${Math.round(color[0])}, ${Math.round(color[1])}, ${Math.round(color[2])})`;
+}
+
+/**
+ * 在页面中收集可访问性相关的 DOM 信息
+ *
+ * 注意：该函数会被序列化后在页面中执行，不能引用外部变量。
+ */
+function collectDomAccessibilityFactsInPage(
+  describe: (el: Element) => AuditFailure,
+  maxTextElements: number
+): DomAccessibilityFacts {
+  const idElements = new Map<string, Element[]>();
+  for (const el of Array.from(document.querySelectorAll('[id]'))) {
+    if (!el.id) {
+      continue;
+    }
+    const list = idElements.get(el.id) ?? [];
+    list.push(el);
+    idElements.set(el.id, list);
+  }
+  const duplicateIds = Array.from(idElements.entries())
+    .filter(([, elements]) => elements.length > 1)
+    .map(([id, elements]) => ({ id, count: elements.length, element: describe(elements[1]) }));
+
+  const textElements: TextElementFacts[] = [];
+  const seen = new Set<Element>();
+  const walker = document.createTreeWalker(document.body ?? document.documentElement, NodeFilter.SHOW_TEXT);
+  while (walker.nextNode() && textElements.length < maxTextElements) {
+    const text = walker.currentNode;
+    const el = text.parentElement;
+    if (!el || seen.has(el) || !text.textContent || !text.textContent.trim()) {
+      continue;
+    }
+    seen.add(el);
+    if (['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE'].includes(el.tagName)) {
+      continue;
+    }
+    const style = getComputedStyle(el);
+    if (
+      el.getClientRects().length === 0 ||
+      style.visibility === 'hidden' ||
+      style.display === 'none' ||
+      parseFloat(style.opacity) === 0
+    ) {
+      continue;
+    }
+
+    const backgrounds: string[] = [];
+    let backgroundImage = false;
+    let current: Element | null = el;
+    while (current) {
+      const currentStyle = getComputedStyle(current);
+      if (currentStyle.backgroundImage && currentStyle.backgroundImage !== 'none') {
+        backgroundImage = true;
+        break;
+      }
+      backgrounds.push(currentStyle.backgroundColor);
+      // 遇到不透明背景即可停止
+      if (/^rgb\(/.test(currentStyle.backgroundColor)) {
+        break;
+      }
+      current = current.parentElement;
+    }
+
+    textElements.push({
+      element: describe(el),
+      color: style.color,
+      backgrounds,
+      backgroundImage,
+      fontSizePx: parseFloat(style.fontSize),
+      fontWeight: parseInt(style.fontWeight, 10) || 400,
+    });
+  }
+
+  return {
+    lang: document.documentElement.getAttribute('lang'),
+    idCount: idElements.size,
+    duplicateIds,
+    textElements,
+  };
+}
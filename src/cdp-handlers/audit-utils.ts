@@ -0,0 +1,143 @@
+import { CDPSession } from 'puppeteer';
+import { AuditFailure, AuditRuleResult, CategoryAuditResult } from './lighthouse-types.js';
+
+/**
+ * 每条规则最多返回的失败项数量
+ */
+export const MAX_REPORTED_FAILURES = 10;
+
+/**
+ * 审计过程中创建的远程对象分组（结束时统一释放）
+ */
+const AUDIT_OBJECT_GROUP = 'mcp-audit';
+
+/**
+ * 审计规则定义
+ */
+export interface AuditRuleDefinition {
+  id: string;
+  title: string;
+  weight: number;
+}
+
+/**
+ * 规则的检查结果（失败项尚未截断）
+ */
+export interface RuleCheck {
+  checked: number;
+  failures: AuditFailure[];
+  /**
+   * 失败总数（failures 已截断时提供）
+   */
+  failureCount?: number;
+}
+
+/**
+ * 在页面中描述元素（生成 CSS 选择器和开始标签片段）
+ *
+ * 注意：该函数会被序列化后在页面中执行，不能引用外部变量。
+ */
+export function describeElementInPage(el: Element): AuditFailure {
+  const escape = (value: string) => (typeof CSS !== 'undefined' && CSS.escape ? CSS.escape(value) : value);
+  const uniqueId = (node: Element) =>
+    node.id && document.querySelectorAll(`#${escape(node.id)}`).length === 1 ? `#${escape(node.id)}` : null;
+
+  const parts: string[] = [];
+  let current: Element | null = el;
+  while (current && current.nodeType === 1) {
+    const id = uniqueId(current);
+    if (id) {
+      parts.unshift(id);
+      break;
+    }
+    const tag = current.tagName.toLowerCase();
+    const parent: Element | null = current.parentElement;
+    if (!parent || tag === 'html') {
+      parts.unshift(tag);
+      break;
+    }
+    const sameTag = Array.from(parent.children).filter((child) => child.tagName === current!.tagName);
+    parts.unshift(sameTag.length > 1 ? `${tag}:nth-of-type(${sameTag.indexOf(current) + 1})` : tag);
+    current = parent;
+  }
+
+  const html = el.outerHTML || '';
+  const openTag = html.slice(0, html.indexOf('>') + 1) || html;
+  return {
+    selector: parts.join(' > '),
+    snippet: openTag.length > 200 ? `${openTag.slice(0, 200)}…` : openTag,
+  };
+}
+
+/**
+ * 根据 backendNodeId 描述元素（用于 Accessibility / DOM 域返回的节点）
+ */
+export async function describeBackendNodes(
+  client: CDPSession,
+  backendNodeIds: number[]
+): Promise<AuditFailure[]> {
+  const results: AuditFailure[] = [];
+  try {
+    for (const backendNodeId of backendNodeIds) {
+      try {
+        const { object } = (await client.send('DOM.resolveNode', {
+          backendNodeId,
+          objectGroup: AUDIT_OBJECT_GROUP,
+        })) as { object: { objectId?: string } };
+        const response = (await client.send('Runtime.callFunctionOn', {
+          objectId: object.objectId,
+          functionDeclaration: `function () { return (${describeElementInPage.toString()})(this); }`,
+          returnByValue: true,
+        })) as { result: { value?: AuditFailure } };
+        results.push(response.result.value ?? { selector: `backendNodeId=${backendNodeId}` });
+      } catch {
+        // 节点可能已从文档中移除
+        results.push({ selector: `backendNodeId=${backendNodeId}` });
+      }
+    }
+  } finally {
+    try {
+      await client.send('Runtime.releaseObjectGroup', { objectGroup: AUDIT_OBJECT_GROUP });
+    } catch {
+      // 忽略释放错误
+    }
+  }
+  return results;
+}
+
+/**
+ * 生成规则结果（截断失败项）
+ */
+export function buildRuleResult(rule: AuditRuleDefinition, check: RuleCheck): AuditRuleResult {
+  const failureCount = check.failureCount ?? check.failures.length;
+  const status = check.checked === 0 ? 'not-applicable' : failureCount > 0 ? 'fail' : 'pass';
+  return {
+    id: rule.id,
+    title: rule.title,
+    score: status === 'not-applicable' ? undefined : status === 'pass' ? 1 : 0,
+    displayValue: failureCount > 0 ? `${failureCount} issue${failureCount > 1 ? 's' : ''}` : undefined,
+    weight: rule.weight,
+    status,
+    checked: check.checked,
+    failureCount,
+    failures: check.failures.slice(0, MAX_REPORTED_FAILURES),
+  };
+}
+
+/**
+ * 按权重计算类别评分：通过规则权重之和 / 适用规则权重之和
+ *
+ * 与 Lighthouse 一致，每条规则只有通过/失败两种结果；没有适用规则时为 100。
+ */
+export function scoreAuditRules(rules: AuditRuleResult[]): CategoryAuditResult {
+  const applicable = rules.filter((rule) => rule.status !== 'not-applicable');
+  const totalWeight = applicable.reduce((sum, rule) => sum + rule.weight, 0);
+  const passedWeight = applicable
+    .filter((rule) => rule.status === 'pass')
+    .reduce((sum, rule) => sum + rule.weight, 0);
+
+  return {
+    score: totalWeight > 0 ? Math.round((passedWeight / totalWeight) * 100) : 100,
+    rules,
+  };
+}
@@ -0,0 +1,396 @@
+import { Page } from 'puppeteer';
+import { ConsoleLogEntry, NetworkRequestEntry } from '../types.js';
+import { AuditFailure, CategoryAuditResult } from './lighthouse-types.js';
+import {
+  AuditRuleDefinition,
+  RuleCheck,
+  buildRuleResult,
+  describeElementInPage,
+  scoreAuditRules,
+} from './audit-utils.js';
+import { DetectedLibrary, findVulnerabilities } from './vulnerable-libraries.js';
+
+/**
+ * 最佳实践规则（id 与权重参考 Lighthouse）
+ */
+export const BEST_PRACTICES_RULES: AuditRuleDefinition[] = [
+  { id: 'is-on-https', title: 'Uses HTTPS', weight: 5 },
+  { id: 'errors-in-console', title: 'No browser errors logged to the console', weight: 1 },
+  { id: 'deprecations', title: 'Avoids deprecated APIs', weight: 5 },
+  { id: 'geolocation-on-start', title: 'Avoids requesting the geolocation permission on page load', weight: 1 },
+  { id: 'notification-on-start', title: 'Avoids requesting the notification permission on page load', weight: 1 },
+  { id: 'image-aspect-ratio', title: 'Displays images with correct aspect ratio', weight: 1 },
+  { id: 'no-vulnerable-libraries', title: 'Avoids front-end JavaScript libraries with known security vulnerabilities', weight: 1 },
+];
+
+/**
+ * 最多检查的图片数量
+ */
+const MAX_IMAGES = 500;
+
+/**
+ * 显示高度与按原始宽高比推算的高度允许的误差（像素）
+ */
+const ASPECT_RATIO_THRESHOLD_PX = 2;
+
+/**
+ * 停止采集前等待异步事件（Audits 问题等）送达的时间
+ */
+const EVENT_FLUSH_DELAY = 100;
+
+/**
+ * 采集期间通过 CDP 观察到的页面行为
+ */
+export interface PageSignals {
+  /**
+   * 采集期间主文档是否完成了一次加载（load 事件）
+   */
+  loadObserved: boolean;
+  /**
+   * 最近一次主文档导航的时间（Unix 时间戳，毫秒）；采集期间未导航时为开始采集的时间
+   */
+  navigatedAt: number;
+  /**
+   * Runtime/Log 域回放及采集期间产生的错误
+   */
+  consoleErrors: Array<{ text: string; url?: string; lineNumber?: number }>;
+  /**
+   * Log 域 violation 消息（如加载时请求定位权限）
+   */
+  violations: Array<{ text: string; url?: string }>;
+  deprecations: Array<{ type: string; url?: string; lineNumber?: number }>;
+  mixedContent: Array<{ insecureURL: string; resolutionStatus?: string }>;
+}
+
+/**
+ * 页面行为采集器
+ */
+export interface PageSignalCollector {
+  /**
+   * 停止采集并返回结果（可重复调用）
+   */
+  stop(): Promise<PageSignals>;
+}
+
+/**
+ * 页面中收集的最佳实践相关 DOM 信息
+ */
+export interface BestPracticesDomFacts {
+  url: string;
+  images: Array<{
+    element: AuditFailure;
+    displayedWidth: number;
+    displayedHeight: number;
+    naturalWidth: number;
+    naturalHeight: number;
+  }>;
+  libraries: DetectedLibrary[];
+}
+
+/**
+ * 最佳实践审计的输入
+ */
+export interface BestPracticesEvidence {
+  facts: BestPracticesDomFacts;
+  signals: PageSignals;
+  /**
+   * ConsoleHandler 在观察窗口内收集的日志（未提供时使用 CDP 回放的错误）
+   */
+  consoleLogs?: ConsoleLogEntry[];
+  networkEntries?: NetworkRequestEntry[];
+}
+
+/**
+ * 开始采集页面行为
+ *
+ * Log/Runtime/Audits 域启用时会回放已记录的消息和问题，因此也能覆盖开始采集之前的加载过程；
+ * violation 消息只在采集期间上报，需要采集期间有一次页面加载才能判断。
+ */
+export async function startPageSignalCollection(page: Page): Promise<PageSignalCollector> {
+  const client = await page.target().createCDPSession();
+  const signals: PageSignals = {
+    loadObserved: false,
+    navigatedAt: Date.now(),
+    consoleErrors: [],
+    violations: [],
+    deprecations: [],
+    mixedContent: [],
+  };
+
+  client.on('Page.frameNavigated', (event: any) => {
+    if (event.frame && !event.frame.parentId) {
+      // 主文档导航后之前的消息不再属于当前页面
+      signals.loadObserved = false;
+      signals.navigatedAt = Date.now();
+      signals.consoleErrors = [];
+      signals.violations = [];
+      signals.deprecations = [];
+      signals.mixedContent = [];
+    }
+  });
+  client.on('Page.loadEventFired', () => {
+    signals.loadObserved = true;
+  });
+  client.on('Log.entryAdded', ({ entry }: any) => {
+    if (entry.source === 'violation') {
+      signals.violations.push({ text: entry.text, url: entry.url });
+    } else if (entry.level === 'error') {
+      signals.consoleErrors.push({ text: entry.text, url: entry.url, lineNumber: entry.lineNumber });
+    }
+  });
+  client.on('Runtime.exceptionThrown', ({ exceptionDetails }: any) => {
+    signals.consoleErrors.push({
+      text: exceptionDetails.exception?.description ?? exceptionDetails.text,
+      url: exceptionDetails.url,
+      lineNumber: exceptionDetails.lineNumber,
+    });
+  });
+  client.on('Runtime.consoleAPICalled', (event: any) => {
+    if (event.type === 'error') {
+      const frame = event.stackTrace?.callFrames?.[0];
+      signals.consoleErrors.push({
+        text: (event.args ?? []).map((arg: any) => arg.value ?? arg.description ?? '').join(' '),
+        url: frame?.url,
+        lineNumber: frame?.lineNumber,
+      });
+    }
+  });
+  client.on('Audits.issueAdded', ({ issue }: any) => {
+    if (issue.code === 'DeprecationIssue') {
+      const details = issue.details.deprecationIssueDetails ?? {};
+      signals.deprecations.push({
+        type: details.type ?? details.message ?? 'Unknown',
+        url: details.sourceCodeLocation?.url,
+        lineNumber: details.sourceCodeLocation?.lineNumber,
+      });
+    } else if (issue.code === 'MixedContentIssue') {
+      const details = issue.details.mixedContentIssueDetails ?? {};
+      signals.mixedContent.push({ insecureURL: details.insecureURL, resolutionStatus: details.resolutionStatus });
+    }
+  });
+
+  try {
+    await client.send('Page.enable');
+    await client.send('Log.enable');
+    await client.send('Log.startViolationsReport', { config: [{ name: 'discouragedAPIUse', threshold: -1 }] });
+    await client.send('Runtime.enable');
+    await client.send('Audits.enable');
+  } catch (error) {
+    await client.detach().catch(() => {});
+    throw error;
+  }
+
+  let stopped: Promise<PageSignals> | undefined;
+  return {
+    stop: () => {
+      stopped ??= (async () => {
+        await new Promise((resolve) => setTimeout(resolve, EVENT_FLUSH_DELAY));
+        try {
+          await client.send('Log.stopViolationsReport');
+          await client.detach();
+        } catch {
+          // 页面可能已关闭，忽略错误
+        }
+        return signals;
+      })();
+      return stopped;
+    },
+  };
+}
+
+/**
+ * 运行最佳实践审计
+ */
+export async function runBestPracticesAudit(
+  page: Page,
+  evidence: Omit<BestPracticesEvidence, 'facts'>,
+  skipRules: string[] = []
+): Promise<CategoryAuditResult> {
+  const facts = (await page.evaluate(
+    `(${collectBestPracticesFactsInPage.toString()})(${describeElementInPage.toString()}, ${MAX_IMAGES})`
+  )) as BestPracticesDomFacts;
+  const checks = checkBestPractices({ ...evidence, facts });
+
+  return scoreAuditRules(
+    BEST_PRACTICES_RULES.filter((rule) => !skipRules.includes(rule.id)).map((rule) =>
+      buildRuleResult(rule, checks[rule.id])
+    )
+  );
+}
+
+/**
+ * 根据观察到的页面行为检查最佳实践规则
+ */
+export function checkBestPractices(evidence: BestPracticesEvidence): Record<string, RuleCheck> {
+  const { facts, signals } = evidence;
+  const onStart = (pattern: RegExp): RuleCheck =>
+    signals.loadObserved
+      ? {
+          checked: 1,
+          failures: signals.violations
+            .filter(({ text }) => pattern.test(text))
+            .map(({ text, url }) => ({ selector: url || facts.url, explanation: text })),
+        }
+      : { checked: 0, failures: [] };
+
+  return {
+    'is-on-https': checkHttps(facts.url, signals, evidence.networkEntries ?? []),
+    'errors-in-console': checkConsoleErrors(signals, evidence.consoleLogs),
+    deprecations: {
+      checked: 1,
+      failures: signals.deprecations.map(({ type, url, lineNumber }) => ({
+        selector: url ? `${url}${lineNumber !== undefined ? `:${lineNumber + 1}` : ''}` : facts.url,
+        explanation: `Deprecated API: ${type}`,
+      })),
+    },
+    'geolocation-on-start': onStart(/geolocation/i),
+    'notification-on-start': onStart(/notification/i),
+    'image-aspect-ratio': {
+      checked: facts.images.length,
+      failures: facts.images.flatMap((image) => {
+        const expectedHeight = (image.displayedWidth * image.naturalHeight) / image.naturalWidth;
+        if (Math.abs(expectedHeight - image.displayedHeight) <= ASPECT_RATIO_THRESHOLD_PX) {
+          return [];
+        }
+        return [
+          {
+            ...image.element,
+            explanation:
+              `Displayed ${image.displayedWidth}x${image.displayedHeight} ` +
+              `(${(image.displayedWidth / image.displayedHeight).toFixed(2)}), ` +
+              `actual ${image.naturalWidth}x${image.naturalHeight} ` +
+              `(${(image.naturalWidth / image.naturalHeight).toFixed(2)})`,
+          },
+        ];
+      }),
+    },
+    'no-vulnerable-libraries': {
+      checked: facts.libraries.length,
+      failures: facts.libraries.flatMap((detected) => {
+        const vulnerabilities = findVulnerabilities(detected);
+        if (vulnerabilities.length === 0) {
+          return [];
+        }
+        return [
+          {
+            selector: `${detected.library}@${detected.version}`,
+            explanation: vulnerabilities
+              .map(({ advisory, severity, summary }) => `${advisory} (${severity}): ${summary}`)
+              .join('; '),
+          },
+        ];
+      }),
+    },
+  };
+}
+
+/**
+ * 检查页面及其子资源是否使用 HTTPS（localhost 视为安全来源）
+ */
+function checkHttps(pageUrl: string, signals: PageSignals, networkEntries: NetworkRequestEntry[]): RuleCheck {
+  const insecure = new Map<string, string>();
+  if (isInsecureUrl(pageUrl)) {
+    insecure.set(pageUrl, 'Page is not served over HTTPS');
+  }
+  for (const entry of networkEntries) {
+    if (isInsecureUrl(entry.url) && !insecure.has(entry.url)) {
+      insecure.set(entry.url, `Insecure ${entry.resourceType} request`);
+    }
+  }
+  for (const { insecureURL, resolutionStatus } of signals.mixedContent) {
+    if (insecureURL && !insecure.has(insecureURL)) {
+      insecure.set(insecureURL, `Mixed content (${resolutionStatus ?? 'unknown resolution'})`);
+    }
+  }
+
+  return {
+    checked: 1,
+    failures: Array.from(insecure, ([url, explanation]) => ({ selector: url, explanation })),
+  };
+}
+
+/**
+ * 检查加载期间的控制台错误（优先使用 ConsoleHandler 的日志）
+ *
+ * 未观察到页面加载时日志可能不完整：发现错误仍判定失败，没有错误则无法判定通过，视为不适用。
+ */
+function checkConsoleErrors(signals: PageSignals, consoleLogs?: ConsoleLogEntry[]): RuleCheck {
+  const errors = consoleLogs
+    ? consoleLogs.filter((entry) => entry.type === 'error')
+    : signals.consoleErrors;
+
+  return {
+    checked: signals.loadObserved || errors.length > 0 ? 1 : 0,
+    failures: errors.map(({ text, url, lineNumber }) => ({
+      selector: url ? `${url}${lineNumber !== undefined ? `:${lineNumber + 1}` : ''}` : 'console',
+      explanation: text.length > 300 ? `${text.slice(0, 300)}…` : text,
+    })),
+  };
+}
+
+function isInsecureUrl(url: string): boolean {
+  try {
+    const { protocol, hostname } = new URL(url);
+    if (protocol !== 'http:' && protocol !== 'ws:') {
+      return false;
+    }
+    return !(hostname === 'localhost' || hostname.endsWith('.localhost') || hostname === '127.0.0.1' || hostname === '[::1]');
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 在页面中收集图片尺寸和前端库版本
+ *
+ * 注意：该函数会被序列化后在页面中执行，不能引用外部变量。
+ */
+function collectBestPracticesFactsInPage(
+  describe: (el: Element) => AuditFailure,
+  maxImages: number
+): BestPracticesDomFacts {
+  const images: BestPracticesDomFacts['images'] = [];
+  for (const img of Array.from(document.images).slice(0, maxImages)) {
+    const style = getComputedStyle(img);
+    // object-fit 会保持宽高比；SVG 可任意缩放
+    if (
+      !img.complete ||
+      img.naturalWidth === 0 ||
+      img.naturalHeight === 0 ||
+      img.clientWidth <= 1 ||
+      img.clientHeight <= 1 ||
+      /^(cover|contain|scale-down)$/.test(style.objectFit) ||
+      /\.svg(?:$|[?#])|^data:image\/svg/i.test(img.currentSrc || img.src)
+    ) {
+      continue;
+    }
+    images.push({
+      element: describe(img),
+      displayedWidth: img.clientWidth,
+      displayedHeight: img.clientHeight,
+      naturalWidth: img.naturalWidth,
+      naturalHeight: img.naturalHeight,
+    });
+  }
+
+  const w = window as any;
+  const libraries: DetectedLibrary[] = [];
+  const add = (library: string, version: unknown) => {
+    if (typeof version === 'string' && version && !libraries.some((lib) => lib.library === library)) {
+      libraries.push({ library, version });
+    }
+  };
+  const jq = w.jQuery || (typeof w.$ === 'function' && w.$.fn ? w.$ : undefined);
+  add('jquery', jq?.fn?.jquery);
+  add('jquery-ui', jq?.ui?.version);
+  add('angularjs', w.angular?.version?.full);
+  if (w._ && typeof w._.VERSION === 'string') {
+    add(typeof w._.flowRight === 'function' ? 'lodash' : 'underscore', w._.VERSION);
+  }
+  add('moment', w.moment?.version);
+  add('handlebars', w.Handlebars?.VERSION);
+  add('bootstrap', w.bootstrap?.Tooltip?.VERSION ?? jq?.fn?.tooltip?.Constructor?.VERSION);
+  add('dompurify', w.DOMPurify?.version);
+
+  return { url: location.href, images, libraries };
+}
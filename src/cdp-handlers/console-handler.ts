@@ -8,6 +8,8 @@ import { BrowserManager } from '../browser-manager.js';
 export class ConsoleHandler {
   private browserManager: BrowserManager;
   private consoleLogs: Map<string, ConsoleLogEntry[]> = new Map();
+  /** 各页面监听器的移除函数（按页面 URL） */
+  private detachers: Map<string, () => void> = new Map();
 
   constructor(browserManager: BrowserManager) {
     this.browserManager = browserManager;
@@ -20,15 +22,9 @@ export class ConsoleHandler {
     params: GetConsoleErrorsParams
   ): Promise<ConsoleLogEntry[]> {
     const page = await this.browserManager.getPage(params.url);
-    const pageUrl = page.url();
-
-    // 如果还没有为该页面设置监听器，设置它
-    if (!this.consoleLogs.has(pageUrl)) {
-      this.setupConsoleListener(page, pageUrl);
-      this.consoleLogs.set(pageUrl, []);
-    }
+    this.ensureListening(page);
 
-    const logs = this.consoleLogs.get(pageUrl) || [];
+    const logs = this.consoleLogs.get(page.url()) || [];
     
     // 根据级别过滤
     if (params.level === 'error') {
@@ -40,17 +36,40 @@ export class ConsoleHandler {
     return logs;
   }
 
+  /**
+   * 确保已为页面设置 Console 监听器（幂等）
+   */
+  public ensureListening(page: Page): void {
+    const pageUrl = page.url();
+    if (!this.detachers.has(pageUrl)) {
+      this.setupConsoleListener(page, pageUrl);
+    }
+    if (!this.consoleLogs.has(pageUrl)) {
+      this.consoleLogs.set(pageUrl, []);
+    }
+  }
+
+  /**
+   * 移除所有页面的监听器并清空日志（所属会话结束时调用）
+   */
+  public dispose(): void {
+    Array.from(this.detachers.values()).forEach((detach) => detach());
+    this.detachers.clear();
+    this.consoleLogs.clear();
+  }
+
+  /**
+   * 获取页面已收集的日志（尚未监听该页面时返回 undefined）
+   */
+  public getPageLogs(page: Page): ConsoleLogEntry[] | undefined {
+    return this.consoleLogs.get(page.url());
+  }
+
   /**
    * 设置 Console 监听器
    * 注意：需要在页面关闭时移除监听器，防止内存泄漏
    */
   private setupConsoleListener(page: Page, pageUrl: string): void {
-    // 监听页面关闭事件，清理监听器
-    const cleanup = () => {
-      this.consoleLogs.delete(pageUrl);
-    };
-    page.once('close', cleanup);
-
     // 监听 Console 消息
     const consoleHandler = (msg: any) => {
       const type = this.mapConsoleType(msg.type());
@@ -116,13 +135,21 @@ export class ConsoleHandler {
     };
     page.on('requestfailed', requestFailedHandler);
 
-    // 在页面关闭时移除所有监听器
-    page.once('close', () => {
+    const detach = () => {
       page.removeListener('console', consoleHandler);
       page.removeListener('pageerror', pageErrorHandler);
       page.removeListener('requestfailed', requestFailedHandler);
+      page.removeListener('close', closeHandler);
+      this.detachers.delete(pageUrl);
+    };
+
+    // 在页面关闭时移除所有监听器
+    const closeHandler = () => {
+      detach();
       this.consoleLogs.delete(pageUrl);
-    });
+    };
+    page.on('close', closeHandler);
+    this.detachers.set(pageUrl, detach);
   }
 
   /**
@@ -0,0 +1,201 @@
+import { Page } from 'puppeteer';
+import { CoverageEntry } from '../types.js';
+import {
+  CssRuleUsage,
+  V8ScriptCoverage,
+  computeCssUsedBytes,
+  computeJsUsedBytes,
+  createCoverageEntry,
+} from '../utils/coverage-utils.js';
+
+export interface CoverageCollectionOptions {
+  js: boolean;
+  css: boolean;
+  /**
+   * 停止时同时获取脚本源码（导出 Istanbul 格式时需要）
+   */
+  includeSource?: boolean;
+  /**
+   * 只统计字节数：使用函数级覆盖率且不启用 Debugger 域（对脚本执行的影响更小），
+   * 脚本 URL 与长度取自覆盖率结果，不能与 includeSource 同时使用
+   */
+  bytesOnly?: boolean;
+}
+
+export interface CollectedScriptCoverage {
+  url: string;
+  /**
+   * 脚本长度（字符数）
+   */
+  length: number;
+  coverage: V8ScriptCoverage;
+  source?: string;
+}
+
+export interface CollectedStyleSheetCoverage {
+  url: string;
+  length: number;
+  rules: CssRuleUsage[];
+}
+
+export interface CollectedCoverage {
+  scripts: CollectedScriptCoverage[];
+  styleSheets: CollectedStyleSheetCoverage[];
+  limitations: string[];
+}
+
+/**
+ * 覆盖率采集器
+ */
+export interface CoverageCollector {
+  /**
+   * 停止采集并返回结果（可重复调用）
+   */
+  stop(): Promise<CollectedCoverage>;
+}
+
+/**
+ * puppeteer 的 page.evaluate 以及扩展注入的脚本不属于页面代码
+ */
+function isPageScript(url: string): boolean {
+  return url !== '' && !url.startsWith('pptr:') && !url.startsWith('chrome-extension:') && !url.startsWith('extensions::');
+}
+
+/**
+ * 开始采集 JavaScript（Profiler 精确块覆盖率）与 CSS（规则使用跟踪）覆盖率
+ *
+ * Debugger/CSS 域启用时会回放已加载的脚本和样式表，因此采集开始前加载的资源也会被统计；
+ * 但采集开始前已执行过的代码可能被报告为未使用，需要统计页面加载时应在采集开始后重新加载页面。
+ */
+export async function startCoverageCollection(
+  page: Page,
+  options: CoverageCollectionOptions
+): Promise<CoverageCollector> {
+  const client = await page.target().createCDPSession();
+  const scripts = new Map<string, { url: string; length?: number }>();
+  const styleSheets = new Map<string, { url: string; length: number }>();
+
+  client.on('Debugger.scriptParsed', (event: any) => {
+    if (isPageScript(event.url)) {
+      scripts.set(event.scriptId, { url: event.url, length: event.length });
+    }
+  });
+  client.on('CSS.styleSheetAdded', ({ header }: any) => {
+    // 只统计页面自己的样式表（排除浏览器默认样式与 DevTools 注入的样式）
+    if (header.origin === 'regular') {
+      styleSheets.set(header.styleSheetId, { url: header.sourceURL || page.url(), length: header.length ?? 0 });
+    }
+  });
+  client.on('CSS.styleSheetRemoved', ({ styleSheetId }: any) => {
+    styleSheets.delete(styleSheetId);
+  });
+
+  try {
+    if (options.js && options.bytesOnly) {
+      await client.send('Profiler.enable');
+      await client.send('Profiler.startPreciseCoverage', { callCount: false, detailed: false });
+    } else if (options.js) {
+      await client.send('Profiler.enable');
+      await client.send('Profiler.startPreciseCoverage', { callCount: true, detailed: true });
+      await client.send('Debugger.enable');
+      await client.send('Debugger.setSkipAllPauses', { skip: true });
+    }
+    if (options.css) {
+      await client.send('DOM.enable');
+      await client.send('CSS.enable');
+      await client.send('CSS.startRuleUsageTracking');
+    }
+  } catch (error) {
+    await client.detach().catch(() => {});
+    throw error;
+  }
+
+  const collect = async (): Promise<CollectedCoverage> => {
+    const result: CollectedCoverage = { scripts: [], styleSheets: [], limitations: [] };
+
+    if (options.js) {
+      const { result: coverage } = (await client.send('Profiler.takePreciseCoverage')) as {
+        result: V8ScriptCoverage[];
+      };
+      for (const scriptCoverage of coverage) {
+        const script: { url: string; length?: number } | undefined = options.bytesOnly
+          ? isPageScript(scriptCoverage.url)
+            ? { url: scriptCoverage.url }
+            : undefined
+          : scripts.get(scriptCoverage.scriptId);
+        if (!script) {
+          continue;
+        }
+        // 未启用 Debugger 时没有脚本长度，以顶层函数范围的结束位置代替
+        const entry: CollectedScriptCoverage = {
+          url: script.url,
+          length:
+            script.length ??
+            scriptCoverage.functions.reduce(
+              (max, fn) => fn.ranges.reduce((fnMax, range) => Math.max(fnMax, range.endOffset), max),
+              0
+            ),
+          coverage: scriptCoverage,
+        };
+        if (options.includeSource) {
+          try {
+            const { scriptSource } = await client.send('Debugger.getScriptSource', { scriptId: scriptCoverage.scriptId });
+            entry.source = scriptSource;
+            entry.length = scriptSource.length;
+          } catch (error) {
+            result.limitations.push(`source of ${script.url} is not available; script skipped in Istanbul export`);
+          }
+        }
+        result.scripts.push(entry);
+      }
+    }
+
+    if (options.css) {
+      const { ruleUsage } = (await client.send('CSS.stopRuleUsageTracking')) as { ruleUsage: CssRuleUsage[] };
+      const rulesBySheet = new Map<string, CssRuleUsage[]>();
+      for (const rule of ruleUsage ?? []) {
+        const rules = rulesBySheet.get(rule.styleSheetId) ?? [];
+        rules.push(rule);
+        rulesBySheet.set(rule.styleSheetId, rules);
+      }
+      for (const [styleSheetId, sheet] of styleSheets) {
+        result.styleSheets.push({ url: sheet.url, length: sheet.length, rules: rulesBySheet.get(styleSheetId) ?? [] });
+      }
+    }
+
+    return result;
+  };
+
+  let stopped: Promise<CollectedCoverage> | undefined;
+  return {
+    stop: () => {
+      stopped ??= (async () => {
+        try {
+          return await collect();
+        } finally {
+          // 确保 CDP 连接被正确关闭（关闭会话会同时停止覆盖率采集）
+          try {
+            await client.detach();
+          } catch (error) {
+            // 忽略关闭错误
+          }
+        }
+      })();
+      return stopped;
+    },
+  };
+}
+
+/**
+ * 把采集结果转换为覆盖率条目（未排序）
+ */
+export function toCoverageEntries(collected: CollectedCoverage): CoverageEntry[] {
+  return [
+    ...collected.scripts.map((script) =>
+      createCoverageEntry('js', script.url, script.length, computeJsUsedBytes(script.coverage.functions))
+    ),
+    ...collected.styleSheets.map((sheet) =>
+      createCoverageEntry('css', sheet.url, sheet.length, computeCssUsedBytes(sheet.rules))
+    ),
+  ];
+}
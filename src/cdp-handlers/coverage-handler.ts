@@ -0,0 +1,114 @@
+import { CollectCoverageParams, CoverageResult } from '../types.js';
+import { BrowserManager } from '../browser-manager.js';
+import { runScenario } from './scenario-runner.js';
+import { CollectedCoverage, startCoverageCollection, toCoverageEntries } from './coverage-collector.js';
+import { IstanbulFileCoverage, summarizeCoverageEntries, toIstanbulFileCoverage } from '../utils/coverage-utils.js';
+import { exportProfileJson } from '../utils/profile-export-utils.js';
+import { join } from 'node:path';
+import { randomUUID } from 'node:crypto';
+
+const RELOAD_TIMEOUT = 30000;
+
+/**
+ * 生成 Istanbul coverage-final.json（同一 URL 的多个内联脚本以 `#n` 区分）
+ */
+function toIstanbulCoverageMap(collected: CollectedCoverage): Record<string, IstanbulFileCoverage> {
+  const coverageMap: Record<string, IstanbulFileCoverage> = {};
+  for (const script of collected.scripts) {
+    if (script.source === undefined) {
+      continue;
+    }
+    let path = script.url;
+    for (let n = 2; path in coverageMap; n++) {
+      path = `${script.url}#${n}`;
+    }
+    coverageMap[path] = toIstanbulFileCoverage(path, script.source, script.coverage.functions);
+  }
+  return coverageMap;
+}
+
+/**
+ * JavaScript / CSS 覆盖率处理器
+ */
+export class CoverageHandler {
+  private browserManager: BrowserManager;
+
+  constructor(browserManager: BrowserManager) {
+    this.browserManager = browserManager;
+  }
+
+  /**
+   * 采集覆盖率（可重新加载页面或执行场景操作），返回每个脚本与样式表的已用/未用字节数
+   */
+  public async collectCoverage(params: CollectCoverageParams): Promise<CoverageResult> {
+    const page = await this.browserManager.getPage(params.url);
+    const types = params.types?.length ? params.types : ['js', 'css'];
+    const format = params.export?.format ?? 'v8';
+    const exportMode = params.export?.mode ?? 'none';
+
+    const collector = await startCoverageCollection(page, {
+      js: types.includes('js'),
+      css: types.includes('css'),
+      includeSource: format === 'istanbul' && exportMode !== 'none',
+    });
+
+    let collected: CollectedCoverage;
+    try {
+      if (params.reload) {
+        await page.reload({ waitUntil: 'load', timeout: RELOAD_TIMEOUT });
+      }
+      if (params.steps?.length) {
+        await runScenario(page, params.steps, {
+          settleMs: params.settleMs ?? 500,
+          timeout: params.timeout ?? 5000,
+        });
+      }
+      if (params.duration) {
+        await new Promise((resolve) => setTimeout(resolve, params.duration));
+      }
+    } finally {
+      collected = await collector.stop();
+    }
+
+    const limitations = [...collected.limitations];
+    if (!params.reload) {
+      limitations.push('coverage started after the page loaded; code that only ran during load may be reported as unused (set reload to include it)');
+    }
+
+    const entries = toCoverageEntries(collected);
+    const jsEntries = entries.filter((entry) => entry.type === 'js');
+    const cssEntries = entries.filter((entry) => entry.type === 'css');
+
+    let exportInfo: CoverageResult['export'] = { mode: exportMode };
+    if (exportMode !== 'none') {
+      if (types.includes('css')) {
+        limitations.push('coverage export contains JavaScript only');
+      }
+      const raw =
+        format === 'istanbul'
+          ? JSON.stringify(toIstanbulCoverageMap(collected))
+          : JSON.stringify({ result: collected.scripts.map((script) => script.coverage) });
+      exportInfo = {
+        ...(await exportProfileJson(raw, {
+          mode: exportMode,
+          filePath: params.export?.filePath,
+          defaultFilePath: join('.', '.coverage', `coverage-${format}-${Date.now()}-${randomUUID()}.json`),
+          maxInlineBytes: params.export?.maxInlineBytes ?? 64 * 1024, // 64KB
+        })),
+        format,
+      };
+    }
+
+    return {
+      url: page.url(),
+      timestamp: Date.now(),
+      summary: {
+        js: types.includes('js') ? summarizeCoverageEntries(jsEntries) : undefined,
+        css: types.includes('css') ? summarizeCoverageEntries(cssEntries) : undefined,
+      },
+      entries: entries.sort((a, b) => b.unusedBytes - a.unusedBytes).slice(0, params.topN ?? 50),
+      export: exportInfo,
+      limitations: limitations.length ? limitations : undefined,
+    };
+  }
+}
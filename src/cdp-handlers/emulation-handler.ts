@@ -0,0 +1,61 @@
+import {
+  EmulateDeviceParams,
+  EmulateDeviceResult,
+  SetThrottlingParams,
+  SetThrottlingResult,
+} from '../types.js';
+import { BrowserManager } from '../browser-manager.js';
+import { resolveThrottling } from '../utils/throttling-utils.js';
+import { resolveDeviceEmulation } from '../utils/device-utils.js';
+
+/**
+ * 页面环境模拟处理器（网络与 CPU 节流、设备与视口模拟）
+ */
+export class EmulationHandler {
+  private browserManager: BrowserManager;
+
+  constructor(browserManager: BrowserManager) {
+    this.browserManager = browserManager;
+  }
+
+  /**
+   * 设置页面的节流配置（持续生效，直到再次设置或页面关闭）
+   */
+  public async setThrottling(params: SetThrottlingParams): Promise<SetThrottlingResult> {
+    const { url, ...options } = params;
+    const throttling = resolveThrottling(options);
+    const page = await this.browserManager.getPage(url);
+    const previous = this.browserManager.getThrottling(page);
+
+    await this.browserManager.setThrottling(page, throttling);
+
+    return {
+      url: page.url(),
+      throttling,
+      previous,
+    };
+  }
+
+  /**
+   * 设置页面的设备模拟配置（持续生效，后续截图、元素检查和性能分析均使用该设备）
+   */
+  public async emulateDevice(params: EmulateDeviceParams): Promise<EmulateDeviceResult> {
+    const { url, reset, reload, ...options } = params;
+    const emulation = reset ? null : resolveDeviceEmulation(options);
+    const page = await this.browserManager.getPage(url);
+    const previous = this.browserManager.getEmulation(page);
+
+    await this.browserManager.setEmulation(page, emulation);
+
+    if (reload) {
+      await page.reload({ waitUntil: 'networkidle2' });
+    }
+
+    return {
+      url: page.url(),
+      emulation: emulation ?? undefined,
+      previous,
+      reloaded: reload === true,
+    };
+  }
+}
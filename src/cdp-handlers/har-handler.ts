@@ -0,0 +1,165 @@
+import { Page } from 'puppeteer';
+import {
+  ExportHarParams,
+  ExportHarResult,
+  HarExportResult,
+  NetworkRequestEntry,
+} from '../types.js';
+import { BrowserManager } from '../browser-manager.js';
+import { NetworkHandler } from './network-handler.js';
+import { PerformanceHandler } from './performance-handler.js';
+import { buildHar, HarResponseBody, saveHarToFile } from '../utils/har-utils.js';
+
+const DEFAULT_MAX_INLINE_BYTES = 100 * 1024; // 100KB
+const DEFAULT_MAX_BODY_BYTES = 64 * 1024; // 64KB
+
+/**
+ * HAR 导出处理器（基于 NetworkHandler 的页面网络捕获）
+ */
+export class HarHandler {
+  private browserManager: BrowserManager;
+  private networkHandler: NetworkHandler;
+  private performanceHandler: PerformanceHandler;
+
+  constructor(
+    browserManager: BrowserManager,
+    networkHandler: NetworkHandler,
+    performanceHandler: PerformanceHandler
+  ) {
+    this.browserManager = browserManager;
+    this.networkHandler = networkHandler;
+    this.performanceHandler = performanceHandler;
+  }
+
+  /**
+   * 导出页面网络请求为 HAR 1.2
+   */
+  public async exportHar(params: ExportHarParams): Promise<ExportHarResult> {
+    const page = await this.browserManager.getPage(params.url);
+    const limitations: string[] = [];
+
+    if (!this.networkHandler.isCapturing(page)) {
+      limitations.push('网络捕获在本次调用时才开始，HAR 不包含之前的请求；请刷新页面或重新执行操作后再次导出');
+    }
+    const entries = await this.networkHandler.getEntries(page, params.urlPattern);
+
+    const pageTimings = await this.getPageTimings(params.url, limitations);
+
+    const bodies = new Map<NetworkRequestEntry, HarResponseBody>();
+    if (params.includeBodies) {
+      await this.collectBodies(page, entries, params.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES, bodies);
+    }
+
+    let title = '';
+    try {
+      title = await page.title();
+    } catch {
+      // 忽略错误
+    }
+
+    const har = buildHar({
+      entries,
+      page: { url: page.url(), title, ...pageTimings },
+      bodies,
+    });
+
+    const exportInfo = await this.writeExport(JSON.stringify(har, null, 2), params, limitations);
+
+    return {
+      url: page.url(),
+      entryCount: entries.length,
+      bodiesIncluded: Array.from(bodies.values()).filter((body) => body.text !== undefined).length,
+      pageTimings,
+      export: exportInfo,
+      limitations: limitations.length ? limitations : undefined,
+    };
+  }
+
+  /**
+   * 从 PerformanceHandler 获取页面时间（失败时为 -1）
+   */
+  private async getPageTimings(
+    url: string | undefined,
+    limitations: string[]
+  ): Promise<{ onContentLoad: number; onLoad: number }> {
+    try {
+      const summary = await this.performanceHandler.getPerformanceSummary({ url });
+      return {
+        onContentLoad: summary.domContentLoaded > 0 ? Math.round(summary.domContentLoaded) : -1,
+        onLoad: summary.loadTime > 0 ? Math.round(summary.loadTime) : -1,
+      };
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      limitations.push(`failed to read page timings: ${msg}`);
+      return { onContentLoad: -1, onLoad: -1 };
+    }
+  }
+
+  /**
+   * 获取响应体（超出大小上限或不可用时记录原因）
+   */
+  private async collectBodies(
+    page: Page,
+    entries: NetworkRequestEntry[],
+    maxBodyBytes: number,
+    bodies: Map<NetworkRequestEntry, HarResponseBody>
+  ): Promise<void> {
+    for (const entry of entries) {
+      // 重定向、失败和未完成的请求没有响应体
+      if (!entry.finished || entry.failed || entry.redirectedTo) {
+        continue;
+      }
+      if (entry.dataLength !== undefined && entry.dataLength > maxBodyBytes) {
+        bodies.set(entry, { comment: `body omitted: ${entry.dataLength} bytes exceeds maxBodyBytes (${maxBodyBytes})` });
+        continue;
+      }
+
+      try {
+        const { body, base64Encoded } = await this.networkHandler.getResponseBody(page, entry.requestId);
+        const size = base64Encoded ? Math.floor((body.length * 3) / 4) : Buffer.byteLength(body, 'utf8');
+        if (size > maxBodyBytes) {
+          bodies.set(entry, { comment: `body omitted: ${size} bytes exceeds maxBodyBytes (${maxBodyBytes})` });
+        } else {
+          bodies.set(entry, { text: body, base64Encoded });
+        }
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : String(error);
+        bodies.set(entry, { comment: `body unavailable: ${msg}` });
+      }
+    }
+  }
+
+  /**
+   * 按输出模式导出 HAR
+   */
+  private async writeExport(
+    json: string,
+    params: ExportHarParams,
+    limitations: string[]
+  ): Promise<HarExportResult> {
+    const outputMode = params.outputMode ?? 'auto';
+    const maxInlineBytes = params.maxInlineBytes ?? DEFAULT_MAX_INLINE_BYTES;
+    const bytes = Buffer.byteLength(json, 'utf8');
+
+    if (outputMode === 'file' || (outputMode === 'auto' && bytes > maxInlineBytes)) {
+      const { filePath, size } = await saveHarToFile(json, params.filePath);
+      return { mode: 'file', filePath, fileBytes: size };
+    }
+
+    if (bytes <= maxInlineBytes) {
+      return { mode: 'inline', inline: json, inlineBytes: bytes, maxInlineBytes };
+    }
+
+    const inline = Buffer.from(json, 'utf8').subarray(0, maxInlineBytes).toString('utf8');
+    limitations.push(
+      `inline HAR truncated (${bytes} > maxInlineBytes ${maxInlineBytes}); use outputMode "file" for a valid HAR file`
+    );
+    return {
+      mode: 'inline',
+      inline,
+      inlineBytes: Buffer.byteLength(inline, 'utf8'),
+      truncated: true,
+      maxInlineBytes,
+    };
+  }
+}
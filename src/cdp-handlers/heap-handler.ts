@@ -1,21 +1,100 @@
-import { Page } from 'puppeteer';
+import { Page, CDPSession } from 'puppeteer';
 import {
   HeapSnapshot,
   MemoryAnalysis,
+  MemoryDomCounters,
+  BrowserProcessMemory,
   AllocationTracking,
   AllocationTrackingSummary,
   AllocationTrackingTopStack,
+  HeapSnapshotExportResult,
   GetHeapSnapshotParams,
   AnalyzeMemoryParams,
   TrackAllocationsParams,
+  CompareHeapSnapshotsParams,
+  CompareHeapSnapshotsResult,
+  FindRetainerPathsParams,
+  FindRetainerPathsResult,
+  RetainedHeapNode,
+  FindDetachedDomParams,
+  FindDetachedDomResult,
+  DetachedDomTree,
+  DetectMemoryLeakParams,
+  DetectMemoryLeakResult,
 } from '../types.js';
 import { BrowserManager } from '../browser-manager.js';
+import { runScenario } from './scenario-runner.js';
+import {
+  ParsedHeapSnapshot,
+  diffHeapSnapshots,
+  findMonotonicGrowth,
+  heapNodeClassName,
+  loadHeapSnapshotFile,
+  readHeapNode,
+  summarizeHeapSnapshotByClass,
+} from '../utils/heap-snapshot-utils.js';
+import { HeapSnapshotSections, readHeapSnapshotSectionsOffThread } from '../utils/heap-snapshot-stream.js';
+import { SamplingHeapProfile, summarizeSamplingHeapProfile } from '../utils/heap-profile-utils.js';
+import { exportProfileJson } from '../utils/profile-export-utils.js';
+import {
+  aggregateRetainedSize,
+  buildHeapGraph,
+  describeHeapNode,
+  detachedDomTag,
+  findRetainerPaths,
+  groupDetachedDomTrees,
+} from '../utils/heap-graph.js';
 import { createWriteStream } from 'node:fs';
 import { mkdir, readFile, rm, stat } from 'node:fs/promises';
 import { tmpdir } from 'node:os';
 import { dirname, join } from 'node:path';
 import { randomUUID } from 'node:crypto';
 
+/**
+ * 每个页面保留的已导出快照记录数
+ */
+const MAX_STORED_SNAPSHOTS = 10;
+
+/**
+ * raw snapshot 采集与流式解析的默认字节上限（两者一致，采集到的快照默认都能被解析）
+ */
+const DEFAULT_MAX_SNAPSHOT_BYTES = 1024 * 1024 * 1024; // 1GB
+const DEFAULT_MAX_PARSE_BYTES = 1024 * 1024 * 1024; // 1GB
+
+/**
+ * 泄漏检测中忽略的引擎内部分组（随 JIT 编译和内部缓存自然增长）
+ */
+const INTERNAL_HEAP_CLASSES = new Set(['(system)', '(compiled code)', '(synthetic)']);
+
+/**
+ * analyze_memory 默认统计存活对象数的构造函数
+ */
+const DEFAULT_COUNTED_CONSTRUCTORS = [
+  'Object',
+  'Array',
+  'Function',
+  'Promise',
+  'Map',
+  'Set',
+  'ArrayBuffer',
+  'EventTarget',
+  'Node',
+  'Element',
+];
+
+/**
+ * 从 /proc/<pid>/status 读取进程常驻内存（字节），读取失败时返回 undefined
+ */
+async function readProcessRssBytes(pid: number): Promise<number | undefined> {
+  try {
+    const status = await readFile(`/proc/${pid}/status`, 'utf8');
+    const match = /^VmRSS:\s+(\d+)\s+kB/m.exec(status);
+    return match ? Number(match[1]) * 1024 : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
 /**
  * 内存堆栈分析器
  */
@@ -41,8 +120,8 @@ export class HeapHandler {
       const topN = params.topN ?? 20;
       const exportMode = params.export?.mode ?? 'none';
       const maxInlineBytes = params.export?.maxInlineBytes ?? 64 * 1024; // 64KB
-      const maxSnapshotBytes = params.maxSnapshotBytes ?? 200 * 1024 * 1024; // 200MB
-      const maxParseBytes = params.maxParseBytes ?? 50 * 1024 * 1024; // 50MB
+      const maxSnapshotBytes = params.maxSnapshotBytes ?? DEFAULT_MAX_SNAPSHOT_BYTES;
+      const maxParseBytes = params.maxParseBytes ?? DEFAULT_MAX_PARSE_BYTES;
 
       const limitations: string[] = [];
       const shouldReturnFile = exportMode === 'file' || exportMode === 'both';
@@ -112,8 +191,10 @@ export class HeapHandler {
             `raw heap snapshot size (${fileSize}) exceeded maxParseBytes (${maxParseBytes}); parsing skipped`
           );
         } else {
-          const raw = await readFile(snapshotFilePath, 'utf8');
-          const parsedResult = this.parseV8HeapSnapshot(raw, topN);
+          const parsedResult = this.parseV8HeapSnapshot(
+            await loadHeapSnapshotFile(snapshotFilePath, maxParseBytes, limitations),
+            topN
+          );
           parsed = true;
           totalNodes = parsedResult.totalNodes;
           totalSizeBytes = parsedResult.totalSizeBytes;
@@ -171,7 +252,7 @@ export class HeapHandler {
         );
       }
 
-      return {
+      const result: HeapSnapshot = {
         timestamp: Date.now(),
         summary: {
           parsed,
@@ -194,6 +275,15 @@ export class HeapHandler {
         totalSize: legacyTotalSize,
         totalNodes: legacyTotalNodes,
       };
+
+      // 记录完整导出到文件的快照，供 compare_heap_snapshots 使用 "latest"
+      if (exportInfo.filePath && !snapshotTruncated && !streamError) {
+        const stored = this.snapshots.get(page.url()) ?? [];
+        stored.push(result);
+        this.snapshots.set(page.url(), stored.slice(-MAX_STORED_SNAPSHOTS));
+      }
+
+      return result;
     } finally {
       // 确保 CDP 连接被正确关闭
       try {
@@ -214,36 +304,50 @@ export class HeapHandler {
     const client = await page.target().createCDPSession();
 
     try {
+      const limitations: string[] = [];
+
       // 启用 Runtime 和 HeapProfiler
       await client.send('Runtime.enable');
       await client.send('HeapProfiler.enable');
 
-      // 获取堆使用情况
-      const heapUsage = await page.evaluate(() => {
-        if ((performance as any).memory) {
-          const memory = (performance as any).memory;
-          return {
-            heapUsed: memory.usedJSHeapSize,
-            heapTotal: memory.totalJSHeapSize,
-            external: 0,
-            rss: 0,
-          };
-        }
-        return {
-          heapUsed: 0,
-          heapTotal: 0,
-          external: 0,
-          rss: 0,
+      const heapUsage = await this.getHeapUsage(page, client, limitations);
+
+      // 按构造函数统计存活对象数
+      const objectCounts = await this.getObjectCounts(
+        client,
+        params.constructors?.length ? params.constructors : DEFAULT_COUNTED_CONSTRUCTORS,
+        limitations
+      );
+
+      let domCounters: MemoryDomCounters | undefined;
+      try {
+        const counters = await client.send('Memory.getDOMCounters');
+        domCounters = {
+          documents: counters.documents,
+          nodes: counters.nodes,
+          jsEventListeners: counters.jsEventListeners,
         };
-      });
+      } catch (e) {
+        const msg = e instanceof Error ? e.message : String(e);
+        limitations.push(`Memory.getDOMCounters failed: ${msg}`);
+      }
 
-      // 获取对象统计（通过采样）
-      const objectCounts = await this.getObjectCounts(client);
+      // CDP 无法定位页面所在的渲染进程，只能统计浏览器内所有渲染进程的合计
+      const processes = await this.getBrowserProcesses(page, limitations);
+      const rendererRssTotal = (processes ?? [])
+        .filter((p) => p.type === 'renderer')
+        .reduce((sum, p) => sum + (p.rssBytes ?? 0), 0);
 
       return {
         ...heapUsage,
+        rendererRssTotal,
+        // deprecated legacy field（下个 major 移除）
+        rss: rendererRssTotal,
         timestamp: Date.now(),
         objectCounts,
+        domCounters,
+        processes,
+        limitations: limitations.length ? limitations : undefined,
       };
     } finally {
       // 确保 CDP 连接被正确关闭
@@ -269,10 +373,11 @@ export class HeapHandler {
       const now = Date.now();
       const durationMs = params.duration ?? 5000;
       const topN = params.topN ?? 20;
+      const mode = params.mode ?? 'tracking';
       const exportMode = params.export?.mode ?? 'none';
       const maxInlineBytes = params.export?.maxInlineBytes ?? 64 * 1024; // 64KB
-      const maxSnapshotBytes = params.maxSnapshotBytes ?? 200 * 1024 * 1024; // 200MB
-      const maxParseBytes = params.maxParseBytes ?? 50 * 1024 * 1024; // 50MB
+      const maxSnapshotBytes = params.maxSnapshotBytes ?? DEFAULT_MAX_SNAPSHOT_BYTES;
+      const maxParseBytes = params.maxParseBytes ?? DEFAULT_MAX_PARSE_BYTES;
 
       const limitations: string[] = [];
       const shouldReturnFile = exportMode === 'file' || exportMode === 'both';
@@ -286,71 +391,88 @@ export class HeapHandler {
         });
       }
 
-      const beforeUsedBytes = await this.getPerformanceMemoryUsedBytes(page);
-
-      // 开始跟踪分配（启用 allocation tracking）
-      await client.send('HeapProfiler.startTrackingHeapObjects', {
-        trackAllocations: true,
-      });
-
-      // 等待指定时间
-      await new Promise((resolve) => setTimeout(resolve, durationMs));
-
-      // 采集“带 trace 的 heap snapshot”（作为 raw allocation profile）
-      const capture = await this.captureHeapSnapshotRaw({
-        client,
-        exportMode,
-        exportFilePath: params.export?.filePath,
-        maxInlineBytes,
-        maxSnapshotBytes,
-        fileNamePrefix: 'alloc',
-        limitations,
-      });
-
-      // 停止跟踪
-      await client.send('HeapProfiler.stopTrackingHeapObjects', {
-        reportProgress: false,
-      });
-
-      const { snapshotFilePath, isTempFile, fileBytesWritten, snapshotTruncated, streamError, exportInfo } =
-        capture;
-
-      const afterUsedBytes = await this.getPerformanceMemoryUsedBytes(page);
-      const approxAllocatedBytes =
-        typeof beforeUsedBytes === 'number' && typeof afterUsedBytes === 'number'
-          ? Math.max(0, afterUsedBytes - beforeUsedBytes)
-          : 0;
-
       let summary: AllocationTrackingSummary | undefined;
+      let exportInfo: HeapSnapshotExportResult | undefined;
+      let approxAllocatedBytes = 0;
+
+      if (mode === 'sampling') {
+        const sampled = await this.sampleAllocations({
+          client,
+          durationMs,
+          samplingInterval: params.samplingInterval ?? 32768,
+          includeCollected: params.includeCollected ?? false,
+          topN,
+          exportMode,
+          exportFilePath: params.export?.filePath,
+          maxInlineBytes,
+          limitations,
+        });
+        summary = sampled.summary;
+        exportInfo = sampled.exportInfo;
+      } else {
+        const beforeUsedBytes = await this.getPerformanceMemoryUsedBytes(page);
+
+        // 开始跟踪分配（启用 allocation tracking）
+        await client.send('HeapProfiler.startTrackingHeapObjects', {
+          trackAllocations: true,
+        });
 
-      try {
-        if (streamError) {
-          throw streamError;
-        }
-        const st = await stat(snapshotFilePath).catch(() => null);
-        const fileSize = st?.size ?? fileBytesWritten;
+        // 等待指定时间
+        await new Promise((resolve) => setTimeout(resolve, durationMs));
+
+        // 采集“带 trace 的 heap snapshot”（作为 raw allocation profile）
+        const capture = await this.captureHeapSnapshotRaw({
+          client,
+          exportMode,
+          exportFilePath: params.export?.filePath,
+          maxInlineBytes,
+          maxSnapshotBytes,
+          fileNamePrefix: 'alloc',
+          limitations,
+        });
 
-        if (snapshotTruncated) {
-          // 已在 limitations 记录
-        } else if (fileSize > maxParseBytes) {
-          limitations.push(
-            `raw allocation profile size (${fileSize}) exceeded maxParseBytes (${maxParseBytes}); parsing skipped`
-          );
-        } else {
-          const raw = await readFile(snapshotFilePath, 'utf8');
-          const parsedTrace = this.parseV8HeapSnapshotAllocationTrace(raw, topN);
-          summary = parsedTrace;
-        }
-      } catch (e) {
-        const msg = e instanceof Error ? e.message : String(e);
-        limitations.push(`failed to parse allocation profile: ${msg}`);
-        summary = { parsed: false };
-      } finally {
-        // 如果不对外导出 file，则删除临时文件
-        if (!shouldReturnFile && isTempFile) {
-          await rm(snapshotFilePath, { force: true }).catch(() => {
-            // ignore
-          });
+        // 停止跟踪
+        await client.send('HeapProfiler.stopTrackingHeapObjects', {
+          reportProgress: false,
+        });
+
+        const { snapshotFilePath, isTempFile, fileBytesWritten, snapshotTruncated, streamError } = capture;
+        exportInfo = capture.exportInfo;
+
+        const afterUsedBytes = await this.getPerformanceMemoryUsedBytes(page);
+        approxAllocatedBytes =
+          typeof beforeUsedBytes === 'number' && typeof afterUsedBytes === 'number'
+            ? Math.max(0, afterUsedBytes - beforeUsedBytes)
+            : 0;
+
+        try {
+          if (streamError) {
+            throw streamError;
+          }
+          const st = await stat(snapshotFilePath).catch(() => null);
+          const fileSize = st?.size ?? fileBytesWritten;
+
+          if (snapshotTruncated) {
+            // 已在 limitations 记录
+          } else if (fileSize > maxParseBytes) {
+            limitations.push(
+              `raw allocation profile size (${fileSize}) exceeded maxParseBytes (${maxParseBytes}); parsing skipped`
+            );
+          } else {
+            const sections = await readHeapSnapshotSectionsOffThread(snapshotFilePath, { includeTrace: true }, limitations);
+            summary = this.parseV8HeapSnapshotAllocationTrace(sections, topN);
+          }
+        } catch (e) {
+          const msg = e instanceof Error ? e.message : String(e);
+          limitations.push(`failed to parse allocation profile: ${msg}`);
+          summary = { parsed: false };
+        } finally {
+          // 如果不对外导出 file，则删除临时文件
+          if (!shouldReturnFile && isTempFile) {
+            await rm(snapshotFilePath, { force: true }).catch(() => {
+              // ignore
+            });
+          }
         }
       }
 
@@ -369,6 +491,7 @@ export class HeapHandler {
       const tracking: AllocationTracking = {
         timestamp: now,
         durationMs,
+        mode,
         summary,
         export: exportInfo,
         limitations: limitations.length ? limitations : undefined,
@@ -392,73 +515,506 @@ export class HeapHandler {
   }
 
   /**
-   * 检测内存泄漏（对比多次快照）
+   * 场景驱动的内存泄漏检测（memlab 风格）
+   *
+   * 先执行 warmupIterations 次场景再采集基准快照，之后每次迭代执行场景、强制 GC 并采集快照，
+   * 对象数在每次迭代后都增长的构造函数被视为泄漏嫌疑。
    */
   public async detectMemoryLeak(
-    url: string,
-    snapshotCount: number = 3,
-    interval: number = 5000
-  ): Promise<{
-    leakDetected: boolean;
-    growthRate: number;
-    snapshots: HeapSnapshot[];
-  }> {
-    const snapshots: HeapSnapshot[] = [];
+    params: DetectMemoryLeakParams
+  ): Promise<DetectMemoryLeakResult> {
+    if (!params.steps?.length) {
+      throw new Error('steps must contain at least one scenario step');
+    }
 
-    for (let i = 0; i < snapshotCount; i++) {
-      const snapshot = await this.getHeapSnapshot({ url });
-      snapshots.push(snapshot);
+    const iterations = params.iterations ?? 5;
+    const warmupIterations = params.warmupIterations ?? 1;
+    const scenario = { settleMs: params.settleMs ?? 500, timeout: params.timeout ?? 5000 };
+    const limitations: string[] = [];
+    const page = await this.browserManager.getPage(params.url);
+    const session: { client?: CDPSession } = {};
+    const samples: Array<ReturnType<typeof summarizeHeapSnapshotByClass>> = [];
+
+    const sample = async () => {
+      // 快照前主动 GC 两次：第一次回收可能让更多对象失去引用
+      await session.client!.send('HeapProfiler.collectGarbage');
+      await session.client!.send('HeapProfiler.collectGarbage');
+      const { snapshot } = await this.loadSnapshotSource(undefined, {
+        page,
+        session,
+        maxSnapshotBytes: params.maxSnapshotBytes ?? DEFAULT_MAX_SNAPSHOT_BYTES,
+        maxParseBytes: params.maxParseBytes ?? DEFAULT_MAX_PARSE_BYTES,
+        limitations,
+      });
+      samples.push(summarizeHeapSnapshotByClass(snapshot));
+    };
+
+    try {
+      session.client = await page.target().createCDPSession();
+      await session.client.send('HeapProfiler.enable');
 
-      if (i < snapshotCount - 1) {
-        await new Promise((resolve) => setTimeout(resolve, interval));
+      for (let i = 0; i < warmupIterations; i++) {
+        await runScenario(page, params.steps, scenario);
+      }
+      await sample();
+      for (let i = 0; i < iterations; i++) {
+        await runScenario(page, params.steps, scenario);
+        await sample();
+      }
+    } finally {
+      try {
+        await session.client?.detach();
+      } catch (error) {
+        // 忽略关闭错误
       }
     }
 
-    // 计算增长率
-    const sizes = snapshots.map((s) => {
-      // 优先使用解析出的 totalSizeBytes；否则回退到 performance.memory.usedJSHeapSize
-      return (
-        s.summary.totalSizeBytes ??
-        s.summary.jsHeapUsedBytes ??
-        s.summary.runtimeUsedSizeBytes ??
-        0
-      );
+    const suspects = findMonotonicGrowth(
+      samples.map((s) => s.classes),
+      params.minGrowthPerIteration ?? 1
+    ).filter((suspect) => !INTERNAL_HEAP_CLASSES.has(suspect.name));
+    const heapSizesBytes = samples.map((s) => s.totalSizeBytes);
+
+    if (iterations < 3) {
+      limitations.push('fewer than 3 iterations: monotonic growth over so few samples is a weak signal');
+    }
+
+    return {
+      timestamp: Date.now(),
+      iterations,
+      heapSizesBytes,
+      heapGrowthBytes: heapSizesBytes[heapSizesBytes.length - 1] - heapSizesBytes[0],
+      leakDetected: suspects.length > 0,
+      suspects: suspects.slice(0, params.topN ?? 20),
+      limitations: limitations.length ? limitations : undefined,
+    };
+  }
+
+  /**
+   * 对比两个堆快照（DevTools Comparison 视图）
+   *
+   * before/after 可以是已导出的 .heapsnapshot 文件、"latest"（该页面最近一次导出的快照），
+   * 或省略以在页面上采集；两者都省略时先采集 before，等待 waitMs 后再采集 after。
+   */
+  public async compareHeapSnapshots(
+    params: CompareHeapSnapshotsParams
+  ): Promise<CompareHeapSnapshotsResult> {
+    const topN = params.topN ?? 20;
+    const maxSnapshotBytes = params.maxSnapshotBytes ?? DEFAULT_MAX_SNAPSHOT_BYTES;
+    const maxParseBytes = params.maxParseBytes ?? DEFAULT_MAX_PARSE_BYTES;
+    const limitations: string[] = [];
+
+    const needsPage = !params.before || !params.after || params.before === 'latest' || params.after === 'latest';
+    const page = needsPage ? await this.browserManager.getPage(params.url) : undefined;
+    const session: { client?: CDPSession } = {};
+    const load = (source: string | undefined) =>
+      this.loadSnapshotSource(source, { page, session, maxSnapshotBytes, maxParseBytes, limitations });
+
+    try {
+      const before = await load(params.before);
+      if (!params.before && !params.after) {
+        await new Promise((resolve) => setTimeout(resolve, params.waitMs ?? 5000));
+      }
+      const after = await load(params.after);
+
+      const diff = diffHeapSnapshots(before.snapshot, after.snapshot, topN);
+      if (diff.matchedNodes === 0 && before.snapshot.nodeCount > 0 && after.snapshot.nodeCount > 0) {
+        limitations.push(
+          'no object ids in common: the snapshots were probably taken in different HeapProfiler sessions, so every object is reported as new/deleted; count and size deltas are still valid'
+        );
+      }
+
+      return {
+        timestamp: Date.now(),
+        before: { source: before.source, ...diff.before },
+        after: { source: after.source, ...diff.after },
+        totalNodesDelta: diff.after.totalNodes - diff.before.totalNodes,
+        totalSizeDeltaBytes: diff.after.totalSizeBytes - diff.before.totalSizeBytes,
+        constructors: diff.constructors,
+        topGrowing: diff.topGrowing,
+        newObjects: diff.newObjects,
+        limitations: limitations.length ? limitations : undefined,
+      };
+    } finally {
+      try {
+        await session.client?.detach();
+      } catch (error) {
+        // 忽略关闭错误
+      }
+    }
+  }
+
+  /**
+   * 查找对象到 GC 根的最短持有路径，并基于支配树计算保留大小
+   *
+   * 按 nodeId 分析单个对象；按 constructorName 分析该构造函数保留大小最大的 maxNodes 个对象。
+   */
+  public async findRetainerPaths(
+    params: FindRetainerPathsParams
+  ): Promise<FindRetainerPathsResult> {
+    if (params.nodeId === undefined && !params.constructorName) {
+      throw new Error('Either nodeId or constructorName is required');
+    }
+
+    const maxNodes = params.maxNodes ?? 5;
+    const pathOptions = { maxPaths: params.maxPaths ?? 3, maxDepth: params.maxDepth ?? 20 };
+    const limitations: string[] = [];
+    const loaded = await this.loadSingleSnapshot(params, limitations);
+    const { snapshot } = loaded;
+    const graph = buildHeapGraph(snapshot);
+
+    let targets: number[] = [];
+    let constructorSummary: FindRetainerPathsResult['constructorSummary'];
+    if (params.nodeId !== undefined) {
+      if (snapshot.nodeFieldIndex.id < 0) {
+        throw new Error('heap snapshot meta missing node id field; use constructorName instead');
+      }
+      for (let i = 0; i < snapshot.nodeCount; i++) {
+        if (snapshot.nodes[i * snapshot.nodeFieldCount + snapshot.nodeFieldIndex.id] === params.nodeId) {
+          targets = [i];
+          break;
+        }
+      }
+      if (targets.length === 0) {
+        throw new Error(`Heap node @${params.nodeId} not found in snapshot ${loaded.source}`);
+      }
+    } else {
+      const name = params.constructorName!;
+      const matches: number[] = [];
+      for (let i = 0; i < snapshot.nodeCount; i++) {
+        const node = readHeapNode(snapshot, i);
+        if (heapNodeClassName(node.type, node.name) === name) {
+          matches.push(i);
+        }
+      }
+      if (matches.length === 0) {
+        throw new Error(`No heap objects with constructor "${name}" found in snapshot ${loaded.source}`);
+      }
+
+      constructorSummary = {
+        name,
+        count: matches.length,
+        selfSizeBytes: matches.reduce((sum, i) => sum + readHeapNode(snapshot, i).selfSize, 0),
+        retainedSizeBytes: aggregateRetainedSize(graph, matches),
+      };
+      targets = matches.sort((a, b) => graph.retainedSize[b] - graph.retainedSize[a]).slice(0, maxNodes);
+    }
+
+    const nodes: RetainedHeapNode[] = targets.map((index) => {
+      const distance = graph.distance[index];
+      const dominator = graph.dominator[index];
+      return {
+        ...describeHeapNode(snapshot, index),
+        selfSizeBytes: readHeapNode(snapshot, index).selfSize,
+        retainedSizeBytes: graph.retainedSize[index],
+        distance: distance >= 0 ? distance : undefined,
+        dominator: dominator !== graph.rootIndex ? describeHeapNode(snapshot, dominator) : undefined,
+        retainerPaths: findRetainerPaths(graph, index, pathOptions),
+      };
     });
-    const growthRate =
-      sizes.length > 1
-        ? sizes[0] > 0
-          ? ((sizes[sizes.length - 1] - sizes[0]) / sizes[0]) * 100
-          : 0
-        : 0;
 
-    // 如果增长率超过 10%，认为可能存在内存泄漏
-    const leakDetected = growthRate > 10;
+    if (nodes.some((node) => node.distance === undefined)) {
+      limitations.push('some objects are unreachable from GC roots (pending collection or only weakly retained); they have no retainer paths');
+    }
 
     return {
-      leakDetected,
-      growthRate,
-      snapshots,
+      timestamp: Date.now(),
+      source: loaded.source,
+      totalNodes: snapshot.nodeCount,
+      constructorSummary,
+      nodes,
+      limitations: limitations.length ? limitations : undefined,
     };
   }
 
   /**
-   * 获取对象计数（采样）
+   * 查找脱离文档但仍被持有的 DOM 节点（DevTools 中的 Detached 元素）
+   *
+   * 按脱离的 DOM 树分组，返回每棵树的保留大小和从 GC 根到树根的持有路径。
+   */
+  public async findDetachedDom(
+    params: FindDetachedDomParams
+  ): Promise<FindDetachedDomResult> {
+    const limitations: string[] = [];
+    const loaded = await this.loadSingleSnapshot(params, limitations);
+    const { snapshot } = loaded;
+    const graph = buildHeapGraph(snapshot);
+    const pathOptions = { maxPaths: params.maxPaths ?? 1, maxDepth: params.maxDepth ?? 20 };
+
+    const groups = groupDetachedDomTrees(graph);
+    const byTag = new Map<string, { tag: string; count: number; selfSizeBytes: number }>();
+    let detachedNodes = 0;
+    let detachedSelfSizeBytes = 0;
+
+    const trees = groups
+      .map(({ root, nodes }) => {
+        const tags: Record<string, number> = {};
+        for (const index of nodes) {
+          const { name, selfSize } = readHeapNode(snapshot, index);
+          const tag = detachedDomTag(name);
+          tags[tag] = (tags[tag] ?? 0) + 1;
+
+          let entry = byTag.get(tag);
+          if (!entry) {
+            entry = { tag, count: 0, selfSizeBytes: 0 };
+            byTag.set(tag, entry);
+          }
+          entry.count++;
+          entry.selfSizeBytes += selfSize;
+          detachedNodes++;
+          detachedSelfSizeBytes += selfSize;
+        }
+        return { root, nodeCount: nodes.length, tags, retainedSizeBytes: graph.retainedSize[root] };
+      })
+      .sort((a, b) => b.retainedSizeBytes - a.retainedSizeBytes)
+      .slice(0, params.maxTrees ?? 10)
+      .map(({ root, ...tree }): DetachedDomTree => {
+        const info = describeHeapNode(snapshot, root);
+        return {
+          root: { ...info, tag: detachedDomTag(readHeapNode(snapshot, root).name) },
+          ...tree,
+          retainerPaths: findRetainerPaths(graph, root, pathOptions),
+        };
+      });
+
+    if (groups.length === 0 && snapshot.nodeFieldIndex.detachedness < 0) {
+      limitations.push('heap snapshot has no detachedness field; only nodes named "Detached …" (older Chrome) can be detected');
+    }
+    if (trees.some((tree) => tree.retainerPaths.length === 0)) {
+      limitations.push('some detached trees are unreachable from GC roots (pending collection); they have no retainer paths');
+    }
+
+    return {
+      timestamp: Date.now(),
+      source: loaded.source,
+      totalNodes: snapshot.nodeCount,
+      detachedNodes,
+      detachedSelfSizeBytes,
+      totalTrees: groups.length,
+      byTag: Array.from(byTag.values()).sort((a, b) => b.count - a.count),
+      trees,
+      limitations: limitations.length ? limitations : undefined,
+    };
+  }
+
+  /**
+   * 加载单个快照用于分析，在页面上采集时使用独立的 CDP 会话并在结束后关闭
+   */
+  private async loadSingleSnapshot(
+    params: { url?: string; snapshot?: string; maxSnapshotBytes?: number; maxParseBytes?: number },
+    limitations: string[]
+  ): Promise<{ source: string; snapshot: ParsedHeapSnapshot }> {
+    const page = params.snapshot && params.snapshot !== 'latest' ? undefined : await this.browserManager.getPage(params.url);
+    const session: { client?: CDPSession } = {};
+    try {
+      return await this.loadSnapshotSource(params.snapshot, {
+        page,
+        session,
+        maxSnapshotBytes: params.maxSnapshotBytes ?? DEFAULT_MAX_SNAPSHOT_BYTES,
+        maxParseBytes: params.maxParseBytes ?? DEFAULT_MAX_PARSE_BYTES,
+        limitations,
+      });
+    } finally {
+      try {
+        await session.client?.detach();
+      } catch (error) {
+        // 忽略关闭错误
+      }
+    }
+  }
+
+  /**
+   * 加载快照来源：文件路径、"latest"（该页面最近一次以文件导出的快照），或省略以在页面上采集
+   *
+   * 采集时复用 session.client：同一 CDP 会话中采集的快照对象 id 一致，调用方负责 detach。
+   */
+  private async loadSnapshotSource(
+    source: string | undefined,
+    options: {
+      page?: Page;
+      session: { client?: CDPSession };
+      maxSnapshotBytes: number;
+      maxParseBytes: number;
+      limitations: string[];
+    }
+  ): Promise<{ source: string; snapshot: ParsedHeapSnapshot }> {
+    const { page, session, maxSnapshotBytes, maxParseBytes, limitations } = options;
+    if (source === 'latest') {
+      const latest = this.snapshots.get(page!.url())?.at(-1)?.export.filePath;
+      if (!latest) {
+        throw new Error(`No exported heap snapshot stored for ${page!.url()}; call get_heap_snapshot with export.mode "file" first`);
+      }
+      return { source: latest, snapshot: await loadHeapSnapshotFile(latest, maxParseBytes, limitations) };
+    }
+    if (source) {
+      return { source, snapshot: await loadHeapSnapshotFile(source, maxParseBytes, limitations) };
+    }
+
+    if (!session.client) {
+      session.client = await page!.target().createCDPSession();
+      await session.client.send('HeapProfiler.enable');
+    }
+    const capture = await this.captureHeapSnapshotRaw({
+      client: session.client,
+      exportMode: 'none',
+      maxInlineBytes: 0,
+      maxSnapshotBytes,
+      fileNamePrefix: 'capture',
+      limitations: options.limitations,
+    });
+    try {
+      if (capture.streamError) {
+        throw capture.streamError;
+      }
+      if (capture.snapshotTruncated) {
+        throw new Error(`raw heap snapshot exceeded maxSnapshotBytes (${maxSnapshotBytes})`);
+      }
+      return {
+        source: 'captured',
+        snapshot: await loadHeapSnapshotFile(capture.snapshotFilePath, maxParseBytes, limitations),
+      };
+    } finally {
+      await rm(capture.snapshotFilePath, { force: true }).catch(() => {
+        // ignore
+      });
+    }
+  }
+
+  /**
+   * 读取 V8 堆使用量：优先 Runtime.getHeapUsage，失败时退回 performance.memory（精度较低）
+   */
+  private async getHeapUsage(
+    page: Page,
+    client: CDPSession,
+    limitations: string[]
+  ): Promise<{ heapUsed: number; heapTotal: number; external: number }> {
+    try {
+      // embedderHeapUsedSize/backingStorageSize 仅较新的 Chrome 返回
+      const usage = (await client.send('Runtime.getHeapUsage')) as {
+        usedSize: number;
+        totalSize: number;
+        embedderHeapUsedSize?: number;
+        backingStorageSize?: number;
+      };
+      if (usage.embedderHeapUsedSize === undefined && usage.backingStorageSize === undefined) {
+        limitations.push('external memory is not reported by this browser version; external is 0');
+      }
+      return {
+        heapUsed: usage.usedSize,
+        heapTotal: usage.totalSize,
+        external: (usage.embedderHeapUsedSize ?? 0) + (usage.backingStorageSize ?? 0),
+      };
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : String(e);
+      limitations.push(`Runtime.getHeapUsage failed (${msg}); falling back to performance.memory`);
+    }
+
+    const heapUsage = await page.evaluate(() => {
+      if ((performance as any).memory) {
+        const memory = (performance as any).memory;
+        return { heapUsed: memory.usedJSHeapSize, heapTotal: memory.totalJSHeapSize };
+      }
+      return { heapUsed: 0, heapTotal: 0 };
+    });
+    return { ...heapUsage, external: 0 };
+  }
+
+  /**
+   * 通过 Runtime.queryObjects 统计各构造函数的存活对象数
+   *
+   * queryObjects 会在遍历前触发一次 GC，结果包含原型链上的子类实例（如 Object 包含 Array）。
+   * 无法求值的构造函数表达式记录到 limitations 并跳过。
    */
   private async getObjectCounts(
-    client: any
+    client: CDPSession,
+    constructors: string[],
+    limitations: string[]
   ): Promise<Record<string, number>> {
+    const objectGroup = `analyze-memory-${randomUUID()}`;
+    const counts: Record<string, number> = {};
+
+    try {
+      for (const name of constructors) {
+        try {
+          const prototype = await client.send('Runtime.evaluate', {
+            expression: `(${name}).prototype`,
+            objectGroup,
+            silent: true,
+          });
+          if (prototype.exceptionDetails || !prototype.result?.objectId) {
+            limitations.push(`cannot resolve prototype of ${name}; object count skipped`);
+            continue;
+          }
+
+          const { objects } = await client.send('Runtime.queryObjects', {
+            prototypeObjectId: prototype.result.objectId,
+            objectGroup,
+          });
+          const length = await client.send('Runtime.callFunctionOn', {
+            objectId: objects.objectId!,
+            functionDeclaration: 'function () { return this.length; }',
+            returnByValue: true,
+            objectGroup,
+          });
+          if (typeof length.result?.value === 'number') {
+            counts[name] = length.result.value;
+          }
+        } catch (e) {
+          const msg = e instanceof Error ? e.message : String(e);
+          limitations.push(`failed to count ${name} objects: ${msg}`);
+        }
+      }
+    } finally {
+      await client.send('Runtime.releaseObjectGroup', { objectGroup }).catch(() => {
+        // ignore
+      });
+    }
+
+    return counts;
+  }
+
+  /**
+   * 通过浏览器级 SystemInfo.getProcessInfo 获取各进程信息
+   *
+   * CDP 不提供进程内存，RSS 只能在本机启动的浏览器上从 /proc 读取（Linux）。
+   */
+  private async getBrowserProcesses(
+    page: Page,
+    limitations: string[]
+  ): Promise<BrowserProcessMemory[] | undefined> {
+    let browserClient: CDPSession | undefined;
+    let processInfo: Array<{ type: string; id: number; cpuTime: number }>;
+
     try {
-      // 获取堆对象统计
-      const result = await client.send('HeapProfiler.getHeapObjectId', {
-        objectId: '1',
+      browserClient = await page.browser().target().createCDPSession();
+      ({ processInfo } = await browserClient.send('SystemInfo.getProcessInfo'));
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : String(e);
+      limitations.push(`SystemInfo.getProcessInfo failed: ${msg}; process memory unavailable`);
+      return undefined;
+    } finally {
+      await browserClient?.detach().catch(() => {
+        // ignore
       });
+    }
 
-      // 这里需要更复杂的实现来统计对象
-      // 简化版本返回空对象
-      return {};
-    } catch {
-      return {};
+    const isLocalBrowser = page.browser().process() !== null;
+    if (!isLocalBrowser || process.platform !== 'linux') {
+      limitations.push(
+        isLocalBrowser
+          ? `process RSS is only available on linux (current: ${process.platform}); rendererRssTotal is 0`
+          : 'browser is not a local child process (connected remotely); rendererRssTotal is 0'
+      );
     }
+
+    return Promise.all(
+      processInfo.map(async (info) => ({
+        type: info.type,
+        pid: info.id,
+        cpuTimeSeconds: info.cpuTime,
+        rssBytes: isLocalBrowser && process.platform === 'linux' ? await readProcessRssBytes(info.id) : undefined,
+      }))
+    );
   }
 
   /**
@@ -476,7 +1032,7 @@ export class HeapHandler {
    * 解析 V8 heap snapshot JSON，生成摘要
    */
   private parseV8HeapSnapshot(
-    rawJson: string,
+    snapshot: ParsedHeapSnapshot,
     topN: number
   ): {
     totalNodes: number;
@@ -484,63 +1040,34 @@ export class HeapHandler {
     topConstructors: Array<{ name: string; count: number; selfSizeBytes: number }>;
     topNodes: Array<{ id?: number; name: string; type?: string; selfSizeBytes: number }>;
   } {
-    const data = JSON.parse(rawJson);
-    const snapshot = data?.snapshot;
-    const meta = snapshot?.meta;
-    const nodesArr: number[] = data?.nodes;
-    const strings: string[] = data?.strings;
-
-    if (!meta || !Array.isArray(nodesArr) || !Array.isArray(strings)) {
-      throw new Error('invalid heap snapshot structure');
-    }
-
-    const nodeFields: string[] = meta.node_fields;
-    const nodeTypes: any[] = meta.node_types;
-    const fieldCount = nodeFields.length;
-
-    const idxType = nodeFields.indexOf('type');
-    const idxName = nodeFields.indexOf('name');
-    const idxId = nodeFields.indexOf('id');
-    const idxSelfSize = nodeFields.indexOf('self_size');
-
-    if (idxType < 0 || idxName < 0 || idxSelfSize < 0) {
-      throw new Error('heap snapshot meta missing required node_fields');
-    }
-
-    const typeEnum: string[] | undefined = Array.isArray(nodeTypes?.[idxType])
-      ? (nodeTypes[idxType] as string[])
-      : undefined;
-
-    const nodeCount =
-      typeof snapshot?.node_count === 'number'
-        ? snapshot.node_count
-        : Math.floor(nodesArr.length / fieldCount);
-
     let totalSizeBytes = 0;
     const byName: Map<string, { count: number; selfSizeBytes: number }> = new Map();
 
-    // 用小顶堆/排序都行，这里直接收集后排序（topN 默认为 20，性能足够）
-    const nodeList: Array<{ id?: number; name: string; type?: string; selfSizeBytes: number }> = [];
-
-    for (let i = 0; i < nodeCount; i++) {
-      const base = i * fieldCount;
-      const nameIndex = nodesArr[base + idxName];
-      const name = strings[nameIndex] ?? String(nameIndex);
+    // 只保留当前最大的 topN 个节点（升序），避免为数百万节点逐个创建对象
+    const topNodes: Array<{ id?: number; name: string; type?: string; selfSizeBytes: number }> = [];
+    const selfSizeIndex = snapshot.nodeFieldIndex.selfSize;
 
-      const selfSize = nodesArr[base + idxSelfSize] ?? 0;
+    for (let i = 0; i < snapshot.nodeCount; i++) {
+      const selfSize = snapshot.nodes[i * snapshot.nodeFieldCount + selfSizeIndex] ?? 0;
+      const name = snapshot.strings[snapshot.nodes[i * snapshot.nodeFieldCount + snapshot.nodeFieldIndex.name]] ?? '';
       totalSizeBytes += selfSize;
 
-      const typeValue = nodesArr[base + idxType];
-      const type = typeEnum ? typeEnum[typeValue] : String(typeValue);
-
-      const id = idxId >= 0 ? nodesArr[base + idxId] : undefined;
-
-      const agg = byName.get(name) ?? { count: 0, selfSizeBytes: 0 };
-      agg.count += 1;
-      agg.selfSizeBytes += selfSize;
-      byName.set(name, agg);
+      const agg = byName.get(name);
+      if (agg) {
+        agg.count += 1;
+        agg.selfSizeBytes += selfSize;
+      } else {
+        byName.set(name, { count: 1, selfSizeBytes: selfSize });
+      }
 
-      nodeList.push({ id, name, type, selfSizeBytes: selfSize });
+      if (topN > 0 && (topNodes.length < topN || selfSize > topNodes[0].selfSizeBytes)) {
+        const { id, type } = readHeapNode(snapshot, i);
+        if (topNodes.length === topN) {
+          topNodes.shift();
+        }
+        const at = topNodes.findIndex((n) => n.selfSizeBytes > selfSize);
+        topNodes.splice(at < 0 ? topNodes.length : at, 0, { id, name, type, selfSizeBytes: selfSize });
+      }
     }
 
     const topConstructors = Array.from(byName.entries())
@@ -548,34 +1075,20 @@ export class HeapHandler {
       .sort((a, b) => b.selfSizeBytes - a.selfSizeBytes)
       .slice(0, topN);
 
-    const topNodes = nodeList
-      .sort((a, b) => b.selfSizeBytes - a.selfSizeBytes)
-      .slice(0, topN);
-
     return {
-      totalNodes: nodeCount,
+      totalNodes: snapshot.nodeCount,
       totalSizeBytes,
       topConstructors,
-      topNodes,
+      topNodes: topNodes.reverse(),
     };
   }
 
   private parseV8HeapSnapshotAllocationTrace(
-    rawJson: string,
+    sections: HeapSnapshotSections,
     topN: number
   ): AllocationTrackingSummary {
-    const data = JSON.parse(rawJson) as unknown;
-    if (!data || typeof data !== 'object') {
-      throw new Error('invalid heap snapshot structure');
-    }
-
-    const record = data as Record<string, unknown>;
-    const snapshot = record['snapshot'] as Record<string, unknown> | undefined;
-    const meta = snapshot?.['meta'] as Record<string, unknown> | undefined;
-
-    const strings = record['strings'];
-    const traceTree = record['trace_tree'];
-    const traceFunctionInfos = record['trace_function_infos'];
+    const meta = sections.snapshot?.meta as Record<string, unknown> | undefined;
+    const { strings, traceTree, traceFunctionInfos } = sections;
 
     if (
       !meta ||
@@ -739,6 +1252,57 @@ export class HeapHandler {
     };
   }
 
+  /**
+   * 采样方式跟踪分配：startSampling 后等待 durationMs 再 stopSampling，
+   * 返回聚合摘要，并按导出选项把原始 profile 写为 .heapprofile（可在 DevTools Memory 中加载）
+   */
+  private async sampleAllocations(params: {
+    client: CDPSession;
+    durationMs: number;
+    samplingInterval: number;
+    includeCollected: boolean;
+    topN: number;
+    exportMode: 'none' | 'file' | 'inline' | 'both';
+    exportFilePath?: string;
+    maxInlineBytes: number;
+    limitations: string[];
+  }): Promise<{ summary: AllocationTrackingSummary; exportInfo: HeapSnapshotExportResult }> {
+    await params.client.send('HeapProfiler.startSampling', {
+      samplingInterval: params.samplingInterval,
+      ...(params.includeCollected
+        ? { includeObjectsCollectedByMajorGC: true, includeObjectsCollectedByMinorGC: true }
+        : {}),
+    });
+
+    // 等待指定时间
+    await new Promise((resolve) => setTimeout(resolve, params.durationMs));
+
+    const { profile } = (await params.client.send('HeapProfiler.stopSampling')) as {
+      profile: SamplingHeapProfile;
+    };
+
+    let summary: AllocationTrackingSummary;
+    try {
+      summary = summarizeSamplingHeapProfile(profile, { topN: params.topN });
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : String(e);
+      params.limitations.push(`failed to parse sampling heap profile: ${msg}`);
+      summary = { parsed: false };
+    }
+    params.limitations.push(
+      `sampling mode: sizes are estimated from samples taken every ~${params.samplingInterval} bytes; small functions may be missing`
+    );
+
+    const exportInfo = await exportProfileJson(JSON.stringify(profile ?? {}), {
+      mode: params.exportMode,
+      filePath: params.exportFilePath,
+      defaultFilePath: join('.', '.heapsnapshot', `alloc-${Date.now()}-${randomUUID()}.heapprofile`),
+      maxInlineBytes: params.maxInlineBytes,
+    });
+
+    return { summary, exportInfo };
+  }
+
   private async getPerformanceMemoryUsedBytes(page: Page): Promise<number> {
     const used = await page.evaluate(() => {
       if ((performance as any).memory) {
@@ -0,0 +1,351 @@
+import { Page, KeyInput } from 'puppeteer';
+import {
+  ConsoleLogEntry,
+  InteractionResult,
+  InteractionBaseParams,
+  ClickParams,
+  TypeTextParams,
+  FillFormParams,
+  SelectOptionParams,
+  HoverParams,
+  PressKeyParams,
+  ScrollParams,
+} from '../types.js';
+import { BrowserManager } from '../browser-manager.js';
+
+const DEFAULT_TIMEOUT = 5000;
+const DEFAULT_SETTLE_MS = 500;
+const NAVIGATION_TIMEOUT = 30000;
+
+/**
+ * 页面交互处理器（点击、输入、表单填写、选择、悬停、按键、滚动）
+ */
+export class InteractionHandler {
+  private browserManager: BrowserManager;
+
+  constructor(browserManager: BrowserManager) {
+    this.browserManager = browserManager;
+  }
+
+  /**
+   * 点击元素
+   */
+  public async click(params: ClickParams): Promise<InteractionResult> {
+    const page = await this.browserManager.getPage(params.url);
+
+    return this.runAction(page, 'click', params, async () => {
+      await this.waitForElement(page, params.selector, params.timeout);
+      const click = page.click(params.selector, {
+        button: params.button ?? 'left',
+        clickCount: params.clickCount ?? 1,
+      });
+      await this.withNavigation(page, click, params.waitForNavigation);
+      return undefined;
+    }, params.selector);
+  }
+
+  /**
+   * 在元素中输入文本（模拟逐字键盘输入）
+   */
+  public async typeText(params: TypeTextParams): Promise<InteractionResult> {
+    const page = await this.browserManager.getPage(params.url);
+
+    return this.runAction(page, 'type', params, async () => {
+      await this.waitForElement(page, params.selector, params.timeout);
+      if (params.clear) {
+        await this.clearInput(page, params.selector);
+      }
+      await page.type(params.selector, params.text, { delay: params.delay });
+      if (params.pressEnter) {
+        await page.keyboard.press('Enter');
+      }
+      return { typedLength: params.text.length };
+    }, params.selector);
+  }
+
+  /**
+   * 批量填写表单字段
+   */
+  public async fillForm(params: FillFormParams): Promise<InteractionResult> {
+    const page = await this.browserManager.getPage(params.url);
+
+    return this.runAction(page, 'fill', params, async () => {
+      const filled: string[] = [];
+
+      for (const [selector, value] of Object.entries(params.fields)) {
+        await this.waitForElement(page, selector, params.timeout);
+        const info = await page.$eval(selector, (el) => ({
+          tagName: el.tagName.toLowerCase(),
+          type: (el as HTMLInputElement).type?.toLowerCase() ?? '',
+          checked: Boolean((el as HTMLInputElement).checked),
+        }));
+
+        if (info.tagName === 'select') {
+          await page.select(selector, String(value));
+        } else if (info.type === 'checkbox' || info.type === 'radio') {
+          const shouldCheck = value === true || value === 'true';
+          if (info.checked !== shouldCheck) {
+            await page.click(selector);
+          }
+        } else {
+          await this.clearInput(page, selector);
+          await page.type(selector, String(value));
+        }
+        filled.push(selector);
+      }
+
+      if (params.submitSelector) {
+        await this.waitForElement(page, params.submitSelector, params.timeout);
+        await page.click(params.submitSelector);
+      }
+
+      return { filled, submitted: Boolean(params.submitSelector) };
+    });
+  }
+
+  /**
+   * 选择 <select> 的选项
+   */
+  public async selectOption(params: SelectOptionParams): Promise<InteractionResult> {
+    const page = await this.browserManager.getPage(params.url);
+
+    return this.runAction(page, 'select', params, async () => {
+      await this.waitForElement(page, params.selector, params.timeout);
+      const selected = await page.select(params.selector, ...params.values);
+      const missing = params.values.filter((v) => !selected.includes(v));
+      return {
+        selected,
+        missing: missing.length ? missing : undefined,
+      };
+    }, params.selector);
+  }
+
+  /**
+   * 鼠标悬停在元素上
+   */
+  public async hover(params: HoverParams): Promise<InteractionResult> {
+    const page = await this.browserManager.getPage(params.url);
+
+    return this.runAction(page, 'hover', params, async () => {
+      await this.waitForElement(page, params.selector, params.timeout);
+      await page.hover(params.selector);
+      return undefined;
+    }, params.selector);
+  }
+
+  /**
+   * 按下按键（支持组合键，如 Control+A）
+   */
+  public async pressKey(params: PressKeyParams): Promise<InteractionResult> {
+    const page = await this.browserManager.getPage(params.url);
+
+    return this.runAction(page, 'press', params, async () => {
+      if (params.selector) {
+        await this.waitForElement(page, params.selector, params.timeout);
+        await page.focus(params.selector);
+      }
+
+      const keys = params.key.split('+').map((k) => k.trim()).filter(Boolean) as KeyInput[];
+      if (keys.length === 0) {
+        throw new Error(`Invalid key: ${params.key}`);
+      }
+      const modifiers = keys.slice(0, -1);
+      const mainKey = keys[keys.length - 1];
+
+      const press = (async () => {
+        const pressed: KeyInput[] = [];
+        try {
+          for (const modifier of modifiers) {
+            await page.keyboard.down(modifier);
+            pressed.push(modifier);
+          }
+          await page.keyboard.press(mainKey);
+        } finally {
+          // 按键失败时也要释放已按下的修饰键，否则后续输入会一直带着修饰键
+          for (const modifier of pressed.reverse()) {
+            try {
+              await page.keyboard.up(modifier);
+            } catch (error) {
+              // 忽略释放错误，保留原始异常
+            }
+          }
+        }
+      })();
+      await this.withNavigation(page, press, params.waitForNavigation);
+
+      return { key: params.key };
+    }, params.selector);
+  }
+
+  /**
+   * 滚动页面或滚动到指定元素
+   */
+  public async scroll(params: ScrollParams): Promise<InteractionResult> {
+    const page = await this.browserManager.getPage(params.url);
+
+    return this.runAction(page, 'scroll', params, async () => {
+      if (params.selector) {
+        await this.waitForElement(page, params.selector, params.timeout);
+        await page.$eval(params.selector, (el) => {
+          el.scrollIntoView({ block: 'center', inline: 'center' });
+        });
+      } else if (params.to) {
+        await page.evaluate((to) => {
+          window.scrollTo(0, to === 'top' ? 0 : document.documentElement.scrollHeight);
+        }, params.to);
+      } else {
+        await page.evaluate(
+          (dx, dy) => {
+            window.scrollBy(dx, dy);
+          },
+          params.deltaX ?? 0,
+          params.deltaY ?? 0
+        );
+      }
+
+      const position = await page.evaluate(() => ({
+        scrollX: window.scrollX,
+        scrollY: window.scrollY,
+        scrollHeight: document.documentElement.scrollHeight,
+        viewportHeight: window.innerHeight,
+      }));
+      return position;
+    }, params.selector);
+  }
+
+  /**
+   * 执行交互操作，并记录操作期间的 Console 错误与导航
+   */
+  private async runAction(
+    page: Page,
+    action: string,
+    params: InteractionBaseParams,
+    fn: () => Promise<Record<string, unknown> | undefined>,
+    selector?: string
+  ): Promise<InteractionResult> {
+    const startUrl = page.url();
+    const consoleErrors: ConsoleLogEntry[] = [];
+    const navigations: string[] = [];
+
+    const consoleListener = (msg: any) => {
+      if (msg.type() !== 'error') {
+        return;
+      }
+      const location = msg.location();
+      consoleErrors.push({
+        type: 'error',
+        text: msg.text(),
+        timestamp: Date.now(),
+        url: location.url,
+        lineNumber: location.lineNumber,
+        columnNumber: location.columnNumber,
+      });
+    };
+    const pageErrorListener = (error: Error) => {
+      consoleErrors.push({
+        type: 'error',
+        text: error.message,
+        timestamp: Date.now(),
+        stackTrace: error.stack,
+        url: page.url(),
+      });
+    };
+    const requestFailedListener = (request: any) => {
+      consoleErrors.push({
+        type: 'error',
+        text: `Request failed: ${request.url()}`,
+        timestamp: Date.now(),
+        url: request.url(),
+      });
+    };
+    const frameNavigatedListener = (frame: any) => {
+      if (frame === page.mainFrame()) {
+        navigations.push(frame.url());
+      }
+    };
+
+    page.on('console', consoleListener);
+    page.on('pageerror', pageErrorListener);
+    page.on('requestfailed', requestFailedListener);
+    page.on('framenavigated', frameNavigatedListener);
+
+    let details: Record<string, unknown> | undefined;
+    try {
+      details = await fn();
+      // 等待操作触发的异步逻辑执行完毕
+      const settleMs = params.settleMs ?? DEFAULT_SETTLE_MS;
+      if (settleMs > 0) {
+        await new Promise((resolve) => setTimeout(resolve, settleMs));
+      }
+    } finally {
+      page.removeListener('console', consoleListener);
+      page.removeListener('pageerror', pageErrorListener);
+      page.removeListener('requestfailed', requestFailedListener);
+      page.removeListener('framenavigated', frameNavigatedListener);
+    }
+
+    const endUrl = page.url();
+    return {
+      action,
+      selector,
+      url: endUrl,
+      navigation:
+        navigations.length > 0 || endUrl !== startUrl
+          ? { from: startUrl, to: endUrl, urls: navigations }
+          : undefined,
+      consoleErrors,
+      details,
+    };
+  }
+
+  /**
+   * 等待元素出现，超时时抛出可读的错误
+   */
+  private async waitForElement(
+    page: Page,
+    selector: string,
+    timeout?: number
+  ): Promise<void> {
+    try {
+      await page.waitForSelector(selector, { timeout: timeout ?? DEFAULT_TIMEOUT });
+    } catch (error) {
+      throw new Error(`Element not found: ${selector}`);
+    }
+  }
+
+  /**
+   * 清空输入框内容
+   */
+  private async clearInput(page: Page, selector: string): Promise<void> {
+    await page.$eval(selector, (el) => {
+      const input = el as HTMLInputElement;
+      if ('value' in input) {
+        input.value = '';
+        input.dispatchEvent(new Event('input', { bubbles: true }));
+      } else if ((el as HTMLElement).isContentEditable) {
+        el.textContent = '';
+      }
+    });
+  }
+
+  /**
+   * 可选地等待操作触发的导航完成
+   */
+  private async withNavigation(
+    page: Page,
+    action: Promise<unknown>,
+    waitForNavigation: boolean | undefined
+  ): Promise<void> {
+    if (!waitForNavigation) {
+      await action;
+      return;
+    }
+    await Promise.all([
+      page.waitForNavigation({
+        waitUntil: 'networkidle2',
+        timeout: NAVIGATION_TIMEOUT,
+      }),
+      action,
+    ]);
+  }
+}
@@ -0,0 +1,449 @@
+import { Page, CDPSession } from 'puppeteer';
+import {
+  AddInterceptRuleParams,
+  InterceptRule,
+  InterceptRulesResult,
+  ListInterceptRulesParams,
+  RemoveInterceptRuleParams,
+} from '../types.js';
+import { BrowserManager } from '../browser-manager.js';
+
+/**
+ * CDP Fetch.HeaderEntry
+ */
+interface HeaderEntry {
+  name: string;
+  value: string;
+}
+
+/**
+ * 编译后的规则（缓存 URL 匹配函数）
+ */
+interface CompiledRule {
+  rule: InterceptRule;
+  matchUrl: (url: string) => boolean;
+  /**
+   * 已在请求阶段命中、等待改写响应头的 requestId（同时改写请求头和响应头的规则）
+   */
+  pendingResponses: Set<string>;
+}
+
+/**
+ * 单个页面的拦截状态
+ */
+interface PageInterception {
+  session: CDPSession;
+  rules: CompiledRule[];
+  /** 页面 close 监听（清理拦截时移除） */
+  onPageClose: () => void;
+}
+
+/**
+ * 请求拦截处理器（基于 CDP Fetch 域）
+ *
+ * 规则按添加顺序匹配，第一条匹配的规则生效；未匹配的请求原样继续。
+ * 页面关闭（包括 BrowserManager.closePage）时自动清理规则并关闭 Fetch 拦截。
+ */
+export class InterceptionHandler {
+  private browserManager: BrowserManager;
+  // 保存创建中的 Promise，保证并发调用只为同一页面创建一个 Fetch 会话
+  private interceptions: Map<Page, Promise<PageInterception>> = new Map();
+  private nextRuleId = 1;
+  private unsubscribers: Array<() => void> = [];
+
+  constructor(browserManager: BrowserManager) {
+    this.browserManager = browserManager;
+    this.unsubscribers.push(
+      this.browserManager.onPageClosing(async (page) => {
+        await this.disposePage(page);
+      })
+    );
+  }
+
+  /**
+   * 添加拦截规则
+   */
+  public async addRule(params: AddInterceptRuleParams): Promise<InterceptRulesResult> {
+    this.validateRule(params);
+
+    const page = await this.browserManager.getPage(params.url);
+    const { url: _url, ...ruleParams } = params;
+    const rule: InterceptRule = {
+      ...ruleParams,
+      method: params.method?.toUpperCase(),
+      id: `rule-${this.nextRuleId++}`,
+      hitCount: 0,
+      createdAt: Date.now(),
+    };
+
+    const interception = await this.ensureInterception(page);
+    interception.rules.push({
+      rule,
+      matchUrl: this.createUrlMatcher(rule.urlPattern),
+      pendingResponses: new Set(),
+    });
+    await this.updatePatterns(interception);
+
+    return { url: page.url(), rules: interception.rules.map((r) => r.rule) };
+  }
+
+  /**
+   * 列出页面的拦截规则
+   */
+  public async listRules(params: ListInterceptRulesParams): Promise<InterceptRulesResult> {
+    const page = await this.browserManager.getPage(params.url);
+    const interception = await this.interceptions.get(page);
+    return { url: page.url(), rules: interception ? interception.rules.map((r) => r.rule) : [] };
+  }
+
+  /**
+   * 删除拦截规则（规则清空后关闭 Fetch 拦截）
+   */
+  public async removeRule(params: RemoveInterceptRuleParams): Promise<InterceptRulesResult> {
+    if (!params.ruleId && !params.all) {
+      throw new Error('Either ruleId or all must be provided');
+    }
+
+    const page = await this.browserManager.getPage(params.url);
+    const interception = await this.interceptions.get(page);
+    if (!interception) {
+      if (params.ruleId) {
+        throw new Error(`Intercept rule not found: ${params.ruleId}`);
+      }
+      return { url: page.url(), rules: [], removed: 0 };
+    }
+
+    const before = interception.rules.length;
+    if (params.all) {
+      interception.rules = [];
+    } else {
+      interception.rules = interception.rules.filter((r) => r.rule.id !== params.ruleId);
+      if (interception.rules.length === before) {
+        throw new Error(`Intercept rule not found: ${params.ruleId}`);
+      }
+    }
+    const removed = before - interception.rules.length;
+
+    if (interception.rules.length === 0) {
+      await this.disposePage(page);
+    } else {
+      await this.updatePatterns(interception);
+    }
+
+    return { url: page.url(), rules: interception.rules.map((r) => r.rule), removed };
+  }
+
+  /**
+   * 取消页面事件订阅并清理所有页面的拦截（所属会话结束时调用）
+   */
+  public async dispose(): Promise<void> {
+    this.unsubscribers.splice(0).forEach((unsubscribe) => unsubscribe());
+    await Promise.all(Array.from(this.interceptions.keys(), (page) => this.disposePage(page)));
+  }
+
+  /**
+   * 清理页面的所有规则并关闭 Fetch 拦截
+   */
+  public async disposePage(page: Page): Promise<void> {
+    const pending = this.interceptions.get(page);
+    if (!pending) {
+      return;
+    }
+    this.interceptions.delete(page);
+
+    let interception: PageInterception;
+    try {
+      interception = await pending;
+    } catch (error) {
+      // 创建失败时没有需要释放的会话
+      return;
+    }
+    page.removeListener('close', interception.onPageClose);
+
+    try {
+      await interception.session.send('Fetch.disable');
+    } catch (error) {
+      // 页面可能已关闭，忽略错误
+    }
+    // 确保 CDP 连接被正确关闭
+    try {
+      await interception.session.detach();
+    } catch (error) {
+      // 忽略关闭错误
+    }
+  }
+
+  /**
+   * 校验规则参数
+   */
+  private validateRule(params: AddInterceptRuleParams): void {
+    if (!params.urlPattern) {
+      throw new Error('urlPattern is required');
+    }
+    // 提前校验正则，避免添加无效规则
+    this.createUrlMatcher(params.urlPattern);
+
+    if (params.action === 'delay' && !(params.delayMs && params.delayMs > 0)) {
+      throw new Error('delayMs is required for delay action');
+    }
+    if (
+      params.action === 'modifyHeaders' &&
+      !params.requestHeaders &&
+      !params.responseHeaders
+    ) {
+      throw new Error('requestHeaders or responseHeaders is required for modifyHeaders action');
+    }
+  }
+
+  /**
+   * 确保页面已开启拦截会话（幂等）
+   */
+  private async ensureInterception(page: Page): Promise<PageInterception> {
+    const existing = this.interceptions.get(page);
+    if (existing) {
+      return existing;
+    }
+
+    const pending = this.startInterception(page);
+    this.interceptions.set(page, pending);
+    try {
+      return await pending;
+    } catch (error) {
+      this.interceptions.delete(page);
+      throw error;
+    }
+  }
+
+  /**
+   * 为页面创建 CDP 会话并监听 Fetch.requestPaused
+   */
+  private async startInterception(page: Page): Promise<PageInterception> {
+    const session = await page.target().createCDPSession();
+    const interception: PageInterception = {
+      session,
+      rules: [],
+      onPageClose: () => {
+        this.disposePage(page).catch(() => {
+          // 忽略关闭错误
+        });
+      },
+    };
+
+    session.on('Fetch.requestPaused', (event: any) => {
+      this.onRequestPaused(interception, event).catch(async () => {
+        // 处理失败时放行请求，避免页面请求被永久挂起
+        try {
+          await session.send('Fetch.continueRequest', { requestId: event.requestId });
+        } catch {
+          // 忽略错误
+        }
+      });
+    });
+
+    page.on('close', interception.onPageClose);
+
+    return interception;
+  }
+
+  /**
+   * 根据规则更新 Fetch 拦截阶段（仅在需要改写响应头时拦截 Response 阶段）
+   */
+  private async updatePatterns(interception: PageInterception): Promise<void> {
+    const responseStage = interception.rules.some((r) => this.appliesToResponse(r.rule));
+    const patterns: Array<{ urlPattern: string; requestStage: 'Request' | 'Response' }> = [
+      { urlPattern: '*', requestStage: 'Request' },
+    ];
+    if (responseStage) {
+      patterns.push({ urlPattern: '*', requestStage: 'Response' });
+    }
+    await interception.session.send('Fetch.enable', { patterns });
+  }
+
+  /**
+   * 处理被暂停的请求
+   */
+  private async onRequestPaused(interception: PageInterception, event: any): Promise<void> {
+    const { session } = interception;
+    const requestId: string = event.requestId;
+    const isResponseStage =
+      event.responseStatusCode !== undefined || event.responseErrorReason !== undefined;
+
+    if (isResponseStage) {
+      const compiled = this.findResponseRule(interception, event);
+      if (!compiled) {
+        await session.send('Fetch.continueResponse', { requestId });
+        return;
+      }
+      await session.send('Fetch.continueResponse', {
+        requestId,
+        responseCode: event.responseStatusCode,
+        responseHeaders: this.applyHeaderChanges(
+          event.responseHeaders ?? [],
+          compiled.rule.responseHeaders ?? {}
+        ),
+      });
+      return;
+    }
+
+    const compiled = this.findRequestRule(interception, event);
+    if (!compiled) {
+      await session.send('Fetch.continueRequest', { requestId });
+      return;
+    }
+
+    const rule = compiled.rule;
+    rule.hitCount++;
+    if (rule.delayMs && rule.delayMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, rule.delayMs));
+    }
+
+    switch (rule.action) {
+      case 'fulfill':
+        await session.send('Fetch.fulfillRequest', {
+          requestId,
+          responseCode: rule.status ?? 200,
+          responseHeaders: this.buildFulfillHeaders(rule),
+          body: Buffer.from(rule.body ?? '', 'utf8').toString('base64'),
+        });
+        return;
+      case 'abort':
+        await session.send('Fetch.failRequest', {
+          requestId,
+          errorReason: rule.errorReason ?? 'Failed',
+        });
+        return;
+      case 'modifyHeaders': {
+        if (rule.responseHeaders) {
+          compiled.pendingResponses.add(requestId);
+        }
+        const original = Object.entries(event.request.headers ?? {}).map(([name, value]) => ({
+          name,
+          value: String(value),
+        }));
+        await session.send('Fetch.continueRequest', {
+          requestId,
+          headers: this.applyHeaderChanges(original, rule.requestHeaders ?? {}),
+        });
+        return;
+      }
+      case 'delay':
+      default:
+        await session.send('Fetch.continueRequest', { requestId });
+    }
+  }
+
+  /**
+   * 请求阶段：查找第一条匹配且未用尽次数的规则
+   */
+  private findRequestRule(interception: PageInterception, event: any): CompiledRule | undefined {
+    return interception.rules.find((compiled) => {
+      const rule = compiled.rule;
+      // 只改写响应头的规则在响应阶段处理
+      if (rule.action === 'modifyHeaders' && !rule.requestHeaders) {
+        return false;
+      }
+      return !this.isExhausted(rule) && this.matches(compiled, event.request);
+    });
+  }
+
+  /**
+   * 响应阶段：查找改写响应头的规则
+   */
+  private findResponseRule(interception: PageInterception, event: any): CompiledRule | undefined {
+    const requestId: string = event.requestId;
+    const compiled = interception.rules.find((candidate) => {
+      const rule = candidate.rule;
+      if (!this.appliesToResponse(rule)) {
+        return false;
+      }
+      // 同时改写请求头的规则已在请求阶段匹配并计数
+      if (rule.requestHeaders) {
+        return candidate.pendingResponses.has(requestId);
+      }
+      return !this.isExhausted(rule) && this.matches(candidate, event.request);
+    });
+
+    if (compiled) {
+      if (compiled.rule.requestHeaders) {
+        compiled.pendingResponses.delete(requestId);
+      } else {
+        compiled.rule.hitCount++;
+      }
+    }
+    return compiled;
+  }
+
+  private appliesToResponse(rule: InterceptRule): boolean {
+    return rule.action === 'modifyHeaders' && Boolean(rule.responseHeaders);
+  }
+
+  private isExhausted(rule: InterceptRule): boolean {
+    return rule.times !== undefined && rule.hitCount >= rule.times;
+  }
+
+  private matches(compiled: CompiledRule, request: { url: string; method: string }): boolean {
+    if (compiled.rule.method && compiled.rule.method !== request.method.toUpperCase()) {
+      return false;
+    }
+    return compiled.matchUrl(request.url);
+  }
+
+  /**
+   * 构造 fulfill 响应头（未指定 Content-Type 时根据响应体推断）
+   */
+  private buildFulfillHeaders(rule: InterceptRule): HeaderEntry[] {
+    const headers = Object.entries(rule.headers ?? {}).map(([name, value]) => ({ name, value }));
+    if (!headers.some((h) => h.name.toLowerCase() === 'content-type')) {
+      const body = (rule.body ?? '').trim();
+      const looksLikeJson = body.startsWith('{') || body.startsWith('[');
+      headers.push({
+        name: 'Content-Type',
+        value: looksLikeJson ? 'application/json; charset=utf-8' : 'text/plain; charset=utf-8',
+      });
+    }
+    return headers;
+  }
+
+  /**
+   * 合并头部改写（名称不区分大小写，值为 null 表示删除）
+   */
+  private applyHeaderChanges(
+    headers: HeaderEntry[],
+    changes: Record<string, string | null>
+  ): HeaderEntry[] {
+    const lowerChanges = new Map(
+      Object.entries(changes).map(([name, value]) => [name.toLowerCase(), { name, value }])
+    );
+    const result = headers.filter((h) => !lowerChanges.has(h.name.toLowerCase()));
+    for (const { name, value } of lowerChanges.values()) {
+      if (value !== null) {
+        result.push({ name, value });
+      }
+    }
+    return result;
+  }
+
+  /**
+   * 创建 URL 匹配函数：/.../flags 按正则匹配，否则按通配符匹配（* 任意字符，? 单个字符）
+   */
+  private createUrlMatcher(pattern: string): (url: string) => boolean {
+    const regexMatch = /^\/(.+)\/([a-z]*)$/.exec(pattern);
+    if (regexMatch) {
+      let regex: RegExp;
+      try {
+        // 去掉 g/y 标志，避免 test() 受 lastIndex 影响
+        regex = new RegExp(regexMatch[1], regexMatch[2].replace(/[gy]/g, ''));
+      } catch (error) {
+        throw new Error(`Invalid urlPattern regex: ${pattern}`);
+      }
+      return (url) => regex.test(url);
+    }
+
+    const source = pattern
+      .split('')
+      .map((ch) => (ch === '*' ? '.*' : ch === '?' ? '.' : ch.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+      .join('');
+    const glob = new RegExp(`^${source}$`);
+    return (url) => glob.test(url);
+  }
+}
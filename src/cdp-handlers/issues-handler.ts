@@ -0,0 +1,299 @@
+import { Page, CDPSession } from 'puppeteer';
+import {
+  GetPageIssuesParams,
+  PageIssue,
+  PageIssueCategory,
+  PageIssuesResult,
+} from '../types.js';
+import { BrowserManager } from '../browser-manager.js';
+import { NetworkHandler } from './network-handler.js';
+import { describeBackendNodes } from './audit-utils.js';
+
+/**
+ * 每个页面最多保留的问题数（合并后）
+ */
+const MAX_ISSUES = 500;
+const DEFAULT_LIMIT = 50;
+
+/**
+ * CDP InspectorIssueCode 到 Issues 面板类别的映射（未列出的归为 other）
+ */
+const CATEGORY_BY_CODE: Record<string, PageIssueCategory> = {
+  CookieIssue: 'cookie',
+  CorsIssue: 'cors',
+  ContentSecurityPolicyIssue: 'csp',
+  MixedContentIssue: 'mixed-content',
+  DeprecationIssue: 'deprecation',
+  LowTextContrastIssue: 'low-contrast',
+};
+
+/**
+ * 已记录的问题（节点在读取时才解析为选择器）
+ */
+interface StoredIssue extends Omit<PageIssue, 'node'> {
+  backendNodeId?: number;
+}
+
+/**
+ * 单个页面的问题收集状态
+ */
+interface PageIssueCollector {
+  session: CDPSession;
+  issues: Map<string, StoredIssue>;
+  startedAt: number;
+  dropped: number;
+  /** 页面 close 监听（停止收集时移除） */
+  onPageClose: () => void;
+}
+
+/**
+ * 页面问题处理器
+ *
+ * 为每个页面保持一个 CDP 会话订阅 Audits.issueAdded（与 DevTools Issues 面板同源），
+ * 启用时浏览器会回放页面已产生的问题；主文档导航后清空，与 Issues 面板一致。
+ */
+export class IssuesHandler {
+  private browserManager: BrowserManager;
+  private networkHandler: NetworkHandler;
+  private collectors: Map<Page, Promise<PageIssueCollector>> = new Map();
+  private unsubscribers: Array<() => void> = [];
+
+  constructor(browserManager: BrowserManager, networkHandler: NetworkHandler) {
+    this.browserManager = browserManager;
+    this.networkHandler = networkHandler;
+    this.unsubscribers.push(
+      this.browserManager.onPageCreated(async (page) => {
+        await this.ensureCollecting(page);
+      }),
+      this.browserManager.onPageClosing(async (page) => {
+        await this.stopCollecting(page);
+      })
+    );
+  }
+
+  /**
+   * 取消页面事件订阅并停止所有页面的问题收集（所属会话结束时调用）
+   */
+  public async dispose(): Promise<void> {
+    this.unsubscribers.splice(0).forEach((unsubscribe) => unsubscribe());
+    await Promise.all(Array.from(this.collectors.keys(), (page) => this.stopCollecting(page)));
+  }
+
+  /**
+   * 获取页面问题，按类别分组
+   */
+  public async getPageIssues(params: GetPageIssuesParams): Promise<PageIssuesResult> {
+    const page = await this.browserManager.getPage(params.url);
+    const collector = await this.ensureCollecting(page);
+
+    const limit = params.limit ?? DEFAULT_LIMIT;
+    const matched = Array.from(collector.issues.values()).filter(
+      (issue) => !params.categories || params.categories.length === 0 || params.categories.includes(issue.category)
+    );
+
+    const requests = this.networkHandler.isCapturing(page)
+      ? new Map((await this.networkHandler.getEntries(page)).map((entry) => [entry.requestId, entry]))
+      : new Map();
+
+    const grouped = new Map<PageIssueCategory, StoredIssue[]>();
+    for (const issue of matched) {
+      const group = grouped.get(issue.category) ?? [];
+      group.push(issue);
+      grouped.set(issue.category, group);
+    }
+
+    const categories: PageIssuesResult['categories'] = {};
+    for (const [category, issues] of grouped) {
+      const latest = issues.slice(-limit);
+      const nodeIssues = latest.filter((issue) => issue.backendNodeId !== undefined);
+      const nodes = await describeBackendNodes(
+        collector.session,
+        nodeIssues.map((issue) => issue.backendNodeId!)
+      );
+
+      categories[category] = {
+        count: issues.length,
+        issues: latest.map(({ backendNodeId, ...issue }, index) => {
+          const entry = issue.request?.requestId ? requests.get(issue.request.requestId) : undefined;
+          return {
+            ...issue,
+            ...(entry ? { request: { ...issue.request!, method: entry.method, status: entry.status } } : {}),
+            ...(backendNodeId !== undefined ? { node: nodes[nodeIssues.indexOf(latest[index])] } : {}),
+          };
+        }),
+      };
+    }
+
+    const result: PageIssuesResult = {
+      url: page.url(),
+      collectingSince: collector.startedAt,
+      total: matched.length,
+      categories,
+      dropped: collector.dropped,
+    };
+
+    if (params.clear) {
+      collector.issues.clear();
+      collector.dropped = 0;
+    }
+
+    return result;
+  }
+
+  /**
+   * 确保页面已开始收集问题（幂等）
+   */
+  public async ensureCollecting(page: Page): Promise<PageIssueCollector> {
+    const existing = this.collectors.get(page);
+    if (existing) {
+      return existing;
+    }
+
+    const pending = this.startCollecting(page);
+    this.collectors.set(page, pending);
+    try {
+      return await pending;
+    } catch (error) {
+      this.collectors.delete(page);
+      throw error;
+    }
+  }
+
+  /**
+   * 创建 CDP 会话并订阅 Audits 事件
+   */
+  private async startCollecting(page: Page): Promise<PageIssueCollector> {
+    const session = await page.target().createCDPSession();
+    const collector: PageIssueCollector = {
+      session,
+      issues: new Map(),
+      startedAt: Date.now(),
+      dropped: 0,
+      onPageClose: () => {
+        this.stopCollecting(page).catch(() => {
+          // 忽略关闭错误
+        });
+      },
+    };
+
+    session.on('Audits.issueAdded', (event: any) => this.onIssueAdded(collector, event.issue));
+    session.on('Page.frameNavigated', (event: any) => {
+      if (event.frame && !event.frame.parentId) {
+        collector.issues.clear();
+        collector.dropped = 0;
+      }
+    });
+
+    // 页面关闭时释放 CDP 会话
+    page.on('close', collector.onPageClose);
+
+    await session.send('Page.enable');
+    await session.send('Audits.enable');
+    return collector;
+  }
+
+  /**
+   * 停止页面的问题收集并释放 CDP 会话
+   */
+  private async stopCollecting(page: Page): Promise<void> {
+    const pending = this.collectors.get(page);
+    if (!pending) {
+      return;
+    }
+    this.collectors.delete(page);
+
+    try {
+      const collector = await pending;
+      page.removeListener('close', collector.onPageClose);
+      collector.issues.clear();
+      await collector.session.detach();
+    } catch (error) {
+      // 忽略关闭错误
+    }
+  }
+
+  private onIssueAdded(collector: PageIssueCollector, issue: any): void {
+    if (!issue?.code) {
+      return;
+    }
+    const parsed = parseIssue(issue);
+    const key = `${issue.code}:${JSON.stringify(issue.details ?? {})}`;
+    const now = Date.now();
+
+    const existing = collector.issues.get(key);
+    if (existing) {
+      existing.count++;
+      existing.lastSeen = now;
+      return;
+    }
+    if (collector.issues.size >= MAX_ISSUES) {
+      collector.dropped++;
+      return;
+    }
+    collector.issues.set(key, { ...parsed, count: 1, firstSeen: now, lastSeen: now });
+  }
+}
+
+/**
+ * 将 CDP InspectorIssue 解析为统一结构
+ */
+function parseIssue(issue: any): Omit<StoredIssue, 'count' | 'firstSeen' | 'lastSeen'> {
+  // details 中只有与 code 对应的一个字段，如 cookieIssueDetails
+  const raw: Record<string, any> = Object.values(issue.details ?? {})[0] ?? {};
+  const { request, cookie, rawCookieLine, sourceCodeLocation, violatingNodeId, ...details } = raw;
+
+  const parsed: Omit<StoredIssue, 'count' | 'firstSeen' | 'lastSeen'> = {
+    code: issue.code,
+    category: CATEGORY_BY_CODE[issue.code] ?? 'other',
+    reason: issueReason(issue.code, raw),
+    details,
+  };
+
+  const requestUrl = request?.url ?? raw.insecureURL ?? raw.blockedURL ?? raw.cookieUrl;
+  if (requestUrl) {
+    parsed.request = { requestId: request?.requestId, url: requestUrl };
+  }
+  if (cookie || rawCookieLine) {
+    parsed.cookie = {
+      name: cookie?.name ?? '',
+      domain: cookie?.domain,
+      path: cookie?.path,
+      rawCookieLine,
+    };
+  }
+  if (typeof violatingNodeId === 'number') {
+    parsed.backendNodeId = violatingNodeId;
+  }
+  if (sourceCodeLocation?.url) {
+    parsed.sourceLocation = {
+      url: sourceCodeLocation.url,
+      lineNumber: sourceCodeLocation.lineNumber,
+      columnNumber: sourceCodeLocation.columnNumber,
+    };
+  }
+  return parsed;
+}
+
+/**
+ * 提取问题的具体原因
+ */
+function issueReason(code: string, details: Record<string, any>): string | undefined {
+  switch (code) {
+    case 'CookieIssue': {
+      const reasons = [...(details.cookieExclusionReasons ?? []), ...(details.cookieWarningReasons ?? [])];
+      return reasons.length > 0 ? reasons.join(', ') : undefined;
+    }
+    case 'CorsIssue':
+      return details.corsErrorStatus?.corsError;
+    case 'ContentSecurityPolicyIssue':
+      return [details.contentSecurityPolicyViolationType, details.violatedDirective].filter(Boolean).join(': ') || undefined;
+    case 'MixedContentIssue':
+      return details.resolutionStatus;
+    case 'DeprecationIssue':
+      return details.type;
+    case 'LowTextContrastIssue':
+      return `Contrast ratio ${details.contrastRatio} is below ${details.thresholdAA} (AA)`;
+    default:
+      return details.errorType ?? details.reason;
+  }
+}
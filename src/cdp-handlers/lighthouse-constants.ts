@@ -67,8 +67,18 @@ export const WAIT_TIMES = {
   FALLBACK_DELAY: 2000,
 } as const;
 
+/**
+ * 未使用代码优化建议的忽略阈值（与 Lighthouse 一致）：单个脚本未使用字节不足 20KiB、单个样式表不足 10KiB 时不计入
+ */
+export const UNUSED_CODE_THRESHOLDS = {
+  JS_BYTES: 20 * 1024,
+  CSS_BYTES: 10 * 1024,
+} as const;
+
 export const LIMITATIONS = [
-  'Accessibility, best-practices, and SEO scores are approximate values, not complete audits',
+  'Best-practices audit detects vulnerable libraries only through their globals and a bundled signature list',
+  'SEO audit does not fetch robots.txt and cannot evaluate tap target sizes or font legibility',
+  'Accessibility audit covers a subset of axe-core rules (alt text, labels, accessible names, heading order, duplicate IDs, document language, colour contrast); manual review is still required',
   'Metrics collection is based on Web Vitals and CDP APIs, which may differ from actual Lighthouse results',
   'Some audit items may be missing or incomplete',
 ] as const;
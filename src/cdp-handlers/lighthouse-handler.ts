@@ -17,29 +17,139 @@ import {
   SCORING_THRESHOLDS,
   WAIT_TIMES,
   LIMITATIONS,
+  UNUSED_CODE_THRESHOLDS,
 } from './lighthouse-constants.js';
 import {
   calculateWebVitalsRatings,
   createPerformanceObserver,
 } from './lighthouse-utils.js';
+import { measureWithThrottling, resolveThrottling } from '../utils/throttling-utils.js';
+import { runAccessibilityAudit } from './accessibility-audit.js';
+import { MainDocumentResponse, runSeoAudit } from './seo-audit.js';
+import {
+  PageSignalCollector,
+  runBestPracticesAudit,
+  startPageSignalCollection,
+} from './best-practices-audit.js';
+import {
+  CollectedCoverage,
+  startCoverageCollection,
+  toCoverageEntries,
+} from './coverage-collector.js';
+import { NetworkHandler } from './network-handler.js';
+import { ConsoleHandler } from './console-handler.js';
+import { AppliedThrottling } from '../types.js';
+
+/**
+ * 最佳实践审计的观察状态（在可能的节流重新加载之前开始）
+ */
+interface BestPracticesObservation {
+  collector: Promise<PageSignalCollector>;
+  /**
+   * 开始报告前 ConsoleHandler 是否已在监听该页面
+   */
+  consoleWasListening: boolean;
+}
 
 /**
  * Lighthouse 性能分析处理器（基于 Web Vitals 和 CDP）
  */
 export class LighthouseHandler {
   private browserManager: BrowserManager;
+  private networkHandler: NetworkHandler;
+  private consoleHandler: ConsoleHandler;
 
-  constructor(browserManager: BrowserManager) {
+  constructor(browserManager: BrowserManager, networkHandler: NetworkHandler, consoleHandler: ConsoleHandler) {
     this.browserManager = browserManager;
+    this.networkHandler = networkHandler;
+    this.consoleHandler = consoleHandler;
   }
 
   /**
-   * 获取 Lighthouse 性能报告
+   * 获取 Lighthouse 性能报告（指定节流配置时在节流条件下重新加载页面后测量）
    */
   public async getLighthouseReport(
     params: GetLighthouseParams
   ): Promise<LighthouseReport> {
     const page = await this.browserManager.getPage(params.url);
+
+    // 最佳实践审计需要观察页面加载过程，因此在节流重新加载之前开始采集
+    let observation: BestPracticesObservation | undefined;
+    if (this.isCategoryRequested('best-practices', params.onlyCategories)) {
+      const consoleWasListening = this.consoleHandler.getPageLogs(page) !== undefined;
+      this.consoleHandler.ensureListening(page);
+      observation = { collector: startPageSignalCollection(page), consoleWasListening };
+      // 等待采集开始；启动失败时由 buildReport 记录到 limitations
+      await observation.collector.catch(() => {});
+    }
+
+    let measured: { result: LighthouseReport; throttling?: AppliedThrottling };
+    try {
+      measured = await measureWithThrottling(this.browserManager, page, params.throttling, () =>
+        this.buildReport(page, params, observation)
+      );
+    } finally {
+      await observation?.collector.then((collector) => collector.stop()).catch(() => {});
+    }
+    const { result, throttling } = measured;
+
+    // unused-javascript / unused-css-rules 需要覆盖率：在测量结束后单独重新加载一次页面采集，
+    // 避免覆盖率插桩影响性能指标
+    const skipAudits = params.skipAudits ?? [];
+    const coverageOptions = {
+      js: !skipAudits.includes('unused-javascript'),
+      css: !skipAudits.includes('unused-css-rules'),
+      bytesOnly: true,
+    };
+    if (
+      params.unusedCode &&
+      this.isCategoryRequested('performance', params.onlyCategories) &&
+      (coverageOptions.js || coverageOptions.css)
+    ) {
+      // 覆盖率重新加载不应受 set_throttling 持久节流影响：临时清除，结束后恢复原配置
+      const persistentThrottling = this.browserManager.getThrottling(page);
+      try {
+        if (persistentThrottling) {
+          await this.browserManager.setThrottling(page, resolveThrottling({ profile: 'none' }));
+        }
+        const collector = await startCoverageCollection(page, coverageOptions);
+        let collected: CollectedCoverage;
+        try {
+          await page.reload({ waitUntil: 'load', timeout: WAIT_TIMES.PAGE_LOAD_TIMEOUT });
+        } finally {
+          collected = await collector.stop();
+        }
+        result.opportunities = [...this.getUnusedCodeOpportunities(collected), ...result.opportunities].slice(0, 10);
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : String(error);
+        result.limitations?.push(`Coverage collection failed: ${msg}`);
+      } finally {
+        if (persistentThrottling) {
+          try {
+            await this.browserManager.setThrottling(page, persistentThrottling);
+          } catch (error) {
+            // 页面可能已关闭，忽略错误
+          }
+        }
+      }
+    }
+
+    const emulation = this.browserManager.getEmulation(page);
+    return {
+      ...result,
+      ...(throttling ? { throttling } : {}),
+      ...(emulation ? { emulation } : {}),
+    };
+  }
+
+  /**
+   * 在当前页面状态下生成报告
+   */
+  private async buildReport(
+    page: Page,
+    params: GetLighthouseParams,
+    observation?: BestPracticesObservation
+  ): Promise<LighthouseReport> {
     const client = await page.target().createCDPSession();
 
     try {
@@ -58,8 +168,54 @@ export class LighthouseHandler {
       // 收集性能指标
       const performanceMetrics = await this.collectPerformanceMetrics(page, client);
 
+      // 基于规则的类别审计（仅运行请求的类别）
+      const limitations: string[] = [...LIMITATIONS];
+      const audits: NonNullable<LighthouseReport['audits']> = {};
+      if (this.isCategoryRequested('accessibility', params.onlyCategories)) {
+        try {
+          await client.send('Accessibility.enable');
+          audits.accessibility = await runAccessibilityAudit(page, client, params.skipAudits);
+        } catch (error) {
+          const msg = error instanceof Error ? error.message : String(error);
+          limitations.push(`Accessibility audit failed: ${msg}`);
+        }
+      }
+      if (observation) {
+        try {
+          const signals = await (await observation.collector).stop();
+          const consoleLogs =
+            observation.consoleWasListening || signals.loadObserved
+              ? this.consoleHandler
+                  .getPageLogs(page)
+                  ?.filter((entry) => !signals.loadObserved || entry.timestamp >= signals.navigatedAt)
+              : undefined;
+          if (!signals.loadObserved) {
+            limitations.push(
+              'Page load was not observed during the audit; geolocation-on-start and notification-on-start were not checked, and errors-in-console only fails on errors already recorded (pass throttling to reload the page)'
+            );
+          }
+          audits['best-practices'] = await runBestPracticesAudit(
+            page,
+            { signals, consoleLogs, networkEntries: await this.networkHandler.getEntries(page) },
+            params.skipAudits
+          );
+        } catch (error) {
+          const msg = error instanceof Error ? error.message : String(error);
+          limitations.push(`Best-practices audit failed: ${msg}`);
+        }
+      }
+      if (this.isCategoryRequested('seo', params.onlyCategories)) {
+        try {
+          const mainDocument = await this.getMainDocumentResponse(page, limitations);
+          audits.seo = await runSeoAudit(page, mainDocument, params.skipAudits);
+        } catch (error) {
+          const msg = error instanceof Error ? error.message : String(error);
+          limitations.push(`SEO audit failed: ${msg}`);
+        }
+      }
+
       // 计算评分
-      const scores = this.calculateScores(webVitals, performanceMetrics);
+      const scores = this.calculateScores(webVitals, performanceMetrics, audits);
 
       // 获取优化建议和诊断信息（应用 skipAudits 过滤）
       const opportunities = await this.getOpportunities(
@@ -106,8 +262,9 @@ export class LighthouseHandler {
         },
         opportunities: opportunities.slice(0, 10),
         diagnostics: diagnostics.slice(0, 10),
+        audits: Object.keys(audits).length > 0 ? audits : undefined,
         implementation: 'approximation',
-        limitations: [...LIMITATIONS],
+        limitations,
       };
     } finally {
       try {
@@ -425,12 +582,13 @@ export class LighthouseHandler {
    */
   private calculateScores(
     webVitals: WebVitalsMetrics,
-    performance: PerformanceMetrics
+    performance: PerformanceMetrics,
+    audits: NonNullable<LighthouseReport['audits']>
   ): {
     performance: number;
-    accessibility: number;
-    bestPractices: number;
-    seo: number;
+    accessibility: number | null;
+    bestPractices: number | null;
+    seo: number | null;
   } {
     let perfScore = 100;
 
@@ -456,22 +614,14 @@ export class LighthouseHandler {
 
     perfScore = Math.max(0, Math.min(100, perfScore));
 
-    // 可访问性评分（简化版，基于基本检查）
-    let a11yScore = 100;
-    // 可以通过 CDP Accessibility API 获取更准确的评分
-    // 这里使用占位符
-    a11yScore = 85;
+    // 可访问性评分（基于无障碍树和 DOM 的规则审计，审计失败时为 null）
+    const a11yScore = audits.accessibility?.score ?? null;
 
-    // 最佳实践评分（简化版）
-    let bestPracticesScore = 100;
-    // 检查 HTTPS
-    // 检查控制台错误等
-    bestPracticesScore = 90;
+    // 最佳实践评分（基于加载期间观察到的控制台错误、弃用 API、混合内容等的规则审计，审计失败时为 null）
+    const bestPracticesScore = audits['best-practices']?.score ?? null;
 
-    // SEO 评分（简化版）
-    let seoScore = 100;
-    // 检查 meta 标签等
-    seoScore = 80;
+    // SEO 评分（基于页面元信息、链接和主文档响应的规则审计，审计失败时为 null）
+    const seoScore = audits.seo?.score ?? null;
 
     return {
       performance: Math.round(perfScore),
@@ -486,18 +636,53 @@ export class LighthouseHandler {
    */
   private buildCategories(scores: {
     performance: number;
-    accessibility: number;
-    bestPractices: number;
-    seo: number;
+    accessibility: number | null;
+    bestPractices: number | null;
+    seo: number | null;
   }): Record<string, LighthouseCategory> {
     return {
       performance: { score: scores.performance, title: 'Performance' },
-      accessibility: { score: scores.accessibility, title: 'Accessibility' },
-      'best-practices': { score: scores.bestPractices, title: 'Best Practices' },
-      seo: { score: scores.seo, title: 'SEO' },
+      // 审计失败时不返回该类别，避免给出误导性的评分
+      ...(scores.accessibility !== null
+        ? { accessibility: { score: scores.accessibility, title: 'Accessibility' } }
+        : {}),
+      ...(scores.bestPractices !== null
+        ? { 'best-practices': { score: scores.bestPractices, title: 'Best Practices' } }
+        : {}),
+      ...(scores.seo !== null ? { seo: { score: scores.seo, title: 'SEO' } } : {}),
     };
   }
 
+  /**
+   * 从网络捕获中查找主文档响应（用于 HTTP 状态码和 X-Robots-Tag 检查）
+   */
+  private async getMainDocumentResponse(
+    page: Page,
+    limitations: string[]
+  ): Promise<MainDocumentResponse | undefined> {
+    const wasCapturing = this.networkHandler.isCapturing(page);
+    const pageUrl = page.url().split('#')[0];
+    const entries = await this.networkHandler.getEntries(page);
+    const mainDocument = entries
+      .filter((entry) => entry.resourceType === 'Document' && !entry.redirectedTo && entry.url.split('#')[0] === pageUrl)
+      .pop();
+
+    if (!mainDocument) {
+      if (!wasCapturing) {
+        limitations.push('Network capture started after the page loaded; X-Robots-Tag header was not checked');
+      }
+      return undefined;
+    }
+    return { status: mainDocument.status, headers: mainDocument.responseHeaders };
+  }
+
+  /**
+   * 类别是否在 onlyCategories 中（未指定时包含所有类别）
+   */
+  private isCategoryRequested(category: string, onlyCategories?: string[]): boolean {
+    return !onlyCategories || onlyCategories.length === 0 || onlyCategories.includes(category);
+  }
+
   /**
    * 过滤类别
    */
@@ -528,6 +713,49 @@ export class LighthouseHandler {
     return filtered;
   }
 
+  /**
+   * 基于覆盖率生成未使用 JavaScript / CSS 的优化建议
+   */
+  private getUnusedCodeOpportunities(coverage: CollectedCoverage): LighthouseAudit[] {
+    const opportunities: LighthouseAudit[] = [];
+    const entries = toCoverageEntries(coverage);
+    const unusedCode = [
+      {
+        id: 'unused-javascript',
+        title: 'Reduce unused JavaScript',
+        type: 'js',
+        thresholdBytes: UNUSED_CODE_THRESHOLDS.JS_BYTES,
+        score: 0.6,
+      },
+      {
+        id: 'unused-css-rules',
+        title: 'Reduce unused CSS',
+        type: 'css',
+        thresholdBytes: UNUSED_CODE_THRESHOLDS.CSS_BYTES,
+        score: 0.7,
+      },
+    ];
+    for (const { id, title, type, thresholdBytes, score } of unusedCode) {
+      const wasteful = entries
+        .filter((entry) => entry.type === type && entry.unusedBytes >= thresholdBytes)
+        .sort((a, b) => b.unusedBytes - a.unusedBytes);
+      if (wasteful.length === 0) {
+        continue;
+      }
+      const wastedBytes = wasteful.reduce((sum, entry) => sum + entry.unusedBytes, 0);
+      const largest = wasteful[0];
+      opportunities.push({
+        id,
+        title,
+        description: `${wasteful.length} resource(s) with unused code; largest: ${largest.url} (${Math.round(largest.unusedBytes / 1024)} KiB, ${largest.unusedPercent}% unused)`,
+        score,
+        numericValue: wastedBytes,
+        displayValue: `Potential savings of ${Math.round(wastedBytes / 1024)} KiB`,
+      });
+    }
+    return opportunities;
+  }
+
   /**
    * 获取优化建议
    */
@@ -1,9 +1,18 @@
 import type { WebVitalsRating } from './lighthouse-constants.js';
+import type { AppliedDeviceEmulation, AppliedThrottling, ThrottlingOptions } from '../types.js';
 
 export interface GetLighthouseParams {
   url?: string;
   onlyCategories?: string[];
   skipAudits?: string[];
+  /**
+   * 测量时使用的节流配置（会以该配置重新加载页面，测量后恢复原配置）
+   */
+  throttling?: ThrottlingOptions;
+  /**
+   * 测量结束后再重新加载一次页面采集覆盖率，给出 unused-javascript / unused-css-rules 建议
+   */
+  unusedCode?: boolean;
 }
 
 export interface LighthouseCategory {
@@ -54,6 +63,51 @@ export interface LighthouseAudit {
   displayValue?: string;
 }
 
+/**
+ * 审计规则的单个失败项
+ */
+export interface AuditFailure {
+  selector: string;
+  /**
+   * 元素开始标签（截断）
+   */
+  snippet?: string;
+  explanation?: string;
+}
+
+/**
+ * 规则状态：not-applicable 表示页面中没有可检查的节点，不参与评分
+ */
+export type AuditRuleStatus = 'pass' | 'fail' | 'not-applicable';
+
+/**
+ * 规则审计结果（score：通过为 1，失败为 0，不适用时缺省）
+ */
+export interface AuditRuleResult extends LighthouseAudit {
+  /**
+   * 规则在类别评分中的权重
+   */
+  weight: number;
+  status: AuditRuleStatus;
+  /**
+   * 检查的节点数
+   */
+  checked: number;
+  failureCount: number;
+  /**
+   * 失败项（数量有上限，完整数量见 failureCount）
+   */
+  failures: AuditFailure[];
+}
+
+/**
+ * 类别审计结果（score 为通过规则的加权占比，0-100）
+ */
+export interface CategoryAuditResult {
+  score: number;
+  rules: AuditRuleResult[];
+}
+
 export interface LighthouseReport {
   url: string;
   fetchTime: string;
@@ -67,6 +121,22 @@ export interface LighthouseReport {
   metrics: LighthouseMetrics;
   opportunities: LighthouseAudit[];
   diagnostics: LighthouseAudit[];
+  /**
+   * 基于规则的类别审计详情（仅包含请求的类别）
+   */
+  audits?: {
+    accessibility?: CategoryAuditResult;
+    'best-practices'?: CategoryAuditResult;
+    seo?: CategoryAuditResult;
+  };
   implementation: 'approximation';
   limitations?: string[];
+  /**
+   * 测量时生效的节流配置（未节流时缺省）
+   */
+  throttling?: AppliedThrottling;
+  /**
+   * 测量时生效的设备模拟配置（使用默认视口时缺省）
+   */
+  emulation?: AppliedDeviceEmulation;
 }
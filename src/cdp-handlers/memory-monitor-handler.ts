@@ -0,0 +1,235 @@
+import { Page, CDPSession } from 'puppeteer';
+import {
+  GetMemoryMonitorParams,
+  MemoryMonitorResult,
+  MemoryMonitorSample,
+  StartMemoryMonitorParams,
+  StopMemoryMonitorParams,
+} from '../types.js';
+import { BrowserManager } from '../browser-manager.js';
+import { RingBuffer } from '../utils/ring-buffer.js';
+import { assessMemoryGrowth, summarizeMemorySeries } from '../utils/memory-series-utils.js';
+
+const DEFAULT_INTERVAL_MS = 1000;
+const MIN_INTERVAL_MS = 100;
+const DEFAULT_MAX_SAMPLES = 600;
+
+const PERFORMANCE_MEMORY_EXPRESSION = `(() => {
+  const memory = performance.memory;
+  return memory
+    ? { usedJSHeapSize: memory.usedJSHeapSize, totalJSHeapSize: memory.totalJSHeapSize, jsHeapSizeLimit: memory.jsHeapSizeLimit }
+    : null;
+})()`;
+
+/**
+ * 单个页面的监控状态
+ */
+interface PageMemoryMonitor {
+  session: CDPSession;
+  timer?: ReturnType<typeof setInterval>;
+  /**
+   * 正在进行的采样（停止时等待其完成，避免在已关闭的会话上发送命令）
+   */
+  pending?: Promise<void>;
+  intervalMs: number;
+  maxSamples: number;
+  samples: RingBuffer<MemoryMonitorSample>;
+  startedAt: number;
+  stoppedAt?: number;
+  failedSamples: number;
+  lastError?: string;
+}
+
+/**
+ * 内存时间序列监控处理器
+ *
+ * 每个页面持有一个 CDP 会话，按固定间隔在后台采集 Runtime.getHeapUsage、performance.memory、
+ * Memory.getDOMCounters 与 Performance.getMetrics，样本保存在固定容量的环形缓冲区中。
+ * 停止后样本保留到下次开始监控或页面关闭。
+ */
+export class MemoryMonitorHandler {
+  private browserManager: BrowserManager;
+  private monitors: Map<Page, PageMemoryMonitor> = new Map();
+  private unsubscribers: Array<() => void> = [];
+
+  constructor(browserManager: BrowserManager) {
+    this.browserManager = browserManager;
+    this.unsubscribers.push(
+      this.browserManager.onPageClosing(async (page) => {
+        await this.disposePage(page);
+      })
+    );
+  }
+
+  /**
+   * 开始监控（立即采集第一个样本）
+   */
+  public async start(params: StartMemoryMonitorParams): Promise<MemoryMonitorResult> {
+    const intervalMs = params.intervalMs ?? DEFAULT_INTERVAL_MS;
+    if (intervalMs < MIN_INTERVAL_MS) {
+      throw new Error(`intervalMs must be at least ${MIN_INTERVAL_MS}`);
+    }
+
+    const page = await this.browserManager.getPage(params.url);
+    if (this.monitors.get(page)?.timer) {
+      throw new Error('Memory monitor is already running for this page; stop it first');
+    }
+    await this.disposePage(page);
+
+    const session = await page.target().createCDPSession();
+    await session.send('Performance.enable');
+
+    const maxSamples = params.maxSamples ?? DEFAULT_MAX_SAMPLES;
+    const monitor: PageMemoryMonitor = {
+      session,
+      intervalMs,
+      maxSamples,
+      samples: new RingBuffer(maxSamples),
+      startedAt: Date.now(),
+      failedSamples: 0,
+    };
+    this.monitors.set(page, monitor);
+
+    await this.sample(monitor);
+    monitor.timer = setInterval(() => {
+      if (!monitor.pending) {
+        monitor.pending = this.sample(monitor).finally(() => {
+          monitor.pending = undefined;
+        });
+      }
+    }, intervalMs);
+    monitor.timer.unref?.();
+
+    return this.buildResult(page, monitor);
+  }
+
+  /**
+   * 读取监控序列与统计
+   */
+  public async read(params: GetMemoryMonitorParams): Promise<MemoryMonitorResult> {
+    const page = await this.browserManager.getPage(params.url);
+    return this.buildResult(page, this.getMonitor(page), params.lastN);
+  }
+
+  /**
+   * 停止监控并返回完整序列
+   */
+  public async stop(params: StopMemoryMonitorParams): Promise<MemoryMonitorResult> {
+    const page = await this.browserManager.getPage(params.url);
+    const monitor = this.getMonitor(page);
+
+    if (monitor.timer) {
+      await this.halt(monitor);
+    }
+
+    return this.buildResult(page, monitor);
+  }
+
+  /**
+   * 取消页面事件订阅并停止所有页面的监控（所属会话结束时调用）
+   */
+  public async dispose(): Promise<void> {
+    this.unsubscribers.splice(0).forEach((unsubscribe) => unsubscribe());
+    await Promise.all(Array.from(this.monitors.keys(), (page) => this.disposePage(page)));
+  }
+
+  /**
+   * 停止页面的监控并丢弃样本
+   */
+  public async disposePage(page: Page): Promise<void> {
+    const monitor = this.monitors.get(page);
+    if (!monitor) {
+      return;
+    }
+    this.monitors.delete(page);
+    if (monitor.timer) {
+      await this.halt(monitor);
+    }
+  }
+
+  private getMonitor(page: Page): PageMemoryMonitor {
+    const monitor = this.monitors.get(page);
+    if (!monitor) {
+      throw new Error('No memory monitor for this page; call start_memory_monitor first');
+    }
+    return monitor;
+  }
+
+  private async halt(monitor: PageMemoryMonitor): Promise<void> {
+    clearInterval(monitor.timer);
+    monitor.timer = undefined;
+    monitor.stoppedAt = Date.now();
+    await monitor.pending;
+
+    try {
+      await monitor.session.send('Performance.disable');
+    } catch (error) {
+      // 页面可能已关闭，忽略错误
+    }
+    // 确保 CDP 连接被正确关闭
+    try {
+      await monitor.session.detach();
+    } catch (error) {
+      // 忽略关闭错误
+    }
+  }
+
+  private async sample(monitor: PageMemoryMonitor): Promise<void> {
+    try {
+      const { session } = monitor;
+      const usage = await session.send('Runtime.getHeapUsage');
+      const memory = await session.send('Runtime.evaluate', {
+        expression: PERFORMANCE_MEMORY_EXPRESSION,
+        returnByValue: true,
+        silent: true,
+      });
+      const counters = await session.send('Memory.getDOMCounters');
+      const { metrics } = await session.send('Performance.getMetrics');
+
+      const performanceMemory = memory.result?.value;
+      monitor.samples.push({
+        timestamp: Date.now(),
+        heapUsedBytes: usage.usedSize,
+        heapTotalBytes: usage.totalSize,
+        performanceMemory: typeof performanceMemory?.usedJSHeapSize === 'number' ? performanceMemory : undefined,
+        domCounters:
+          typeof counters.nodes === 'number'
+            ? { documents: counters.documents, nodes: counters.nodes, jsEventListeners: counters.jsEventListeners }
+            : undefined,
+        metrics: Object.fromEntries(
+          (metrics ?? []).filter((metric) => metric.name !== 'Timestamp').map((metric) => [metric.name, metric.value])
+        ),
+      });
+    } catch (error) {
+      monitor.failedSamples++;
+      monitor.lastError = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  private buildResult(page: Page, monitor: PageMemoryMonitor, lastN?: number): MemoryMonitorResult {
+    const samples = monitor.samples.toArray();
+    const limitations: string[] = [];
+    if (monitor.failedSamples > 0) {
+      limitations.push(`${monitor.failedSamples} sample(s) failed; last error: ${monitor.lastError}`);
+    }
+    if (samples.length > 0 && samples.every((sample) => !sample.performanceMemory)) {
+      limitations.push('performance.memory is not available in this page');
+    }
+
+    return {
+      url: page.url(),
+      running: monitor.timer !== undefined,
+      intervalMs: monitor.intervalMs,
+      maxSamples: monitor.maxSamples,
+      startedAt: monitor.startedAt,
+      stoppedAt: monitor.stoppedAt,
+      sampleCount: samples.length,
+      droppedSamples: monitor.samples.dropped,
+      failedSamples: monitor.failedSamples,
+      stats: summarizeMemorySeries(samples),
+      leak: assessMemoryGrowth(samples),
+      samples: lastN !== undefined ? samples.slice(-lastN) : samples,
+      limitations: limitations.length ? limitations : undefined,
+    };
+  }
+}
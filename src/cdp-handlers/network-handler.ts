@@ -0,0 +1,370 @@
+import { Page, CDPSession } from 'puppeteer';
+import {
+  NetworkRequestEntry,
+  GetNetworkRequestsParams,
+  NetworkRequestsResult,
+} from '../types.js';
+import { BrowserManager } from '../browser-manager.js';
+import { RingBuffer } from '../utils/ring-buffer.js';
+
+/**
+ * 每个页面最多保留的请求记录数
+ */
+const DEFAULT_BUFFER_SIZE = 1000;
+const DEFAULT_LIMIT = 100;
+
+/**
+ * 进行中的请求（记录 CDP 单调时钟的开始时间，用于计算耗时）
+ */
+interface InflightRequest {
+  entry: NetworkRequestEntry;
+  startTimestamp: number;
+}
+
+/**
+ * 单个页面的网络捕获状态
+ */
+export interface PageNetworkCapture {
+  session: CDPSession;
+  buffer: RingBuffer<NetworkRequestEntry>;
+  inflight: Map<string, InflightRequest>;
+  startedAt: number;
+  /** 页面 close 监听（停止捕获时移除） */
+  onPageClose: () => void;
+}
+
+/**
+ * 网络请求处理器
+ *
+ * 为每个页面保持一个 CDP 会话订阅 Network.* 事件，
+ * 请求记录保存在有界的环形缓冲区中。新页面在首次导航前即开始捕获。
+ */
+export class NetworkHandler {
+  private browserManager: BrowserManager;
+  private captures: Map<Page, Promise<PageNetworkCapture>> = new Map();
+  private unsubscribers: Array<() => void> = [];
+
+  constructor(browserManager: BrowserManager) {
+    this.browserManager = browserManager;
+    this.unsubscribers.push(
+      this.browserManager.onPageCreated(async (page) => {
+        await this.ensureCapture(page);
+      }),
+      this.browserManager.onPageClosing(async (page) => {
+        await this.stopCapture(page);
+      })
+    );
+  }
+
+  /**
+   * 取消页面事件订阅并停止所有页面的网络捕获（所属会话结束时调用）
+   */
+  public async dispose(): Promise<void> {
+    this.unsubscribers.splice(0).forEach((unsubscribe) => unsubscribe());
+    await Promise.all(Array.from(this.captures.keys(), (page) => this.stopCapture(page)));
+  }
+
+  /**
+   * 获取页面的网络请求记录
+   */
+  public async getNetworkRequests(
+    params: GetNetworkRequestsParams
+  ): Promise<NetworkRequestsResult> {
+    const page = await this.browserManager.getPage(params.url);
+    const isNewCapture = !this.captures.has(page);
+    const capture = await this.ensureCapture(page);
+
+    const entries = capture.buffer.toArray();
+    const matchUrl = this.createUrlMatcher(params.urlPattern);
+    const resourceTypes = params.resourceTypes?.map((t) => t.toLowerCase());
+
+    const matched = entries.filter((entry) => {
+      if (matchUrl && !matchUrl(entry.url)) {
+        return false;
+      }
+      if (resourceTypes && resourceTypes.length > 0 && !resourceTypes.includes(entry.resourceType.toLowerCase())) {
+        return false;
+      }
+      if (params.statusMin !== undefined && (entry.status === undefined || entry.status < params.statusMin)) {
+        return false;
+      }
+      if (params.statusMax !== undefined && (entry.status === undefined || entry.status > params.statusMax)) {
+        return false;
+      }
+      if (params.minDuration !== undefined && (entry.duration === undefined || entry.duration < params.minDuration)) {
+        return false;
+      }
+      if (params.onlyFailed && !entry.failed) {
+        return false;
+      }
+      return true;
+    });
+
+    const limit = params.limit ?? DEFAULT_LIMIT;
+    const requests = matched.slice(-limit).map((entry) =>
+      params.includeHeaders
+        ? { ...entry }
+        : { ...entry, requestHeaders: undefined, responseHeaders: undefined, postData: undefined }
+    );
+
+    const result: NetworkRequestsResult = {
+      url: page.url(),
+      captureStartedAt: capture.startedAt,
+      total: entries.length,
+      matched: matched.length,
+      dropped: capture.buffer.dropped,
+      requests,
+    };
+
+    if (isNewCapture) {
+      result.notes = [
+        '网络捕获在本次调用时才开始，之前的请求未被记录；请刷新页面或重新执行操作后再次获取',
+      ];
+    }
+
+    if (params.clear) {
+      capture.buffer.clear();
+    }
+
+    return result;
+  }
+
+  /**
+   * 确保页面已开始网络捕获（幂等）
+   */
+  public async ensureCapture(page: Page): Promise<PageNetworkCapture> {
+    const existing = this.captures.get(page);
+    if (existing) {
+      return existing;
+    }
+
+    const pending = this.startCapture(page);
+    this.captures.set(page, pending);
+    try {
+      return await pending;
+    } catch (error) {
+      this.captures.delete(page);
+      throw error;
+    }
+  }
+
+  /**
+   * 获取页面已捕获的请求记录（按开始顺序），可按 URL 过滤
+   */
+  public async getEntries(page: Page, urlPattern?: string): Promise<NetworkRequestEntry[]> {
+    const capture = await this.ensureCapture(page);
+    const matchUrl = this.createUrlMatcher(urlPattern);
+    const entries = capture.buffer.toArray();
+    return matchUrl ? entries.filter((entry) => matchUrl(entry.url)) : entries;
+  }
+
+  /**
+   * 页面是否已开始网络捕获
+   */
+  public isCapturing(page: Page): boolean {
+    return this.captures.has(page);
+  }
+
+  /**
+   * 获取响应体（需使用订阅 Network 事件的同一会话；浏览器可能已释放较早的响应体）
+   */
+  public async getResponseBody(
+    page: Page,
+    requestId: string
+  ): Promise<{ body: string; base64Encoded: boolean }> {
+    const capture = await this.ensureCapture(page);
+    const response = (await capture.session.send('Network.getResponseBody', { requestId })) as {
+      body: string;
+      base64Encoded: boolean;
+    };
+    return { body: response.body, base64Encoded: response.base64Encoded };
+  }
+
+  /**
+   * 创建 CDP 会话并订阅 Network 事件
+   */
+  private async startCapture(page: Page): Promise<PageNetworkCapture> {
+    const session = await page.target().createCDPSession();
+    const capture: PageNetworkCapture = {
+      session,
+      buffer: new RingBuffer<NetworkRequestEntry>(DEFAULT_BUFFER_SIZE),
+      inflight: new Map(),
+      startedAt: Date.now(),
+      onPageClose: () => {
+        this.stopCapture(page).catch(() => {
+          // 忽略关闭错误
+        });
+      },
+    };
+
+    session.on('Network.requestWillBeSent', (event: any) => this.onRequestWillBeSent(capture, event));
+    session.on('Network.responseReceived', (event: any) => this.onResponseReceived(capture, event));
+    session.on('Network.requestServedFromCache', (event: any) => {
+      const inflight = capture.inflight.get(event.requestId);
+      if (inflight) {
+        inflight.entry.fromCache = true;
+      }
+    });
+    session.on('Network.dataReceived', (event: any) => {
+      const inflight = capture.inflight.get(event.requestId);
+      if (inflight) {
+        inflight.entry.dataLength = (inflight.entry.dataLength ?? 0) + event.dataLength;
+      }
+    });
+    session.on('Network.loadingFinished', (event: any) => {
+      const inflight = capture.inflight.get(event.requestId);
+      if (!inflight) {
+        return;
+      }
+      inflight.entry.encodedDataLength = event.encodedDataLength;
+      this.finish(capture, event.requestId, event.timestamp);
+    });
+    session.on('Network.loadingFailed', (event: any) => {
+      const inflight = capture.inflight.get(event.requestId);
+      if (!inflight) {
+        return;
+      }
+      inflight.entry.failed = true;
+      inflight.entry.errorText = event.blockedReason
+        ? `${event.errorText} (blocked: ${event.blockedReason})`
+        : event.errorText;
+      inflight.entry.canceled = event.canceled || undefined;
+      this.finish(capture, event.requestId, event.timestamp);
+    });
+
+    // 页面关闭时释放 CDP 会话，防止内存泄漏
+    page.on('close', capture.onPageClose);
+
+    await session.send('Network.enable');
+    return capture;
+  }
+
+  /**
+   * 停止页面的网络捕获并释放 CDP 会话
+   */
+  private async stopCapture(page: Page): Promise<void> {
+    const pending = this.captures.get(page);
+    if (!pending) {
+      return;
+    }
+    this.captures.delete(page);
+
+    try {
+      const capture = await pending;
+      page.removeListener('close', capture.onPageClose);
+      capture.inflight.clear();
+      await capture.session.detach();
+    } catch (error) {
+      // 忽略关闭错误
+    }
+  }
+
+  private onRequestWillBeSent(capture: PageNetworkCapture, event: any): void {
+    // 重定向：以重定向响应结束上一跳，再为新地址创建记录
+    const previous = capture.inflight.get(event.requestId);
+    if (previous && event.redirectResponse) {
+      this.applyResponse(previous.entry, event.redirectResponse);
+      previous.entry.redirectedTo = event.request.url;
+      this.finish(capture, event.requestId, event.timestamp);
+    }
+
+    const entry: NetworkRequestEntry = {
+      requestId: event.requestId,
+      url: event.request.url,
+      method: event.request.method,
+      resourceType: event.type ?? 'Other',
+      startedAt: typeof event.wallTime === 'number' ? Math.round(event.wallTime * 1000) : Date.now(),
+      initiator: event.initiator?.type,
+      requestHeaders: event.request.headers,
+      postData: event.request.postData,
+      finished: false,
+    };
+
+    const evicted = capture.buffer.push(entry);
+    if (evicted && !evicted.finished) {
+      const evictedInflight = capture.inflight.get(evicted.requestId);
+      if (evictedInflight?.entry === evicted) {
+        capture.inflight.delete(evicted.requestId);
+      }
+    }
+    capture.inflight.set(event.requestId, { entry, startTimestamp: event.timestamp });
+  }
+
+  private onResponseReceived(capture: PageNetworkCapture, event: any): void {
+    const inflight = capture.inflight.get(event.requestId);
+    if (!inflight) {
+      return;
+    }
+    inflight.entry.resourceType = event.type ?? inflight.entry.resourceType;
+    this.applyResponse(inflight.entry, event.response);
+  }
+
+  /**
+   * 将 CDP Response 写入记录
+   */
+  private applyResponse(entry: NetworkRequestEntry, response: any): void {
+    entry.status = response.status;
+    entry.statusText = response.statusText;
+    entry.mimeType = response.mimeType;
+    entry.protocol = response.protocol;
+    entry.responseHeaders = response.headers;
+    if (response.requestHeaders) {
+      // 实际发送的请求头（包含 Cookie 等）
+      entry.requestHeaders = response.requestHeaders;
+    }
+    if (response.remoteIPAddress) {
+      entry.remoteAddress = response.remotePort
+        ? `${response.remoteIPAddress}:${response.remotePort}`
+        : response.remoteIPAddress;
+    }
+    if (response.fromDiskCache || response.fromPrefetchCache) {
+      entry.fromCache = true;
+    }
+    if (response.fromServiceWorker) {
+      entry.fromServiceWorker = true;
+    }
+    if (typeof response.encodedDataLength === 'number') {
+      entry.encodedDataLength = response.encodedDataLength;
+    }
+    if (response.timing) {
+      entry.timing = response.timing;
+    }
+  }
+
+  /**
+   * 结束请求并计算耗时（CDP timestamp 为秒级单调时钟）
+   */
+  private finish(capture: PageNetworkCapture, requestId: string, timestamp: number): void {
+    const inflight = capture.inflight.get(requestId);
+    if (!inflight) {
+      return;
+    }
+    if (typeof timestamp === 'number' && typeof inflight.startTimestamp === 'number') {
+      inflight.entry.duration = Math.max(0, Math.round((timestamp - inflight.startTimestamp) * 1000));
+    }
+    inflight.entry.finished = true;
+    capture.inflight.delete(requestId);
+  }
+
+  /**
+   * 创建 URL 匹配函数：/.../flags 按正则匹配，否则按子串匹配（不区分大小写）
+   */
+  private createUrlMatcher(pattern?: string): ((url: string) => boolean) | undefined {
+    if (!pattern) {
+      return undefined;
+    }
+    const regexMatch = /^\/(.+)\/([a-z]*)$/.exec(pattern);
+    if (regexMatch) {
+      let regex: RegExp;
+      try {
+        // 去掉 g/y 标志，避免 test() 受 lastIndex 影响
+        regex = new RegExp(regexMatch[1], regexMatch[2].replace(/[gy]/g, ''));
+      } catch (error) {
+        throw new Error(`Invalid urlPattern regex: ${pattern}`);
+      }
+      return (url) => regex.test(url);
+    }
+    const needle = pattern.toLowerCase();
+    return (url) => url.toLowerCase().includes(needle);
+  }
+}
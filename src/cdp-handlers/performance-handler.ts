@@ -1,6 +1,28 @@
 import { Page } from 'puppeteer';
-import { PerformanceMetrics, GetPerformanceParams } from '../types.js';
+import { PerformanceMetrics, GetPerformanceParams, PerformanceRuntimeMetrics } from '../types.js';
 import { BrowserManager } from '../browser-manager.js';
+import { measureWithThrottling } from '../utils/throttling-utils.js';
+
+type CdpMetric = { name: string; value: number };
+
+/**
+ * 把 Performance.getMetrics 的数组转换为对象（Timestamp 单独返回）
+ */
+function toRuntimeMetrics(metrics: CdpMetric[] | undefined): {
+  runtime: PerformanceRuntimeMetrics;
+  timestamp?: number;
+} {
+  const runtime: PerformanceRuntimeMetrics = {};
+  let timestamp: number | undefined;
+  for (const metric of metrics ?? []) {
+    if (metric.name === 'Timestamp') {
+      timestamp = metric.value;
+    } else {
+      runtime[metric.name] = metric.value;
+    }
+  }
+  return { runtime, timestamp };
+}
 
 /**
  * 性能数据收集器
@@ -13,18 +35,36 @@ export class PerformanceHandler {
   }
 
   /**
-   * 获取性能数据
+   * 获取性能数据（指定节流配置时在节流条件下重新加载页面后测量）
    */
   public async getPerformance(
     params: GetPerformanceParams
   ): Promise<PerformanceMetrics> {
     const page = await this.browserManager.getPage(params.url);
+    const { result, throttling } = await measureWithThrottling(
+      this.browserManager,
+      page,
+      params.throttling,
+      () => this.collectPerformance(page, params.deltaWaitMs)
+    );
+    return throttling ? { ...result, throttling } : result;
+  }
 
+  /**
+   * 收集页面性能数据（指定 deltaWaitMs 时在等待前后各读取一次运行时指标）
+   */
+  private async collectPerformance(page: Page, deltaWaitMs?: number): Promise<PerformanceMetrics> {
     // 启用 Performance 域
     const client = await page.target().createCDPSession();
     try {
       await client.send('Performance.enable');
 
+      let before: ReturnType<typeof toRuntimeMetrics> | undefined;
+      if (deltaWaitMs !== undefined) {
+        before = toRuntimeMetrics((await client.send('Performance.getMetrics')).metrics);
+        await new Promise((resolve) => setTimeout(resolve, deltaWaitMs));
+      }
+
       // 获取性能指标
       const performanceData = await page.evaluate(() => {
       const navigation = performance.getEntriesByType(
@@ -95,10 +135,30 @@ export class PerformanceHandler {
       };
     });
 
-      // 获取 Performance Timeline 数据
-      const timeline = await client.send('Performance.getMetrics');
+      // 获取运行时指标
+      const after = toRuntimeMetrics((await client.send('Performance.getMetrics')).metrics);
+      const result: PerformanceMetrics = { ...(performanceData as PerformanceMetrics), runtime: after.runtime };
+
+      if (before && deltaWaitMs !== undefined) {
+        const delta: PerformanceRuntimeMetrics = {};
+        for (const [name, value] of Object.entries(after.runtime)) {
+          const previous = before.runtime[name];
+          if (value !== undefined && previous !== undefined) {
+            delta[name] = value - previous;
+          }
+        }
+        result.runtimeDelta = {
+          waitMs: deltaWaitMs,
+          elapsedMs:
+            before.timestamp !== undefined && after.timestamp !== undefined
+              ? Math.round((after.timestamp - before.timestamp) * 1000)
+              : deltaWaitMs,
+          before: before.runtime,
+          delta,
+        };
+      }
 
-      return performanceData as PerformanceMetrics;
+      return result;
     } finally {
       // 确保 CDP 连接被正确关闭
       try {
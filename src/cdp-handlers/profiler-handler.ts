@@ -0,0 +1,81 @@
+import { ProfileCpuParams, ProfileCpuResult } from '../types.js';
+import { BrowserManager } from '../browser-manager.js';
+import { runScenario } from './scenario-runner.js';
+import { CpuProfile, summarizeCpuProfile } from '../utils/cpu-profile-utils.js';
+import { exportProfileJson } from '../utils/profile-export-utils.js';
+import { join } from 'node:path';
+import { randomUUID } from 'node:crypto';
+
+/**
+ * JavaScript CPU 分析器（基于 CDP Profiler 域）
+ */
+export class ProfilerHandler {
+  private browserManager: BrowserManager;
+
+  constructor(browserManager: BrowserManager) {
+    this.browserManager = browserManager;
+  }
+
+  /**
+   * 录制 CPU profile（可在录制期间执行场景操作），返回热点函数并按需导出 .cpuprofile
+   */
+  public async profileCpu(params: ProfileCpuParams): Promise<ProfileCpuResult> {
+    const page = await this.browserManager.getPage(params.url);
+    const client = await page.target().createCDPSession();
+
+    try {
+      const topN = params.topN ?? 20;
+      const durationMs = params.duration ?? (params.steps?.length ? 0 : 5000);
+      const exportMode = params.export?.mode ?? 'none';
+      const limitations: string[] = [];
+
+      await client.send('Profiler.enable');
+      await client.send('Profiler.setSamplingInterval', { interval: params.samplingInterval ?? 1000 });
+      await client.send('Profiler.start');
+
+      if (params.steps?.length) {
+        await runScenario(page, params.steps, {
+          settleMs: params.settleMs ?? 500,
+          timeout: params.timeout ?? 5000,
+        });
+      }
+      if (durationMs > 0) {
+        await new Promise((resolve) => setTimeout(resolve, durationMs));
+      }
+
+      const { profile } = (await client.send('Profiler.stop')) as { profile: CpuProfile };
+      const summary = summarizeCpuProfile(profile, { topN });
+      if (summary.sampleCount === 0) {
+        limitations.push('no samples were recorded; increase duration or lower samplingInterval');
+      }
+
+      const exportInfo = await exportProfileJson(JSON.stringify(profile), {
+        mode: exportMode,
+        filePath: params.export?.filePath,
+        defaultFilePath: join('.', '.cpuprofile', `cpu-${Date.now()}-${randomUUID()}.cpuprofile`),
+        maxInlineBytes: params.export?.maxInlineBytes ?? 64 * 1024, // 64KB
+      });
+
+      return {
+        url: page.url(),
+        timestamp: Date.now(),
+        summary,
+        export: exportInfo,
+        limitations: limitations.length ? limitations : undefined,
+      };
+    } finally {
+      // 场景失败时 Profiler.disable 会一并停止录制
+      try {
+        await client.send('Profiler.disable');
+      } catch (error) {
+        // 页面可能已关闭，忽略错误
+      }
+      // 确保 CDP 连接被正确关闭
+      try {
+        await client.detach();
+      } catch (error) {
+        // 忽略关闭错误
+      }
+    }
+  }
+}
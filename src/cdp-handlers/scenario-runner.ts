@@ -0,0 +1,70 @@
+import { Page, KeyInput } from 'puppeteer';
+import { ScenarioStep } from '../types.js';
+
+const NAVIGATION_TIMEOUT = 30000;
+
+/**
+ * 依次执行场景中的操作，每步之后等待 settleMs
+ *
+ * 任一步失败时抛出 `Scenario step N (action) failed: ...`。
+ */
+export async function runScenario(
+  page: Page,
+  steps: ScenarioStep[],
+  options: { settleMs: number; timeout: number }
+): Promise<void> {
+  for (const [index, step] of steps.entries()) {
+    try {
+      switch (step.action) {
+        case 'navigate':
+          await page.goto(step.url, { waitUntil: 'networkidle2', timeout: NAVIGATION_TIMEOUT });
+          break;
+        case 'back':
+          await page.goBack({ waitUntil: 'networkidle2', timeout: NAVIGATION_TIMEOUT });
+          break;
+        case 'forward':
+          await page.goForward({ waitUntil: 'networkidle2', timeout: NAVIGATION_TIMEOUT });
+          break;
+        case 'click':
+          await page.waitForSelector(step.selector, { timeout: options.timeout });
+          await page.click(step.selector);
+          break;
+        case 'type':
+          await page.waitForSelector(step.selector, { timeout: options.timeout });
+          await page.type(step.selector, step.text);
+          break;
+        case 'press':
+          await page.keyboard.press(step.key as KeyInput);
+          break;
+        case 'hover':
+          await page.waitForSelector(step.selector, { timeout: options.timeout });
+          await page.hover(step.selector);
+          break;
+        case 'scroll':
+          if (step.selector) {
+            await page.waitForSelector(step.selector, { timeout: options.timeout });
+            await page.$eval(step.selector, (el) => el.scrollIntoView({ block: 'center' }));
+          } else {
+            await page.evaluate((dy) => window.scrollBy(0, dy), step.deltaY ?? 500);
+          }
+          break;
+        case 'evaluate':
+          await page.evaluate(step.script);
+          break;
+        case 'wait':
+          if (step.selector) {
+            await page.waitForSelector(step.selector, { timeout: options.timeout });
+          }
+          if (step.ms) {
+            await new Promise((resolve) => setTimeout(resolve, step.ms));
+          }
+          continue;
+      }
+    } catch (error) {
+      throw new Error(
+        `Scenario step ${index + 1} (${step.action}) failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+    await new Promise((resolve) => setTimeout(resolve, options.settleMs));
+  }
+}
@@ -0,0 +1,305 @@
+import { CDPSession } from 'puppeteer';
+import {
+  EvaluateScriptParams,
+  EvaluateScriptResult,
+  ScriptExceptionDetails,
+} from '../types.js';
+import { BrowserManager } from '../browser-manager.js';
+import {
+  DEFAULT_SERIALIZE_LIMITS,
+  SerializeLimits,
+  serializeInPage,
+} from '../utils/serialize-utils.js';
+
+const OBJECT_GROUP = 'mcp-evaluate-script';
+const DEFAULT_TIMEOUT = 10000;
+const DEFAULT_MAX_BYTES = 32 * 1024; // 32KB
+// 结果超出 maxBytes 时，逐步收紧序列化限制重试的次数
+const MAX_SERIALIZE_ATTEMPTS = 3;
+
+/**
+ * CDP Runtime.RemoteObject（仅使用到的字段）
+ */
+interface RemoteObject {
+  type: string;
+  subtype?: string;
+  className?: string;
+  value?: unknown;
+  unserializableValue?: string;
+  description?: string;
+  objectId?: string;
+}
+
+/**
+ * CDP Runtime.ExceptionDetails（仅使用到的字段）
+ */
+interface ExceptionDetails {
+  text: string;
+  lineNumber: number;
+  columnNumber: number;
+  url?: string;
+  exception?: RemoteObject;
+  stackTrace?: {
+    callFrames: Array<{
+      functionName: string;
+      url: string;
+      lineNumber: number;
+      columnNumber: number;
+    }>;
+  };
+}
+
+interface EvaluateResponse {
+  result: RemoteObject;
+  exceptionDetails?: ExceptionDetails;
+}
+
+/**
+ * JavaScript 执行处理器（Runtime.evaluate / Runtime.callFunctionOn）
+ */
+export class ScriptHandler {
+  private browserManager: BrowserManager;
+
+  constructor(browserManager: BrowserManager) {
+    this.browserManager = browserManager;
+  }
+
+  /**
+   * 在页面中执行脚本，返回有界的结果预览
+   */
+  public async evaluateScript(
+    params: EvaluateScriptParams
+  ): Promise<EvaluateScriptResult> {
+    const hasExpression = typeof params.expression === 'string' && params.expression.length > 0;
+    const hasFunctionBody = typeof params.functionBody === 'string' && params.functionBody.length > 0;
+    if (hasExpression === hasFunctionBody) {
+      throw new Error('Exactly one of expression or functionBody must be provided');
+    }
+
+    const page = await this.browserManager.getPage(params.url);
+    const client = await page.target().createCDPSession();
+    const startedAt = Date.now();
+    let timedOut = false;
+
+    try {
+      await client.send('Runtime.enable');
+
+      const timeout = params.timeout ?? DEFAULT_TIMEOUT;
+      const awaitPromise = params.awaitPromise ?? true;
+
+      const evaluation = hasExpression
+        ? this.evaluateExpression(client, params.expression!, awaitPromise)
+        : this.callFunction(client, params.functionBody!, params.args ?? [], awaitPromise);
+
+      const response = await this.withTimeout(evaluation, timeout, () => {
+        timedOut = true;
+        // 超时只在 Node 侧生效，页面中的脚本（如死循环）会继续占用渲染进程，需要主动终止
+        client.send('Runtime.terminateExecution').catch(() => {
+          // ignore
+        });
+      });
+
+      if (response.exceptionDetails) {
+        return {
+          success: false,
+          exception: this.formatException(response.exceptionDetails),
+          durationMs: Date.now() - startedAt,
+        };
+      }
+
+      const preview = await this.serializeResult(client, response.result, {
+        ...DEFAULT_SERIALIZE_LIMITS,
+        maxDepth: params.maxDepth ?? DEFAULT_SERIALIZE_LIMITS.maxDepth,
+      }, params.maxBytes ?? DEFAULT_MAX_BYTES);
+
+      return {
+        success: true,
+        type: response.result.subtype ?? response.result.type,
+        className: response.result.className,
+        ...preview,
+        durationMs: Date.now() - startedAt,
+      };
+    } finally {
+      // 超时后渲染进程可能仍然繁忙，不等待释放对象组（关闭会话时对象组会随之释放）
+      if (!timedOut) {
+        await client.send('Runtime.releaseObjectGroup', { objectGroup: OBJECT_GROUP }).catch(() => {
+          // ignore
+        });
+      }
+      // 确保 CDP 连接被正确关闭
+      try {
+        await client.detach();
+      } catch (error) {
+        // 忽略关闭错误
+      }
+    }
+  }
+
+  /**
+   * 表达式模式：Runtime.evaluate（replMode 支持顶层 await）
+   */
+  private async evaluateExpression(
+    client: CDPSession,
+    expression: string,
+    awaitPromise: boolean
+  ): Promise<EvaluateResponse> {
+    return (await client.send('Runtime.evaluate', {
+      expression,
+      objectGroup: OBJECT_GROUP,
+      awaitPromise,
+      replMode: true,
+      userGesture: true,
+      returnByValue: false,
+    })) as EvaluateResponse;
+  }
+
+  /**
+   * 函数体模式：以 globalThis 为 this 调用 async 函数
+   */
+  private async callFunction(
+    client: CDPSession,
+    functionBody: string,
+    args: unknown[],
+    awaitPromise: boolean
+  ): Promise<EvaluateResponse> {
+    const globalResult = (await client.send('Runtime.evaluate', {
+      expression: 'globalThis',
+      objectGroup: OBJECT_GROUP,
+    })) as EvaluateResponse;
+
+    const objectId = globalResult.result.objectId;
+    if (!objectId) {
+      throw new Error('Failed to resolve globalThis in page');
+    }
+
+    return (await client.send('Runtime.callFunctionOn', {
+      functionDeclaration: `async function (...args) {\n${functionBody}\n}`,
+      objectId,
+      arguments: args.map((value) => ({ value })),
+      objectGroup: OBJECT_GROUP,
+      awaitPromise,
+      userGesture: true,
+      returnByValue: false,
+    })) as EvaluateResponse;
+  }
+
+  /**
+   * 将 RemoteObject 序列化为有界的 JSON 预览
+   */
+  private async serializeResult(
+    client: CDPSession,
+    result: RemoteObject,
+    limits: SerializeLimits,
+    maxBytes: number
+  ): Promise<{ value: unknown; previewBytes: number; truncated?: boolean }> {
+    // 原始值：直接使用 value / unserializableValue
+    if (!result.objectId) {
+      const value =
+        result.type === 'undefined'
+          ? { __type: 'undefined' }
+          : result.unserializableValue !== undefined
+            ? { __type: result.type, value: result.unserializableValue }
+            : result.value;
+      return this.boundPreview(value, maxBytes);
+    }
+
+    let current = limits;
+    for (let attempt = 0; attempt < MAX_SERIALIZE_ATTEMPTS; attempt++) {
+      const serialized = (await client.send('Runtime.callFunctionOn', {
+        functionDeclaration: serializeInPage.toString(),
+        objectId: result.objectId,
+        arguments: [{ value: current }],
+        returnByValue: true,
+        objectGroup: OBJECT_GROUP,
+      })) as EvaluateResponse;
+
+      if (serialized.exceptionDetails) {
+        // 序列化失败时退化为 CDP 提供的描述文本
+        return this.boundPreview(result.description ?? `[${result.type}]`, maxBytes);
+      }
+
+      const preview = this.boundPreview(serialized.result.value, maxBytes);
+      if (!preview.truncated || attempt === MAX_SERIALIZE_ATTEMPTS - 1) {
+        return {
+          ...preview,
+          truncated: preview.truncated || current !== limits || undefined,
+        };
+      }
+
+      // 超出体积：收紧限制后重试
+      current = {
+        maxDepth: Math.max(1, current.maxDepth - 1),
+        maxArrayItems: Math.max(5, Math.floor(current.maxArrayItems / 2)),
+        maxProperties: Math.max(5, Math.floor(current.maxProperties / 2)),
+        maxStringLength: Math.max(100, Math.floor(current.maxStringLength / 2)),
+      };
+    }
+
+    // 不会执行到这里
+    return this.boundPreview(result.description, maxBytes);
+  }
+
+  /**
+   * 按字节数限制预览；超出时返回截断的 JSON 文本
+   */
+  private boundPreview(
+    value: unknown,
+    maxBytes: number
+  ): { value: unknown; previewBytes: number; truncated?: boolean } {
+    const json = JSON.stringify(value) ?? 'undefined';
+    const bytes = Buffer.byteLength(json, 'utf8');
+    if (bytes <= maxBytes) {
+      return { value, previewBytes: bytes };
+    }
+    const sliced = Buffer.from(json, 'utf8').subarray(0, maxBytes).toString('utf8');
+    return {
+      value: `${sliced}…`,
+      previewBytes: Buffer.byteLength(sliced, 'utf8'),
+      truncated: true,
+    };
+  }
+
+  /**
+   * 格式化异常信息（行列号转换为从 1 开始）
+   */
+  private formatException(details: ExceptionDetails): ScriptExceptionDetails {
+    const exception = details.exception;
+    const message =
+      exception?.description?.split('\n')[0] ??
+      (exception?.value !== undefined ? `Uncaught ${String(exception.value)}` : details.text);
+
+    return {
+      message,
+      description: exception?.description,
+      url: details.url || undefined,
+      lineNumber: details.lineNumber + 1,
+      columnNumber: details.columnNumber + 1,
+      stackTrace: details.stackTrace?.callFrames.map(
+        (frame) =>
+          `${frame.functionName || '(anonymous)'} (${frame.url || '<anonymous>'}:${frame.lineNumber + 1}:${frame.columnNumber + 1})`
+      ),
+    };
+  }
+
+  /**
+   * 为执行添加超时（超时时先调用 onTimeout）
+   */
+  private async withTimeout<T>(promise: Promise<T>, timeoutMs: number, onTimeout: () => void): Promise<T> {
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      return await Promise.race([
+        promise,
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(() => {
+            onTimeout();
+            reject(new Error(`Script evaluation timed out after ${timeoutMs}ms`));
+          }, timeoutMs);
+        }),
+      ]);
+    } finally {
+      if (timer) {
+        clearTimeout(timer);
+      }
+    }
+  }
+}
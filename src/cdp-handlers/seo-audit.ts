@@ -0,0 +1,303 @@
+import { Page } from 'puppeteer';
+import { AuditFailure, CategoryAuditResult } from './lighthouse-types.js';
+import {
+  AuditRuleDefinition,
+  RuleCheck,
+  buildRuleResult,
+  describeElementInPage,
+  scoreAuditRules,
+} from './audit-utils.js';
+
+/**
+ * SEO 规则（id 与 Lighthouse 一致，各规则权重相同）
+ */
+export const SEO_RULES: AuditRuleDefinition[] = [
+  { id: 'viewport', title: 'Has a <meta name="viewport"> tag with width or initial-scale', weight: 1 },
+  { id: 'document-title', title: 'Document has a <title> element', weight: 1 },
+  { id: 'meta-description', title: 'Document has a meta description', weight: 1 },
+  { id: 'http-status-code', title: 'Page has successful HTTP status code', weight: 1 },
+  { id: 'is-crawlable', title: "Page isn't blocked from indexing", weight: 1 },
+  { id: 'crawlable-anchors', title: 'Links are crawlable', weight: 1 },
+  { id: 'hreflang', title: 'Document has a valid hreflang', weight: 1 },
+  { id: 'canonical', title: 'Document has a valid rel=canonical', weight: 1 },
+  { id: 'structured-data', title: 'Structured data (JSON-LD) is valid JSON', weight: 1 },
+];
+
+/**
+ * 最多检查的链接数量
+ */
+const MAX_ANCHORS = 2000;
+
+/**
+ * hreflang 取值：语言[-文字][-地区] 或 x-default
+ */
+const HREFLANG_PATTERN = /^(?:[a-z]{2,3}(?:-[a-z]{4})?(?:-(?:[a-z]{2}|\d{3}))?|x-default)$/i;
+
+/**
+ * 主文档响应（来自网络捕获）
+ */
+export interface MainDocumentResponse {
+  status?: number;
+  headers?: Record<string, string>;
+}
+
+/**
+ * 页面中收集的 SEO 相关 DOM 信息
+ */
+export interface SeoDomFacts {
+  url: string;
+  title: string;
+  /**
+   * meta description 内容（没有该标签时为 null）
+   */
+  metaDescription: string | null;
+  viewport: string | null;
+  robotsMeta: Array<{ name: string; content: string; element: AuditFailure }>;
+  hreflangs: Array<{ hreflang: string; href: string; element: AuditFailure }>;
+  canonicals: Array<{ href: string; element: AuditFailure }>;
+  anchorCount: number;
+  uncrawlableAnchors: Array<{ reason: string; element: AuditFailure }>;
+  jsonLd: Array<{ text: string; element: AuditFailure }>;
+  /**
+   * PerformanceNavigationTiming.responseStatus（浏览器不支持时为 null）
+   */
+  navigationStatus: number | null;
+}
+
+/**
+ * 运行 SEO 审计
+ */
+export async function runSeoAudit(
+  page: Page,
+  mainDocument: MainDocumentResponse | undefined,
+  skipRules: string[] = []
+): Promise<CategoryAuditResult> {
+  const facts = (await page.evaluate(
+    `(${collectSeoFactsInPage.toString()})(${describeElementInPage.toString()}, ${MAX_ANCHORS})`
+  )) as SeoDomFacts;
+  const checks = checkSeoFacts(facts, mainDocument);
+
+  return scoreAuditRules(
+    SEO_RULES.filter((rule) => !skipRules.includes(rule.id)).map((rule) => buildRuleResult(rule, checks[rule.id]))
+  );
+}
+
+/**
+ * 根据页面信息检查 SEO 规则
+ */
+export function checkSeoFacts(
+  facts: SeoDomFacts,
+  mainDocument?: MainDocumentResponse
+): Record<string, RuleCheck> {
+  const pass = (): RuleCheck => ({ checked: 1, failures: [] });
+  const fail = (explanation: string, selector = 'html'): RuleCheck => ({
+    checked: 1,
+    failures: [{ selector, explanation }],
+  });
+
+  const status = mainDocument?.status || facts.navigationStatus || undefined;
+
+  return {
+    viewport:
+      facts.viewport === null
+        ? fail('No <meta name="viewport"> tag found', 'head')
+        : /(^|[,;\s])(width|initial-scale)\s*=/i.test(facts.viewport)
+          ? pass()
+          : fail(`Viewport content "${facts.viewport}" has no width or initial-scale`, 'meta[name="viewport"]'),
+    'document-title': facts.title.trim() ? pass() : fail('Document has no <title> or it is empty', 'head'),
+    'meta-description':
+      facts.metaDescription === null
+        ? fail('No <meta name="description"> tag found', 'head')
+        : facts.metaDescription.trim()
+          ? pass()
+          : fail('Meta description is empty', 'meta[name="description"]'),
+    'http-status-code':
+      status === undefined
+        ? { checked: 0, failures: [] }
+        : status >= 400
+          ? fail(`Main document returned HTTP ${status}`, 'document')
+          : pass(),
+    'is-crawlable': checkCrawlable(facts, mainDocument),
+    'crawlable-anchors': {
+      checked: facts.anchorCount,
+      failures: facts.uncrawlableAnchors.map(({ reason, element }) => ({ ...element, explanation: reason })),
+    },
+    hreflang: {
+      checked: facts.hreflangs.length,
+      failures: facts.hreflangs.flatMap(({ hreflang, href, element }) => {
+        if (!HREFLANG_PATTERN.test(hreflang)) {
+          return [{ ...element, explanation: `Unexpected language code "${hreflang}"` }];
+        }
+        if (!isAbsoluteUrl(href)) {
+          return [{ ...element, explanation: `Relative href "${href}"` }];
+        }
+        return [];
+      }),
+    },
+    canonical: checkCanonical(facts),
+    'structured-data': {
+      checked: facts.jsonLd.length,
+      failures: facts.jsonLd.flatMap(({ text, element }) => {
+        try {
+          JSON.parse(text);
+          return [];
+        } catch (error) {
+          const msg = error instanceof Error ? error.message : String(error);
+          return [{ ...element, explanation: `Invalid JSON-LD: ${msg}` }];
+        }
+      }),
+    },
+  };
+}
+
+/**
+ * 检查 robots meta 和 X-Robots-Tag 是否禁止索引
+ */
+function checkCrawlable(facts: SeoDomFacts, mainDocument?: MainDocumentResponse): RuleCheck {
+  const blocks = (directives: string) => /(^|[\s,:])(noindex|none)(?=$|[\s,])/i.test(directives);
+  const failures: AuditFailure[] = [];
+
+  for (const meta of facts.robotsMeta) {
+    if (blocks(meta.content)) {
+      failures.push({ ...meta.element, explanation: `<meta name="${meta.name}"> blocks indexing: "${meta.content}"` });
+    }
+  }
+
+  const headerName = Object.keys(mainDocument?.headers ?? {}).find((name) => name.toLowerCase() === 'x-robots-tag');
+  if (headerName) {
+    // 同名多值以换行分隔
+    for (const value of mainDocument!.headers![headerName].split('\n')) {
+      if (blocks(value)) {
+        failures.push({ selector: 'document', explanation: `X-Robots-Tag header blocks indexing: "${value}"` });
+      }
+    }
+  }
+
+  return { checked: 1, failures };
+}
+
+/**
+ * 检查 rel=canonical：唯一、绝对地址、不指向与当前页面不同的站点首页
+ */
+function checkCanonical(facts: SeoDomFacts): RuleCheck {
+  if (facts.canonicals.length === 0) {
+    return { checked: 0, failures: [] };
+  }
+
+  const distinct = new Set(facts.canonicals.map(({ href }) => resolveUrl(href, facts.url) ?? href));
+  if (distinct.size > 1) {
+    return {
+      checked: facts.canonicals.length,
+      failures: [
+        { ...facts.canonicals[1].element, explanation: `Multiple conflicting URLs (${Array.from(distinct).join(', ')})` },
+      ],
+    };
+  }
+
+  const { href, element } = facts.canonicals[0];
+  const resolved = resolveUrl(href, facts.url);
+  const failures: AuditFailure[] = [];
+  if (!resolved) {
+    failures.push({ ...element, explanation: `Invalid URL "${href}"` });
+  } else if (!isAbsoluteUrl(href)) {
+    failures.push({ ...element, explanation: `Is not an absolute URL ("${href}")` });
+  } else {
+    const canonicalUrl = new URL(resolved);
+    const pageUrl = new URL(facts.url);
+    if (canonicalUrl.origin === pageUrl.origin && canonicalUrl.pathname === '/' && pageUrl.pathname !== '/') {
+      failures.push({ ...element, explanation: 'Points to the domain root instead of an equivalent page' });
+    }
+  }
+
+  return { checked: facts.canonicals.length, failures };
+}
+
+function resolveUrl(href: string, base: string): string | null {
+  try {
+    return new URL(href, base).href;
+  } catch {
+    return null;
+  }
+}
+
+function isAbsoluteUrl(href: string): boolean {
+  try {
+    new URL(href);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 在页面中收集 SEO 相关的 DOM 信息
+ *
+ * 注意：该函数会被序列化后在页面中执行，不能引用外部变量。
+ */
+function collectSeoFactsInPage(describe: (el: Element) => AuditFailure, maxAnchors: number): SeoDomFacts {
+  const metaContent = (name: string) => {
+    const meta = document.querySelector(`meta[name="${name}" i]`);
+    return meta ? meta.getAttribute('content') ?? '' : null;
+  };
+
+  const robotsMeta = Array.from(document.querySelectorAll('meta[name]'))
+    .filter((meta) => /^(robots|googlebot|bingbot)$/i.test(meta.getAttribute('name') ?? ''))
+    .map((meta) => ({
+      name: meta.getAttribute('name') ?? '',
+      content: meta.getAttribute('content') ?? '',
+      element: describe(meta),
+    }));
+
+  const hreflangs = Array.from(document.querySelectorAll('link[rel~="alternate" i][hreflang]')).map((link) => ({
+    hreflang: link.getAttribute('hreflang') ?? '',
+    href: link.getAttribute('href') ?? '',
+    element: describe(link),
+  }));
+
+  const canonicals = Array.from(document.querySelectorAll('link[rel~="canonical" i]')).map((link) => ({
+    href: link.getAttribute('href') ?? '',
+    element: describe(link),
+  }));
+
+  const anchors = Array.from(document.querySelectorAll('a')).slice(0, maxAnchors);
+  const uncrawlableAnchors: Array<{ reason: string; element: AuditFailure }> = [];
+  for (const anchor of anchors) {
+    const href = anchor.getAttribute('href');
+    let reason: string | null = null;
+    if (href === null) {
+      if (anchor.hasAttribute('onclick')) {
+        reason = 'Link has a click handler but no href';
+      }
+    } else if (!href.trim()) {
+      reason = 'Link has an empty href';
+    } else if (/^\s*javascript:/i.test(href)) {
+      reason = 'Link uses a javascript: URL';
+    }
+    if (reason) {
+      uncrawlableAnchors.push({ reason, element: describe(anchor) });
+    }
+  }
+
+  const jsonLd = Array.from(document.querySelectorAll('script[type="application/ld+json" i]')).map((script) => ({
+    text: script.textContent ?? '',
+    element: describe(script),
+  }));
+
+  const navigation = performance.getEntriesByType('navigation')[0] as
+    | (PerformanceNavigationTiming & { responseStatus?: number })
+    | undefined;
+
+  return {
+    url: location.href,
+    title: document.title,
+    metaDescription: metaContent('description'),
+    viewport: metaContent('viewport'),
+    robotsMeta,
+    hreflangs,
+    canonicals,
+    anchorCount: anchors.length,
+    uncrawlableAnchors,
+    jsonLd,
+    navigationStatus: navigation?.responseStatus || null,
+  };
+}
@@ -0,0 +1,214 @@
+import { CDPSession } from 'puppeteer';
+import { RecordTraceParams, RecordTraceResult, TraceExportResult } from '../types.js';
+import { BrowserManager } from '../browser-manager.js';
+import { runScenario } from './scenario-runner.js';
+import { TraceDigestBuilder, TraceEvent } from '../utils/trace-digest-utils.js';
+import { createWriteStream, WriteStream } from 'node:fs';
+import { mkdir, rm } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { randomUUID } from 'node:crypto';
+
+/**
+ * DevTools Performance 面板录制时使用的类别（去掉了开销较大的 CPU 采样）
+ */
+const DEFAULT_TRACE_CATEGORIES = [
+  '-*',
+  'devtools.timeline',
+  'disabled-by-default-devtools.timeline',
+  'disabled-by-default-devtools.timeline.frame',
+  'disabled-by-default-devtools.timeline.stack',
+  'toplevel',
+  'v8.execute',
+  'blink.console',
+  'blink.user_timing',
+  'latencyInfo',
+  'loading',
+];
+
+const RELOAD_TIMEOUT = 30000;
+const TRACING_COMPLETE_TIMEOUT = 60000;
+
+/**
+ * 以 JSON 数组形式逐批写入 trace 事件（{"traceEvents":[...]}，DevTools 可直接加载）
+ */
+class TraceFileWriter {
+  private stream: WriteStream;
+  private first = true;
+  private error?: Error;
+  public bytes = 0;
+
+  constructor(public readonly filePath: string) {
+    this.stream = createWriteStream(filePath, 'utf8');
+    this.stream.on('error', (error) => {
+      this.error = error;
+    });
+    this.write('{"traceEvents":[');
+  }
+
+  public append(events: TraceEvent[]): void {
+    if (events.length === 0) {
+      return;
+    }
+    this.write((this.first ? '' : ',') + events.map((event) => JSON.stringify(event)).join(','));
+    this.first = false;
+  }
+
+  public async close(): Promise<void> {
+    this.write(']}');
+    await new Promise<void>((resolve) => this.stream.end(resolve));
+    if (this.error) {
+      throw this.error;
+    }
+  }
+
+  public abort(): void {
+    this.stream.destroy();
+  }
+
+  private write(chunk: string): void {
+    this.bytes += Buffer.byteLength(chunk, 'utf8');
+    this.stream.write(chunk);
+  }
+}
+
+/**
+ * Chrome trace 录制器（基于 CDP Tracing 域）
+ *
+ * 与 get_performance 的 Navigation/Resource Timing 不同，trace 记录的是主线程上每个任务的执行细节，
+ * 可以回答“主线程在忙什么”。
+ */
+export class TracingHandler {
+  private browserManager: BrowserManager;
+
+  constructor(browserManager: BrowserManager) {
+    this.browserManager = browserManager;
+  }
+
+  /**
+   * 录制 trace（可重新加载页面或执行场景操作），返回主线程摘要并按需写入 trace 文件
+   */
+  public async recordTrace(params: RecordTraceParams): Promise<RecordTraceResult> {
+    const page = await this.browserManager.getPage(params.url);
+    const client = await page.target().createCDPSession();
+
+    const categories = params.categories?.length ? params.categories : DEFAULT_TRACE_CATEGORIES;
+    const exportMode = params.export?.mode ?? 'file';
+    const durationMs = params.duration ?? (params.steps?.length || params.reload ? 0 : 5000);
+    const digestBuilder = new TraceDigestBuilder();
+    let writer: TraceFileWriter | undefined;
+    let tracing = false;
+
+    try {
+      if (exportMode === 'file') {
+        const filePath =
+          params.export?.filePath ?? join('.', '.trace', `trace-${Date.now()}-${randomUUID()}.json`);
+        await mkdir(dirname(filePath), { recursive: true });
+        writer = new TraceFileWriter(filePath);
+      }
+
+      client.on('Tracing.dataCollected', (event: { value: TraceEvent[] }) => {
+        for (const traceEvent of event.value) {
+          digestBuilder.add(traceEvent);
+        }
+        writer?.append(event.value);
+      });
+
+      await client.send('Tracing.start', {
+        transferMode: 'ReportEvents',
+        traceConfig: {
+          recordMode: 'recordAsMuchAsPossible',
+          includedCategories: categories.filter((category) => !category.startsWith('-')),
+          excludedCategories: categories.filter((category) => category.startsWith('-')).map((category) => category.slice(1)),
+        },
+      });
+      tracing = true;
+
+      if (params.reload) {
+        await page.reload({ waitUntil: 'load', timeout: RELOAD_TIMEOUT });
+      }
+      if (params.steps?.length) {
+        await runScenario(page, params.steps, {
+          settleMs: params.settleMs ?? 500,
+          timeout: params.timeout ?? 5000,
+        });
+      }
+      if (durationMs > 0) {
+        await new Promise((resolve) => setTimeout(resolve, durationMs));
+      }
+
+      await this.endTracing(client);
+      tracing = false;
+
+      const exportInfo: TraceExportResult = { mode: exportMode };
+      if (writer) {
+        await writer.close();
+        exportInfo.filePath = writer.filePath;
+        exportInfo.fileBytes = writer.bytes;
+        writer = undefined;
+      }
+
+      const digest = digestBuilder.finish({
+        longTaskThresholdMs: params.longTaskThresholdMs,
+        topN: params.topN,
+      });
+
+      const limitations: string[] = [];
+      if (!digest.mainThread) {
+        limitations.push('renderer main thread not found in trace; include devtools.timeline and toplevel in categories');
+      }
+      if (!digest.frames) {
+        limitations.push('no frame events recorded; include disabled-by-default-devtools.timeline.frame in categories');
+      }
+
+      return {
+        url: page.url(),
+        timestamp: Date.now(),
+        categories,
+        digest,
+        export: exportInfo,
+        limitations: limitations.length ? limitations : undefined,
+      };
+    } finally {
+      if (tracing) {
+        // 场景失败时仍需结束录制，否则该页面无法再次开始 trace
+        try {
+          await this.endTracing(client);
+        } catch (error) {
+          // 页面可能已关闭，忽略错误
+        }
+      }
+      // 录制失败时删除不完整的 trace 文件
+      if (writer) {
+        writer.abort();
+        await rm(writer.filePath, { force: true });
+      }
+      // 确保 CDP 连接被正确关闭
+      try {
+        await client.detach();
+      } catch (error) {
+        // 忽略关闭错误
+      }
+    }
+  }
+
+  /**
+   * 结束录制并等待剩余事件通过 Tracing.dataCollected 送达
+   */
+  private async endTracing(client: CDPSession): Promise<void> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const complete = new Promise<void>((resolve, reject) => {
+      client.on('Tracing.tracingComplete', () => resolve());
+      timer = setTimeout(
+        () => reject(new Error('Timed out waiting for Tracing.tracingComplete')),
+        TRACING_COMPLETE_TIMEOUT
+      );
+    });
+
+    try {
+      await client.send('Tracing.end');
+      await complete;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
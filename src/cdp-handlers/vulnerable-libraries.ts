@@ -0,0 +1,79 @@
+/**
+ * 已知存在漏洞的前端库版本（本地签名列表，不依赖网络查询）
+ *
+ * 仅收录影响面较广、已有公开 CVE 的版本范围；版本范围为 [atLeast, below)。
+ */
+export interface VulnerableLibrarySignature {
+  /**
+   * 库名称（与页面中检测到的名称一致）
+   */
+  library: string;
+  atLeast?: string;
+  below: string;
+  severity: 'low' | 'medium' | 'high';
+  advisory: string;
+  summary: string;
+}
+
+export const VULNERABLE_LIBRARIES: VulnerableLibrarySignature[] = [
+  { library: 'jquery', below: '1.9.0', severity: 'medium', advisory: 'CVE-2012-6708', summary: 'XSS via selector strings' },
+  { library: 'jquery', below: '3.0.0', severity: 'medium', advisory: 'CVE-2015-9251', summary: 'XSS via cross-domain ajax text/javascript responses' },
+  { library: 'jquery', below: '3.4.0', severity: 'medium', advisory: 'CVE-2019-11358', summary: 'Prototype pollution in jQuery.extend' },
+  { library: 'jquery', below: '3.5.0', severity: 'medium', advisory: 'CVE-2020-11022', summary: 'XSS when passing HTML to DOM manipulation methods' },
+  { library: 'jquery-ui', below: '1.13.0', severity: 'medium', advisory: 'CVE-2021-41184', summary: 'XSS in the of option of .position()' },
+  { library: 'angularjs', below: '1.8.0', severity: 'medium', advisory: 'CVE-2020-7676', summary: 'XSS via <option> elements in <select>' },
+  { library: 'lodash', below: '4.17.12', severity: 'high', advisory: 'CVE-2019-10744', summary: 'Prototype pollution in defaultsDeep' },
+  { library: 'lodash', below: '4.17.21', severity: 'high', advisory: 'CVE-2021-23337', summary: 'Command injection via template' },
+  { library: 'underscore', atLeast: '1.3.2', below: '1.12.1', severity: 'high', advisory: 'CVE-2021-23358', summary: 'Arbitrary code execution via template' },
+  { library: 'moment', below: '2.29.2', severity: 'high', advisory: 'CVE-2022-24785', summary: 'Path traversal in locale loading' },
+  { library: 'moment', atLeast: '2.18.0', below: '2.29.4', severity: 'high', advisory: 'CVE-2022-31129', summary: 'ReDoS in RFC 2822 date parsing' },
+  { library: 'handlebars', below: '4.7.7', severity: 'high', advisory: 'CVE-2021-23369', summary: 'Remote code execution when compiling untrusted templates' },
+  { library: 'bootstrap', below: '3.4.1', severity: 'medium', advisory: 'CVE-2019-8331', summary: 'XSS in tooltip/popover data-template' },
+  { library: 'bootstrap', atLeast: '4.0.0', below: '4.3.1', severity: 'medium', advisory: 'CVE-2019-8331', summary: 'XSS in tooltip/popover data-template' },
+  { library: 'dompurify', below: '2.0.17', severity: 'medium', advisory: 'CVE-2020-26870', summary: 'Mutation XSS via serialization' },
+];
+
+/**
+ * 页面中检测到的库
+ */
+export interface DetectedLibrary {
+  library: string;
+  version: string;
+}
+
+/**
+ * 比较两个点分版本号（忽略预发布等后缀）
+ *
+ * @returns 负数表示 a < b，0 表示相等，正数表示 a > b
+ */
+export function compareVersions(a: string, b: string): number {
+  const parse = (version: string) =>
+    version
+      .split(/[-+]/)[0]
+      .split('.')
+      .map((part) => parseInt(part, 10) || 0);
+  const left = parse(a);
+  const right = parse(b);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (left[i] ?? 0) - (right[i] ?? 0);
+    if (diff !== 0) {
+      return diff;
+    }
+  }
+  return 0;
+}
+
+/**
+ * 查找检测到的库命中的漏洞签名
+ */
+export function findVulnerabilities(
+  detected: DetectedLibrary,
+  signatures: VulnerableLibrarySignature[] = VULNERABLE_LIBRARIES
+): VulnerableLibrarySignature[] {
+  return signatures.filter(
+    (signature) =>
+      signature.library === detected.library &&
+      compareVersions(detected.version, signature.below) < 0 &&
+      (!signature.atLeast || compareVersions(detected.version, signature.atLeast) >= 0)
+  );
+}
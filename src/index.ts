@@ -5,7 +5,9 @@
  * 
  * 这个文件是浏览器调试 MCP Server 的主入口点。
  * 它使用 @modelcontextprotocol/sdk 来创建一个 MCP Server，
- * 通过 stdio（标准输入输出）与 MCP 客户端通信。
+ * 默认通过 stdio（标准输入输出）与 MCP 客户端通信；
+ * 也可以通过 `--transport http`（或 MCP_TRANSPORT=http）以 HTTP 服务方式运行，
+ * 供多个客户端共享同一个浏览器。
  */
 
 // 导入 McpServer 类 - 这是 MCP SDK 提供的高级服务器类
@@ -20,13 +22,10 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 
 // 导入我们自定义的模块
 import { BrowserManager } from './browser-manager.js';
-import { ConsoleHandler } from './cdp-handlers/console-handler.js';
-import { ElementHandler } from './cdp-handlers/element-handler.js';
-import { CacheHandler } from './cdp-handlers/cache-handler.js';
-import { PerformanceHandler } from './cdp-handlers/performance-handler.js';
-import { HeapHandler } from './cdp-handlers/heap-handler.js';
-import { LighthouseHandler } from './cdp-handlers/lighthouse-handler.js';
 import { registerAllTools } from './tools/index.js';
+import { createToolContext } from './tools/context.js';
+import { HttpSessionServer, HttpTransportServer, MCP_ENDPOINT, SSE_ENDPOINT } from './transports/http-server.js';
+import { isLoopbackHost, parseTransportConfig, TransportConfig } from './transports/transport-config.js';
 
 // 版本号会在构建时通过 tsup 的 define 选项内联
 // 这样无需运行时读取 package.json，也无需每次手动修改版本号
@@ -37,14 +36,20 @@ const version = __PACKAGE_VERSION__;
  * DebuggerMCPServer 类
  * 
  * 这是我们的 MCP Server 主类，负责：
- * 1. 初始化 MCP Server 实例
- * 2. 注册所有可用的工具（tools）
+ * 1. 解析传输层配置（stdio / http）
+ * 2. 创建 MCP Server 实例并注册所有可用的工具（tools）
  * 3. 处理来自客户端的工具调用请求
- * 4. 管理浏览器实例和各个功能处理器
+ * 4. 管理浏览器实例的生命周期
  */
 class DebuggerMCPServer {
-  // MCP Server 实例 - 这是与客户端通信的核心对象
-  private server: McpServer;
+  // stdio 模式下的 MCP Server 实例 - 这是与客户端通信的核心对象
+  private server: McpServer | null = null;
+
+  // http 模式下的 HTTP 服务（每个会话拥有独立的 MCP Server 实例）
+  private httpServer: HttpTransportServer | null = null;
+
+  // 传输层配置（在 start() 中解析）
+  private transportConfig: TransportConfig | null = null;
 
   // 浏览器管理器 - 负责管理 Puppeteer 浏览器实例和页面
   private browserManager: BrowserManager;
@@ -52,27 +57,28 @@ class DebuggerMCPServer {
   // 关闭标志，防止重复关闭
   private isShuttingDown: boolean = false;
 
-  // 各个功能处理器 - 每个处理器负责特定的调试功能
-  private consoleHandler: ConsoleHandler;      // Console 日志处理
-  private elementHandler: ElementHandler;       // DOM 元素检查
-  private cacheHandler: CacheHandler;           // 缓存状态检查
-  private performanceHandler: PerformanceHandler; // 性能数据收集
-  private heapHandler: HeapHandler;             // 内存堆栈分析
-  private lighthouseHandler: LighthouseHandler;  // Lighthouse 性能分析
-
   /**
    * 构造函数
    * 
-   * 在创建 DebuggerMCPServer 实例时，会：
-   * 1. 创建并配置 MCP Server
-   * 2. 初始化浏览器管理器和各个处理器
-   * 3. 注册所有工具
+   * 在创建 DebuggerMCPServer 实例时，会初始化浏览器管理器
    */
   constructor() {
+    // 初始化浏览器管理器（单例模式）
+    // BrowserManager 负责管理 Puppeteer 浏览器实例，所有会话共享同一个浏览器
+    this.browserManager = BrowserManager.getInstance();
+  }
+
+  /**
+   * 创建 MCP Server 实例并注册所有工具
+   * 
+   * 每个 MCP Server 使用独立的工具上下文（各处理器的日志、快照等状态互不影响），
+   * stdio 模式只创建一次，http 模式为每个客户端会话各创建一次（会话结束时调用 dispose 释放上下文）。
+   */
+  private createServer(): HttpSessionServer {
     // 创建 McpServer 实例
     // 第一个参数是服务器信息（名称和版本）
     // 第二个参数是服务器选项，包括能力声明（capabilities）
-    this.server = new McpServer(
+    const server = new McpServer(
       {
         name: 'puppeteer-debugger-mcp',      // 服务器名称，客户端会看到这个名称
         version: version,          // 服务器版本号
@@ -86,44 +92,16 @@ class DebuggerMCPServer {
       }
     );
 
-    // 初始化浏览器管理器（单例模式）
-    // BrowserManager 负责管理 Puppeteer 浏览器实例
-    this.browserManager = BrowserManager.getInstance();
-
-    // 初始化各个功能处理器
+    // 创建工具上下文，包含所有需要的处理器和管理器
     // 每个处理器都需要浏览器管理器来获取页面实例
-    this.consoleHandler = new ConsoleHandler(this.browserManager);
-    this.elementHandler = new ElementHandler(this.browserManager);
-    this.cacheHandler = new CacheHandler(this.browserManager);
-    this.performanceHandler = new PerformanceHandler(this.browserManager);
-    this.heapHandler = new HeapHandler(this.browserManager);
-    this.lighthouseHandler = new LighthouseHandler(this.browserManager);
+    const context = createToolContext(this.browserManager);
 
     // 注册所有工具
     // 这一步会将所有工具注册到 MCP Server，使客户端可以调用它们
-    this.registerTools();
-  }
+    // 每个工具的定义都在独立的文件中，便于管理和维护
+    registerAllTools(server, context);
 
-  /**
-   * 注册所有工具
-   * 
-   * 使用统一的工具注册管理器来注册所有工具。
-   * 每个工具的定义都在独立的文件中，便于管理和维护。
-   */
-  private registerTools(): void {
-    // 创建工具上下文，包含所有需要的处理器和管理器
-    const context = {
-      browserManager: this.browserManager,
-      consoleHandler: this.consoleHandler,
-      elementHandler: this.elementHandler,
-      cacheHandler: this.cacheHandler,
-      performanceHandler: this.performanceHandler,
-      heapHandler: this.heapHandler,
-      lighthouseHandler: this.lighthouseHandler,
-    };
-
-    // 使用统一的工具注册函数注册所有工具
-    registerAllTools(this.server, context);
+    return { server, dispose: () => context.dispose() };
   }
 
   /**
@@ -145,7 +123,12 @@ class DebuggerMCPServer {
       }
 
       // 关闭 MCP 服务器连接
-      await this.server.close();
+      if (this.httpServer) {
+        await this.httpServer.close();
+      }
+      if (this.server) {
+        await this.server.close();
+      }
     } catch (error) {
       // 记录错误但不阻止退出
       console.error('Error during graceful shutdown:', error);
@@ -159,19 +142,21 @@ class DebuggerMCPServer {
    * 启动服务器
    * 
    * 这个方法会：
-   * 1. 创建 stdio 传输层
+   * 1. 根据配置创建 stdio 或 http 传输层
    * 2. 将服务器连接到传输层
    * 3. 初始化浏览器实例
    * 4. 设置优雅关闭处理
    */
   public async start(): Promise<void> {
-    // 创建 stdio 传输层
-    // StdioServerTransport 会从 stdin 读取请求，向 stdout 写入响应
-    const transport = new StdioServerTransport();
-
-    // 将服务器连接到传输层
-    // 连接后，服务器开始监听来自客户端的请求
-    await this.server.connect(transport);
+    // 解析传输层配置（命令行参数优先于环境变量）
+    // 配置无效时抛出错误，由入口处统一输出并退出
+    this.transportConfig = parseTransportConfig(process.argv.slice(2), process.env);
+
+    if (this.transportConfig.type === 'http') {
+      await this.startHttp(this.transportConfig);
+    } else {
+      await this.startStdio();
+    }
 
     // 浏览器将在第一次调用 MCP 工具时自动初始化（通过 getPage() 或 navigate()）
     // 这样可以避免在服务器启动时立即启动浏览器进程，节省资源
@@ -179,21 +164,52 @@ class DebuggerMCPServer {
     // 而 getPage() 方法会在浏览器未初始化时自动调用 initialize()
 
     // 设置优雅关闭处理
-    // 监听多种关闭场景，确保在 MCP 禁用时能够正确清理资源并退出进程
+    this.setupShutdownHandlers();
+  }
 
-    // SIGINT 处理（通常是 Ctrl+C）
-    process.on('SIGINT', () => {
-      this.gracefulShutdown(0);
+  /**
+   * 以 HTTP 服务方式启动（Streamable HTTP + 旧版 SSE）
+   */
+  private async startHttp(config: TransportConfig): Promise<void> {
+    const { host, port, authToken } = config;
+
+    this.httpServer = new HttpTransportServer({
+      host,
+      port,
+      authToken,
+      createServer: () => this.createServer(),
     });
 
-    // SIGTERM 处理（通常是系统关闭信号）
-    process.on('SIGTERM', () => {
-      this.gracefulShutdown(0);
-    });
+    const address = await this.httpServer.start();
+
+    // 日志输出到 stderr，与 stdio 模式保持一致
+    const baseUrl = `http://${address.address}:${address.port}`;
+    console.error(`puppeteer-debugger-mcp listening on ${baseUrl}${MCP_ENDPOINT} (legacy SSE: ${baseUrl}${SSE_ENDPOINT})`);
+    if (!authToken && !isLoopbackHost(host)) {
+      console.error(
+        'Warning: HTTP transport is bound to a non-loopback address without --auth-token; anyone on the network can control the browser.'
+      );
+    }
+  }
+
+  /**
+   * 以 stdio 方式启动
+   */
+  private async startStdio(): Promise<void> {
+    this.server = this.createServer().server;
+
+    // 创建 stdio 传输层
+    // StdioServerTransport 会从 stdin 读取请求，向 stdout 写入响应
+    const transport = new StdioServerTransport();
+
+    // 将服务器连接到传输层
+    // 连接后，服务器开始监听来自客户端的请求
+    await this.server.connect(transport);
 
     // 监听 stdin 关闭事件（当 Cursor 禁用 MCP 时会关闭 stdin）
     // 这是检测 MCP 被禁用的关键方式
     // 同时监听 'end' 和 'close' 事件，确保能够捕获所有关闭场景
+    // 注意：仅 stdio 模式需要，http 模式作为常驻服务不依赖 stdin
     const handleStdinClose = () => {
       this.gracefulShutdown(0);
     };
@@ -205,6 +221,22 @@ class DebuggerMCPServer {
     // 监听 stdin 的 'close' 事件（当底层文件描述符关闭时触发）
     // 这是更底层的关闭事件，作为备用检测方式
     process.stdin.on('close', handleStdinClose);
+  }
+
+  /**
+   * 设置进程级别的关闭处理
+   */
+  private setupShutdownHandlers(): void {    // 监听多种关闭场景，确保在 MCP 禁用时能够正确清理资源并退出进程
+
+    // SIGINT 处理（通常是 Ctrl+C）
+    process.on('SIGINT', () => {
+      this.gracefulShutdown(0);
+    });
+
+    // SIGTERM 处理（通常是系统关闭信号）
+    process.on('SIGTERM', () => {
+      this.gracefulShutdown(0);
+    });
 
     // 注意：process.on('exit') 中不能使用异步操作
     // 清理工作应该在 gracefulShutdown 中完成，这里不需要额外处理
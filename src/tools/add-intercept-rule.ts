@@ -0,0 +1,72 @@
+import { z } from 'zod';
+import { ToolDefinition, ToolContext } from './types.js';
+import { AddInterceptRuleParams } from '../types.js';
+
+/**
+ * 添加请求拦截规则工具定义
+ */
+export const addInterceptRuleTool: ToolDefinition = {
+  name: 'add_intercept_rule',
+  description:
+    '为页面添加请求拦截规则（基于 CDP Fetch 域），用于在不修改后端的情况下模拟接口返回、错误状态、网络故障或慢请求。规则按添加顺序匹配，第一条匹配的规则生效；页面关闭时自动清理',
+  inputSchema: z.object({
+    url: z.string().optional().describe('页面 URL（可选，如果未提供则使用当前页面）'),
+    urlPattern: z
+      .string()
+      .describe('请求 URL 匹配：默认为通配符（* 匹配任意字符，? 匹配单个字符，需匹配完整 URL，如 "*/api/users*"），使用 /.../ 包裹时按正则匹配'),
+    method: z.string().optional().describe('HTTP 方法（如 GET、POST），不指定则匹配所有方法'),
+    action: z
+      .enum(['fulfill', 'abort', 'delay', 'modifyHeaders'])
+      .describe('动作：fulfill 返回预设响应；abort 以网络错误终止；delay 延迟后继续；modifyHeaders 改写请求头/响应头'),
+    status: z.number().int().min(100).max(599).optional().describe('fulfill：响应状态码，默认 200'),
+    headers: z.record(z.string()).optional().describe('fulfill：响应头（未指定 Content-Type 时根据响应体自动推断）'),
+    body: z.string().optional().describe('fulfill：响应体文本'),
+    errorReason: z
+      .enum([
+        'Failed',
+        'Aborted',
+        'TimedOut',
+        'AccessDenied',
+        'ConnectionClosed',
+        'ConnectionReset',
+        'ConnectionRefused',
+        'ConnectionAborted',
+        'ConnectionFailed',
+        'NameNotResolved',
+        'InternetDisconnected',
+        'AddressUnreachable',
+        'BlockedByClient',
+        'BlockedByResponse',
+      ])
+      .optional()
+      .describe('abort：网络错误原因，默认 Failed'),
+    delayMs: z
+      .number()
+      .int()
+      .positive()
+      .max(120000)
+      .optional()
+      .describe('延迟（毫秒）：delay 动作必填；其他动作可选，在执行动作前延迟'),
+    requestHeaders: z
+      .record(z.string().nullable())
+      .optional()
+      .describe('modifyHeaders：改写的请求头，值为 null 表示删除'),
+    responseHeaders: z
+      .record(z.string().nullable())
+      .optional()
+      .describe('modifyHeaders：改写的响应头，值为 null 表示删除'),
+    times: z.number().int().positive().optional().describe('最多生效次数，不指定则一直生效'),
+  }),
+  handler: async (args: AddInterceptRuleParams, context: ToolContext) => {
+    const result = await context.interceptionHandler.addRule(args);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2),
+        },
+      ],
+    };
+  },
+};
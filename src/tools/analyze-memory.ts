@@ -6,13 +6,18 @@ import { ToolDefinition, ToolContext } from './types.js';
  */
 export const analyzeMemoryTool: ToolDefinition = {
     name: 'analyze_memory',
-    description: '分析内存使用情况',
+    description:
+        '分析内存使用情况：V8 堆使用量、按构造函数统计的存活对象数（Runtime.queryObjects）、DOM 节点/监听器/文档计数，以及浏览器各进程 CPU 时间与渲染进程常驻内存',
     inputSchema: z.object({
         url: z.string().optional().describe('页面 URL（可选）'),
+        constructors: z.array(z.string()).max(50).optional().describe(
+            '需要统计存活对象数的构造函数表达式（如 Array、HTMLDivElement、app.Store），默认统计 Object、Array、Function、Promise、Map、Set、ArrayBuffer、EventTarget、Node、Element'
+        ),
     }),
-    handler: async (args: { url?: string }, context: ToolContext) => {
+    handler: async (args: { url?: string; constructors?: string[] }, context: ToolContext) => {
         const analysis = await context.heapHandler.analyzeMemory({
             url: args.url,
+            constructors: args.constructors,
         });
 
         return {
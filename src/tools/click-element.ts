@@ -0,0 +1,35 @@
+import { z } from 'zod';
+import { ToolDefinition, ToolContext } from './types.js';
+import { ClickParams } from '../types.js';
+import { interactionBaseShape } from './interaction-schema.js';
+
+/**
+ * 点击元素工具定义
+ */
+export const clickElementTool: ToolDefinition = {
+  name: 'click_element',
+  description:
+    '点击元素（通过 CSS 选择器），返回操作期间产生的 Console 错误和页面导航',
+  inputSchema: z.object({
+    selector: z.string().describe('CSS 选择器'),
+    button: z.enum(['left', 'right', 'middle']).optional().describe('鼠标按键，默认 left'),
+    clickCount: z.number().int().positive().max(3).optional().describe('点击次数（2 为双击），默认 1'),
+    waitForNavigation: z
+      .boolean()
+      .optional()
+      .describe('是否等待点击触发的页面导航完成（如提交表单、点击链接），默认 false'),
+    ...interactionBaseShape,
+  }),
+  handler: async (args: ClickParams, context: ToolContext) => {
+    const result = await context.interactionHandler.click(args);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2),
+        },
+      ],
+    };
+  },
+};
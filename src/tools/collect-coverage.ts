@@ -0,0 +1,63 @@
+import { z } from 'zod';
+import { ToolDefinition, ToolContext } from './types.js';
+import { CollectCoverageParams } from '../types.js';
+import { scenarioStepSchema } from './scenario-schema.js';
+
+/**
+ * 代码覆盖率工具定义
+ */
+export const collectCoverageTool: ToolDefinition = {
+    name: 'collect_coverage',
+    description:
+        '采集页面 JavaScript（V8 精确块覆盖率）与 CSS（规则使用跟踪）覆盖率（可重新加载页面或在采集期间执行页面操作），返回每个脚本和样式表的已用/未用字节数，可导出 Istanbul 或原始 V8 格式的 JavaScript 覆盖率 JSON',
+    inputSchema: z.object({
+        url: z.string().optional().describe('页面 URL（可选，不填使用当前页面）'),
+        types: z.array(z.enum(['js', 'css'])).optional().describe('采集的覆盖率类型，默认 ["js", "css"]'),
+        reload: z.boolean().optional().describe('开始采集后重新加载页面（统计页面加载期间执行的代码），默认 false'),
+        duration: z.number().int().min(0).max(120000).optional().describe('场景执行完（或重新加载后）继续采集的时长（毫秒），默认 0'),
+        steps: z.array(scenarioStepSchema).optional().describe('采集期间依次执行的页面操作（可选）'),
+        settleMs: z.number().int().min(0).optional().describe('每步操作后的等待时间（毫秒），默认 500'),
+        timeout: z.number().int().positive().optional().describe('等待元素出现的超时时间（毫秒），默认 5000'),
+        topN: z.number().int().positive().max(500).optional().describe('返回的脚本/样式表数量上限（按未使用字节数排序），默认 50'),
+        export: z.object({
+            format: z.enum(['v8', 'istanbul']).optional().describe(
+                [
+                    '导出格式（只包含 JavaScript）：',
+                    '- v8：Profiler.takePreciseCoverage 的原始结果 { result: ScriptCoverage[] }（默认）',
+                    '- istanbul：coverage-final.json 格式，可用 nyc / istanbul 生成报告',
+                ].join('\n')
+            ),
+            mode: z.enum(['none', 'file', 'inline', 'both']).optional().describe(
+                [
+                    '导出方式：',
+                    '- none：不导出（默认，只返回摘要）',
+                    '- file：导出为文件（推荐）',
+                    '- inline：把 JSON 放到返回里（会截断）',
+                    '- both：同时 file + inline',
+                ].join('\n')
+            ),
+            filePath: z.string().optional().describe(
+                [
+                    'file/both 模式的输出文件路径。',
+                    '推荐使用相对路径（相对 MCP Server 进程工作目录）：例如 ./.coverage/coverage-final.json',
+                    '不填时默认写入当前目录下的 `./.coverage/` 目录，并自动创建目录。',
+                ].join('\n')
+            ),
+            maxInlineBytes: z.number().int().positive().optional().describe(
+                'inline/both 模式 inline 输出最大字节数（超出截断）。'
+            ),
+        }).optional().describe('覆盖率导出选项'),
+    }),
+    handler: async (args: CollectCoverageParams, context: ToolContext) => {
+        const result = await context.coverageHandler.collectCoverage(args);
+
+        return {
+            content: [
+                {
+                    type: 'text',
+                    text: JSON.stringify(result, null, 2),
+                },
+            ],
+        };
+    },
+};
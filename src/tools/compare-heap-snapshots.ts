@@ -0,0 +1,40 @@
+import { z } from 'zod';
+import { ToolDefinition, ToolContext } from './types.js';
+import { CompareHeapSnapshotsParams } from '../types.js';
+
+/**
+ * 对比堆快照工具定义
+ */
+export const compareHeapSnapshotsTool: ToolDefinition = {
+    name: 'compare_heap_snapshots',
+    description:
+        '对比两个堆快照（与 DevTools Memory 的 Comparison 视图一致）：按构造函数给出新增/释放数量和大小变化、增长最多的构造函数以及新出现且仍存活的对象',
+    inputSchema: z.object({
+        url: z.string().optional().describe('页面 URL（可选，在页面上采集或使用 "latest" 时生效）'),
+        before: z.string().optional().describe(
+            [
+                '基准快照：',
+                '- .heapsnapshot 文件路径（如 get_heap_snapshot 以 file 模式导出的文件）',
+                '- "latest"：该页面最近一次以 file 模式导出的快照',
+                '- 不填：在页面上采集',
+            ].join('\n')
+        ),
+        after: z.string().optional().describe('对比快照：文件路径、"latest"，或不填表示在页面上采集'),
+        waitMs: z.number().int().min(0).optional().describe('before/after 都不填时，两次采集之间的等待时间（毫秒），默认 5000'),
+        topN: z.number().int().positive().max(200).optional().describe('Top N 数量，默认 20'),
+        maxSnapshotBytes: z.number().int().positive().optional().describe('raw snapshot 采集最大字节数，默认 1GB（与 maxParseBytes 一致）'),
+        maxParseBytes: z.number().int().positive().optional().describe('流式解析最大字节数，默认 1GB'),
+    }),
+    handler: async (args: CompareHeapSnapshotsParams, context: ToolContext) => {
+        const result = await context.heapHandler.compareHeapSnapshots(args);
+
+        return {
+            content: [
+                {
+                    type: 'text',
+                    text: JSON.stringify(result, null, 2),
+                },
+            ],
+        };
+    },
+};
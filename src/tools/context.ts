@@ -0,0 +1,66 @@
+import { BrowserManager } from '../browser-manager.js';
+import { ConsoleHandler } from '../cdp-handlers/console-handler.js';
+import { ElementHandler } from '../cdp-handlers/element-handler.js';
+import { CacheHandler } from '../cdp-handlers/cache-handler.js';
+import { PerformanceHandler } from '../cdp-handlers/performance-handler.js';
+import { HeapHandler } from '../cdp-handlers/heap-handler.js';
+import { LighthouseHandler } from '../cdp-handlers/lighthouse-handler.js';
+import { InteractionHandler } from '../cdp-handlers/interaction-handler.js';
+import { ScriptHandler } from '../cdp-handlers/script-handler.js';
+import { NetworkHandler } from '../cdp-handlers/network-handler.js';
+import { HarHandler } from '../cdp-handlers/har-handler.js';
+import { InterceptionHandler } from '../cdp-handlers/interception-handler.js';
+import { EmulationHandler } from '../cdp-handlers/emulation-handler.js';
+import { IssuesHandler } from '../cdp-handlers/issues-handler.js';
+import { MemoryMonitorHandler } from '../cdp-handlers/memory-monitor-handler.js';
+import { ProfilerHandler } from '../cdp-handlers/profiler-handler.js';
+import { TracingHandler } from '../cdp-handlers/tracing-handler.js';
+import { CoverageHandler } from '../cdp-handlers/coverage-handler.js';
+import { ToolContext } from './types.js';
+
+/**
+ * 创建工具上下文
+ *
+ * 每次调用都会创建一组新的处理器（各自持有独立的日志、快照等状态），
+ * 但共享同一个 BrowserManager。HTTP 模式下每个会话使用独立的上下文，会话结束时需调用 dispose()，
+ * 否则处理器注册在 BrowserManager 和页面上的事件监听以及 CDP 会话不会被释放。
+ * Profiler / Tracing / Coverage 等处理器只在单次调用内创建 CDP 会话并在 finally 中释放，无需额外清理。
+ */
+export function createToolContext(browserManager: BrowserManager): ToolContext {
+  const performanceHandler = new PerformanceHandler(browserManager);
+  const networkHandler = new NetworkHandler(browserManager);
+  const consoleHandler = new ConsoleHandler(browserManager);
+  const interceptionHandler = new InterceptionHandler(browserManager);
+  const issuesHandler = new IssuesHandler(browserManager, networkHandler);
+  const memoryMonitorHandler = new MemoryMonitorHandler(browserManager);
+
+  return {
+    browserManager,
+    consoleHandler,
+    elementHandler: new ElementHandler(browserManager),
+    cacheHandler: new CacheHandler(browserManager),
+    performanceHandler,
+    heapHandler: new HeapHandler(browserManager),
+    lighthouseHandler: new LighthouseHandler(browserManager, networkHandler, consoleHandler),
+    interactionHandler: new InteractionHandler(browserManager),
+    scriptHandler: new ScriptHandler(browserManager),
+    networkHandler,
+    harHandler: new HarHandler(browserManager, networkHandler, performanceHandler),
+    interceptionHandler,
+    emulationHandler: new EmulationHandler(browserManager),
+    issuesHandler,
+    memoryMonitorHandler,
+    profilerHandler: new ProfilerHandler(browserManager),
+    tracingHandler: new TracingHandler(browserManager),
+    coverageHandler: new CoverageHandler(browserManager),
+    dispose: async () => {
+      consoleHandler.dispose();
+      await Promise.all([
+        networkHandler.dispose(),
+        issuesHandler.dispose(),
+        interceptionHandler.dispose(),
+        memoryMonitorHandler.dispose(),
+      ]);
+    },
+  };
+}
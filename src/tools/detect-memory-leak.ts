@@ -0,0 +1,40 @@
+import { z } from 'zod';
+import { ToolDefinition, ToolContext } from './types.js';
+import { DetectMemoryLeakParams } from '../types.js';
+import { scenarioStepSchema } from './scenario-schema.js';
+
+/**
+ * 内存泄漏检测工具定义
+ */
+export const detectMemoryLeakTool: ToolDefinition = {
+    name: 'detect_memory_leak',
+    description:
+        '场景驱动的内存泄漏检测（memlab 风格）：重复执行一组页面操作（如打开弹窗再关闭、进入详情再返回），每次迭代后强制 GC 并采集堆快照，找出对象数随迭代单调增长的构造函数',
+    inputSchema: z.object({
+        url: z.string().optional().describe('页面 URL（可选，不填使用当前页面）'),
+        steps: z
+            .array(scenarioStepSchema)
+            .min(1)
+            .describe('一次迭代中依次执行的操作，通常以撤销操作（back、press Escape 等）结束，使页面回到初始状态'),
+        iterations: z.number().int().min(2).max(20).optional().describe('迭代次数，默认 5'),
+        warmupIterations: z.number().int().min(0).max(5).optional().describe('采集基准快照前的预热迭代次数，默认 1'),
+        settleMs: z.number().int().min(0).optional().describe('每步操作后的等待时间（毫秒），默认 500'),
+        timeout: z.number().int().positive().optional().describe('等待元素出现的超时时间（毫秒），默认 5000'),
+        minGrowthPerIteration: z.number().int().positive().optional().describe('每次迭代对象数至少增加多少才视为单调增长，默认 1'),
+        topN: z.number().int().positive().max(200).optional().describe('返回的可疑构造函数数量，默认 20'),
+        maxSnapshotBytes: z.number().int().positive().optional().describe('raw snapshot 采集最大字节数，默认 1GB（与 maxParseBytes 一致）'),
+        maxParseBytes: z.number().int().positive().optional().describe('流式解析最大字节数，默认 1GB'),
+    }),
+    handler: async (args: DetectMemoryLeakParams, context: ToolContext) => {
+        const result = await context.heapHandler.detectMemoryLeak(args);
+
+        return {
+            content: [
+                {
+                    type: 'text',
+                    text: JSON.stringify(result, null, 2),
+                },
+            ],
+        };
+    },
+};
@@ -0,0 +1,18 @@
+import { z } from 'zod';
+
+/**
+ * 设备模拟共享的参数定义
+ */
+export const deviceEmulationShape = {
+  device: z
+    .string()
+    .optional()
+    .describe('设备名称（Puppeteer KnownDevices，如 "iPhone 13"、"Pixel 5"、"iPad Mini landscape"），不区分大小写'),
+  width: z.number().int().positive().optional().describe('视口宽度（像素），未指定 device 时必填'),
+  height: z.number().int().positive().optional().describe('视口高度（像素），未指定 device 时必填'),
+  deviceScaleFactor: z.number().positive().optional().describe('设备像素比，默认 1'),
+  isMobile: z.boolean().optional().describe('是否模拟移动设备（启用 meta viewport），默认 false'),
+  hasTouch: z.boolean().optional().describe('是否支持触摸事件，默认 false'),
+  isLandscape: z.boolean().optional().describe('是否为横屏，默认 false'),
+  userAgent: z.string().optional().describe('覆盖 User-Agent（默认使用设备预设的 User-Agent）'),
+};
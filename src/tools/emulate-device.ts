@@ -0,0 +1,34 @@
+import { z } from 'zod';
+import { ToolDefinition, ToolContext } from './types.js';
+import { EmulateDeviceParams } from '../types.js';
+import { deviceEmulationShape } from './device-schema.js';
+
+/**
+ * 设备与视口模拟工具定义
+ */
+export const emulateDeviceTool: ToolDefinition = {
+  name: 'emulate_device',
+  description:
+    '为页面模拟设备（KnownDevices 预设或自定义宽高、像素比、移动端、触摸、User-Agent），设置持续生效，后续截图、元素检查和 Lighthouse 分析均使用该设备',
+  inputSchema: z.object({
+    url: z.string().optional().describe('页面 URL（可选，如果未提供则使用当前页面）'),
+    ...deviceEmulationShape,
+    reset: z.boolean().optional().describe('恢复默认视口（1920x1080）和浏览器默认 User-Agent'),
+    reload: z
+      .boolean()
+      .optional()
+      .describe('设置后重新加载页面（User-Agent 和移动端布局通常需要重新加载才能完全生效），默认 false'),
+  }),
+  handler: async (args: EmulateDeviceParams, context: ToolContext) => {
+    const result = await context.emulationHandler.emulateDevice(args);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2),
+        },
+      ],
+    };
+  },
+};
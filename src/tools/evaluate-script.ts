@@ -0,0 +1,45 @@
+import { z } from 'zod';
+import { ToolDefinition, ToolContext } from './types.js';
+import { EvaluateScriptParams } from '../types.js';
+
+/**
+ * 执行 JavaScript 工具定义
+ */
+export const evaluateScriptTool: ToolDefinition = {
+  name: 'evaluate_script',
+  description:
+    '在页面中执行 JavaScript（表达式或函数体，支持 await），返回有界的结构化结果预览（DOM 节点、Map/Set、循环引用均可安全序列化）；脚本抛出异常时返回异常信息与调用栈',
+  inputSchema: z.object({
+    url: z.string().optional().describe('要执行脚本的页面 URL（可选，默认使用当前活动页面）'),
+    expression: z
+      .string()
+      .optional()
+      .describe('要执行的表达式，支持顶层 await（与 functionBody 二选一）'),
+    functionBody: z
+      .string()
+      .optional()
+      .describe('async 函数体，通过 args 数组访问参数，需使用 return 返回结果（与 expression 二选一）'),
+    args: z.array(z.any()).optional().describe('传给 functionBody 的参数（需可 JSON 序列化）'),
+    awaitPromise: z.boolean().optional().describe('结果为 Promise 时是否等待其完成，默认 true'),
+    timeout: z.number().int().positive().optional().describe('执行超时时间（毫秒），默认 10000。超时后会终止页面中仍在运行的脚本'),
+    maxDepth: z.number().int().min(1).max(10).optional().describe('结果序列化的最大嵌套深度，默认 4'),
+    maxBytes: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe('结果预览的最大字节数，超出时自动收紧序列化限制或截断，默认 32768'),
+  }),
+  handler: async (args: EvaluateScriptParams, context: ToolContext) => {
+    const result = await context.scriptHandler.evaluateScript(args);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2),
+        },
+      ],
+    };
+  },
+};
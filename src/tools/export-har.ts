@@ -0,0 +1,60 @@
+import { z } from 'zod';
+import { ToolDefinition, ToolContext } from './types.js';
+import { ExportHarParams } from '../types.js';
+
+/**
+ * 导出 HAR 工具定义
+ */
+export const exportHarTool: ToolDefinition = {
+  name: 'export_har',
+  description:
+    '将页面捕获的网络请求导出为 HAR 1.2 文件（可导入 Chrome DevTools、Charles 等工具分析），可选包含响应体和页面时间。建议使用 file/auto 模式，避免响应过大。',
+  inputSchema: z.object({
+    url: z.string().optional().describe('页面 URL（可选，如果未提供则使用当前页面）'),
+    outputMode: z
+      .enum(['auto', 'file', 'inline'])
+      .optional()
+      .default('auto')
+      .describe(
+        [
+          '输出模式：',
+          '- auto：HAR 小于 maxInlineBytes 时直接返回，否则保存为文件（默认）',
+          '- file：始终保存为文件，返回文件路径',
+          '- inline：始终直接返回 HAR JSON（超出 maxInlineBytes 会被截断，截断后不是有效的 HAR）',
+        ].join('\n')
+      ),
+    filePath: z
+      .string()
+      .optional()
+      .describe('文件保存路径（可选，仅在 file/auto 模式时有效）。默认保存到 ./har/page-{timestamp}-{random}.har'),
+    maxInlineBytes: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe('内联返回的最大字节数（auto 模式阈值），默认 102400（100KB）'),
+    includeBodies: z.boolean().optional().describe('是否包含响应体，默认 false'),
+    maxBodyBytes: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe('单个响应体的最大字节数，超出则不包含（会在 content.comment 中说明），默认 65536（64KB）'),
+    urlPattern: z
+      .string()
+      .optional()
+      .describe('只导出匹配的请求：默认按子串匹配，使用 /.../ 包裹时按正则匹配'),
+  }),
+  handler: async (args: ExportHarParams, context: ToolContext) => {
+    const result = await context.harHandler.exportHar(args);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2),
+        },
+      ],
+    };
+  },
+};
@@ -0,0 +1,32 @@
+import { z } from 'zod';
+import { ToolDefinition, ToolContext } from './types.js';
+import { FillFormParams } from '../types.js';
+import { interactionBaseShape } from './interaction-schema.js';
+
+/**
+ * 填写表单工具定义
+ */
+export const fillFormTool: ToolDefinition = {
+  name: 'fill_form',
+  description:
+    '批量填写表单字段（文本框、checkbox/radio、select），可选点击提交按钮，返回操作期间产生的 Console 错误和页面导航',
+  inputSchema: z.object({
+    fields: z
+      .record(z.union([z.string(), z.boolean()]))
+      .describe('选择器 -> 值。文本框填入字符串（会先清空）；checkbox/radio 使用 true/false；select 使用选项 value'),
+    submitSelector: z.string().optional().describe('填写完成后点击的提交按钮选择器（可选）'),
+    ...interactionBaseShape,
+  }),
+  handler: async (args: FillFormParams, context: ToolContext) => {
+    const result = await context.interactionHandler.fillForm(args);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2),
+        },
+      ],
+    };
+  },
+};
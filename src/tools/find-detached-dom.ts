@@ -0,0 +1,33 @@
+import { z } from 'zod';
+import { ToolDefinition, ToolContext } from './types.js';
+import { FindDetachedDomParams } from '../types.js';
+
+/**
+ * 脱离 DOM 检测工具定义
+ */
+export const findDetachedDomTool: ToolDefinition = {
+    name: 'find_detached_dom',
+    description:
+        '查找已从文档移除但仍被 JS 持有的 DOM 节点（单页应用最常见的内存泄漏）：按脱离的 DOM 树和元素类型分组，给出保留大小和从 GC 根到树根的持有路径',
+    inputSchema: z.object({
+        url: z.string().optional().describe('页面 URL（可选，在页面上采集或使用 "latest" 时生效）'),
+        snapshot: z.string().optional().describe('快照来源：.heapsnapshot 文件路径、"latest"（该页面最近一次以 file 模式导出的快照），或不填表示在页面上采集'),
+        maxTrees: z.number().int().positive().max(100).optional().describe('返回的脱离 DOM 树数量（按保留大小降序），默认 10'),
+        maxPaths: z.number().int().positive().max(10).optional().describe('每棵树返回的持有路径数，默认 1'),
+        maxDepth: z.number().int().positive().max(100).optional().describe('单条路径最大长度，默认 20'),
+        maxSnapshotBytes: z.number().int().positive().optional().describe('raw snapshot 采集最大字节数，默认 1GB（与 maxParseBytes 一致）'),
+        maxParseBytes: z.number().int().positive().optional().describe('流式解析最大字节数，默认 1GB'),
+    }),
+    handler: async (args: FindDetachedDomParams, context: ToolContext) => {
+        const result = await context.heapHandler.findDetachedDom(args);
+
+        return {
+            content: [
+                {
+                    type: 'text',
+                    text: JSON.stringify(result, null, 2),
+                },
+            ],
+        };
+    },
+};
@@ -0,0 +1,35 @@
+import { z } from 'zod';
+import { ToolDefinition, ToolContext } from './types.js';
+import { FindRetainerPathsParams } from '../types.js';
+
+/**
+ * 持有路径分析工具定义
+ */
+export const findRetainerPathsTool: ToolDefinition = {
+    name: 'find_retainer_paths',
+    description:
+        '分析堆快照中对象为什么没有被回收：按节点 id 或构造函数名返回到 GC 根的最短持有路径（含属性/下标等边名称），以及基于支配树计算的保留大小和直接支配者',
+    inputSchema: z.object({
+        url: z.string().optional().describe('页面 URL（可选，在页面上采集或使用 "latest" 时生效）'),
+        snapshot: z.string().optional().describe('快照来源：.heapsnapshot 文件路径、"latest"（该页面最近一次以 file 模式导出的快照），或不填表示在页面上采集'),
+        nodeId: z.number().int().nonnegative().optional().describe('目标节点 id（DevTools 中的 @id，可从 compare_heap_snapshots 的 newObjects 获取）'),
+        constructorName: z.string().optional().describe('目标构造函数名（如 Array、Detached HTMLDivElement、(closure)），与 nodeId 二选一'),
+        maxNodes: z.number().int().positive().max(50).optional().describe('按构造函数查找时分析保留大小最大的对象数，默认 5'),
+        maxPaths: z.number().int().positive().max(20).optional().describe('每个对象返回的路径数，默认 3'),
+        maxDepth: z.number().int().positive().max(100).optional().describe('单条路径最大长度，默认 20'),
+        maxSnapshotBytes: z.number().int().positive().optional().describe('raw snapshot 采集最大字节数，默认 1GB（与 maxParseBytes 一致）'),
+        maxParseBytes: z.number().int().positive().optional().describe('流式解析最大字节数，默认 1GB'),
+    }),
+    handler: async (args: FindRetainerPathsParams, context: ToolContext) => {
+        const result = await context.heapHandler.findRetainerPaths(args);
+
+        return {
+            content: [
+                {
+                    type: 'text',
+                    text: JSON.stringify(result, null, 2),
+                },
+            ],
+        };
+    },
+};
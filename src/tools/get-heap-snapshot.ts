@@ -11,8 +11,8 @@ export const getHeapSnapshotTool: ToolDefinition = {
         url: z.string().optional().describe('页面 URL（可选）'),
         topN: z.number().int().positive().max(200).optional().describe('Top N（构造函数/节点）数量，默认 20'),
         collectGarbage: z.boolean().optional().describe('采集前是否触发 GC，默认 false'),
-        maxSnapshotBytes: z.number().int().positive().optional().describe('raw snapshot 采集最大字节数，默认 200MB'),
-        maxParseBytes: z.number().int().positive().optional().describe('JSON.parse 解析最大字节数，默认 50MB'),
+        maxSnapshotBytes: z.number().int().positive().optional().describe('raw snapshot 采集最大字节数，默认 1GB（与 maxParseBytes 一致）'),
+        maxParseBytes: z.number().int().positive().optional().describe('流式解析最大字节数，默认 1GB'),
         export: z.object({
             mode: z.enum(['none', 'file', 'inline', 'both']).optional().describe(
                 [
@@ -1,5 +1,7 @@
 import { z } from 'zod';
 import { ToolDefinition, ToolContext } from './types.js';
+import { GetLighthouseParams } from '../cdp-handlers/lighthouse-types.js';
+import { throttlingOptionSchema } from './throttling-schema.js';
 
 /**
  * 获取 Lighthouse 报告工具定义
@@ -17,15 +19,21 @@ export const getLighthouseTool: ToolDefinition = {
       .array(z.string())
       .optional()
       .describe('跳过的审计项 ID（可选，如：uses-optimized-images, render-blocking-resources）'),
+    throttling: throttlingOptionSchema,
+    unusedCode: z
+      .boolean()
+      .optional()
+      .describe(
+        '是否评估未使用的 JavaScript/CSS（可选，默认 false）。测量结束后会以不节流的条件再重新加载一次页面采集覆盖率（临时清除 set_throttling 设置的持久节流，结束后恢复），不影响性能指标'
+      ),
   }),
-  handler: async (
-    args: { url?: string; onlyCategories?: string[]; skipAudits?: string[] },
-    context: ToolContext
-  ) => {
+  handler: async (args: GetLighthouseParams, context: ToolContext) => {
     const report = await context.lighthouseHandler.getLighthouseReport({
       url: args.url,
       onlyCategories: args.onlyCategories,
       skipAudits: args.skipAudits,
+      throttling: args.throttling,
+      unusedCode: args.unusedCode,
     });
 
     return {
@@ -0,0 +1,28 @@
+import { z } from 'zod';
+import { ToolDefinition, ToolContext } from './types.js';
+import { GetMemoryMonitorParams } from '../types.js';
+
+/**
+ * 读取内存监控工具定义
+ */
+export const getMemoryMonitorTool: ToolDefinition = {
+    name: 'get_memory_monitor',
+    description:
+        '读取页面内存监控的时间序列，返回堆使用量、DOM 节点与事件监听器数的 min/max/斜率统计，以及基于 GC 后基线持续增长的泄漏判断',
+    inputSchema: z.object({
+        url: z.string().optional().describe('页面 URL（可选，如果未提供则使用当前页面）'),
+        lastN: z.number().int().positive().optional().describe('只返回最近 N 个样本（统计仍基于全部保留的样本），默认全部返回'),
+    }),
+    handler: async (args: GetMemoryMonitorParams, context: ToolContext) => {
+        const result = await context.memoryMonitorHandler.read(args);
+
+        return {
+            content: [
+                {
+                    type: 'text',
+                    text: JSON.stringify(result, null, 2),
+                },
+            ],
+        };
+    },
+};
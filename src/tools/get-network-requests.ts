@@ -0,0 +1,42 @@
+import { z } from 'zod';
+import { ToolDefinition, ToolContext } from './types.js';
+import { GetNetworkRequestsParams } from '../types.js';
+
+/**
+ * 获取网络请求工具定义
+ */
+export const getNetworkRequestsTool: ToolDefinition = {
+  name: 'get_network_requests',
+  description:
+    '获取页面的网络请求记录（状态码、耗时、大小、协议、缓存命中、失败原因等），支持按 URL、资源类型、状态码范围和最小耗时过滤',
+  inputSchema: z.object({
+    url: z.string().optional().describe('页面 URL（可选，如果未提供则使用当前页面）'),
+    urlPattern: z
+      .string()
+      .optional()
+      .describe('URL 过滤：默认按子串匹配（不区分大小写），使用 /.../ 包裹时按正则匹配，如 "/api\\/v\\d+/"'),
+    resourceTypes: z
+      .array(z.string())
+      .optional()
+      .describe('资源类型过滤，如 ["XHR", "Fetch", "Script", "Document", "Image", "Stylesheet"]'),
+    statusMin: z.number().int().min(0).max(999).optional().describe('状态码下限（含），如 400'),
+    statusMax: z.number().int().min(0).max(999).optional().describe('状态码上限（含），如 599'),
+    minDuration: z.number().min(0).optional().describe('最小耗时（毫秒），用于查找慢请求'),
+    onlyFailed: z.boolean().optional().describe('仅返回失败的请求（网络错误、被取消、被拦截）'),
+    includeHeaders: z.boolean().optional().describe('是否返回请求/响应头和请求体，默认 false'),
+    limit: z.number().int().positive().max(1000).optional().describe('最多返回的条数（返回最新的），默认 100'),
+    clear: z.boolean().optional().describe('读取后清空该页面的请求记录'),
+  }),
+  handler: async (args: GetNetworkRequestsParams, context: ToolContext) => {
+    const result = await context.networkHandler.getNetworkRequests(args);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2),
+        },
+      ],
+    };
+  },
+};
@@ -0,0 +1,33 @@
+import { z } from 'zod';
+import { ToolDefinition, ToolContext } from './types.js';
+import { GetPageIssuesParams } from '../types.js';
+
+/**
+ * 获取页面问题工具定义
+ */
+export const getPageIssuesTool: ToolDefinition = {
+  name: 'get_page_issues',
+  description:
+    '获取 Chrome DevTools Issues 面板报告的页面问题（Cookie SameSite、CORS、CSP、混合内容、弃用 API、低对比度等），按类别分组并给出受影响的请求、Cookie 或元素选择器',
+  inputSchema: z.object({
+    url: z.string().optional().describe('页面 URL（可选，如果未提供则使用当前页面）'),
+    categories: z
+      .array(z.enum(['cookie', 'cors', 'csp', 'mixed-content', 'deprecation', 'low-contrast', 'other']))
+      .optional()
+      .describe('只返回指定类别的问题'),
+    limit: z.number().int().positive().max(500).optional().describe('每个类别最多返回的条数（返回最新的），默认 50'),
+    clear: z.boolean().optional().describe('读取后清空该页面的问题记录'),
+  }),
+  handler: async (args: GetPageIssuesParams, context: ToolContext) => {
+    const result = await context.issuesHandler.getPageIssues(args);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2),
+        },
+      ],
+    };
+  },
+};
@@ -1,18 +1,24 @@
 import { z } from 'zod';
 import { ToolDefinition, ToolContext } from './types.js';
+import { GetPerformanceParams } from '../types.js';
+import { throttlingOptionSchema } from './throttling-schema.js';
 
 /**
  * 获取性能数据工具定义
  */
 export const getPerformanceTool: ToolDefinition = {
     name: 'get_performance',
-    description: '获取性能数据（Performance Timeline、页面加载指标）',
+    description: '获取性能数据（Performance Timeline、页面加载指标，以及 JS 堆、DOM 节点、布局/样式重算次数、脚本与任务耗时等运行时指标）；指定 deltaWaitMs 时返回等待前后运行时指标的变化，用于观察页面空闲时在做什么',
     inputSchema: z.object({
         url: z.string().optional().describe('页面 URL（可选）'),
+        throttling: throttlingOptionSchema,
+        deltaWaitMs: z.number().int().min(0).max(120000).optional().describe('差值模式：读取一次运行时指标后等待该时长（毫秒）再读取一次，返回 runtimeDelta'),
     }),
-    handler: async (args: { url?: string }, context: ToolContext) => {
+    handler: async (args: GetPerformanceParams, context: ToolContext) => {
         const performance = await context.performanceHandler.getPerformance({
             url: args.url,
+            throttling: args.throttling,
+            deltaWaitMs: args.deltaWaitMs,
         });
 
         return {
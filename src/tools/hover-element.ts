@@ -0,0 +1,29 @@
+import { z } from 'zod';
+import { ToolDefinition, ToolContext } from './types.js';
+import { HoverParams } from '../types.js';
+import { interactionBaseShape } from './interaction-schema.js';
+
+/**
+ * 悬停元素工具定义
+ */
+export const hoverElementTool: ToolDefinition = {
+  name: 'hover_element',
+  description:
+    '将鼠标悬停在元素上（用于触发菜单、tooltip 等 hover 效果），返回操作期间产生的 Console 错误和页面导航',
+  inputSchema: z.object({
+    selector: z.string().describe('CSS 选择器'),
+    ...interactionBaseShape,
+  }),
+  handler: async (args: HoverParams, context: ToolContext) => {
+    const result = await context.interactionHandler.hover(args);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2),
+        },
+      ],
+    };
+  },
+};
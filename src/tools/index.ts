@@ -10,6 +10,32 @@ import { analyzeMemoryTool } from './analyze-memory.js';
 import { trackAllocationsTool } from './track-allocations.js';
 import { takeScreenshotTool } from './take-screenshot.js';
 import { getLighthouseTool } from './get-lighthouse.js';
+import { clickElementTool } from './click-element.js';
+import { typeTextTool } from './type-text.js';
+import { fillFormTool } from './fill-form.js';
+import { selectOptionTool } from './select-option.js';
+import { hoverElementTool } from './hover-element.js';
+import { pressKeyTool } from './press-key.js';
+import { scrollPageTool } from './scroll-page.js';
+import { evaluateScriptTool } from './evaluate-script.js';
+import { getNetworkRequestsTool } from './get-network-requests.js';
+import { exportHarTool } from './export-har.js';
+import { addInterceptRuleTool } from './add-intercept-rule.js';
+import { listInterceptRulesTool } from './list-intercept-rules.js';
+import { removeInterceptRuleTool } from './remove-intercept-rule.js';
+import { setThrottlingTool } from './set-throttling.js';
+import { emulateDeviceTool } from './emulate-device.js';
+import { getPageIssuesTool } from './get-page-issues.js';
+import { compareHeapSnapshotsTool } from './compare-heap-snapshots.js';
+import { findRetainerPathsTool } from './find-retainer-paths.js';
+import { findDetachedDomTool } from './find-detached-dom.js';
+import { detectMemoryLeakTool } from './detect-memory-leak.js';
+import { startMemoryMonitorTool } from './start-memory-monitor.js';
+import { getMemoryMonitorTool } from './get-memory-monitor.js';
+import { stopMemoryMonitorTool } from './stop-memory-monitor.js';
+import { profileCpuTool } from './profile-cpu.js';
+import { recordTraceTool } from './record-trace.js';
+import { collectCoverageTool } from './collect-coverage.js';
 
 /**
  * 所有工具定义列表
@@ -25,6 +51,32 @@ export const allTools: ToolDefinition[] = [
   trackAllocationsTool,
   takeScreenshotTool,
   getLighthouseTool,
+  clickElementTool,
+  typeTextTool,
+  fillFormTool,
+  selectOptionTool,
+  hoverElementTool,
+  pressKeyTool,
+  scrollPageTool,
+  evaluateScriptTool,
+  getNetworkRequestsTool,
+  exportHarTool,
+  addInterceptRuleTool,
+  listInterceptRulesTool,
+  removeInterceptRuleTool,
+  setThrottlingTool,
+  emulateDeviceTool,
+  getPageIssuesTool,
+  compareHeapSnapshotsTool,
+  findRetainerPathsTool,
+  findDetachedDomTool,
+  detectMemoryLeakTool,
+  startMemoryMonitorTool,
+  getMemoryMonitorTool,
+  stopMemoryMonitorTool,
+  profileCpuTool,
+  recordTraceTool,
+  collectCoverageTool,
 ];
 
 /**
@@ -0,0 +1,20 @@
+import { z } from 'zod';
+
+/**
+ * 交互类工具共享的参数定义
+ */
+export const interactionBaseShape = {
+  url: z.string().optional().describe('页面 URL（可选，如果未提供则使用当前页面）'),
+  timeout: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe('等待元素出现的超时时间（毫秒），默认 5000'),
+  settleMs: z
+    .number()
+    .int()
+    .nonnegative()
+    .optional()
+    .describe('操作完成后等待页面响应的时间（毫秒），默认 500。期间产生的 Console 错误与导航会一并返回'),
+};
@@ -0,0 +1,26 @@
+import { z } from 'zod';
+import { ToolDefinition, ToolContext } from './types.js';
+import { ListInterceptRulesParams } from '../types.js';
+
+/**
+ * 列出请求拦截规则工具定义
+ */
+export const listInterceptRulesTool: ToolDefinition = {
+  name: 'list_intercept_rules',
+  description: '列出页面当前生效的请求拦截规则及其命中次数',
+  inputSchema: z.object({
+    url: z.string().optional().describe('页面 URL（可选，如果未提供则使用当前页面）'),
+  }),
+  handler: async (args: ListInterceptRulesParams, context: ToolContext) => {
+    const result = await context.interceptionHandler.listRules(args);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2),
+        },
+      ],
+    };
+  },
+};
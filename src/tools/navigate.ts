@@ -1,16 +1,36 @@
 import { z } from 'zod';
 import { ToolDefinition, ToolContext } from './types.js';
+import { DeviceEmulationOptions } from '../types.js';
+import { deviceEmulationShape } from './device-schema.js';
+import { resolveDeviceEmulation } from '../utils/device-utils.js';
 
 /**
  * 导航工具定义
  */
 export const navigateTool: ToolDefinition = {
     name: 'navigate',
-    description: '导航到指定 URL',
+    description: '导航到指定 URL（可同时指定模拟设备）',
     inputSchema: z.object({
         url: z.string().describe('要导航到的 URL'),
+        emulation: z
+            .object(deviceEmulationShape)
+            .optional()
+            .describe('模拟设备（可选），在导航前应用并对该页面持续生效，字段同 emulate_device'),
     }),
-    handler: async (args: { url: string }, context: ToolContext) => {
+    handler: async (args: { url: string; emulation?: DeviceEmulationOptions }, context: ToolContext) => {
+        if (args.emulation) {
+            const emulation = resolveDeviceEmulation(args.emulation);
+            await context.browserManager.navigate(args.url, { emulation });
+            return {
+                content: [
+                    {
+                        type: 'text',
+                        text: `Successfully navigated to ${args.url} (emulating ${emulation.device ?? `${emulation.viewport.width}x${emulation.viewport.height}`})`,
+                    },
+                ],
+            };
+        }
+
         await context.browserManager.navigate(args.url);
         return {
             content: [
@@ -22,4 +42,3 @@ export const navigateTool: ToolDefinition = {
         };
     },
 };
-
@@ -0,0 +1,31 @@
+import { z } from 'zod';
+import { ToolDefinition, ToolContext } from './types.js';
+import { PressKeyParams } from '../types.js';
+import { interactionBaseShape } from './interaction-schema.js';
+
+/**
+ * 按键工具定义
+ */
+export const pressKeyTool: ToolDefinition = {
+  name: 'press_key',
+  description:
+    '按下键盘按键（如 Enter、Escape、ArrowDown、Tab），支持组合键（如 Control+A、Shift+Tab），返回操作期间产生的 Console 错误和页面导航',
+  inputSchema: z.object({
+    key: z.string().describe('按键名称（Puppeteer KeyInput），组合键用 + 连接，如 Control+A'),
+    selector: z.string().optional().describe('按键前聚焦的元素选择器（可选）'),
+    waitForNavigation: z.boolean().optional().describe('是否等待按键触发的页面导航完成，默认 false'),
+    ...interactionBaseShape,
+  }),
+  handler: async (args: PressKeyParams, context: ToolContext) => {
+    const result = await context.interactionHandler.pressKey(args);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2),
+        },
+      ],
+    };
+  },
+};
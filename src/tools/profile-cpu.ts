@@ -0,0 +1,55 @@
+import { z } from 'zod';
+import { ToolDefinition, ToolContext } from './types.js';
+import { ProfileCpuParams } from '../types.js';
+import { scenarioStepSchema } from './scenario-schema.js';
+
+/**
+ * CPU 分析工具定义
+ */
+export const profileCpuTool: ToolDefinition = {
+    name: 'profile_cpu',
+    description:
+        '录制页面 JavaScript CPU profile（可在录制期间执行点击、输入、滚动等操作复现卡顿），返回按自身/累计时间排序的热点函数（含脚本 URL 与行列号）以及空闲、原生工作、GC、脚本时间拆分，可导出 DevTools 可加载的 .cpuprofile',
+    inputSchema: z.object({
+        url: z.string().optional().describe('页面 URL（可选，不填使用当前页面）'),
+        duration: z.number().int().min(0).max(120000).optional().describe('录制时长（毫秒）。提供 steps 时为场景执行完后继续录制的时长，默认 0；否则默认 5000'),
+        steps: z.array(scenarioStepSchema).optional().describe('录制期间依次执行的页面操作（可选）'),
+        settleMs: z.number().int().min(0).optional().describe('每步操作后的等待时间（毫秒），默认 500'),
+        timeout: z.number().int().positive().optional().describe('等待元素出现的超时时间（毫秒），默认 5000'),
+        samplingInterval: z.number().int().min(50).optional().describe('采样间隔（微秒），默认 1000；调小可提高精度但增加开销'),
+        topN: z.number().int().positive().max(200).optional().describe('Top N 函数数量，默认 20'),
+        export: z.object({
+            mode: z.enum(['none', 'file', 'inline', 'both']).optional().describe(
+                [
+                    '.cpuprofile 导出方式：',
+                    '- none：不导出（只返回摘要 summary）',
+                    '- file：导出为文件（推荐，可在 DevTools Performance 面板加载）',
+                    '- inline：把 profile 放到返回里（会截断）',
+                    '- both：同时 file + inline',
+                ].join('\n')
+            ),
+            filePath: z.string().optional().describe(
+                [
+                    'file/both 模式的输出文件路径。',
+                    '推荐使用相对路径（相对 MCP Server 进程工作目录）：例如 ./.cpuprofile/page.cpuprofile',
+                    '不填时默认写入当前目录下的 `./.cpuprofile/` 目录，并自动创建目录。',
+                ].join('\n')
+            ),
+            maxInlineBytes: z.number().int().positive().optional().describe(
+                'inline/both 模式 inline 输出最大字节数（超出截断）。'
+            ),
+        }).optional().describe('.cpuprofile 导出选项'),
+    }),
+    handler: async (args: ProfileCpuParams, context: ToolContext) => {
+        const result = await context.profilerHandler.profileCpu(args);
+
+        return {
+            content: [
+                {
+                    type: 'text',
+                    text: JSON.stringify(result, null, 2),
+                },
+            ],
+        };
+    },
+};
@@ -0,0 +1,48 @@
+import { z } from 'zod';
+import { ToolDefinition, ToolContext } from './types.js';
+import { RecordTraceParams } from '../types.js';
+import { scenarioStepSchema } from './scenario-schema.js';
+
+/**
+ * Trace 录制工具定义
+ */
+export const recordTraceTool: ToolDefinition = {
+    name: 'record_trace',
+    description:
+        '使用 CDP Tracing 录制 Chrome trace（可重新加载页面或在录制期间执行页面操作），返回主线程摘要：按分类（脚本、渲染、绘制、GC、加载）统计的时间、长任务及其对应脚本、布局/样式重算次数和掉帧统计，并写入可在 DevTools Performance 面板加载的 JSON trace 文件',
+    inputSchema: z.object({
+        url: z.string().optional().describe('页面 URL（可选，不填使用当前页面）'),
+        categories: z.array(z.string()).optional().describe(
+            'trace 类别（`-` 前缀表示排除，如 ["-*", "devtools.timeline", "toplevel"]），不填使用 DevTools Performance 面板的默认类别'
+        ),
+        reload: z.boolean().optional().describe('开始录制后重新加载页面（录制页面加载过程），默认 false'),
+        duration: z.number().int().min(0).max(120000).optional().describe('录制时长（毫秒）。提供 steps 或 reload 时为之后继续录制的时长，默认 0；否则默认 5000'),
+        steps: z.array(scenarioStepSchema).optional().describe('录制期间依次执行的页面操作（可选）'),
+        settleMs: z.number().int().min(0).optional().describe('每步操作后的等待时间（毫秒），默认 500'),
+        timeout: z.number().int().positive().optional().describe('等待元素出现的超时时间（毫秒），默认 5000'),
+        longTaskThresholdMs: z.number().positive().optional().describe('长任务阈值（毫秒），默认 50'),
+        topN: z.number().int().positive().max(100).optional().describe('返回的长任务数量上限，默认 10'),
+        export: z.object({
+            mode: z.enum(['none', 'file']).optional().describe('none：只返回摘要；file：写入 JSON trace 文件（默认）'),
+            filePath: z.string().optional().describe(
+                [
+                    '输出文件路径。',
+                    '推荐使用相对路径（相对 MCP Server 进程工作目录）：例如 ./.trace/page.json',
+                    '不填时默认写入当前目录下的 `./.trace/` 目录，并自动创建目录。',
+                ].join('\n')
+            ),
+        }).optional().describe('trace 文件导出选项'),
+    }),
+    handler: async (args: RecordTraceParams, context: ToolContext) => {
+        const result = await context.tracingHandler.recordTrace(args);
+
+        return {
+            content: [
+                {
+                    type: 'text',
+                    text: JSON.stringify(result, null, 2),
+                },
+            ],
+        };
+    },
+};
@@ -0,0 +1,28 @@
+import { z } from 'zod';
+import { ToolDefinition, ToolContext } from './types.js';
+import { RemoveInterceptRuleParams } from '../types.js';
+
+/**
+ * 删除请求拦截规则工具定义
+ */
+export const removeInterceptRuleTool: ToolDefinition = {
+  name: 'remove_intercept_rule',
+  description: '删除页面的请求拦截规则（指定 ruleId，或设置 all 删除全部）；规则全部删除后停止拦截',
+  inputSchema: z.object({
+    url: z.string().optional().describe('页面 URL（可选，如果未提供则使用当前页面）'),
+    ruleId: z.string().optional().describe('要删除的规则 ID（add_intercept_rule 返回的 id）'),
+    all: z.boolean().optional().describe('删除该页面的所有规则'),
+  }),
+  handler: async (args: RemoveInterceptRuleParams, context: ToolContext) => {
+    const result = await context.interceptionHandler.removeRule(args);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2),
+        },
+      ],
+    };
+  },
+};
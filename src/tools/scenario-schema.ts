@@ -0,0 +1,21 @@
+import { z } from 'zod';
+
+/**
+ * 场景步骤的参数定义（detect_memory_leak、profile_cpu 等工具共用）
+ */
+export const scenarioStepSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('navigate'), url: z.string() }),
+  z.object({ action: z.literal('click'), selector: z.string() }),
+  z.object({ action: z.literal('type'), selector: z.string(), text: z.string() }),
+  z.object({ action: z.literal('press'), key: z.string().describe('按键名称，如 Escape、Enter') }),
+  z.object({ action: z.literal('hover'), selector: z.string() }),
+  z.object({ action: z.literal('scroll'), selector: z.string().optional(), deltaY: z.number().optional() }),
+  z.object({ action: z.literal('back') }),
+  z.object({ action: z.literal('forward') }),
+  z.object({ action: z.literal('evaluate'), script: z.string().describe('在页面中执行的 JavaScript 表达式') }),
+  z.object({
+    action: z.literal('wait'),
+    ms: z.number().int().min(0).optional(),
+    selector: z.string().optional().describe('等待该元素出现'),
+  }),
+]);
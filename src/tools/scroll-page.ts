@@ -0,0 +1,32 @@
+import { z } from 'zod';
+import { ToolDefinition, ToolContext } from './types.js';
+import { ScrollParams } from '../types.js';
+import { interactionBaseShape } from './interaction-schema.js';
+
+/**
+ * 滚动页面工具定义
+ */
+export const scrollPageTool: ToolDefinition = {
+  name: 'scroll_page',
+  description:
+    '滚动页面：滚动到指定元素（selector）、页面顶部/底部（to），或按像素相对滚动（deltaX/deltaY），返回滚动后的位置以及操作期间产生的 Console 错误和页面导航',
+  inputSchema: z.object({
+    selector: z.string().optional().describe('滚动到该元素可见（优先级最高）'),
+    to: z.enum(['top', 'bottom']).optional().describe('滚动到页面顶部或底部'),
+    deltaX: z.number().optional().describe('水平相对滚动距离（像素）'),
+    deltaY: z.number().optional().describe('垂直相对滚动距离（像素，正数向下）'),
+    ...interactionBaseShape,
+  }),
+  handler: async (args: ScrollParams, context: ToolContext) => {
+    const result = await context.interactionHandler.scroll(args);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2),
+        },
+      ],
+    };
+  },
+};
@@ -0,0 +1,30 @@
+import { z } from 'zod';
+import { ToolDefinition, ToolContext } from './types.js';
+import { SelectOptionParams } from '../types.js';
+import { interactionBaseShape } from './interaction-schema.js';
+
+/**
+ * 选择下拉选项工具定义
+ */
+export const selectOptionTool: ToolDefinition = {
+  name: 'select_option',
+  description:
+    '选择 <select> 元素的选项（按 option value，多选下拉可传多个值），返回实际选中的值以及操作期间产生的 Console 错误和页面导航',
+  inputSchema: z.object({
+    selector: z.string().describe('<select> 元素的 CSS 选择器'),
+    values: z.array(z.string()).min(1).describe('要选中的 option value 列表'),
+    ...interactionBaseShape,
+  }),
+  handler: async (args: SelectOptionParams, context: ToolContext) => {
+    const result = await context.interactionHandler.selectOption(args);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2),
+        },
+      ],
+    };
+  },
+};
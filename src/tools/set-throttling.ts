@@ -0,0 +1,29 @@
+import { z } from 'zod';
+import { ToolDefinition, ToolContext } from './types.js';
+import { SetThrottlingParams } from '../types.js';
+import { throttlingShape } from './throttling-schema.js';
+
+/**
+ * 设置网络与 CPU 节流工具定义
+ */
+export const setThrottlingTool: ToolDefinition = {
+  name: 'set_throttling',
+  description:
+    '为页面设置网络与 CPU 节流（Slow 3G、Fast 3G、4G、离线、Lighthouse 移动端或自定义），设置持续生效直到再次调用，profile 为 none 时取消节流',
+  inputSchema: z.object({
+    url: z.string().optional().describe('页面 URL（可选，如果未提供则使用当前页面）'),
+    ...throttlingShape,
+  }),
+  handler: async (args: SetThrottlingParams, context: ToolContext) => {
+    const result = await context.emulationHandler.setThrottling(args);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2),
+        },
+      ],
+    };
+  },
+};
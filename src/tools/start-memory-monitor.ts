@@ -0,0 +1,29 @@
+import { z } from 'zod';
+import { ToolDefinition, ToolContext } from './types.js';
+import { StartMemoryMonitorParams } from '../types.js';
+
+/**
+ * 开始内存监控工具定义
+ */
+export const startMemoryMonitorTool: ToolDefinition = {
+    name: 'start_memory_monitor',
+    description:
+        '在后台按固定间隔持续采集页面内存时间序列（Runtime.getHeapUsage、performance.memory、DOM 计数、Performance.getMetrics），用于观察用户操作过程中的堆增长；之后使用 get_memory_monitor 读取、stop_memory_monitor 停止',
+    inputSchema: z.object({
+        url: z.string().optional().describe('页面 URL（可选，如果未提供则使用当前页面）'),
+        intervalMs: z.number().int().min(100).optional().describe('采样间隔（毫秒），默认 1000'),
+        maxSamples: z.number().int().positive().max(10000).optional().describe('最多保留的样本数（超出后丢弃最早的样本），默认 600'),
+    }),
+    handler: async (args: StartMemoryMonitorParams, context: ToolContext) => {
+        const result = await context.memoryMonitorHandler.start(args);
+
+        return {
+            content: [
+                {
+                    type: 'text',
+                    text: JSON.stringify(result, null, 2),
+                },
+            ],
+        };
+    },
+};
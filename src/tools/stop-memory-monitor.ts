@@ -0,0 +1,26 @@
+import { z } from 'zod';
+import { ToolDefinition, ToolContext } from './types.js';
+import { StopMemoryMonitorParams } from '../types.js';
+
+/**
+ * 停止内存监控工具定义
+ */
+export const stopMemoryMonitorTool: ToolDefinition = {
+    name: 'stop_memory_monitor',
+    description: '停止页面的内存监控并返回完整时间序列与统计；样本保留到下次开始监控或页面关闭',
+    inputSchema: z.object({
+        url: z.string().optional().describe('页面 URL（可选，如果未提供则使用当前页面）'),
+    }),
+    handler: async (args: StopMemoryMonitorParams, context: ToolContext) => {
+        const result = await context.memoryMonitorHandler.stop(args);
+
+        return {
+            content: [
+                {
+                    type: 'text',
+                    text: JSON.stringify(result, null, 2),
+                },
+            ],
+        };
+    },
+};
@@ -0,0 +1,28 @@
+import { z } from 'zod';
+
+/**
+ * 节流配置共享的参数定义
+ */
+export const throttlingShape = {
+  profile: z
+    .enum(['none', 'slow-3g', 'fast-3g', '4g', 'offline', 'lighthouse-mobile', 'custom'])
+    .describe(
+      '节流配置：none（不节流）、slow-3g、fast-3g、4g、offline、lighthouse-mobile（慢速 4G + 4 倍 CPU 降速）、custom（使用 latencyMs / downloadKbps / uploadKbps）'
+    ),
+  latencyMs: z.number().nonnegative().optional().describe('custom：往返延迟（毫秒）'),
+  downloadKbps: z.number().min(-1).optional().describe('custom：下行带宽（Kbps），-1 表示不限制'),
+  uploadKbps: z.number().min(-1).optional().describe('custom：上行带宽（Kbps），-1 表示不限制'),
+  cpuSlowdown: z
+    .number()
+    .min(1)
+    .optional()
+    .describe('CPU 降速倍数（1 表示不降速），覆盖配置的默认值'),
+};
+
+/**
+ * 测量类工具的节流选项
+ */
+export const throttlingOptionSchema = z
+  .object(throttlingShape)
+  .optional()
+  .describe('测量时使用的节流配置（可选）。会以该配置重新加载页面后测量，测量结束后恢复原配置');
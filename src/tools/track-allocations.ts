@@ -6,18 +6,28 @@ import { ToolDefinition, ToolContext } from './types.js';
  */
 export const trackAllocationsTool: ToolDefinition = {
     name: 'track_allocations',
-    description: '跟踪对象分配',
+    description:
+        '跟踪对象分配。默认 tracking 模式精确记录分配调用栈（开销大）；sampling 模式使用采样堆 profiler，开销低，返回按自身/累计字节排序的函数与聚合调用树，可导出 .heapprofile',
     inputSchema: z.object({
         url: z.string().optional().describe('页面 URL（可选）'),
         duration: z.number().optional().default(5000).describe('跟踪时长（毫秒），默认 5000'),
         topN: z.number().int().positive().max(200).optional().describe('Top N（调用栈）数量，默认 20'),
         collectGarbage: z.boolean().optional().describe('采集前是否触发 GC，默认 false'),
-        maxSnapshotBytes: z.number().int().positive().optional().describe('raw snapshot 采集最大字节数，默认 200MB'),
-        maxParseBytes: z.number().int().positive().optional().describe('JSON.parse 解析最大字节数，默认 50MB'),
+        mode: z.enum(['tracking', 'sampling']).optional().describe(
+            [
+                '跟踪方式，默认 tracking：',
+                '- tracking：startTrackingHeapObjects + 带 trace 的 heap snapshot（精确，大型应用开销很大）',
+                '- sampling：HeapProfiler.startSampling 采样（开销低，字节数为采样估算值）',
+            ].join('\n')
+        ),
+        samplingInterval: z.number().int().positive().optional().describe('sampling 模式的平均采样间隔（字节），默认 32768'),
+        includeCollected: z.boolean().optional().describe('sampling 模式是否包含停止前已被 GC 回收的对象，默认 false（只统计仍存活的分配）'),
+        maxSnapshotBytes: z.number().int().positive().optional().describe('raw snapshot 采集最大字节数，默认 1GB（与 maxParseBytes 一致）'),
+        maxParseBytes: z.number().int().positive().optional().describe('流式解析最大字节数，默认 1GB'),
         export: z.object({
             mode: z.enum(['none', 'file', 'inline', 'both']).optional().describe(
                 [
-                    'raw profile（带 trace 的 heap snapshot）导出方式：',
+                    'raw profile 导出方式（tracking 模式为带 trace 的 heap snapshot，sampling 模式为 .heapprofile）：',
                     '- none：不导出（只返回摘要 summary）',
                     '- file：导出为文件（推荐，避免响应过大）',
                     '- inline：把快照片段放到返回里（会截断，可能很大）',
@@ -27,7 +37,7 @@ export const trackAllocationsTool: ToolDefinition = {
             filePath: z.string().optional().describe(
                 [
                     'file/both 模式的输出文件路径。',
-                    '推荐使用相对路径（相对 MCP Server 进程工作目录）：例如 ./.heapsnapshot/alloc.heapsnapshot',
+                    '推荐使用相对路径（相对 MCP Server 进程工作目录）：例如 ./.heapsnapshot/alloc.heapsnapshot（sampling 模式用 .heapprofile 后缀）',
                     '不填时默认写入当前目录下的 `./.heapsnapshot/` 目录，并自动创建目录。',
                 ].join('\n')
             ),
@@ -42,6 +52,9 @@ export const trackAllocationsTool: ToolDefinition = {
             duration?: number;
             topN?: number;
             collectGarbage?: boolean;
+            mode?: 'tracking' | 'sampling';
+            samplingInterval?: number;
+            includeCollected?: boolean;
             maxSnapshotBytes?: number;
             maxParseBytes?: number;
             export?: { mode?: 'none' | 'file' | 'inline' | 'both'; filePath?: string; maxInlineBytes?: number };
@@ -53,6 +66,9 @@ export const trackAllocationsTool: ToolDefinition = {
             duration: args.duration,
             topN: args.topN,
             collectGarbage: args.collectGarbage,
+            mode: args.mode,
+            samplingInterval: args.samplingInterval,
+            includeCollected: args.includeCollected,
             maxSnapshotBytes: args.maxSnapshotBytes,
             maxParseBytes: args.maxParseBytes,
             export: args.export,
@@ -0,0 +1,33 @@
+import { z } from 'zod';
+import { ToolDefinition, ToolContext } from './types.js';
+import { TypeTextParams } from '../types.js';
+import { interactionBaseShape } from './interaction-schema.js';
+
+/**
+ * 输入文本工具定义
+ */
+export const typeTextTool: ToolDefinition = {
+  name: 'type_text',
+  description:
+    '在输入框或可编辑元素中逐字输入文本（模拟真实键盘输入），返回操作期间产生的 Console 错误和页面导航',
+  inputSchema: z.object({
+    selector: z.string().describe('输入框的 CSS 选择器'),
+    text: z.string().describe('要输入的文本'),
+    clear: z.boolean().optional().describe('输入前是否清空原有内容，默认 false'),
+    delay: z.number().int().nonnegative().optional().describe('每个字符之间的延迟（毫秒），默认 0'),
+    pressEnter: z.boolean().optional().describe('输入完成后是否按下 Enter，默认 false'),
+    ...interactionBaseShape,
+  }),
+  handler: async (args: TypeTextParams, context: ToolContext) => {
+    const result = await context.interactionHandler.typeText(args);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2),
+        },
+      ],
+    };
+  },
+};
@@ -6,6 +6,17 @@ import { CacheHandler } from '../cdp-handlers/cache-handler.js';
 import { PerformanceHandler } from '../cdp-handlers/performance-handler.js';
 import { HeapHandler } from '../cdp-handlers/heap-handler.js';
 import { LighthouseHandler } from '../cdp-handlers/lighthouse-handler.js';
+import { InteractionHandler } from '../cdp-handlers/interaction-handler.js';
+import { ScriptHandler } from '../cdp-handlers/script-handler.js';
+import { NetworkHandler } from '../cdp-handlers/network-handler.js';
+import { HarHandler } from '../cdp-handlers/har-handler.js';
+import { InterceptionHandler } from '../cdp-handlers/interception-handler.js';
+import { EmulationHandler } from '../cdp-handlers/emulation-handler.js';
+import { IssuesHandler } from '../cdp-handlers/issues-handler.js';
+import { MemoryMonitorHandler } from '../cdp-handlers/memory-monitor-handler.js';
+import { ProfilerHandler } from '../cdp-handlers/profiler-handler.js';
+import { TracingHandler } from '../cdp-handlers/tracing-handler.js';
+import { CoverageHandler } from '../cdp-handlers/coverage-handler.js';
 
 /**
  * 工具上下文，包含所有需要的处理器和管理器
@@ -18,6 +29,21 @@ export interface ToolContext {
     performanceHandler: PerformanceHandler;
     heapHandler: HeapHandler;
     lighthouseHandler: LighthouseHandler;
+    interactionHandler: InteractionHandler;
+    scriptHandler: ScriptHandler;
+    networkHandler: NetworkHandler;
+    harHandler: HarHandler;
+    interceptionHandler: InterceptionHandler;
+    emulationHandler: EmulationHandler;
+    issuesHandler: IssuesHandler;
+    memoryMonitorHandler: MemoryMonitorHandler;
+    profilerHandler: ProfilerHandler;
+    tracingHandler: TracingHandler;
+    coverageHandler: CoverageHandler;
+    /**
+     * 释放上下文持有的页面事件订阅与 CDP 会话（所属 MCP 会话结束时调用）
+     */
+    dispose: () => Promise<void>;
 }
 
 /**
@@ -0,0 +1,414 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { randomUUID, timingSafeEqual } from 'node:crypto';
+import { AddressInfo } from 'node:net';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { isLoopbackHost } from './transport-config.js';
+
+/**
+ * Streamable HTTP 端点
+ */
+export const MCP_ENDPOINT = '/mcp';
+/**
+ * 旧版 SSE 端点（GET 建立事件流）
+ */
+export const SSE_ENDPOINT = '/sse';
+/**
+ * 旧版 SSE 消息端点（POST 发送消息）
+ */
+export const SSE_MESSAGES_ENDPOINT = '/messages';
+
+/**
+ * 请求体最大字节数
+ */
+const MAX_BODY_BYTES = 4 * 1024 * 1024; // 4MB
+
+/**
+ * Streamable HTTP 会话默认空闲超时（超时未收到请求的会话会被关闭并释放工具上下文）
+ */
+export const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000; // 30 分钟
+
+/**
+ * 回环监听时允许的 Host / Origin 主机名（防止 DNS rebinding）
+ */
+const LOOPBACK_HOSTNAMES = new Set(['localhost', '127.0.0.1', '[::1]']);
+
+export interface HttpTransportServerOptions {
+  host: string;
+  port: number;
+  authToken?: string;
+  /**
+   * Streamable HTTP 会话空闲超时（毫秒），默认 30 分钟，0 表示不超时。
+   * 未发送 DELETE 就断开的客户端会话会在超时后释放
+   */
+  sessionIdleTimeoutMs?: number;
+  /**
+   * 为新会话创建 McpServer（每个会话拥有独立的工具上下文）
+   */
+  createServer: () => HttpSessionServer;
+}
+
+/**
+ * 会话使用的 McpServer 及其资源释放函数（会话结束时调用）
+ */
+export interface HttpSessionServer {
+  server: McpServer;
+  dispose?: () => Promise<void>;
+}
+
+interface HttpSession {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  server: McpServer;
+  dispose?: () => Promise<void>;
+  idleTimer?: NodeJS.Timeout;
+}
+
+/**
+ * HTTP 传输层服务
+ *
+ * 同时提供 Streamable HTTP（/mcp）与旧版 SSE（/sse + /messages）两种接入方式，
+ * 每个客户端会话对应一个独立的 McpServer 实例，但共享同一个浏览器。
+ * 监听回环地址时校验 Host / Origin 请求头，拒绝 DNS rebinding 等来自其他站点的请求。
+ */
+export class HttpTransportServer {
+  private options: HttpTransportServerOptions;
+  private httpServer: Server | null = null;
+  private sessions: Map<string, HttpSession> = new Map();
+
+  constructor(options: HttpTransportServerOptions) {
+    this.options = options;
+  }
+
+  /**
+   * 启动 HTTP 服务，返回实际监听的地址
+   */
+  public async start(): Promise<AddressInfo> {
+    if (this.httpServer) {
+      return this.httpServer.address() as AddressInfo;
+    }
+
+    const httpServer = createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        console.error('Error handling HTTP request:', error);
+        if (!res.headersSent) {
+          this.sendJsonRpcError(res, 500, -32603, 'Internal server error');
+        } else {
+          res.end();
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      httpServer.once('error', reject);
+      httpServer.listen(this.options.port, this.options.host, () => {
+        httpServer.removeListener('error', reject);
+        resolve();
+      });
+    });
+
+    this.httpServer = httpServer;
+    return httpServer.address() as AddressInfo;
+  }
+
+  /**
+   * 关闭所有会话与 HTTP 服务
+   */
+  public async close(): Promise<void> {
+    const sessions = Array.from(this.sessions.values());
+    this.sessions.clear();
+
+    await Promise.all(sessions.map((session) => this.releaseSession(session)));
+
+    const httpServer = this.httpServer;
+    this.httpServer = null;
+    if (httpServer) {
+      httpServer.closeAllConnections?.();
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+    }
+  }
+
+  /**
+   * 关闭会话的 McpServer 并释放其工具上下文
+   */
+  private async releaseSession(session: HttpSession): Promise<void> {
+    clearTimeout(session.idleTimer);
+    try {
+      await session.server.close();
+    } catch (error) {
+      // 忽略关闭错误
+    }
+    try {
+      await session.dispose?.();
+    } catch (error) {
+      // 忽略释放错误
+    }
+  }
+
+  /**
+   * 当前活跃会话数
+   */
+  public getSessionCount(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * 请求分发
+   */
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    if (!this.isAllowedHost(req)) {
+      this.sendJsonRpcError(res, 403, -32000, 'Forbidden: invalid Host header');
+      return;
+    }
+    if (!this.isAllowedOrigin(req)) {
+      this.sendJsonRpcError(res, 403, -32000, 'Forbidden: invalid Origin header');
+      return;
+    }
+
+    if (!this.isAuthorized(req)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      this.sendJsonRpcError(res, 401, -32001, 'Unauthorized');
+      return;
+    }
+
+    const { pathname, searchParams } = new URL(req.url ?? '/', 'http://localhost');
+
+    if (pathname === MCP_ENDPOINT) {
+      await this.handleStreamableRequest(req, res);
+      return;
+    }
+
+    if (pathname === SSE_ENDPOINT && req.method === 'GET') {
+      await this.handleSseConnect(res);
+      return;
+    }
+
+    if (pathname === SSE_MESSAGES_ENDPOINT && req.method === 'POST') {
+      await this.handleSseMessage(req, res, searchParams.get('sessionId'));
+      return;
+    }
+
+    res.writeHead(404, { 'Content-Type': 'text/plain' }).end('Not Found');
+  }
+
+  /**
+   * Streamable HTTP：POST 发送消息，GET 建立通知流，DELETE 结束会话
+   */
+  private async handleStreamableRequest(
+    req: IncomingMessage,
+    res: ServerResponse
+  ): Promise<void> {
+    const sessionIdHeader = req.headers['mcp-session-id'];
+    const sessionId = Array.isArray(sessionIdHeader) ? sessionIdHeader[0] : sessionIdHeader;
+    const body = req.method === 'POST' ? await this.readJsonBody(req, res) : undefined;
+    if (req.method === 'POST' && body === undefined) {
+      return;
+    }
+
+    const existing = sessionId ? this.sessions.get(sessionId) : undefined;
+    if (existing) {
+      if (!(existing.transport instanceof StreamableHTTPServerTransport)) {
+        this.sendJsonRpcError(res, 400, -32000, 'Bad Request: session uses a different transport');
+        return;
+      }
+      // 请求开始和结束时都刷新空闲计时，避免长时间运行的工具调用被判定为空闲
+      existing.idleTimer?.refresh();
+      res.on('close', () => existing.idleTimer?.refresh());
+      await existing.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (!sessionId && req.method === 'POST' && isInitializeRequest(body)) {
+      const { server, dispose } = this.options.createServer();
+      const session: HttpSession = {
+        transport: new StreamableHTTPServerTransport({
+          sessionIdGenerator: () => randomUUID(),
+          onsessioninitialized: (id) => {
+            this.sessions.set(id, session);
+            session.idleTimer = this.startIdleTimer(id, session);
+          },
+        }),
+        server,
+        dispose,
+      };
+      const transport = session.transport as StreamableHTTPServerTransport;
+      transport.onclose = () => {
+        clearTimeout(session.idleTimer);
+        // 已被 close() 或空闲超时移出的会话由 releaseSession 负责释放
+        const id = transport.sessionId;
+        if (id && this.sessions.get(id) !== session) {
+          return;
+        }
+        if (id) {
+          this.sessions.delete(id);
+        }
+        dispose?.().catch(() => {
+          // 忽略释放错误
+        });
+      };
+
+      await server.connect(transport);
+      await transport.handleRequest(req, res, body);
+      return;
+    }
+
+    this.sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+  }
+
+  /**
+   * 启动会话空闲计时，超时后关闭会话并释放其工具上下文
+   */
+  private startIdleTimer(sessionId: string, session: HttpSession): NodeJS.Timeout | undefined {
+    const timeoutMs = this.options.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+    if (timeoutMs <= 0) {
+      return undefined;
+    }
+
+    const timer = setTimeout(() => {
+      if (this.sessions.get(sessionId) !== session) {
+        return;
+      }
+      this.sessions.delete(sessionId);
+      this.releaseSession(session);
+    }, timeoutMs);
+    // 不阻止进程退出
+    timer.unref();
+    return timer;
+  }
+
+  /**
+   * 旧版 SSE：建立事件流
+   */
+  private async handleSseConnect(res: ServerResponse): Promise<void> {
+    const { server, dispose } = this.options.createServer();
+    const transport = new SSEServerTransport(SSE_MESSAGES_ENDPOINT, res);
+    const sessionId = transport.sessionId;
+
+    const session: HttpSession = { transport, server, dispose };
+    this.sessions.set(sessionId, session);
+    res.on('close', () => {
+      this.sessions.delete(sessionId);
+      this.releaseSession(session);
+    });
+
+    await server.connect(transport);
+  }
+
+  /**
+   * 旧版 SSE：接收客户端消息
+   */
+  private async handleSseMessage(
+    req: IncomingMessage,
+    res: ServerResponse,
+    sessionId: string | null
+  ): Promise<void> {
+    const session = sessionId ? this.sessions.get(sessionId) : undefined;
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      this.sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    const body = await this.readJsonBody(req, res);
+    if (body === undefined) {
+      return;
+    }
+    await session.transport.handlePostMessage(req, res, body);
+  }
+
+  /**
+   * Host 校验：监听回环地址时只接受回环主机名，防止 DNS rebinding
+   */
+  private isAllowedHost(req: IncomingMessage): boolean {
+    if (!isLoopbackHost(this.options.host)) {
+      return true;
+    }
+    const host = req.headers.host;
+    if (!host) {
+      return false;
+    }
+    try {
+      return LOOPBACK_HOSTNAMES.has(new URL(`http://${host}`).hostname);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Origin 校验：监听回环地址时拒绝来自其他站点的浏览器请求（无 Origin 的非浏览器客户端放行）
+   */
+  private isAllowedOrigin(req: IncomingMessage): boolean {
+    const origin = req.headers.origin;
+    if (!origin || !isLoopbackHost(this.options.host)) {
+      return true;
+    }
+    try {
+      return LOOPBACK_HOSTNAMES.has(new URL(origin).hostname);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Bearer Token 校验（未配置 token 时放行）
+   */
+  private isAuthorized(req: IncomingMessage): boolean {
+    const token = this.options.authToken;
+    if (!token) {
+      return true;
+    }
+
+    const header = req.headers.authorization ?? '';
+    const match = /^Bearer\s+(.+)$/i.exec(header);
+    if (!match) {
+      return false;
+    }
+
+    const expected = Buffer.from(token, 'utf8');
+    const actual = Buffer.from(match[1].trim(), 'utf8');
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+
+  /**
+   * 读取并解析 JSON 请求体；失败时直接写回错误响应并返回 undefined
+   */
+  private async readJsonBody(
+    req: IncomingMessage,
+    res: ServerResponse
+  ): Promise<unknown | undefined> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    for await (const chunk of req) {
+      const buffer = typeof chunk === 'string' ? Buffer.from(chunk) : (chunk as Buffer);
+      size += buffer.length;
+      if (size > MAX_BODY_BYTES) {
+        this.sendJsonRpcError(res, 413, -32000, 'Payload too large');
+        return undefined;
+      }
+      chunks.push(buffer);
+    }
+
+    try {
+      return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    } catch {
+      this.sendJsonRpcError(res, 400, -32700, 'Parse error');
+      return undefined;
+    }
+  }
+
+  private sendJsonRpcError(
+    res: ServerResponse,
+    status: number,
+    code: number,
+    message: string
+  ): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' }).end(
+      JSON.stringify({
+        jsonrpc: '2.0',
+        error: { code, message },
+        id: null,
+      })
+    );
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * 传输层类型
+ * - stdio：标准输入输出（默认，一个客户端对应一个浏览器进程）
+ * - http：HTTP 服务（Streamable HTTP + 兼容旧版 SSE），可供多个客户端共享同一个浏览器
+ */
+export type TransportType = 'stdio' | 'http';
+
+/**
+ * 传输层配置
+ */
+export interface TransportConfig {
+  type: TransportType;
+  /**
+   * HTTP 模式监听地址，默认 127.0.0.1（仅本机可访问）
+   */
+  host: string;
+  /**
+   * HTTP 模式监听端口，默认 3100
+   */
+  port: number;
+  /**
+   * HTTP 模式的 Bearer Token。设置后所有请求都必须携带 `Authorization: Bearer <token>`
+   */
+  authToken?: string;
+}
+
+export const DEFAULT_HTTP_HOST = '127.0.0.1';
+export const DEFAULT_HTTP_PORT = 3100;
+
+/**
+ * 是否为仅本机可访问的监听地址
+ */
+export function isLoopbackHost(host: string): boolean {
+  return host === 'localhost' || host === '::1' || host === '[::1]' || host.startsWith('127.');
+}
+
+/**
+ * 读取命令行参数值，支持 `--name value` 与 `--name=value` 两种写法
+ */
+function readArg(argv: string[], name: string): string | undefined {
+  const flag = `--${name}`;
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === flag) {
+      const next = argv[i + 1];
+      return next !== undefined && !next.startsWith('--') ? next : undefined;
+    }
+    if (arg.startsWith(`${flag}=`)) {
+      return arg.slice(flag.length + 1);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * 解析传输层配置
+ *
+ * 优先级：命令行参数 > 环境变量 > 默认值
+ * - `--transport` / `MCP_TRANSPORT`：stdio | http
+ * - `--host` / `MCP_HTTP_HOST`
+ * - `--port` / `MCP_HTTP_PORT`
+ * - `--auth-token` / `MCP_AUTH_TOKEN`
+ */
+export function parseTransportConfig(
+  argv: string[],
+  env: NodeJS.ProcessEnv
+): TransportConfig {
+  const type = (readArg(argv, 'transport') ?? env.MCP_TRANSPORT ?? 'stdio').toLowerCase();
+  if (type !== 'stdio' && type !== 'http') {
+    throw new Error(`Invalid transport "${type}", expected "stdio" or "http"`);
+  }
+
+  const host = readArg(argv, 'host') ?? env.MCP_HTTP_HOST ?? DEFAULT_HTTP_HOST;
+
+  const portText = readArg(argv, 'port') ?? env.MCP_HTTP_PORT;
+  const port = portText !== undefined ? Number(portText) : DEFAULT_HTTP_PORT;
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port "${portText}", expected an integer between 0 and 65535`);
+  }
+
+  const authToken = readArg(argv, 'auth-token') ?? env.MCP_AUTH_TOKEN;
+
+  return {
+    type,
+    host,
+    port,
+    authToken: authToken ? authToken : undefined,
+  };
+}
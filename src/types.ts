@@ -7,6 +7,16 @@ export interface BrowserConfig {
   headless?: boolean;
   args?: string[];
   timeout?: number;
+  /**
+   * 连接模式：已运行 Chrome 的 HTTP 调试地址（如 http://127.0.0.1:9222）
+   * 设置后不再启动新浏览器，而是通过 puppeteer.connect 附加到该实例
+   */
+  browserURL?: string;
+  /**
+   * 连接模式：已运行 Chrome 的 WebSocket 调试地址（如 ws://127.0.0.1:9222/devtools/browser/<id>）
+   * 优先级高于 browserURL
+   */
+  browserWSEndpoint?: string;
 }
 
 /**
@@ -16,6 +26,10 @@ export interface PageInfo {
   page: Page;
   url: string;
   createdAt: Date;
+  /**
+   * 是否为连接模式下发现的用户已有标签页（此类页面不会被自动关闭）
+   */
+  attached?: boolean;
 }
 
 /**
@@ -131,6 +145,58 @@ export interface PerformanceMetrics {
     startTime: number;
     duration: number;
   }>;
+  /**
+   * CDP Performance.getMetrics 返回的运行时指标（差值模式下为等待结束后的值）
+   */
+  runtime?: PerformanceRuntimeMetrics;
+  /**
+   * 差值模式（指定 deltaWaitMs）下等待前后的指标变化
+   */
+  runtimeDelta?: PerformanceRuntimeDelta;
+  /**
+   * 测量时生效的节流配置（未节流时缺省）
+   */
+  throttling?: AppliedThrottling;
+}
+
+/**
+ * 运行时指标，键名与 CDP Performance.getMetrics 一致
+ *
+ * *Duration 单位为秒（页面生命周期内的累计值），*Size 单位为字节，其余为计数。
+ */
+export interface PerformanceRuntimeMetrics {
+  JSHeapUsedSize?: number;
+  JSHeapTotalSize?: number;
+  Nodes?: number;
+  Documents?: number;
+  Frames?: number;
+  JSEventListeners?: number;
+  LayoutCount?: number;
+  RecalcStyleCount?: number;
+  LayoutDuration?: number;
+  RecalcStyleDuration?: number;
+  ScriptDuration?: number;
+  TaskDuration?: number;
+  [name: string]: number | undefined;
+}
+
+export interface PerformanceRuntimeDelta {
+  /**
+   * 请求的等待时长（毫秒）
+   */
+  waitMs: number;
+  /**
+   * 两次读取之间实际经过的时间（毫秒，来自 Timestamp 指标）
+   */
+  elapsedMs: number;
+  /**
+   * 等待前的指标
+   */
+  before: PerformanceRuntimeMetrics;
+  /**
+   * 等待后减等待前（只包含两次都返回的指标）
+   */
+  delta: PerformanceRuntimeMetrics;
 }
 
 /**
@@ -270,18 +336,424 @@ export interface HeapSnapshot {
   totalNodes?: number;
 }
 
+/**
+ * 两个堆快照之间单个构造函数的变化（与 DevTools Comparison 视图一致）
+ */
+export interface HeapSnapshotConstructorDelta {
+  name: string;
+  countBefore: number;
+  countAfter: number;
+  countDelta: number;
+  /**
+   * after 中新出现的对象数（# New）
+   */
+  newCount: number;
+  /**
+   * before 中已被释放的对象数（# Deleted）
+   */
+  deletedCount: number;
+  sizeBeforeBytes: number;
+  sizeAfterBytes: number;
+  sizeDeltaBytes: number;
+  /**
+   * 新对象的 self size 之和（Alloc. Size）
+   */
+  allocatedBytes: number;
+  /**
+   * 已释放对象的 self size 之和（Freed Size）
+   */
+  freedBytes: number;
+}
+
+/**
+ * after 中新出现且仍存活的对象
+ */
+export interface HeapSnapshotNewObject {
+  id: number;
+  name: string;
+  className: string;
+  type: string;
+  selfSizeBytes: number;
+}
+
+export interface CompareHeapSnapshotsParams {
+  url?: string;
+  /**
+   * 基准快照：.heapsnapshot 文件路径，或 "latest" 表示该页面最近一次以文件导出的快照；未提供时在页面上采集
+   */
+  before?: string;
+  /**
+   * 对比快照：.heapsnapshot 文件路径或 "latest"；未提供时在页面上采集
+   */
+  after?: string;
+  /**
+   * 两个快照都在页面上采集时，两次采集之间的等待时间（毫秒），默认 5000
+   */
+  waitMs?: number;
+  /**
+   * Top N 数量，默认 20
+   */
+  topN?: number;
+  /**
+   * 采集 raw snapshot 的最大字节数，默认 1GB
+   */
+  maxSnapshotBytes?: number;
+  /**
+   * 流式解析允许的最大字节数，默认 1GB
+   */
+  maxParseBytes?: number;
+}
+
+export interface CompareHeapSnapshotsResult {
+  timestamp: number;
+  before: { source: string; totalNodes: number; totalSizeBytes: number };
+  after: { source: string; totalNodes: number; totalSizeBytes: number };
+  totalNodesDelta: number;
+  totalSizeDeltaBytes: number;
+  /**
+   * 发生变化的构造函数（按 |sizeDeltaBytes| 降序，Top N）
+   */
+  constructors: HeapSnapshotConstructorDelta[];
+  /**
+   * 增长最多的构造函数（Top N）
+   */
+  topGrowing: HeapSnapshotConstructorDelta[];
+  /**
+   * after 中新出现且仍存活的最大对象（Top N）
+   */
+  newObjects: HeapSnapshotNewObject[];
+  limitations?: string[];
+}
+
+/**
+ * 堆快照中的节点
+ */
+export interface HeapNodeInfo {
+  id?: number;
+  name: string;
+  className: string;
+  type: string;
+}
+
+/**
+ * 从 GC 根到目标对象的一条持有路径
+ */
+export interface HeapRetainerPath {
+  /**
+   * 单行文本，如 "Window.cache → Array[3] → Foo @42"
+   */
+  text: string;
+  /**
+   * 从根到目标依次经过的持有者及其指向下一个节点的边
+   */
+  steps: Array<{
+    node: HeapNodeInfo;
+    edge: { type: string; name: string };
+  }>;
+  /**
+   * 路径超过 maxDepth，只保留了靠近目标的部分
+   */
+  truncated?: boolean;
+}
+
+export interface FindRetainerPathsParams {
+  url?: string;
+  /**
+   * 快照来源：.heapsnapshot 文件路径或 "latest"；未提供时在页面上采集
+   */
+  snapshot?: string;
+  /**
+   * 目标节点 id（DevTools 中的 @id）
+   */
+  nodeId?: number;
+  /**
+   * 目标构造函数名（与 DevTools Summary 视图分组一致，如 Array、(closure)）
+   */
+  constructorName?: string;
+  /**
+   * 按构造函数查找时分析的对象数（按保留大小降序），默认 5
+   */
+  maxNodes?: number;
+  /**
+   * 每个对象返回的路径数，默认 3
+   */
+  maxPaths?: number;
+  /**
+   * 单条路径的最大长度，默认 20
+   */
+  maxDepth?: number;
+  /**
+   * 采集 raw snapshot 的最大字节数，默认 1GB
+   */
+  maxSnapshotBytes?: number;
+  /**
+   * 流式解析允许的最大字节数，默认 1GB
+   */
+  maxParseBytes?: number;
+}
+
+export interface RetainedHeapNode extends HeapNodeInfo {
+  selfSizeBytes: number;
+  /**
+   * 保留大小：该对象被回收后可释放的总字节数（支配树子树大小）
+   */
+  retainedSizeBytes: number;
+  /**
+   * 到 GC 根的最短距离（不可达为 undefined）
+   */
+  distance?: number;
+  /**
+   * 直接支配者
+   */
+  dominator?: HeapNodeInfo;
+  retainerPaths: HeapRetainerPath[];
+}
+
+export interface FindRetainerPathsResult {
+  timestamp: number;
+  source: string;
+  totalNodes: number;
+  /**
+   * 按构造函数查找时的汇总
+   */
+  constructorSummary?: {
+    name: string;
+    count: number;
+    selfSizeBytes: number;
+    /**
+     * 不重复计算被同类对象支配的部分
+     */
+    retainedSizeBytes: number;
+  };
+  nodes: RetainedHeapNode[];
+  limitations?: string[];
+}
+
+export interface FindDetachedDomParams {
+  url?: string;
+  /**
+   * 快照来源：.heapsnapshot 文件路径或 "latest"；未提供时在页面上采集
+   */
+  snapshot?: string;
+  /**
+   * 返回的脱离 DOM 树数量（按保留大小降序），默认 10
+   */
+  maxTrees?: number;
+  /**
+   * 每棵树返回的持有路径数，默认 1
+   */
+  maxPaths?: number;
+  /**
+   * 单条路径的最大长度，默认 20
+   */
+  maxDepth?: number;
+  /**
+   * 采集 raw snapshot 的最大字节数，默认 1GB
+   */
+  maxSnapshotBytes?: number;
+  /**
+   * 流式解析允许的最大字节数，默认 1GB
+   */
+  maxParseBytes?: number;
+}
+
+/**
+ * 一棵脱离文档但仍被持有的 DOM 树
+ */
+export interface DetachedDomTree {
+  /**
+   * 树根（沿支配树向上最高的脱离节点）
+   */
+  root: HeapNodeInfo & { tag: string };
+  /**
+   * 树中脱离节点的数量
+   */
+  nodeCount: number;
+  /**
+   * 各元素类型的节点数
+   */
+  tags: Record<string, number>;
+  retainedSizeBytes: number;
+  /**
+   * 从 GC 根到树根的持有路径，指出持有该树的 JS 对象
+   */
+  retainerPaths: HeapRetainerPath[];
+}
+
+export interface FindDetachedDomResult {
+  timestamp: number;
+  source: string;
+  totalNodes: number;
+  /**
+   * 脱离节点总数与 self size 之和
+   */
+  detachedNodes: number;
+  detachedSelfSizeBytes: number;
+  /**
+   * 脱离 DOM 树总数
+   */
+  totalTrees: number;
+  /**
+   * 按元素类型汇总（按数量降序）
+   */
+  byTag: Array<{ tag: string; count: number; selfSizeBytes: number }>;
+  /**
+   * 保留大小最大的树（Top maxTrees）
+   */
+  trees: DetachedDomTree[];
+  limitations?: string[];
+}
+
+/**
+ * 场景中的一步操作（detect_memory_leak、profile_cpu 等工具共用）
+ */
+export type ScenarioStep =
+  | { action: 'navigate'; url: string }
+  | { action: 'click'; selector: string }
+  | { action: 'type'; selector: string; text: string }
+  | { action: 'press'; key: string }
+  | { action: 'hover'; selector: string }
+  | { action: 'scroll'; selector?: string; deltaY?: number }
+  | { action: 'back' }
+  | { action: 'forward' }
+  | { action: 'evaluate'; script: string }
+  | { action: 'wait'; ms?: number; selector?: string };
+
+export interface DetectMemoryLeakParams {
+  url?: string;
+  /**
+   * 一次迭代中依次执行的操作，通常以撤销操作（如 back、关闭弹窗）结束，使页面回到初始状态
+   */
+  steps: ScenarioStep[];
+  /**
+   * 迭代次数，默认 5
+   */
+  iterations?: number;
+  /**
+   * 采集基准快照前的预热迭代次数（排除首次执行的懒加载与缓存），默认 1
+   */
+  warmupIterations?: number;
+  /**
+   * 每步操作后等待页面响应的时间（毫秒），默认 500
+   */
+  settleMs?: number;
+  /**
+   * 等待元素出现的超时时间（毫秒），默认 5000
+   */
+  timeout?: number;
+  /**
+   * 每次迭代对象数至少增加多少才视为单调增长，默认 1
+   */
+  minGrowthPerIteration?: number;
+  /**
+   * 返回的可疑构造函数数量，默认 20
+   */
+  topN?: number;
+  /**
+   * 采集 raw snapshot 的最大字节数，默认 1GB
+   */
+  maxSnapshotBytes?: number;
+  /**
+   * 流式解析允许的最大字节数，默认 1GB
+   */
+  maxParseBytes?: number;
+}
+
+/**
+ * 数量随迭代单调增长的构造函数
+ */
+export interface LeakSuspect {
+  name: string;
+  /**
+   * 基准快照及每次迭代后的对象数
+   */
+  counts: number[];
+  sizesBytes: number[];
+  countDelta: number;
+  sizeDeltaBytes: number;
+  /**
+   * 平均每次迭代新增的对象数
+   */
+  countPerIteration: number;
+}
+
+export interface DetectMemoryLeakResult {
+  timestamp: number;
+  iterations: number;
+  /**
+   * 基准快照及每次迭代后的堆大小（self size 之和）
+   */
+  heapSizesBytes: number[];
+  heapGrowthBytes: number;
+  leakDetected: boolean;
+  /**
+   * 可疑构造函数（按大小增长降序，Top N）
+   */
+  suspects: LeakSuspect[];
+  limitations?: string[];
+}
+
 /**
  * 内存分析结果
  */
 export interface MemoryAnalysis {
   heapUsed: number;
   heapTotal: number;
+  /**
+   * V8 堆外内存（ArrayBuffer backing store 与 embedder 堆），浏览器不支持时为 0
+   */
   external: number;
+  /**
+   * 浏览器内所有渲染进程（包括其他页面）的常驻内存合计（字节），不是当前页面独占的内存；
+   * CDP 无法确定页面所在的渲染进程。仅在 Linux 上本机启动的浏览器可用，否则为 0
+   */
+  rendererRssTotal: number;
+  /**
+   * @deprecated 兼容字段（历史返回结构）。计划在下个 major 版本移除。
+   *
+   * 与 `rendererRssTotal` 取值相同（浏览器内所有渲染进程的合计，而非当前页面），请迁移到 `rendererRssTotal`。
+   */
   rss: number;
   timestamp: number;
+  /**
+   * 构造函数 -> 存活对象数（Runtime.queryObjects，包含原型链上的子类实例）
+   */
   objectCounts?: Record<string, number>;
+  /**
+   * 页面 DOM 计数（Memory.getDOMCounters）
+   */
+  domCounters?: MemoryDomCounters;
+  /**
+   * 浏览器各进程信息（SystemInfo.getProcessInfo）
+   */
+  processes?: BrowserProcessMemory[];
+  limitations?: string[];
+}
+
+export interface MemoryDomCounters {
+  documents: number;
+  nodes: number;
+  jsEventListeners: number;
+}
+
+export interface BrowserProcessMemory {
+  /**
+   * 进程类型（browser、renderer、GPU、utility 等）
+   */
+  type: string;
+  pid: number;
+  /**
+   * 进程启动以来累计 CPU 时间（秒）
+   */
+  cpuTimeSeconds: number;
+  /**
+   * 常驻内存（字节），从 /proc/<pid>/status 读取，不可用时缺失
+   */
+  rssBytes?: number;
 }
 
+export type AllocationTrackingMode = 'tracking' | 'sampling';
+
 /**
  * 分配跟踪信息
  */
@@ -294,6 +766,10 @@ export interface AllocationTracking {
    * 跟踪时长（毫秒）
    */
   durationMs?: number;
+  /**
+   * 跟踪方式（tracking：分配跟踪 + heap snapshot；sampling：采样堆 profile）
+   */
+  mode?: AllocationTrackingMode;
 
   /**
    * new shape：可解释的分配统计与调用栈摘要
@@ -304,7 +780,8 @@ export interface AllocationTracking {
    * new shape：raw profile 导出信息。
    *
    * 说明：为了最大化复用与兼容，我们复用 HeapSnapshot 的 export 结构；
-   * 实际导出的内容是“带 trace 的 heap snapshot”（可在 Chrome DevTools Memory 中加载）。
+   * tracking 模式导出“带 trace 的 heap snapshot”，sampling 模式导出 .heapprofile，
+   * 两者都可在 Chrome DevTools Memory 中加载。
    */
   export?: HeapSnapshotExportResult;
 
@@ -359,9 +836,56 @@ export interface AllocationTrackingSummary {
    * TopN 调用栈摘要（按 sizeBytes 排序）
    */
   topStacks?: AllocationTrackingTopStack[];
+  /**
+   * 仅 sampling 模式：按自身分配字节数排序的 TopN 函数
+   */
+  topFunctionsBySelf?: AllocationTrackingTopFunction[];
+  /**
+   * 仅 sampling 模式：按累计（含被调用函数）分配字节数排序的 TopN 函数
+   */
+  topFunctionsByTotal?: AllocationTrackingTopFunction[];
+  /**
+   * 仅 sampling 模式：聚合后的分配调用树（省略占比低于 1% 的分支）
+   */
+  callTree?: AllocationCallTreeNode;
 }
 
-/**
+export interface AllocationTrackingTopFunction {
+  functionName: string;
+  url?: string;
+  /**
+   * 行号（从 1 开始）
+   */
+  lineNumber?: number;
+  /**
+   * 列号（从 1 开始）
+   */
+  columnNumber?: number;
+  /**
+   * 函数自身分配的字节数（采样估算值）
+   */
+  selfSizeBytes: number;
+  /**
+   * 函数及其调用的函数分配的字节数（递归调用只计一次）
+   */
+  totalSizeBytes: number;
+  /**
+   * 落在该函数上的采样次数
+   */
+  sampleCount: number;
+}
+
+export interface AllocationCallTreeNode {
+  /**
+   * 可读栈帧：name (url:line:column)
+   */
+  frame: string;
+  selfSizeBytes: number;
+  totalSizeBytes: number;
+  children?: AllocationCallTreeNode[];
+}
+
+/**
  * 工具参数类型
  */
 export interface NavigateParams {
@@ -384,6 +908,14 @@ export interface GetCacheStatusParams {
 
 export interface GetPerformanceParams {
   url?: string;
+  /**
+   * 测量时使用的节流配置（会以该配置重新加载页面，测量后恢复原配置）
+   */
+  throttling?: ThrottlingOptions;
+  /**
+   * 差值模式：读取一次运行时指标后等待该时长（毫秒）再读取一次，返回两次之间的变化（用于观察页面空闲时在做什么）
+   */
+  deltaWaitMs?: number;
 }
 
 export interface GetHeapSnapshotParams {
@@ -401,17 +933,22 @@ export interface GetHeapSnapshotParams {
    */
   export?: HeapSnapshotExportOptions;
   /**
-   * 采集 raw snapshot 的最大字节数，默认 200MB。超出将截断并跳过解析。
+   * 采集 raw snapshot 的最大字节数，默认 1GB。超出将截断并跳过解析。
    */
   maxSnapshotBytes?: number;
   /**
-   * 解析（JSON.parse）允许的最大字节数，默认 50MB。超出将跳过解析。
+   * 流式解析允许的最大字节数，默认 1GB。超出将跳过解析。
    */
   maxParseBytes?: number;
 }
 
 export interface AnalyzeMemoryParams {
   url?: string;
+  /**
+   * 需要统计存活对象数的构造函数表达式（如 Array、HTMLDivElement、app.Store），
+   * 默认统计 Object、Array、Function、Promise、Map、Set、ArrayBuffer、EventTarget、Node、Element
+   */
+  constructors?: string[];
 }
 
 export interface TrackAllocationsParams {
@@ -425,16 +962,30 @@ export interface TrackAllocationsParams {
    * 采集前是否触发 GC，默认 false
    */
   collectGarbage?: boolean;
+  /**
+   * 跟踪方式，默认 tracking。
+   * - tracking：startTrackingHeapObjects + 带 trace 的 heap snapshot，精确但开销大
+   * - sampling：HeapProfiler.startSampling 采样，开销低，适合真实大型应用
+   */
+  mode?: AllocationTrackingMode;
+  /**
+   * 仅 sampling 模式：平均采样间隔（字节），默认 32768
+   */
+  samplingInterval?: number;
+  /**
+   * 仅 sampling 模式：是否包含停止采样前已被 GC 回收的对象，默认 false（只统计仍存活的分配）
+   */
+  includeCollected?: boolean;
   /**
    * raw profile 导出选项（复用 heap snapshot export 结构）
    */
   export?: HeapSnapshotExportOptions;
   /**
-   * raw snapshot 采集最大字节数，默认 200MB。超出将截断并跳过解析。
+   * raw snapshot 采集最大字节数，默认 1GB。超出将截断并跳过解析。
    */
   maxSnapshotBytes?: number;
   /**
-   * JSON.parse 解析最大字节数，默认 50MB。超出将跳过解析。
+   * 流式解析最大字节数，默认 1GB。超出将跳过解析。
    */
   maxParseBytes?: number;
 }
@@ -444,3 +995,1167 @@ export interface TakeScreenshotParams {
   fullPage?: boolean;
 }
 
+
+/**
+ * 交互操作的通用参数
+ */
+export interface InteractionBaseParams {
+  url?: string;
+  /**
+   * 等待元素出现的超时时间（毫秒），默认 5000
+   */
+  timeout?: number;
+  /**
+   * 操作完成后等待页面响应的时间（毫秒），默认 500。期间产生的 Console 错误与导航会被记录
+   */
+  settleMs?: number;
+}
+
+export interface ClickParams extends InteractionBaseParams {
+  selector: string;
+  button?: 'left' | 'right' | 'middle';
+  clickCount?: number;
+  /**
+   * 是否等待点击触发的页面导航完成，默认 false
+   */
+  waitForNavigation?: boolean;
+}
+
+export interface TypeTextParams extends InteractionBaseParams {
+  selector: string;
+  text: string;
+  /**
+   * 输入前是否清空原有内容，默认 false
+   */
+  clear?: boolean;
+  /**
+   * 每个字符之间的延迟（毫秒）
+   */
+  delay?: number;
+  /**
+   * 输入完成后是否按下 Enter，默认 false
+   */
+  pressEnter?: boolean;
+}
+
+export interface FillFormParams extends InteractionBaseParams {
+  /**
+   * 选择器 -> 值。文本框填入字符串；checkbox/radio 使用布尔值；select 使用选项 value
+   */
+  fields: Record<string, string | boolean>;
+  /**
+   * 填写完成后点击的提交按钮选择器（可选）
+   */
+  submitSelector?: string;
+}
+
+export interface SelectOptionParams extends InteractionBaseParams {
+  selector: string;
+  values: string[];
+}
+
+export interface HoverParams extends InteractionBaseParams {
+  selector: string;
+}
+
+export interface PressKeyParams extends InteractionBaseParams {
+  /**
+   * 按键名称（如 Enter、Escape、ArrowDown），支持组合键（如 Control+A、Shift+Tab）
+   */
+  key: string;
+  /**
+   * 按键前聚焦的元素选择器（可选）
+   */
+  selector?: string;
+  waitForNavigation?: boolean;
+}
+
+export interface ScrollParams extends InteractionBaseParams {
+  /**
+   * 滚动到该元素可见（优先级最高）
+   */
+  selector?: string;
+  /**
+   * 滚动到页面顶部/底部
+   */
+  to?: 'top' | 'bottom';
+  /**
+   * 相对滚动距离（像素）
+   */
+  deltaX?: number;
+  deltaY?: number;
+}
+
+/**
+ * 交互操作结果
+ */
+export interface InteractionResult {
+  action: string;
+  selector?: string;
+  /**
+   * 操作完成后的页面 URL
+   */
+  url: string;
+  /**
+   * 操作期间发生的主框架导航（未发生导航时缺省）
+   */
+  navigation?: {
+    from: string;
+    to: string;
+    /**
+     * 按顺序记录的导航 URL（包含重定向/多次跳转）
+     */
+    urls: string[];
+  };
+  /**
+   * 操作期间产生的 Console 错误、页面异常与失败请求
+   */
+  consoleErrors: ConsoleLogEntry[];
+  /**
+   * 操作相关的附加信息（如选中的值、滚动位置）
+   */
+  details?: Record<string, unknown>;
+}
+
+export interface EvaluateScriptParams {
+  url?: string;
+  /**
+   * 要执行的 JavaScript 表达式（支持顶层 await）
+   */
+  expression?: string;
+  /**
+   * async 函数体（可使用 return 返回结果，通过 args 访问参数）
+   */
+  functionBody?: string;
+  /**
+   * functionBody 模式下传入的参数（需可 JSON 序列化）
+   */
+  args?: unknown[];
+  /**
+   * 是否等待 Promise 结果，默认 true
+   */
+  awaitPromise?: boolean;
+  /**
+   * 执行超时时间（毫秒），默认 10000
+   */
+  timeout?: number;
+  /**
+   * 结果预览的最大嵌套深度，默认 4
+   */
+  maxDepth?: number;
+  /**
+   * 结果预览 JSON 的最大字节数，默认 32KB
+   */
+  maxBytes?: number;
+}
+
+/**
+ * 脚本抛出异常的详细信息
+ */
+export interface ScriptExceptionDetails {
+  message: string;
+  /**
+   * 异常对象描述（通常包含 stack）
+   */
+  description?: string;
+  url?: string;
+  /**
+   * 行号/列号（从 1 开始）
+   */
+  lineNumber: number;
+  columnNumber: number;
+  stackTrace?: string[];
+}
+
+export interface EvaluateScriptResult {
+  success: boolean;
+  /**
+   * 结果类型（RemoteObject type/subtype，如 number、object、node、map、error）
+   */
+  type?: string;
+  className?: string;
+  /**
+   * 结果的 JSON 预览（有界，可能截断）
+   */
+  value?: unknown;
+  previewBytes?: number;
+  truncated?: boolean;
+  exception?: ScriptExceptionDetails;
+  durationMs: number;
+}
+
+/**
+ * 网络请求记录
+ */
+export interface NetworkRequestEntry {
+  /**
+   * CDP requestId（重定向链中的请求共享同一 requestId）
+   */
+  requestId: string;
+  url: string;
+  method: string;
+  /**
+   * 资源类型（Document、Script、XHR、Fetch、Image 等）
+   */
+  resourceType: string;
+  /**
+   * 请求开始时间（Unix 时间戳，毫秒）
+   */
+  startedAt: number;
+  /**
+   * 请求耗时（毫秒），请求未完成时缺省
+   */
+  duration?: number;
+  status?: number;
+  statusText?: string;
+  mimeType?: string;
+  /**
+   * HTTP 协议版本（如 h2、http/1.1）
+   */
+  protocol?: string;
+  remoteAddress?: string;
+  /**
+   * 传输字节数（含响应头，已压缩）
+   */
+  encodedDataLength?: number;
+  /**
+   * 解码后的响应体字节数（来自 Network.dataReceived）
+   */
+  dataLength?: number;
+  fromCache?: boolean;
+  fromServiceWorker?: boolean;
+  /**
+   * 请求是否失败（网络错误、被拦截、被取消）
+   */
+  failed?: boolean;
+  errorText?: string;
+  canceled?: boolean;
+  /**
+   * 重定向目标 URL（该请求以 3xx 重定向结束时）
+   */
+  redirectedTo?: string;
+  /**
+   * 发起方类型（parser、script、preload、other 等）
+   */
+  initiator?: string;
+  requestHeaders?: Record<string, string>;
+  responseHeaders?: Record<string, string>;
+  postData?: string;
+  /**
+   * CDP ResourceTiming（相对 requestTime 的毫秒偏移）
+   */
+  timing?: Record<string, number>;
+  /**
+   * 请求是否已结束（成功、失败或重定向）
+   */
+  finished: boolean;
+}
+
+export interface GetNetworkRequestsParams {
+  url?: string;
+  /**
+   * URL 过滤：默认按子串匹配，使用 /.../ 包裹时按正则匹配
+   */
+  urlPattern?: string;
+  /**
+   * 资源类型过滤（不区分大小写）
+   */
+  resourceTypes?: string[];
+  /**
+   * 状态码下限（含）
+   */
+  statusMin?: number;
+  /**
+   * 状态码上限（含）
+   */
+  statusMax?: number;
+  /**
+   * 最小耗时（毫秒）
+   */
+  minDuration?: number;
+  /**
+   * 仅返回失败的请求
+   */
+  onlyFailed?: boolean;
+  /**
+   * 是否包含请求/响应头，默认 false
+   */
+  includeHeaders?: boolean;
+  /**
+   * 最多返回的条数（返回最新的），默认 100
+   */
+  limit?: number;
+  /**
+   * 读取后清空该页面的记录
+   */
+  clear?: boolean;
+}
+
+export interface NetworkRequestsResult {
+  url: string;
+  /**
+   * 该页面开始捕获的时间（Unix 时间戳，毫秒）
+   */
+  captureStartedAt: number;
+  /**
+   * 缓冲区中的记录数
+   */
+  total: number;
+  /**
+   * 匹配过滤条件的记录数
+   */
+  matched: number;
+  /**
+   * 因缓冲区已满被丢弃的最早记录数
+   */
+  dropped: number;
+  requests: NetworkRequestEntry[];
+  /**
+   * 说明（如捕获刚开始，之前的请求未被记录）
+   */
+  notes?: string[];
+}
+
+/**
+ * HAR 输出模式（与 take_screenshot 一致）
+ */
+export type HarOutputMode = 'auto' | 'file' | 'inline';
+
+export interface ExportHarParams {
+  url?: string;
+  /**
+   * 输出方式：
+   * - auto: HAR 小于 maxInlineBytes 时内联返回，否则保存为文件
+   * - file: 始终保存为文件
+   * - inline: 始终内联返回（超出 maxInlineBytes 将截断）
+   */
+  outputMode?: HarOutputMode;
+  /**
+   * file/auto 模式的输出路径；不指定则写入 ./har/page-{timestamp}-{random}.har
+   */
+  filePath?: string;
+  /**
+   * 内联输出的最大字节数，默认 100KB
+   */
+  maxInlineBytes?: number;
+  /**
+   * 是否包含响应体，默认 false
+   */
+  includeBodies?: boolean;
+  /**
+   * 单个响应体的最大字节数（超出则不包含），默认 64KB
+   */
+  maxBodyBytes?: number;
+  /**
+   * URL 过滤（同 get_network_requests）
+   */
+  urlPattern?: string;
+}
+
+/**
+ * HAR 导出结果（与 HeapSnapshotExportResult 结构一致）
+ */
+export interface HarExportResult {
+  mode: 'file' | 'inline';
+  /**
+   * file 模式的导出路径（本机路径）
+   */
+  filePath?: string;
+  fileBytes?: number;
+  /**
+   * inline 模式的 HAR JSON（可能截断）
+   */
+  inline?: string;
+  inlineBytes?: number;
+  truncated?: boolean;
+  maxInlineBytes?: number;
+}
+
+export interface ExportHarResult {
+  url: string;
+  entryCount: number;
+  /**
+   * 包含响应体的请求数
+   */
+  bodiesIncluded: number;
+  pageTimings: {
+    onContentLoad: number;
+    onLoad: number;
+  };
+  export: HarExportResult;
+  limitations?: string[];
+}
+
+/**
+ * 拦截规则动作
+ * - fulfill: 返回预设的响应（状态码、响应头、响应体）
+ * - abort: 以指定网络错误终止请求
+ * - delay: 延迟后继续请求
+ * - modifyHeaders: 改写请求头/响应头后继续
+ */
+export type InterceptAction = 'fulfill' | 'abort' | 'delay' | 'modifyHeaders';
+
+/**
+ * 网络错误原因（CDP Network.ErrorReason）
+ */
+export type InterceptErrorReason =
+  | 'Failed'
+  | 'Aborted'
+  | 'TimedOut'
+  | 'AccessDenied'
+  | 'ConnectionClosed'
+  | 'ConnectionReset'
+  | 'ConnectionRefused'
+  | 'ConnectionAborted'
+  | 'ConnectionFailed'
+  | 'NameNotResolved'
+  | 'InternetDisconnected'
+  | 'AddressUnreachable'
+  | 'BlockedByClient'
+  | 'BlockedByResponse';
+
+export interface AddInterceptRuleParams {
+  url?: string;
+  /**
+   * URL 匹配：默认为通配符（* 匹配任意字符，? 匹配单个字符），使用 /.../ 包裹时按正则匹配
+   */
+  urlPattern: string;
+  /**
+   * HTTP 方法（不区分大小写），不指定则匹配所有方法
+   */
+  method?: string;
+  action: InterceptAction;
+  /**
+   * fulfill：响应状态码，默认 200
+   */
+  status?: number;
+  /**
+   * fulfill：响应头
+   */
+  headers?: Record<string, string>;
+  /**
+   * fulfill：响应体（文本）
+   */
+  body?: string;
+  /**
+   * abort：网络错误原因，默认 Failed
+   */
+  errorReason?: InterceptErrorReason;
+  /**
+   * 延迟（毫秒）：delay 动作必填，其他动作可选（在执行动作前延迟）
+   */
+  delayMs?: number;
+  /**
+   * modifyHeaders：改写的请求头（值为 null 表示删除）
+   */
+  requestHeaders?: Record<string, string | null>;
+  /**
+   * modifyHeaders：改写的响应头（值为 null 表示删除）
+   */
+  responseHeaders?: Record<string, string | null>;
+  /**
+   * 最多生效次数，不指定则一直生效
+   */
+  times?: number;
+}
+
+export interface InterceptRule extends Omit<AddInterceptRuleParams, 'url'> {
+  id: string;
+  /**
+   * 已命中次数
+   */
+  hitCount: number;
+  createdAt: number;
+}
+
+export interface ListInterceptRulesParams {
+  url?: string;
+}
+
+export interface RemoveInterceptRuleParams {
+  url?: string;
+  /**
+   * 要删除的规则 ID；不指定时需设置 all 为 true
+   */
+  ruleId?: string;
+  /**
+   * 删除该页面的所有规则
+   */
+  all?: boolean;
+}
+
+export interface InterceptRulesResult {
+  url: string;
+  rules: InterceptRule[];
+  /**
+   * 本次操作删除的规则数（remove 时返回）
+   */
+  removed?: number;
+}
+
+/**
+ * 节流配置名称
+ * - none: 不节流
+ * - slow-3g / fast-3g / 4g: 与 Chrome DevTools 预设一致的网络节流
+ * - offline: 离线
+ * - lighthouse-mobile: Lighthouse 移动端默认配置（慢速 4G + 4 倍 CPU 降速）
+ * - custom: 自定义延迟与带宽
+ */
+export type ThrottlingProfileName =
+  | 'none'
+  | 'slow-3g'
+  | 'fast-3g'
+  | '4g'
+  | 'offline'
+  | 'lighthouse-mobile'
+  | 'custom';
+
+export interface ThrottlingOptions {
+  profile: ThrottlingProfileName;
+  /**
+   * custom：往返延迟（毫秒）
+   */
+  latencyMs?: number;
+  /**
+   * custom：下行带宽（Kbps），-1 表示不限制
+   */
+  downloadKbps?: number;
+  /**
+   * custom：上行带宽（Kbps），-1 表示不限制
+   */
+  uploadKbps?: number;
+  /**
+   * CPU 降速倍数（1 表示不降速），覆盖配置的默认值
+   */
+  cpuSlowdown?: number;
+}
+
+/**
+ * 实际生效的节流配置
+ */
+export interface AppliedThrottling {
+  profile: ThrottlingProfileName;
+  offline: boolean;
+  latencyMs: number;
+  /**
+   * 下行带宽（Kbps），-1 表示不限制
+   */
+  downloadKbps: number;
+  /**
+   * 上行带宽（Kbps），-1 表示不限制
+   */
+  uploadKbps: number;
+  cpuSlowdown: number;
+}
+
+export interface SetThrottlingParams extends ThrottlingOptions {
+  url?: string;
+}
+
+export interface SetThrottlingResult {
+  url: string;
+  throttling: AppliedThrottling;
+  /**
+   * 之前生效的节流配置
+   */
+  previous?: AppliedThrottling;
+}
+
+/**
+ * 设备模拟选项
+ *
+ * device 为 Puppeteer KnownDevices 中的设备名称（如 "iPhone 13"、"Pixel 5"），
+ * 其余字段用于自定义或覆盖设备预设。
+ */
+export interface DeviceEmulationOptions {
+  device?: string;
+  width?: number;
+  height?: number;
+  deviceScaleFactor?: number;
+  isMobile?: boolean;
+  hasTouch?: boolean;
+  isLandscape?: boolean;
+  userAgent?: string;
+}
+
+/**
+ * 实际生效的设备模拟配置
+ */
+export interface AppliedDeviceEmulation {
+  /**
+   * 设备预设名称（自定义视口时缺省）
+   */
+  device?: string;
+  viewport: {
+    width: number;
+    height: number;
+    deviceScaleFactor: number;
+    isMobile: boolean;
+    hasTouch: boolean;
+    isLandscape: boolean;
+  };
+  /**
+   * 覆盖的 User-Agent（未覆盖时缺省）
+   */
+  userAgent?: string;
+}
+
+export interface EmulateDeviceParams extends DeviceEmulationOptions {
+  url?: string;
+  /**
+   * 恢复默认视口（1920x1080）和浏览器默认 User-Agent
+   */
+  reset?: boolean;
+  /**
+   * 设置后重新加载页面（User-Agent 和移动端布局通常需要重新加载才能完全生效）
+   */
+  reload?: boolean;
+}
+
+export interface EmulateDeviceResult {
+  url: string;
+  /**
+   * 当前生效的设备模拟配置（已恢复默认时缺省）
+   */
+  emulation?: AppliedDeviceEmulation;
+  /**
+   * 之前生效的设备模拟配置
+   */
+  previous?: AppliedDeviceEmulation;
+  reloaded: boolean;
+}
+
+/**
+ * DevTools Issues 面板的问题类别
+ */
+export type PageIssueCategory =
+  | 'cookie'
+  | 'cors'
+  | 'csp'
+  | 'mixed-content'
+  | 'deprecation'
+  | 'low-contrast'
+  | 'other';
+
+/**
+ * CDP Audits 域报告的页面问题（相同问题合并计数）
+ */
+export interface PageIssue {
+  /**
+   * CDP InspectorIssueCode（如 CookieIssue、CorsIssue）
+   */
+  code: string;
+  category: PageIssueCategory;
+  /**
+   * 具体原因（如 Cookie 排除原因、CORS 错误类型、违反的 CSP 指令）
+   */
+  reason?: string;
+  /**
+   * 受影响的请求
+   */
+  request?: {
+    requestId?: string;
+    url: string;
+    method?: string;
+    status?: number;
+  };
+  /**
+   * 受影响的 Cookie
+   */
+  cookie?: {
+    name: string;
+    domain?: string;
+    path?: string;
+    /**
+     * 无法解析为 Cookie 时的原始 Set-Cookie 行
+     */
+    rawCookieLine?: string;
+  };
+  /**
+   * 受影响的 DOM 节点（由 backendNodeId 解析为选择器）
+   */
+  node?: {
+    selector: string;
+    snippet?: string;
+  };
+  sourceLocation?: {
+    url: string;
+    lineNumber: number;
+    columnNumber: number;
+  };
+  /**
+   * 其余 CDP 问题详情（已解析的字段除外）
+   */
+  details: Record<string, unknown>;
+  count: number;
+  firstSeen: number;
+  lastSeen: number;
+}
+
+export interface GetPageIssuesParams {
+  url?: string;
+  /**
+   * 只返回指定类别
+   */
+  categories?: PageIssueCategory[];
+  /**
+   * 每个类别最多返回的条数（返回最新的），默认 50
+   */
+  limit?: number;
+  /**
+   * 读取后清空该页面的问题记录
+   */
+  clear?: boolean;
+}
+
+export interface PageIssuesResult {
+  url: string;
+  /**
+   * 开始收集的时间（Unix 时间戳，毫秒）
+   */
+  collectingSince: number;
+  /**
+   * 匹配类别过滤的问题总数（合并后）
+   */
+  total: number;
+  categories: Partial<Record<PageIssueCategory, { count: number; issues: PageIssue[] }>>;
+  /**
+   * 因超出缓冲区而丢弃的问题数
+   */
+  dropped: number;
+}
+
+export interface StartMemoryMonitorParams {
+  url?: string;
+  /**
+   * 采样间隔（毫秒），默认 1000
+   */
+  intervalMs?: number;
+  /**
+   * 最多保留的样本数（超出后丢弃最早的样本），默认 600
+   */
+  maxSamples?: number;
+}
+
+export interface GetMemoryMonitorParams {
+  url?: string;
+  /**
+   * 只返回最近 N 个样本（统计仍基于全部保留的样本），默认全部返回
+   */
+  lastN?: number;
+}
+
+export interface StopMemoryMonitorParams {
+  url?: string;
+}
+
+/**
+ * 内存监控的单个样本
+ */
+export interface MemoryMonitorSample {
+  timestamp: number;
+  /**
+   * Runtime.getHeapUsage
+   */
+  heapUsedBytes: number;
+  heapTotalBytes: number;
+  /**
+   * performance.memory（非 Chromium 或被禁用时缺失）
+   */
+  performanceMemory?: {
+    usedJSHeapSize: number;
+    totalJSHeapSize: number;
+    jsHeapSizeLimit: number;
+  };
+  domCounters?: MemoryDomCounters;
+  /**
+   * Performance.getMetrics（指标名 -> 值，不含 Timestamp）
+   */
+  metrics?: Record<string, number>;
+}
+
+/**
+ * 单个序列的统计
+ */
+export interface MemorySeriesStats {
+  min: number;
+  max: number;
+  first: number;
+  last: number;
+  /**
+   * 线性回归斜率（每秒变化量）
+   */
+  slopePerSecond: number;
+  /**
+   * 线性回归的决定系数（0~1，越接近 1 表示越接近线性增长）
+   */
+  r2: number;
+}
+
+/**
+ * 基于时间序列的泄漏判断
+ */
+export interface MemoryGrowthAssessment {
+  suspected: boolean;
+  /**
+   * 判断依据（未发现增长时为空）
+   */
+  reasons: string[];
+}
+
+export interface MemoryMonitorResult {
+  url: string;
+  running: boolean;
+  intervalMs: number;
+  maxSamples: number;
+  startedAt: number;
+  stoppedAt?: number;
+  /**
+   * 当前保留的样本数
+   */
+  sampleCount: number;
+  /**
+   * 因超出 maxSamples 而丢弃的样本数
+   */
+  droppedSamples: number;
+  /**
+   * 采样失败次数（如页面正在导航）
+   */
+  failedSamples: number;
+  stats?: {
+    heapUsedBytes: MemorySeriesStats;
+    domNodes?: MemorySeriesStats;
+    jsEventListeners?: MemorySeriesStats;
+    documents?: MemorySeriesStats;
+  };
+  leak: MemoryGrowthAssessment;
+  samples: MemoryMonitorSample[];
+  limitations?: string[];
+}
+
+export interface ProfileCpuParams {
+  url?: string;
+  /**
+   * 录制时长（毫秒）。提供 steps 时为场景执行完后继续录制的时长，默认 0；否则默认 5000
+   */
+  duration?: number;
+  /**
+   * 录制期间依次执行的页面操作（可选）
+   */
+  steps?: ScenarioStep[];
+  /**
+   * 每步操作后的等待时间（毫秒），默认 500
+   */
+  settleMs?: number;
+  /**
+   * 等待元素出现的超时时间（毫秒），默认 5000
+   */
+  timeout?: number;
+  /**
+   * 采样间隔（微秒），默认 1000
+   */
+  samplingInterval?: number;
+  /**
+   * Top N 函数数量，默认 20
+   */
+  topN?: number;
+  /**
+   * .cpuprofile 导出选项（与 get_heap_snapshot 相同）
+   */
+  export?: HeapSnapshotExportOptions;
+}
+
+export interface CpuProfileFunction {
+  functionName: string;
+  url?: string;
+  /**
+   * 行号（从 1 开始）
+   */
+  lineNumber?: number;
+  /**
+   * 列号（从 1 开始）
+   */
+  columnNumber?: number;
+  /**
+   * 函数自身执行时间（毫秒）
+   */
+  selfTimeMs: number;
+  /**
+   * 函数及其调用的函数的执行时间（毫秒，递归调用只计一次）
+   */
+  totalTimeMs: number;
+  /**
+   * 自身时间占录制时长的百分比
+   */
+  selfPercent: number;
+  /**
+   * 落在该函数上的采样次数
+   */
+  hitCount: number;
+}
+
+export interface CpuProfileSummary {
+  /**
+   * profile 覆盖的时长（毫秒）
+   */
+  durationMs: number;
+  sampleCount: number;
+  /**
+   * 主线程空闲时间（(idle)）
+   */
+  idleMs: number;
+  /**
+   * 浏览器原生工作时间（(program)，如布局、绘制、解析 HTML）
+   */
+  programMs: number;
+  /**
+   * 垃圾回收时间（(garbage collector)）
+   */
+  gcMs: number;
+  /**
+   * JavaScript 执行时间（除空闲、原生工作与 GC 外的时间）
+   */
+  scriptMs: number;
+  topFunctionsBySelf: CpuProfileFunction[];
+  topFunctionsByTotal: CpuProfileFunction[];
+}
+
+export interface ProfileCpuResult {
+  url: string;
+  timestamp: number;
+  summary: CpuProfileSummary;
+  export: HeapSnapshotExportResult;
+  limitations?: string[];
+}
+
+/**
+ * 主线程活动分类（与 DevTools Performance 面板的分类一致）
+ */
+export type TraceActivityCategory = 'scripting' | 'rendering' | 'painting' | 'gc' | 'loading' | 'other';
+
+export interface TraceExportOptions {
+  /**
+   * none：不写文件；file：写入 DevTools 可加载的 JSON trace 文件（默认）
+   */
+  mode?: 'none' | 'file';
+  /**
+   * 输出文件路径，默认 ./.trace/trace-<timestamp>-<uuid>.json
+   */
+  filePath?: string;
+}
+
+export interface TraceExportResult {
+  mode: 'none' | 'file';
+  filePath?: string;
+  fileBytes?: number;
+}
+
+export interface RecordTraceParams {
+  url?: string;
+  /**
+   * trace 类别（与 chrome://tracing 相同，`-` 前缀表示排除），不填使用 DevTools Performance 面板的默认类别
+   */
+  categories?: string[];
+  /**
+   * 开始录制后重新加载页面（录制页面加载过程）
+   */
+  reload?: boolean;
+  /**
+   * 录制时长（毫秒）。提供 steps 或 reload 时为之后继续录制的时长，默认 0；否则默认 5000
+   */
+  duration?: number;
+  /**
+   * 录制期间依次执行的页面操作（可选）
+   */
+  steps?: ScenarioStep[];
+  /**
+   * 每步操作后的等待时间（毫秒），默认 500
+   */
+  settleMs?: number;
+  /**
+   * 等待元素出现的超时时间（毫秒），默认 5000
+   */
+  timeout?: number;
+  /**
+   * 长任务阈值（毫秒），默认 50
+   */
+  longTaskThresholdMs?: number;
+  /**
+   * 返回的长任务数量上限，默认 10
+   */
+  topN?: number;
+  export?: TraceExportOptions;
+}
+
+export interface TraceScriptAttribution {
+  url: string;
+  functionName?: string;
+  /**
+   * trace 中记录的行号
+   */
+  lineNumber?: number;
+  /**
+   * 触发脚本执行的事件（如 `TimerFire`、`EventDispatch (click)`）
+   */
+  trigger?: string;
+  durationMs: number;
+}
+
+export interface TraceLongTask {
+  /**
+   * 相对 trace 开始的时间（毫秒）
+   */
+  startMs: number;
+  durationMs: number;
+  /**
+   * 超出长任务阈值的部分（计入 totalBlockingTimeMs）
+   */
+  blockingMs: number;
+  /**
+   * 任务中执行时间最长的脚本
+   */
+  scripts: TraceScriptAttribution[];
+}
+
+export interface TraceFrameStats {
+  presented: number;
+  dropped: number;
+  /**
+   * dropped / (presented + dropped)
+   */
+  dropRate: number;
+}
+
+export interface TraceDigest {
+  /**
+   * trace 覆盖的时长（毫秒）
+   */
+  durationMs: number;
+  eventCount: number;
+  /**
+   * 被识别为页面主线程（CrRendererMain）的线程
+   */
+  mainThread?: { pid: number; tid: number };
+  /**
+   * 主线程各分类的自身时间（毫秒）；other 为任务中未归入其他分类的时间，idle 为主线程空闲时间
+   */
+  mainThreadTimeMs: Record<TraceActivityCategory | 'idle', number>;
+  longTaskCount: number;
+  /**
+   * 所有长任务超出阈值部分之和
+   */
+  totalBlockingTimeMs: number;
+  /**
+   * 按时长排序的长任务（最多 topN 个）
+   */
+  longTasks: TraceLongTask[];
+  layoutCount: number;
+  layoutTimeMs: number;
+  recalcStyleCount: number;
+  recalcStyleTimeMs: number;
+  /**
+   * 帧统计（未录制到帧事件时缺省）
+   */
+  frames?: TraceFrameStats;
+}
+
+export interface RecordTraceResult {
+  url: string;
+  timestamp: number;
+  categories: string[];
+  digest: TraceDigest;
+  export: TraceExportResult;
+  limitations?: string[];
+}
+
+export type CoverageType = 'js' | 'css';
+
+/**
+ * 覆盖率导出格式：v8 为 Profiler.takePreciseCoverage 的原始结果（{ result: ScriptCoverage[] }），
+ * istanbul 为 coverage-final.json 格式（行级语句、函数，V8 块作为分支）
+ */
+export type CoverageExportFormat = 'v8' | 'istanbul';
+
+export interface CoverageExportOptions extends HeapSnapshotExportOptions {
+  /**
+   * 导出格式，默认 v8（两种格式都只包含 JavaScript）
+   */
+  format?: CoverageExportFormat;
+}
+
+export interface CollectCoverageParams {
+  url?: string;
+  /**
+   * 采集的覆盖率类型，默认 ['js', 'css']
+   */
+  types?: CoverageType[];
+  /**
+   * 开始采集后重新加载页面（统计页面加载期间的使用情况）
+   */
+  reload?: boolean;
+  /**
+   * 场景执行完（或重新加载后）继续采集的时长（毫秒），默认 0
+   */
+  duration?: number;
+  /**
+   * 采集期间依次执行的页面操作（可选）
+   */
+  steps?: ScenarioStep[];
+  /**
+   * 每步操作后的等待时间（毫秒），默认 500
+   */
+  settleMs?: number;
+  /**
+   * 等待元素出现的超时时间（毫秒），默认 5000
+   */
+  timeout?: number;
+  /**
+   * 返回的资源数量上限（按未使用字节数排序），默认 50
+   */
+  topN?: number;
+  export?: CoverageExportOptions;
+}
+
+/**
+ * 单个脚本或样式表的使用情况
+ */
+export interface CoverageEntry {
+  type: CoverageType;
+  /**
+   * 脚本/样式表 URL（内联脚本和样式为所在文档的 URL）
+   */
+  url: string;
+  totalBytes: number;
+  usedBytes: number;
+  unusedBytes: number;
+  /**
+   * 未使用字节占比（0-100）
+   */
+  unusedPercent: number;
+}
+
+export interface CoverageTotals {
+  /**
+   * 脚本/样式表数量
+   */
+  count: number;
+  totalBytes: number;
+  usedBytes: number;
+  unusedBytes: number;
+  unusedPercent: number;
+}
+
+export interface CoverageResult {
+  url: string;
+  timestamp: number;
+  summary: {
+    js?: CoverageTotals;
+    css?: CoverageTotals;
+  };
+  /**
+   * 按未使用字节数排序的脚本与样式表（最多 topN 个）
+   */
+  entries: CoverageEntry[];
+  export: HeapSnapshotExportResult & { format?: CoverageExportFormat };
+  limitations?: string[];
+}
@@ -0,0 +1,262 @@
+import { CoverageEntry, CoverageTotals, CoverageType } from '../types.js';
+
+/**
+ * Profiler.takePreciseCoverage 返回的覆盖范围（偏移量为 UTF-16 码元，与 JS 字符串下标一致）
+ */
+export interface V8CoverageRange {
+  startOffset: number;
+  endOffset: number;
+  count: number;
+}
+
+export interface V8FunctionCoverage {
+  functionName: string;
+  /**
+   * 第一个范围是整个函数，其余为函数内的块（嵌套，内层计数覆盖外层）
+   */
+  ranges: V8CoverageRange[];
+  isBlockCoverage: boolean;
+}
+
+export interface V8ScriptCoverage {
+  scriptId: string;
+  url: string;
+  functions: V8FunctionCoverage[];
+}
+
+/**
+ * CSS.stopRuleUsageTracking 返回的规则使用情况
+ */
+export interface CssRuleUsage {
+  styleSheetId: string;
+  startOffset: number;
+  endOffset: number;
+  used: boolean;
+}
+
+type IstanbulLocation = { start: { line: number; column: number }; end: { line: number; column: number } };
+
+/**
+ * Istanbul coverage-final.json 中单个文件的覆盖率
+ */
+export interface IstanbulFileCoverage {
+  path: string;
+  statementMap: Record<string, IstanbulLocation>;
+  fnMap: Record<string, { name: string; decl: IstanbulLocation; loc: IstanbulLocation; line: number }>;
+  branchMap: Record<string, { type: string; line: number; loc: IstanbulLocation; locations: IstanbulLocation[] }>;
+  s: Record<string, number>;
+  f: Record<string, number>;
+  b: Record<string, number[]>;
+}
+
+/**
+ * 把嵌套的 V8 覆盖范围转换为按偏移排序、互不重叠的区间（每个位置取最内层范围的计数）
+ */
+export function toDisjointRanges(functions: V8FunctionCoverage[]): V8CoverageRange[] {
+  const ranges = functions
+    .flatMap((fn) => fn.ranges)
+    .filter((range) => range.endOffset > range.startOffset)
+    .sort((a, b) => a.startOffset - b.startOffset || b.endOffset - a.endOffset);
+
+  const result: V8CoverageRange[] = [];
+  const stack: V8CoverageRange[] = [];
+  let position = 0;
+
+  const emit = (endOffset: number, count: number) => {
+    if (endOffset <= position) {
+      return;
+    }
+    const last = result[result.length - 1];
+    if (last && last.endOffset === position && last.count === count) {
+      last.endOffset = endOffset;
+    } else {
+      result.push({ startOffset: position, endOffset, count });
+    }
+    position = endOffset;
+  };
+
+  for (const range of ranges) {
+    while (stack.length && stack[stack.length - 1].endOffset <= range.startOffset) {
+      const closed = stack.pop()!;
+      emit(closed.endOffset, closed.count);
+    }
+    if (stack.length) {
+      emit(range.startOffset, stack[stack.length - 1].count);
+    } else {
+      position = Math.max(position, range.startOffset);
+    }
+    stack.push(range);
+  }
+  while (stack.length) {
+    const closed = stack.pop()!;
+    emit(closed.endOffset, closed.count);
+  }
+
+  return result;
+}
+
+/**
+ * 统计脚本中执行过的字节数
+ */
+export function computeJsUsedBytes(functions: V8FunctionCoverage[]): number {
+  return toDisjointRanges(functions).reduce(
+    (sum, range) => sum + (range.count > 0 ? range.endOffset - range.startOffset : 0),
+    0
+  );
+}
+
+/**
+ * 统计样式表中被使用的规则覆盖的字节数（重叠部分只计一次）
+ */
+export function computeCssUsedBytes(rules: CssRuleUsage[]): number {
+  const used = rules
+    .filter((rule) => rule.used && rule.endOffset > rule.startOffset)
+    .sort((a, b) => a.startOffset - b.startOffset);
+
+  let total = 0;
+  let position = 0;
+  for (const rule of used) {
+    const start = Math.max(position, rule.startOffset);
+    if (rule.endOffset > start) {
+      total += rule.endOffset - start;
+      position = rule.endOffset;
+    }
+  }
+  return total;
+}
+
+const percent = (part: number, total: number) => (total > 0 ? Math.round((part / total) * 1000) / 10 : 0);
+
+/**
+ * 构造单个资源的覆盖率条目（usedBytes 不超过 totalBytes）
+ */
+export function createCoverageEntry(type: CoverageType, url: string, totalBytes: number, usedBytes: number): CoverageEntry {
+  const used = Math.min(usedBytes, totalBytes);
+  return {
+    type,
+    url,
+    totalBytes,
+    usedBytes: used,
+    unusedBytes: totalBytes - used,
+    unusedPercent: percent(totalBytes - used, totalBytes),
+  };
+}
+
+/**
+ * 汇总同一类型的覆盖率条目
+ */
+export function summarizeCoverageEntries(entries: CoverageEntry[]): CoverageTotals {
+  const totalBytes = entries.reduce((sum, entry) => sum + entry.totalBytes, 0);
+  const usedBytes = entries.reduce((sum, entry) => sum + entry.usedBytes, 0);
+  return {
+    count: entries.length,
+    totalBytes,
+    usedBytes,
+    unusedBytes: totalBytes - usedBytes,
+    unusedPercent: percent(totalBytes - usedBytes, totalBytes),
+  };
+}
+
+/**
+ * 把 V8 块覆盖率转换为 Istanbul 文件覆盖率
+ *
+ * 与 v8-to-istanbul 的做法类似：每个非空行作为一条语句（计数取行首非空白字符处最内层范围的计数），
+ * 每个函数对应 fnMap 中的一项，函数内的块范围作为只有一个分支的 branch。
+ */
+export function toIstanbulFileCoverage(
+  path: string,
+  source: string,
+  functions: V8FunctionCoverage[]
+): IstanbulFileCoverage {
+  const lineStarts = [0];
+  for (let i = 0; i < source.length; i++) {
+    if (source[i] === '\n') {
+      lineStarts.push(i + 1);
+    }
+  }
+
+  const toPosition = (offset: number) => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (lineStarts[mid] <= offset) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return { line: low + 1, column: offset - lineStarts[low] };
+  };
+  const toLocation = (startOffset: number, endOffset: number): IstanbulLocation => ({
+    start: toPosition(startOffset),
+    end: toPosition(Math.max(startOffset, endOffset)),
+  });
+
+  const disjoint = toDisjointRanges(functions);
+  const countAt = (offset: number) => {
+    let low = 0;
+    let high = disjoint.length - 1;
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      const range = disjoint[mid];
+      if (offset < range.startOffset) {
+        high = mid - 1;
+      } else if (offset >= range.endOffset) {
+        low = mid + 1;
+      } else {
+        return range.count;
+      }
+    }
+    return 0;
+  };
+
+  const coverage: IstanbulFileCoverage = { path, statementMap: {}, fnMap: {}, branchMap: {}, s: {}, f: {}, b: {} };
+
+  lineStarts.forEach((lineStart, index) => {
+    let lineEnd = index + 1 < lineStarts.length ? lineStarts[index + 1] - 1 : source.length;
+    if (lineEnd > lineStart && source[lineEnd - 1] === '\r') {
+      lineEnd--;
+    }
+    const text = source.slice(lineStart, lineEnd);
+    const indent = text.length - text.trimStart().length;
+    if (text.trim().length === 0) {
+      return;
+    }
+    const id = String(Object.keys(coverage.statementMap).length);
+    coverage.statementMap[id] = toLocation(lineStart + indent, lineStart + text.trimEnd().length);
+    coverage.s[id] = countAt(lineStart + indent);
+  });
+
+  let fnId = 0;
+  let branchId = 0;
+  for (const fn of functions) {
+    const [whole, ...blocks] = fn.ranges;
+    if (!whole) {
+      continue;
+    }
+    // 覆盖整个脚本的顶层函数不是源码中的函数
+    const isScriptTopLevel = whole.startOffset === 0 && whole.endOffset >= source.length && !fn.functionName;
+    if (!isScriptTopLevel) {
+      const loc = toLocation(whole.startOffset, whole.endOffset);
+      coverage.fnMap[String(fnId)] = {
+        name: fn.functionName || `(anonymous_${fnId})`,
+        decl: toLocation(whole.startOffset, whole.startOffset),
+        loc,
+        line: loc.start.line,
+      };
+      coverage.f[String(fnId)] = whole.count;
+      fnId++;
+    }
+    if (fn.isBlockCoverage) {
+      for (const block of blocks) {
+        const loc = toLocation(block.startOffset, block.endOffset);
+        coverage.branchMap[String(branchId)] = { type: 'branch', line: loc.start.line, loc, locations: [loc] };
+        coverage.b[String(branchId)] = [block.count];
+        branchId++;
+      }
+    }
+  }
+
+  return coverage;
+}
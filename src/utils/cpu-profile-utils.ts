@@ -0,0 +1,164 @@
+import { CpuProfileFunction, CpuProfileSummary } from '../types.js';
+import { SamplingHeapProfileNode, formatSamplingCallFrame } from './heap-profile-utils.js';
+
+/**
+ * Profiler.stop 返回的 CPU profile（即 DevTools 可加载的 .cpuprofile 内容），时间单位为微秒
+ */
+export interface CpuProfile {
+  nodes: CpuProfileNode[];
+  startTime: number;
+  endTime: number;
+  /**
+   * 每个采样命中的节点 id
+   */
+  samples?: number[];
+  /**
+   * 相邻采样的时间间隔（第一个相对 startTime）
+   */
+  timeDeltas?: number[];
+}
+
+export interface CpuProfileNode {
+  id: number;
+  callFrame: SamplingHeapProfileNode['callFrame'];
+  hitCount?: number;
+  children?: number[];
+}
+
+/**
+ * 不属于任何 JavaScript 函数的特殊节点
+ */
+const IDLE_NODE = '(idle)';
+const PROGRAM_NODE = '(program)';
+const GC_NODE = '(garbage collector)';
+const ROOT_NODE = '(root)';
+
+interface FunctionTotals {
+  fn: Omit<CpuProfileFunction, 'selfTimeMs' | 'totalTimeMs' | 'selfPercent'>;
+  selfUs: number;
+  totalUs: number;
+}
+
+const toMs = (us: number) => Math.round(us / 10) / 100;
+
+/**
+ * 汇总 CPU profile：按函数聚合自身/累计时间，并拆分空闲、原生工作、GC 与脚本时间
+ *
+ * 每个采样的时长为到下一个采样的间隔（最后一个采样到 endTime），与 DevTools 一致。
+ * 函数的累计时间在递归调用时只计一次。
+ */
+export function summarizeCpuProfile(profile: CpuProfile, options: { topN: number }): CpuProfileSummary {
+  if (!Array.isArray(profile?.nodes) || profile.nodes.length === 0) {
+    throw new Error('cpu profile has no nodes');
+  }
+
+  const nodesById = new Map(profile.nodes.map((node) => [node.id, node]));
+  const childIds = new Set(profile.nodes.flatMap((node) => node.children ?? []));
+  const root = profile.nodes.find((node) => !childIds.has(node.id)) ?? profile.nodes[0];
+
+  // 每个节点的自身时间与采样次数
+  const selfUs = new Map<number, number>();
+  const hits = new Map<number, number>();
+  const samples = profile.samples ?? [];
+  const timeDeltas = profile.timeDeltas ?? [];
+  let timestamp = profile.startTime;
+  for (let i = 0; i < samples.length; i++) {
+    timestamp += timeDeltas[i] ?? 0;
+    const next = i + 1 < samples.length ? timestamp + (timeDeltas[i + 1] ?? 0) : profile.endTime;
+    const duration = Math.max(0, next - timestamp);
+    selfUs.set(samples[i], (selfUs.get(samples[i]) ?? 0) + duration);
+    hits.set(samples[i], (hits.get(samples[i]) ?? 0) + 1);
+  }
+
+  const totalUs = new Map<number, number>();
+  const computeTotal = (node: CpuProfileNode): number => {
+    let total = selfUs.get(node.id) ?? 0;
+    for (const childId of node.children ?? []) {
+      const child = nodesById.get(childId);
+      if (child) {
+        total += computeTotal(child);
+      }
+    }
+    totalUs.set(node.id, total);
+    return total;
+  };
+  computeTotal(root);
+
+  const special = { [IDLE_NODE]: 0, [PROGRAM_NODE]: 0, [GC_NODE]: 0 } as Record<string, number>;
+  const functions = new Map<string, FunctionTotals>();
+  const onPath = new Set<string>();
+
+  const visit = (node: CpuProfileNode): void => {
+    const { callFrame } = node;
+    const isRoot = node === root || callFrame.functionName === ROOT_NODE;
+    const isSpecial = !callFrame.url && callFrame.functionName in special;
+    const key = `${callFrame.functionName}\u0000${callFrame.url}\u0000${callFrame.lineNumber}\u0000${callFrame.columnNumber}`;
+    const enteredPath = !isRoot && !isSpecial && !onPath.has(key);
+
+    if (isSpecial) {
+      special[callFrame.functionName] += totalUs.get(node.id) ?? 0;
+    } else if (!isRoot) {
+      let entry = functions.get(key);
+      if (!entry) {
+        entry = {
+          fn: {
+            functionName: callFrame.functionName || '(anonymous)',
+            url: callFrame.url || undefined,
+            lineNumber: callFrame.url ? callFrame.lineNumber + 1 : undefined,
+            columnNumber: callFrame.url ? callFrame.columnNumber + 1 : undefined,
+            hitCount: 0,
+          },
+          selfUs: 0,
+          totalUs: 0,
+        };
+        functions.set(key, entry);
+      }
+      entry.selfUs += selfUs.get(node.id) ?? 0;
+      entry.fn.hitCount += hits.get(node.id) ?? 0;
+      if (enteredPath) {
+        entry.totalUs += totalUs.get(node.id) ?? 0;
+        onPath.add(key);
+      }
+    }
+
+    for (const childId of node.children ?? []) {
+      const child = nodesById.get(childId);
+      if (child) {
+        visit(child);
+      }
+    }
+
+    if (enteredPath) {
+      onPath.delete(key);
+    }
+  };
+  visit(root);
+
+  const durationUs = Math.max(0, profile.endTime - profile.startTime);
+  const toFunction = (entry: FunctionTotals): CpuProfileFunction => ({
+    ...entry.fn,
+    selfTimeMs: toMs(entry.selfUs),
+    totalTimeMs: toMs(entry.totalUs),
+    selfPercent: durationUs > 0 ? Math.round((entry.selfUs / durationUs) * 1000) / 10 : 0,
+  });
+  const top = (by: 'selfUs' | 'totalUs') =>
+    Array.from(functions.values())
+      .filter((entry) => entry[by] > 0)
+      .sort((a, b) => b[by] - a[by])
+      .slice(0, options.topN)
+      .map(toFunction);
+
+  const sampledUs = totalUs.get(root.id) ?? 0;
+  const scriptUs = Math.max(0, sampledUs - special[IDLE_NODE] - special[PROGRAM_NODE] - special[GC_NODE]);
+
+  return {
+    durationMs: toMs(durationUs),
+    sampleCount: samples.length,
+    idleMs: toMs(special[IDLE_NODE]),
+    programMs: toMs(special[PROGRAM_NODE]),
+    gcMs: toMs(special[GC_NODE]),
+    scriptMs: toMs(scriptUs),
+    topFunctionsBySelf: top('selfUs'),
+    topFunctionsByTotal: top('totalUs'),
+  };
+}
@@ -0,0 +1,112 @@
+import { KnownDevices, Page } from 'puppeteer';
+import { AppliedDeviceEmulation, DeviceEmulationOptions } from '../types.js';
+
+/**
+ * 未模拟设备时的默认视口
+ */
+export const DEFAULT_VIEWPORT: AppliedDeviceEmulation['viewport'] = {
+  width: 1920,
+  height: 1080,
+  deviceScaleFactor: 1,
+  isMobile: false,
+  hasTouch: false,
+  isLandscape: false,
+};
+
+/**
+ * 按名称查找 KnownDevices 中的设备（不区分大小写），返回规范名称
+ */
+function findKnownDevice(name: string): keyof typeof KnownDevices | undefined {
+  const needle = name.trim().toLowerCase();
+  return (Object.keys(KnownDevices) as Array<keyof typeof KnownDevices>).find(
+    (deviceName) => deviceName.toLowerCase() === needle
+  );
+}
+
+/**
+ * 列出包含指定关键字的设备名称（用于错误提示）
+ */
+function suggestDevices(name: string, limit = 10): string[] {
+  const words = name.toLowerCase().split(/\s+/).filter(Boolean);
+  return Object.keys(KnownDevices)
+    .filter((deviceName) => words.some((word) => deviceName.toLowerCase().includes(word)))
+    .slice(0, limit);
+}
+
+/**
+ * 将设备模拟选项解析为实际生效的配置
+ *
+ * 指定 device 时以设备预设为基础，其余字段覆盖预设；
+ * 未指定 device 时必须提供 width 和 height。
+ */
+export function resolveDeviceEmulation(options: DeviceEmulationOptions): AppliedDeviceEmulation {
+  let base: AppliedDeviceEmulation;
+
+  if (options.device) {
+    const deviceName = findKnownDevice(options.device);
+    if (!deviceName) {
+      const suggestions = suggestDevices(options.device);
+      throw new Error(
+        `Unknown device: ${options.device}` +
+          (suggestions.length > 0 ? ` (did you mean: ${suggestions.join(', ')})` : '')
+      );
+    }
+    const known = KnownDevices[deviceName];
+    base = {
+      device: deviceName,
+      viewport: {
+        width: known.viewport.width,
+        height: known.viewport.height,
+        deviceScaleFactor: known.viewport.deviceScaleFactor ?? 1,
+        isMobile: known.viewport.isMobile ?? false,
+        hasTouch: known.viewport.hasTouch ?? false,
+        isLandscape: known.viewport.isLandscape ?? false,
+      },
+      userAgent: known.userAgent,
+    };
+  } else {
+    if (options.width === undefined || options.height === undefined) {
+      throw new Error('Either device or both width and height must be provided');
+    }
+    base = { viewport: { ...DEFAULT_VIEWPORT } };
+  }
+
+  const viewport = {
+    width: options.width ?? base.viewport.width,
+    height: options.height ?? base.viewport.height,
+    deviceScaleFactor: options.deviceScaleFactor ?? base.viewport.deviceScaleFactor,
+    isMobile: options.isMobile ?? base.viewport.isMobile,
+    hasTouch: options.hasTouch ?? base.viewport.hasTouch,
+    isLandscape: options.isLandscape ?? base.viewport.isLandscape,
+  };
+  if (!Number.isInteger(viewport.width) || viewport.width <= 0 || !Number.isInteger(viewport.height) || viewport.height <= 0) {
+    throw new Error(`Invalid viewport size: ${viewport.width}x${viewport.height}`);
+  }
+  if (viewport.deviceScaleFactor <= 0) {
+    throw new Error(`Invalid deviceScaleFactor: ${viewport.deviceScaleFactor}`);
+  }
+
+  const userAgent = options.userAgent ?? base.userAgent;
+  return {
+    ...(base.device ? { device: base.device } : {}),
+    viewport,
+    ...(userAgent ? { userAgent } : {}),
+  };
+}
+
+/**
+ * 在页面上应用设备模拟配置
+ *
+ * defaultUserAgent 用于在新配置未覆盖 User-Agent 时恢复浏览器默认值。
+ */
+export async function applyDeviceEmulation(
+  page: Page,
+  emulation: AppliedDeviceEmulation,
+  defaultUserAgent?: string
+): Promise<void> {
+  await page.setViewport(emulation.viewport);
+  const userAgent = emulation.userAgent ?? defaultUserAgent;
+  if (userAgent) {
+    await page.setUserAgent(userAgent);
+  }
+}
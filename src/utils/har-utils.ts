@@ -0,0 +1,331 @@
+import { writeFile, mkdir, stat } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { randomUUID } from 'node:crypto';
+import { NetworkRequestEntry } from '../types.js';
+
+// 版本号会在构建时通过 tsup 的 define 选项内联（测试环境下未定义）
+declare const __PACKAGE_VERSION__: string;
+
+/**
+ * HAR 1.2 结构（仅包含本项目生成的字段）
+ * @see http://www.softwareishard.com/blog/har-12-spec/
+ */
+export interface HarNameValue {
+  name: string;
+  value: string;
+}
+
+export interface HarTimings {
+  blocked: number;
+  dns: number;
+  connect: number;
+  send: number;
+  wait: number;
+  receive: number;
+  ssl: number;
+}
+
+export interface HarContent {
+  size: number;
+  mimeType: string;
+  text?: string;
+  encoding?: string;
+  comment?: string;
+}
+
+export interface HarEntry {
+  pageref: string;
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    cookies: HarNameValue[];
+    headers: HarNameValue[];
+    queryString: HarNameValue[];
+    postData?: { mimeType: string; text: string };
+    headersSize: number;
+    bodySize: number;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    cookies: HarNameValue[];
+    headers: HarNameValue[];
+    content: HarContent;
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+  };
+  cache: Record<string, never>;
+  timings: HarTimings;
+  serverIPAddress?: string;
+  _resourceType?: string;
+  _fromCache?: boolean;
+  _error?: string;
+}
+
+export interface HarPage {
+  startedDateTime: string;
+  id: string;
+  title: string;
+  pageTimings: {
+    onContentLoad: number;
+    onLoad: number;
+  };
+}
+
+export interface Har {
+  log: {
+    version: '1.2';
+    creator: { name: string; version: string };
+    pages: HarPage[];
+    entries: HarEntry[];
+  };
+}
+
+/**
+ * 响应体（已按大小上限处理）
+ */
+export interface HarResponseBody {
+  text?: string;
+  base64Encoded?: boolean;
+  /**
+   * 未包含响应体时的原因
+   */
+  comment?: string;
+}
+
+export interface BuildHarOptions {
+  entries: NetworkRequestEntry[];
+  page: {
+    url: string;
+    title: string;
+    /**
+     * 页面时间（相对页面开始的毫秒数，未知时为 -1）
+     */
+    onContentLoad: number;
+    onLoad: number;
+  };
+  bodies?: Map<NetworkRequestEntry, HarResponseBody>;
+}
+
+const PAGE_ID = 'page_1';
+
+/**
+ * 将网络请求记录转换为 HAR 1.2
+ */
+export function buildHar(options: BuildHarOptions): Har {
+  const { entries, page, bodies } = options;
+  const firstStartedAt = entries.length > 0 ? entries[0].startedAt : Date.now();
+
+  return {
+    log: {
+      version: '1.2',
+      creator: {
+        name: 'puppeteer-debugger-mcp-server',
+        version: typeof __PACKAGE_VERSION__ !== 'undefined' ? __PACKAGE_VERSION__ : 'dev',
+      },
+      pages: [
+        {
+          startedDateTime: new Date(firstStartedAt).toISOString(),
+          id: PAGE_ID,
+          title: page.title || page.url,
+          pageTimings: {
+            onContentLoad: page.onContentLoad,
+            onLoad: page.onLoad,
+          },
+        },
+      ],
+      entries: entries.map((entry) => toHarEntry(entry, bodies?.get(entry))),
+    },
+  };
+}
+
+/**
+ * 转换单条请求记录
+ */
+function toHarEntry(entry: NetworkRequestEntry, body?: HarResponseBody): HarEntry {
+  const httpVersion = toHttpVersion(entry.protocol);
+  const requestHeaders = toNameValues(entry.requestHeaders);
+  const responseHeaders = toNameValues(entry.responseHeaders);
+  const timings = toHarTimings(entry);
+  const time = Object.entries(timings)
+    // ssl 已包含在 connect 中，不重复计算
+    .filter(([key, value]) => key !== 'ssl' && value > 0)
+    .reduce((sum, [, value]) => sum + value, 0);
+
+  const content: HarContent = {
+    size: entry.dataLength ?? (body?.text !== undefined && !body.base64Encoded ? Buffer.byteLength(body.text) : 0),
+    mimeType: entry.mimeType ?? 'x-unknown',
+  };
+  if (body?.text !== undefined) {
+    content.text = body.text;
+    if (body.base64Encoded) {
+      content.encoding = 'base64';
+    }
+  }
+  if (body?.comment) {
+    content.comment = body.comment;
+  }
+
+  const harEntry: HarEntry = {
+    pageref: PAGE_ID,
+    startedDateTime: new Date(entry.startedAt).toISOString(),
+    time: round(time),
+    request: {
+      method: entry.method,
+      url: entry.url,
+      httpVersion,
+      cookies: parseCookieHeader(findHeader(entry.requestHeaders, 'cookie')),
+      headers: requestHeaders,
+      queryString: toQueryString(entry.url),
+      headersSize: -1,
+      bodySize: entry.postData !== undefined ? Buffer.byteLength(entry.postData) : 0,
+    },
+    response: {
+      status: entry.failed ? 0 : (entry.status ?? 0),
+      statusText: entry.statusText ?? '',
+      httpVersion,
+      cookies: [],
+      headers: responseHeaders,
+      content,
+      redirectURL: entry.redirectedTo ?? findHeader(entry.responseHeaders, 'location') ?? '',
+      headersSize: -1,
+      bodySize: entry.fromCache ? 0 : -1,
+    },
+    cache: {},
+    timings,
+    serverIPAddress: entry.remoteAddress?.replace(/:\d+$/, '').replace(/^\[|\]$/g, ''),
+    _resourceType: entry.resourceType,
+  };
+
+  if (entry.postData !== undefined) {
+    harEntry.request.postData = {
+      mimeType: findHeader(entry.requestHeaders, 'content-type') ?? '',
+      text: entry.postData,
+    };
+  }
+  if (entry.fromCache) {
+    harEntry._fromCache = true;
+  }
+  if (entry.failed) {
+    harEntry._error = entry.errorText ?? 'failed';
+  }
+
+  return harEntry;
+}
+
+/**
+ * 根据 CDP ResourceTiming 计算 HAR 各阶段耗时
+ *
+ * ResourceTiming 中各字段为相对 requestTime 的毫秒偏移，-1 表示未发生。
+ */
+function toHarTimings(entry: NetworkRequestEntry): HarTimings {
+  const duration = entry.duration ?? 0;
+  const t = entry.timing;
+
+  if (!t || typeof t.sendStart !== 'number' || t.sendStart < 0) {
+    return { blocked: -1, dns: -1, connect: -1, send: 0, wait: round(duration), receive: 0, ssl: -1 };
+  }
+
+  const span = (start: number, end: number) => (start >= 0 && end >= start ? round(end - start) : -1);
+  const firstPhase = [t.dnsStart, t.connectStart, t.sendStart].find((v) => typeof v === 'number' && v >= 0) ?? 0;
+  const receiveHeadersEnd = typeof t.receiveHeadersEnd === 'number' ? t.receiveHeadersEnd : t.sendEnd;
+
+  return {
+    blocked: round(firstPhase),
+    dns: span(t.dnsStart, t.dnsEnd),
+    connect: span(t.connectStart, t.connectEnd),
+    send: Math.max(0, span(t.sendStart, t.sendEnd)),
+    wait: Math.max(0, span(t.sendEnd, receiveHeadersEnd)),
+    receive: Math.max(0, round(duration - receiveHeadersEnd)),
+    ssl: span(t.sslStart, t.sslEnd),
+  };
+}
+
+function toHttpVersion(protocol?: string): string {
+  switch (protocol?.toLowerCase()) {
+    case 'h2':
+      return 'HTTP/2.0';
+    case 'h3':
+    case 'h3-29':
+      return 'HTTP/3.0';
+    case 'http/1.0':
+      return 'HTTP/1.0';
+    case 'http/1.1':
+      return 'HTTP/1.1';
+    default:
+      return protocol ? protocol.toUpperCase() : '';
+  }
+}
+
+/**
+ * CDP 头部对象转换为 HAR 列表（同名多值以换行分隔）
+ */
+function toNameValues(headers?: Record<string, string>): HarNameValue[] {
+  if (!headers) {
+    return [];
+  }
+  return Object.entries(headers).flatMap(([name, value]) =>
+    String(value)
+      .split('\n')
+      .map((v) => ({ name, value: v }))
+  );
+}
+
+function findHeader(headers: Record<string, string> | undefined, name: string): string | undefined {
+  if (!headers) {
+    return undefined;
+  }
+  const key = Object.keys(headers).find((k) => k.toLowerCase() === name);
+  return key ? headers[key] : undefined;
+}
+
+function parseCookieHeader(header?: string): HarNameValue[] {
+  if (!header) {
+    return [];
+  }
+  return header
+    .split(';')
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .map((part) => {
+      const index = part.indexOf('=');
+      return index === -1
+        ? { name: part, value: '' }
+        : { name: part.slice(0, index), value: part.slice(index + 1) };
+    });
+}
+
+function toQueryString(url: string): HarNameValue[] {
+  try {
+    return Array.from(new URL(url).searchParams.entries()).map(([name, value]) => ({ name, value }));
+  } catch {
+    return [];
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * 保存 HAR 到文件（默认 ./har/ 目录）
+ */
+export async function saveHarToFile(
+  content: string,
+  filePath?: string
+): Promise<{ filePath: string; size: number }> {
+  const defaultPath = join('.', 'har', `page-${Date.now()}-${randomUUID()}.har`);
+  const finalPath = filePath ?? defaultPath;
+
+  // 确保目录存在
+  await mkdir(dirname(finalPath), { recursive: true });
+  await writeFile(finalPath, content, 'utf8');
+
+  const stats = await stat(finalPath);
+  return { filePath: finalPath, size: stats.size };
+}
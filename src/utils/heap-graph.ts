@@ -0,0 +1,429 @@
+import { HeapNodeInfo, HeapRetainerPath } from '../types.js';
+import { ParsedHeapSnapshot, heapNodeClassName, readHeapNode } from './heap-snapshot-utils.js';
+
+const NONE = 0xffffffff;
+
+/**
+ * 堆快照的引用图（节点以序号表示，序号 = nodes 偏移 / nodeFieldCount）
+ *
+ * 支配树与 DevTools 一致：弱引用边不参与持有关系，shortcut 边只在根节点上有效；
+ * 从根节点不可达的节点视为由根节点直接支配。
+ */
+export interface HeapGraph {
+  snapshot: ParsedHeapSnapshot;
+  rootIndex: number;
+  /**
+   * 第 i 个节点的边序号范围为 [firstEdge[i], firstEdge[i + 1])
+   */
+  firstEdge: Uint32Array;
+  /**
+   * 第 i 个节点的持有者范围为 [firstRetainer[i], firstRetainer[i + 1])
+   */
+  firstRetainer: Uint32Array;
+  retainerNodes: Uint32Array;
+  retainerEdges: Uint32Array;
+  /**
+   * 到根节点的最短距离（不可达为 -1）
+   */
+  distance: Int32Array;
+  /**
+   * 直接支配者序号
+   */
+  dominator: Uint32Array;
+  retainedSize: Float64Array;
+}
+
+/**
+ * 构建引用图、最短距离和支配树
+ */
+export function buildHeapGraph(snapshot: ParsedHeapSnapshot): HeapGraph {
+  const edges = snapshot.edges;
+  if (!edges) {
+    throw new Error('heap snapshot has no edges; retainer analysis requires edge_fields and edge_count');
+  }
+
+  const nodeCount = snapshot.nodeCount;
+  const firstEdge = new Uint32Array(nodeCount + 1);
+  for (let i = 0; i < nodeCount; i++) {
+    firstEdge[i + 1] = firstEdge[i] + snapshot.nodes[i * snapshot.nodeFieldCount + edges.nodeEdgeCountIndex];
+  }
+  const edgeCount = firstEdge[nodeCount];
+
+  // 反向边（持有者）
+  const firstRetainer = new Uint32Array(nodeCount + 1);
+  for (let e = 0; e < edgeCount; e++) {
+    firstRetainer[edgeTarget(snapshot, e) + 1]++;
+  }
+  for (let i = 0; i < nodeCount; i++) {
+    firstRetainer[i + 1] += firstRetainer[i];
+  }
+  const retainerNodes = new Uint32Array(edgeCount);
+  const retainerEdges = new Uint32Array(edgeCount);
+  const fill = firstRetainer.slice(0, nodeCount);
+  for (let from = 0; from < nodeCount; from++) {
+    for (let e = firstEdge[from]; e < firstEdge[from + 1]; e++) {
+      const slot = fill[edgeTarget(snapshot, e)]++;
+      retainerNodes[slot] = from;
+      retainerEdges[slot] = e;
+    }
+  }
+
+  const graph: HeapGraph = {
+    snapshot,
+    rootIndex: 0,
+    firstEdge,
+    firstRetainer,
+    retainerNodes,
+    retainerEdges,
+    distance: new Int32Array(nodeCount).fill(-1),
+    dominator: new Uint32Array(nodeCount),
+    retainedSize: new Float64Array(nodeCount),
+  };
+
+  computeDistances(graph);
+  computeDominators(graph);
+  return graph;
+}
+
+/**
+ * 边是否构成持有关系
+ */
+export function isEssentialEdge(graph: HeapGraph, from: number, edge: number): boolean {
+  const type = edgeType(graph.snapshot, edge);
+  return type !== 'weak' && (type !== 'shortcut' || from === graph.rootIndex);
+}
+
+export function edgeType(snapshot: ParsedHeapSnapshot, edge: number): string {
+  const edges = snapshot.edges!;
+  const value = edges.data[edge * edges.fieldCount + edges.fieldIndex.type];
+  return edges.types ? edges.types[value] : String(value);
+}
+
+/**
+ * 边名称：element/hidden 边为下标，其余为字符串表中的名称
+ */
+export function edgeName(snapshot: ParsedHeapSnapshot, edge: number): string {
+  const edges = snapshot.edges!;
+  const value = edges.data[edge * edges.fieldCount + edges.fieldIndex.nameOrIndex];
+  const type = edgeType(snapshot, edge);
+  return type === 'element' || type === 'hidden' ? `[${value}]` : (snapshot.strings[value] ?? String(value));
+}
+
+function edgeTarget(snapshot: ParsedHeapSnapshot, edge: number): number {
+  const edges = snapshot.edges!;
+  return edges.data[edge * edges.fieldCount + edges.fieldIndex.toNode] / snapshot.nodeFieldCount;
+}
+
+/**
+ * 从根节点 BFS 计算最短距离
+ */
+function computeDistances(graph: HeapGraph): void {
+  const { snapshot, firstEdge, distance } = graph;
+  const queue = new Uint32Array(snapshot.nodeCount);
+  let head = 0;
+  let tail = 0;
+  distance[graph.rootIndex] = 0;
+  queue[tail++] = graph.rootIndex;
+
+  while (head < tail) {
+    const node = queue[head++];
+    for (let e = firstEdge[node]; e < firstEdge[node + 1]; e++) {
+      const target = edgeTarget(snapshot, e);
+      if (distance[target] === -1 && isEssentialEdge(graph, node, e)) {
+        distance[target] = distance[node] + 1;
+        queue[tail++] = target;
+      }
+    }
+  }
+}
+
+/**
+ * 计算支配树和保留大小（Cooper-Harvey-Kennedy 迭代算法）
+ */
+function computeDominators(graph: HeapGraph): void {
+  const { snapshot, firstEdge, firstRetainer, retainerNodes, retainerEdges, dominator, retainedSize } = graph;
+  const nodeCount = snapshot.nodeCount;
+
+  // 迭代 DFS 生成后序编号
+  const postOrder = new Uint32Array(nodeCount).fill(NONE);
+  const nodeAtPostOrder = new Uint32Array(nodeCount);
+  const visited = new Uint8Array(nodeCount);
+  const stackNode = new Uint32Array(nodeCount);
+  const stackEdge = new Uint32Array(nodeCount);
+  let depth = 0;
+  let order = 0;
+  stackNode[0] = graph.rootIndex;
+  stackEdge[0] = firstEdge[graph.rootIndex];
+  visited[graph.rootIndex] = 1;
+
+  while (depth >= 0) {
+    const node = stackNode[depth];
+    const edge = stackEdge[depth];
+    if (edge < firstEdge[node + 1]) {
+      stackEdge[depth]++;
+      const target = edgeTarget(snapshot, edge);
+      if (!visited[target] && isEssentialEdge(graph, node, edge)) {
+        visited[target] = 1;
+        depth++;
+        stackNode[depth] = target;
+        stackEdge[depth] = firstEdge[target];
+      }
+    } else {
+      postOrder[node] = order;
+      nodeAtPostOrder[order++] = node;
+      depth--;
+    }
+  }
+
+  const rootOrder = order - 1;
+  const doms = new Uint32Array(order).fill(NONE);
+  doms[rootOrder] = rootOrder;
+  const intersect = (a: number, b: number) => {
+    while (a !== b) {
+      while (a < b) a = doms[a];
+      while (b < a) b = doms[b];
+    }
+    return a;
+  };
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (let po = rootOrder - 1; po >= 0; po--) {
+      const node = nodeAtPostOrder[po];
+      let idom = NONE;
+      for (let r = firstRetainer[node]; r < firstRetainer[node + 1]; r++) {
+        const retainer = retainerNodes[r];
+        const retainerOrder = postOrder[retainer];
+        if (retainerOrder === NONE || doms[retainerOrder] === NONE || !isEssentialEdge(graph, retainer, retainerEdges[r])) {
+          continue;
+        }
+        idom = idom === NONE ? retainerOrder : intersect(retainerOrder, idom);
+      }
+      if (idom !== NONE && doms[po] !== idom) {
+        doms[po] = idom;
+        changed = true;
+      }
+    }
+  }
+
+  for (let i = 0; i < nodeCount; i++) {
+    retainedSize[i] = readHeapNode(snapshot, i).selfSize;
+    dominator[i] = postOrder[i] === NONE ? graph.rootIndex : nodeAtPostOrder[doms[postOrder[i]]];
+  }
+  dominator[graph.rootIndex] = graph.rootIndex;
+
+  // 后序中被支配节点总在支配者之前，依次累加到支配者上
+  for (let po = 0; po < rootOrder; po++) {
+    const node = nodeAtPostOrder[po];
+    retainedSize[dominator[node]] += retainedSize[node];
+  }
+  for (let i = 0; i < nodeCount; i++) {
+    if (postOrder[i] === NONE && i !== graph.rootIndex) {
+      retainedSize[graph.rootIndex] += retainedSize[i];
+    }
+  }
+}
+
+/**
+ * 一组节点的总保留大小：被组内其他节点支配的节点已计入其支配者，不重复累加
+ */
+export function aggregateRetainedSize(graph: HeapGraph, nodes: number[]): number {
+  const { dominator, retainedSize, rootIndex } = graph;
+  const member = new Uint8Array(dominator.length);
+  for (const node of nodes) {
+    member[node] = 1;
+  }
+
+  // 0 未知，1 自身或某个支配者属于该组，2 不属于
+  const covered = new Uint8Array(dominator.length);
+  const isCovered = (start: number) => {
+    const chain: number[] = [];
+    let current = start;
+    while (covered[current] === 0 && !member[current] && current !== rootIndex) {
+      chain.push(current);
+      current = dominator[current];
+    }
+    const state = covered[current] || (member[current] ? 1 : 2);
+    for (const node of chain) {
+      covered[node] = state;
+    }
+    return state === 1;
+  };
+
+  let total = 0;
+  for (const node of nodes) {
+    if (node === rootIndex || !isCovered(dominator[node])) {
+      total += retainedSize[node];
+    }
+  }
+  return total;
+}
+
+/**
+ * detachedness 字段中表示已脱离文档的取值（0 未知，1 在文档中）
+ */
+const DETACHED = 2;
+
+/**
+ * 节点是否为已脱离文档的 DOM 对象
+ *
+ * 旧版 Chrome 以 "Detached " 前缀命名，新版通过 detachedness 字段标记。
+ */
+export function isDetachedDomNode(snapshot: ParsedHeapSnapshot, index: number): boolean {
+  const { nodes, nodeFieldCount, nodeFieldIndex } = snapshot;
+  if (nodeFieldIndex.detachedness >= 0 && nodes[index * nodeFieldCount + nodeFieldIndex.detachedness] === DETACHED) {
+    return true;
+  }
+  return readHeapNode(snapshot, index).name.startsWith('Detached ');
+}
+
+/**
+ * 从节点名称中取出元素类型，如 "Detached HTMLDivElement" → HTMLDivElement，"<div class='x'>" → div
+ */
+export function detachedDomTag(name: string): string {
+  const stripped = name.replace(/^Detached /, '');
+  const tag = /^<([\w-]+)/.exec(stripped);
+  return tag ? tag[1].toLowerCase() : stripped.split(/\s/)[0];
+}
+
+/**
+ * 按脱离的 DOM 树分组
+ *
+ * 每个脱离节点沿支配树向上找到最高的脱离祖先作为树根；树根的保留大小即整棵树（及其独占对象）的大小。
+ */
+export function groupDetachedDomTrees(graph: HeapGraph): Array<{ root: number; nodes: number[] }> {
+  const { snapshot, dominator, rootIndex } = graph;
+  const detached = new Uint8Array(snapshot.nodeCount);
+  for (let i = 0; i < snapshot.nodeCount; i++) {
+    if (i !== rootIndex && isDetachedDomNode(snapshot, i)) {
+      detached[i] = 1;
+    }
+  }
+
+  const treeRoot = new Uint32Array(snapshot.nodeCount).fill(NONE);
+  const trees = new Map<number, number[]>();
+  for (let i = 0; i < snapshot.nodeCount; i++) {
+    if (!detached[i]) {
+      continue;
+    }
+    const chain: number[] = [];
+    let current = i;
+    while (treeRoot[current] === NONE && detached[dominator[current]] && dominator[current] !== current) {
+      chain.push(current);
+      current = dominator[current];
+    }
+    const root = treeRoot[current] === NONE ? current : treeRoot[current];
+    treeRoot[current] = root;
+    for (const node of chain) {
+      treeRoot[node] = root;
+    }
+
+    let members = trees.get(root);
+    if (!members) {
+      members = [];
+      trees.set(root, members);
+    }
+    members.push(i);
+  }
+
+  return Array.from(trees, ([root, nodes]) => ({ root, nodes }));
+}
+
+/**
+ * 查找节点到根节点的最短持有路径
+ *
+ * 每条路径从一个不同的直接持有者出发（按距离升序），向上始终选择距离更近的持有者。
+ * 路径按从根到目标的顺序返回；超过 maxDepth 时只保留靠近目标的部分。
+ */
+export function findRetainerPaths(
+  graph: HeapGraph,
+  nodeIndex: number,
+  options: { maxPaths: number; maxDepth: number }
+): HeapRetainerPath[] {
+  const { snapshot, firstRetainer, retainerNodes, retainerEdges, distance } = graph;
+  if (distance[nodeIndex] <= 0) {
+    return [];
+  }
+
+  const essentialRetainers = (node: number) => {
+    const result: Array<{ node: number; edge: number }> = [];
+    for (let r = firstRetainer[node]; r < firstRetainer[node + 1]; r++) {
+      const retainer = retainerNodes[r];
+      if (distance[retainer] >= 0 && isEssentialEdge(graph, retainer, retainerEdges[r])) {
+        result.push({ node: retainer, edge: retainerEdges[r] });
+      }
+    }
+    return result.sort((a, b) => distance[a.node] - distance[b.node]);
+  };
+
+  const paths: HeapRetainerPath[] = [];
+  const seenRetainers = new Set<number>();
+  for (const first of essentialRetainers(nodeIndex)) {
+    if (paths.length >= options.maxPaths) {
+      break;
+    }
+    if (seenRetainers.has(first.node)) {
+      continue;
+    }
+    seenRetainers.add(first.node);
+
+    const links = [first];
+    let current = first.node;
+    let truncated = false;
+    while (current !== graph.rootIndex) {
+      if (links.length >= options.maxDepth) {
+        truncated = true;
+        break;
+      }
+      const next = essentialRetainers(current).find((r) => distance[r.node] === distance[current] - 1);
+      if (!next) {
+        break;
+      }
+      links.push(next);
+      current = next.node;
+    }
+
+    const steps = links.reverse().map(({ node, edge }) => ({
+      node: describeHeapNode(snapshot, node),
+      edge: { type: edgeType(snapshot, edge), name: edgeName(snapshot, edge) },
+    }));
+    // 根节点是合成节点，不输出
+    if (steps.length > 0 && steps[0].node.type === 'synthetic' && steps[0].node.name === '') {
+      steps.shift();
+    }
+
+    paths.push({
+      text: formatRetainerPath(steps, describeHeapNode(snapshot, nodeIndex), truncated),
+      steps,
+      truncated: truncated || undefined,
+    });
+  }
+  return paths;
+}
+
+/**
+ * 节点的简要描述
+ */
+export function describeHeapNode(
+  snapshot: ParsedHeapSnapshot,
+  index: number
+): HeapNodeInfo {
+  const { id, name, type } = readHeapNode(snapshot, index);
+  return { id, name: name.length > 100 ? `${name.slice(0, 100)}…` : name, className: heapNodeClassName(type, name), type };
+}
+
+/**
+ * 格式化为 DevTools Retainers 视图风格的单行文本，如 "Window.cache → Array[3] → Foo @42"
+ */
+function formatRetainerPath(
+  steps: HeapRetainerPath['steps'],
+  target: { id?: number; className: string },
+  truncated: boolean
+): string {
+  const parts = steps.map(({ node, edge }) => {
+    const accessor = edge.name.startsWith('[') ? edge.name : `.${edge.name}`;
+    return `${node.className}${accessor}`;
+  });
+  return `${truncated ? '… → ' : ''}${[...parts, `${target.className}${target.id !== undefined ? ` @${target.id}` : ''}`].join(' → ')}`;
+}
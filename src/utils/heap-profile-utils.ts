@@ -0,0 +1,183 @@
+import {
+  AllocationCallTreeNode,
+  AllocationTrackingSummary,
+  AllocationTrackingTopFunction,
+  AllocationTrackingTopStack,
+} from '../types.js';
+
+/**
+ * HeapProfiler.stopSampling 返回的采样堆 profile（即 DevTools 可加载的 .heapprofile 内容）
+ */
+export interface SamplingHeapProfile {
+  head: SamplingHeapProfileNode;
+  samples?: Array<{ size: number; nodeId: number; ordinal: number }>;
+}
+
+export interface SamplingHeapProfileNode {
+  callFrame: {
+    functionName: string;
+    scriptId: string;
+    url: string;
+    /**
+     * 从 0 开始
+     */
+    lineNumber: number;
+    /**
+     * 从 0 开始
+     */
+    columnNumber: number;
+  };
+  /**
+   * 该节点自身（不含子节点）的估算分配字节数
+   */
+  selfSize: number;
+  id: number;
+  children: SamplingHeapProfileNode[];
+}
+
+export interface SamplingHeapProfileSummaryOptions {
+  topN: number;
+  /**
+   * 调用树中保留的最小节点占比（totalSizeBytes / 总字节数），默认 0.01
+   */
+  minTreeNodeRatio?: number;
+  /**
+   * 调用树最大深度，默认 32
+   */
+  maxTreeDepth?: number;
+}
+
+interface FunctionTotals extends AllocationTrackingTopFunction {
+  key: string;
+}
+
+/**
+ * 把调用帧格式化为 `name (url:line:column)`（行列号从 1 开始，与 DevTools 一致）
+ */
+export function formatSamplingCallFrame(callFrame: SamplingHeapProfileNode['callFrame']): string {
+  const name = callFrame.functionName || '(anonymous)';
+  return callFrame.url ? `${name} (${callFrame.url}:${callFrame.lineNumber + 1}:${callFrame.columnNumber + 1})` : name;
+}
+
+/**
+ * 汇总采样堆 profile：按函数聚合自身/累计分配字节数、TopN 调用栈，以及按占比裁剪的调用树
+ *
+ * 函数的 totalSizeBytes 在递归调用时只计一次（同一条调用路径上重复出现的函数不重复累加）。
+ */
+export function summarizeSamplingHeapProfile(
+  profile: SamplingHeapProfile,
+  options: SamplingHeapProfileSummaryOptions
+): AllocationTrackingSummary {
+  if (!profile?.head) {
+    throw new Error('sampling heap profile missing head');
+  }
+
+  const minTreeNodeRatio = options.minTreeNodeRatio ?? 0.01;
+  const maxTreeDepth = options.maxTreeDepth ?? 32;
+
+  const sampleCounts = new Map<number, number>();
+  for (const sample of profile.samples ?? []) {
+    sampleCounts.set(sample.nodeId, (sampleCounts.get(sample.nodeId) ?? 0) + 1);
+  }
+
+  const totals = new Map<number, number>();
+  const computeTotal = (node: SamplingHeapProfileNode): number => {
+    let total = node.selfSize;
+    for (const child of node.children) {
+      total += computeTotal(child);
+    }
+    totals.set(node.id, total);
+    return total;
+  };
+  const totalAllocatedBytes = computeTotal(profile.head);
+
+  const functions = new Map<string, FunctionTotals>();
+  const stacks: AllocationTrackingTopStack[] = [];
+  const onPath = new Set<string>();
+  const callStack: string[] = [];
+
+  const visit = (node: SamplingHeapProfileNode, isRoot: boolean): void => {
+    const { callFrame } = node;
+    const key = `${callFrame.functionName}\u0000${callFrame.url}\u0000${callFrame.lineNumber}\u0000${callFrame.columnNumber}`;
+    const enteredPath = !isRoot && !onPath.has(key);
+
+    if (!isRoot) {
+      let fn = functions.get(key);
+      if (!fn) {
+        fn = {
+          key,
+          functionName: callFrame.functionName || '(anonymous)',
+          url: callFrame.url || undefined,
+          lineNumber: callFrame.url ? callFrame.lineNumber + 1 : undefined,
+          columnNumber: callFrame.url ? callFrame.columnNumber + 1 : undefined,
+          selfSizeBytes: 0,
+          totalSizeBytes: 0,
+          sampleCount: 0,
+        };
+        functions.set(key, fn);
+      }
+      fn.selfSizeBytes += node.selfSize;
+      fn.sampleCount += sampleCounts.get(node.id) ?? 0;
+      if (enteredPath) {
+        fn.totalSizeBytes += totals.get(node.id) ?? 0;
+        onPath.add(key);
+      }
+
+      callStack.push(formatSamplingCallFrame(callFrame));
+      if (node.selfSize > 0) {
+        stacks.push({ stackTrace: callStack.slice(), sizeBytes: node.selfSize, count: sampleCounts.get(node.id) ?? 0 });
+      }
+    }
+
+    for (const child of node.children) {
+      visit(child, false);
+    }
+
+    if (!isRoot) {
+      callStack.pop();
+      if (enteredPath) {
+        onPath.delete(key);
+      }
+    }
+  };
+  visit(profile.head, true);
+
+  const minTreeNodeBytes = totalAllocatedBytes * minTreeNodeRatio;
+  const buildTree = (node: SamplingHeapProfileNode, depth: number): AllocationCallTreeNode => {
+    const children =
+      depth < maxTreeDepth
+        ? node.children
+            .filter((child) => (totals.get(child.id) ?? 0) > 0 && (totals.get(child.id) ?? 0) >= minTreeNodeBytes)
+            .sort((a, b) => (totals.get(b.id) ?? 0) - (totals.get(a.id) ?? 0))
+            .map((child) => buildTree(child, depth + 1))
+        : [];
+    return {
+      frame: depth === 0 ? '(root)' : formatSamplingCallFrame(node.callFrame),
+      selfSizeBytes: node.selfSize,
+      totalSizeBytes: totals.get(node.id) ?? 0,
+      children: children.length ? children : undefined,
+    };
+  };
+
+  const toTopFunctions = (by: 'selfSizeBytes' | 'totalSizeBytes') =>
+    Array.from(functions.values())
+      .filter((fn) => fn[by] > 0)
+      .sort((a, b) => b[by] - a[by])
+      .slice(0, options.topN)
+      .map(({ key: _key, ...fn }) => fn);
+
+  const topFunctionsBySelf = toTopFunctions('selfSizeBytes');
+  const topFunctionsByTotal = toTopFunctions('totalSizeBytes');
+  const topStacks = stacks.sort((a, b) => b.sizeBytes - a.sizeBytes).slice(0, options.topN);
+  const totalCount = profile.samples?.length ?? 0;
+
+  return {
+    parsed: true,
+    totalAllocatedBytes: totalAllocatedBytes > 0 ? totalAllocatedBytes : undefined,
+    totalCount: totalCount > 0 ? totalCount : undefined,
+    topStacks: topStacks.length ? topStacks : undefined,
+    topFunctionsBySelf: topFunctionsBySelf.length ? topFunctionsBySelf : undefined,
+    topFunctionsByTotal: topFunctionsByTotal.length ? topFunctionsByTotal : undefined,
+    callTree: totalAllocatedBytes > 0 ? buildTree(profile.head, 0) : undefined,
+  };
+}
@@ -0,0 +1,390 @@
+import { createReadStream, existsSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { Worker } from 'node:worker_threads';
+
+/**
+ * 流式读取得到的 heap snapshot 各部分
+ */
+export interface HeapSnapshotSections {
+  /**
+   * snapshot 字段（含 meta、node_count、edge_count）
+   */
+  snapshot?: any;
+  nodes?: Uint32Array;
+  edges?: Uint32Array;
+  strings?: string[];
+  /**
+   * 仅在 includeTrace 时读取（分配跟踪快照）
+   */
+  traceFunctionInfos?: unknown;
+  traceTree?: unknown;
+}
+
+export interface HeapSnapshotStreamOptions {
+  /**
+   * 是否读取 trace_function_infos / trace_tree，默认 false
+   */
+  includeTrace?: boolean;
+}
+
+const enum State {
+  Start,
+  Key,
+  KeyString,
+  Colon,
+  Value,
+  Numbers,
+  StringsArray,
+  StringItem,
+  Raw,
+  AfterValue,
+  Done,
+}
+
+const QUOTE = 0x22;
+const BACKSLASH = 0x5c;
+const COMMA = 0x2c;
+const COLON = 0x3a;
+const OPEN_BRACE = 0x7b;
+const CLOSE_BRACE = 0x7d;
+const OPEN_BRACKET = 0x5b;
+const CLOSE_BRACKET = 0x5d;
+
+const isWhitespace = (c: number) => c === 0x20 || c === 0x0a || c === 0x0d || c === 0x09;
+
+/**
+ * 可增长的 Uint32Array
+ */
+class Uint32Sink {
+  private data: Uint32Array;
+  length = 0;
+
+  constructor(capacity: number) {
+    this.data = new Uint32Array(Math.max(capacity, 1024));
+  }
+
+  push(value: number): void {
+    if (value > 0xffffffff) {
+      throw new Error(`heap snapshot value ${value} exceeds uint32 range`);
+    }
+    if (this.length === this.data.length) {
+      const grown = new Uint32Array(this.data.length * 2);
+      grown.set(this.data);
+      this.data = grown;
+    }
+    this.data[this.length++] = value;
+  }
+
+  toArray(): Uint32Array {
+    return this.length === this.data.length ? this.data : this.data.slice(0, this.length);
+  }
+}
+
+/**
+ * V8 heap snapshot 的增量解析器
+ *
+ * 只按需解析顶层字段：nodes/edges 直接写入 Uint32Array，strings 逐项解码，
+ * snapshot（meta）和 trace 相关字段收集原文后 JSON.parse，其余字段（samples、locations 等）跳过。
+ * 内存占用约为 nodes/edges 数组的 4 字节/项加字符串表，不需要把整个文件读成字符串。
+ */
+export class HeapSnapshotStreamParser {
+  private state = State.Start;
+  private key = '';
+  private parts: Buffer[] = [];
+  private hasEscape = false;
+  private escaped = false;
+
+  private numbers?: Uint32Sink;
+  private current = 0;
+  private inNumber = false;
+
+  private rawDepth = 0;
+  private rawInString = false;
+  private rawKeep = false;
+
+  private sections: HeapSnapshotSections = {};
+
+  constructor(private options: HeapSnapshotStreamOptions = {}) {}
+
+  public write(chunk: Buffer): void {
+    let segmentStart = -1;
+    if (this.state === State.KeyString || this.state === State.StringItem || this.state === State.Raw) {
+      segmentStart = 0;
+    }
+
+    for (let i = 0; i < chunk.length; i++) {
+      const c = chunk[i];
+      switch (this.state) {
+        case State.Start:
+          if (c === OPEN_BRACE) {
+            this.state = State.Key;
+          } else if (!isWhitespace(c)) {
+            this.fail(c);
+          }
+          break;
+
+        case State.Key:
+          if (c === QUOTE) {
+            this.beginString();
+            segmentStart = i + 1;
+            this.state = State.KeyString;
+          } else if (c === CLOSE_BRACE) {
+            this.state = State.Done;
+          } else if (!isWhitespace(c)) {
+            this.fail(c);
+          }
+          break;
+
+        case State.KeyString:
+        case State.StringItem:
+          if (this.escaped) {
+            this.escaped = false;
+          } else if (c === BACKSLASH) {
+            this.escaped = true;
+            this.hasEscape = true;
+          } else if (c === QUOTE) {
+            this.parts.push(chunk.subarray(segmentStart, i));
+            segmentStart = -1;
+            const value = this.endString();
+            if (this.state === State.KeyString) {
+              this.key = value;
+              this.state = State.Colon;
+            } else {
+              this.sections.strings!.push(value);
+              this.state = State.StringsArray;
+            }
+          }
+          break;
+
+        case State.Colon:
+          if (c === COLON) {
+            this.state = State.Value;
+          } else if (!isWhitespace(c)) {
+            this.fail(c);
+          }
+          break;
+
+        case State.Value:
+          if (isWhitespace(c)) {
+            break;
+          }
+          if (c === OPEN_BRACKET && (this.key === 'nodes' || this.key === 'edges')) {
+            this.numbers = new Uint32Sink(this.expectedLength(this.key));
+            this.current = 0;
+            this.inNumber = false;
+            this.state = State.Numbers;
+          } else if (c === OPEN_BRACKET && this.key === 'strings') {
+            this.sections.strings = [];
+            this.state = State.StringsArray;
+          } else {
+            this.rawDepth = 0;
+            this.rawInString = false;
+            this.escaped = false;
+            this.rawKeep =
+              this.key === 'snapshot' ||
+              (this.options.includeTrace === true && (this.key === 'trace_function_infos' || this.key === 'trace_tree'));
+            this.parts = [];
+            segmentStart = i;
+            this.state = State.Raw;
+            i--; // 由 Raw 状态重新处理首字符
+          }
+          break;
+
+        case State.Numbers:
+          if (c >= 0x30 && c <= 0x39) {
+            this.current = this.current * 10 + (c - 0x30);
+            this.inNumber = true;
+          } else if (c === COMMA || isWhitespace(c) || c === CLOSE_BRACKET) {
+            if (this.inNumber) {
+              this.numbers!.push(this.current);
+              this.current = 0;
+              this.inNumber = false;
+            }
+            if (c === CLOSE_BRACKET) {
+              this.sections[this.key as 'nodes' | 'edges'] = this.numbers!.toArray();
+              this.numbers = undefined;
+              this.state = State.AfterValue;
+            }
+          } else {
+            this.fail(c);
+          }
+          break;
+
+        case State.StringsArray:
+          if (c === QUOTE) {
+            this.beginString();
+            segmentStart = i + 1;
+            this.state = State.StringItem;
+          } else if (c === CLOSE_BRACKET) {
+            this.state = State.AfterValue;
+          } else if (c !== COMMA && !isWhitespace(c)) {
+            this.fail(c);
+          }
+          break;
+
+        case State.Raw: {
+          let end = -1;
+          if (this.rawInString) {
+            if (this.escaped) {
+              this.escaped = false;
+            } else if (c === BACKSLASH) {
+              this.escaped = true;
+            } else if (c === QUOTE) {
+              this.rawInString = false;
+              if (this.rawDepth === 0) {
+                end = i + 1;
+              }
+            }
+          } else if (c === QUOTE) {
+            this.rawInString = true;
+          } else if (c === OPEN_BRACE || c === OPEN_BRACKET) {
+            this.rawDepth++;
+          } else if (c === CLOSE_BRACE || c === CLOSE_BRACKET) {
+            if (this.rawDepth === 0) {
+              end = i; // 顶层原始值（数字/布尔）后紧跟 }
+            } else if (--this.rawDepth === 0) {
+              end = i + 1;
+            }
+          } else if (this.rawDepth === 0 && (c === COMMA || isWhitespace(c))) {
+            end = i;
+          }
+
+          if (end >= 0) {
+            if (this.rawKeep) {
+              this.parts.push(chunk.subarray(segmentStart, end));
+              this.storeRaw(JSON.parse(Buffer.concat(this.parts).toString('utf8')));
+            }
+            this.parts = [];
+            segmentStart = -1;
+            this.state = State.AfterValue;
+            if (end === i) {
+              i--; // 结束符由 AfterValue 处理
+            }
+          }
+          break;
+        }
+
+        case State.AfterValue:
+          if (c === COMMA) {
+            this.state = State.Key;
+          } else if (c === CLOSE_BRACE) {
+            this.state = State.Done;
+          } else if (!isWhitespace(c)) {
+            this.fail(c);
+          }
+          break;
+
+        case State.Done:
+          if (!isWhitespace(c)) {
+            this.fail(c);
+          }
+          break;
+      }
+    }
+
+    if (segmentStart >= 0 && (this.state !== State.Raw || this.rawKeep)) {
+      this.parts.push(chunk.subarray(segmentStart));
+    }
+  }
+
+  public end(): HeapSnapshotSections {
+    if (this.state !== State.Done) {
+      throw new Error('unexpected end of heap snapshot JSON');
+    }
+    return this.sections;
+  }
+
+  private beginString(): void {
+    this.parts = [];
+    this.hasEscape = false;
+    this.escaped = false;
+  }
+
+  private endString(): string {
+    const text = this.parts.length === 1 ? this.parts[0].toString('utf8') : Buffer.concat(this.parts).toString('utf8');
+    this.parts = [];
+    return this.hasEscape ? JSON.parse(`"${text}"`) : text;
+  }
+
+  private storeRaw(value: unknown): void {
+    if (this.key === 'snapshot') {
+      this.sections.snapshot = value;
+    } else if (this.key === 'trace_function_infos') {
+      this.sections.traceFunctionInfos = value;
+    } else if (this.key === 'trace_tree') {
+      this.sections.traceTree = value;
+    }
+  }
+
+  /**
+   * 根据 snapshot.meta 预估 nodes/edges 长度（V8 总是先输出 snapshot 字段）
+   */
+  private expectedLength(key: 'nodes' | 'edges'): number {
+    const snapshot = this.sections.snapshot;
+    const fields = key === 'nodes' ? snapshot?.meta?.node_fields : snapshot?.meta?.edge_fields;
+    const count = key === 'nodes' ? snapshot?.node_count : snapshot?.edge_count;
+    return Array.isArray(fields) && typeof count === 'number' ? fields.length * count : 0;
+  }
+
+  private fail(c: number): never {
+    throw new Error(`unexpected character '${String.fromCharCode(c)}' in heap snapshot JSON`);
+  }
+}
+
+/**
+ * 流式读取 .heapsnapshot 文件
+ */
+export async function readHeapSnapshotSections(
+  filePath: string,
+  options: HeapSnapshotStreamOptions = {}
+): Promise<HeapSnapshotSections> {
+  const parser = new HeapSnapshotStreamParser(options);
+  for await (const chunk of createReadStream(filePath, { highWaterMark: 1024 * 1024 })) {
+    parser.write(chunk as Buffer);
+  }
+  return parser.end();
+}
+
+/**
+ * worker 脚本位置：构建时与共享 chunk 一同输出到 dist 根目录（见 tsup.config.ts）
+ */
+const HEAP_SNAPSHOT_WORKER_URL = new URL('./heap-snapshot-worker.js', import.meta.url);
+
+/**
+ * 在 worker 线程中流式读取 .heapsnapshot 文件，避免长时间阻塞 MCP 请求处理
+ *
+ * nodes/edges 以 transfer 方式传回主线程，不产生额外拷贝。
+ * worker 脚本只存在于构建产物中；直接运行 TypeScript 源码（测试、tsx）时在当前线程读取。
+ * 构建产物中找不到 worker 脚本时同样在当前线程读取，并记录到 limitations。
+ */
+export async function readHeapSnapshotSectionsOffThread(
+  filePath: string,
+  options: HeapSnapshotStreamOptions = {},
+  limitations?: string[]
+): Promise<HeapSnapshotSections> {
+  const workerUrl = HEAP_SNAPSHOT_WORKER_URL;
+  if (workerUrl.protocol !== 'file:' || !existsSync(fileURLToPath(workerUrl))) {
+    const limitation = 'heap snapshot worker script not found; snapshot parsed on the main thread, blocking other requests';
+    if (!import.meta.url.endsWith('.ts') && limitations && !limitations.includes(limitation)) {
+      limitations.push(limitation);
+    }
+    return readHeapSnapshotSections(filePath, options);
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(workerUrl, { workerData: { filePath, options } });
+    worker.once('message', (message: { sections?: HeapSnapshotSections; error?: string }) => {
+      if (message.error !== undefined) {
+        reject(new Error(message.error));
+      } else {
+        resolve(message.sections!);
+      }
+    });
+    worker.once('error', reject);
+    worker.once('exit', (code) => {
+      if (code !== 0) {
+        reject(new Error(`heap snapshot worker exited with code ${code}`));
+      }
+    });
+  });
+}
@@ -0,0 +1,359 @@
+import { stat } from 'node:fs/promises';
+import { HeapSnapshotConstructorDelta, HeapSnapshotNewObject, LeakSuspect } from '../types.js';
+import {
+  HeapSnapshotSections,
+  HeapSnapshotStreamParser,
+  readHeapSnapshotSectionsOffThread,
+} from './heap-snapshot-stream.js';
+
+/**
+ * 解析后的 V8 heap snapshot
+ *
+ * 节点按 snapshot.meta.node_fields 平铺存储在 nodes 中，第 i 个节点的字段从 i * nodeFieldCount 开始。
+ */
+export interface ParsedHeapSnapshot {
+  nodeFieldCount: number;
+  /**
+   * 各字段在 node_fields 中的下标（id、detachedness 不存在时为 -1）
+   */
+  nodeFieldIndex: { type: number; name: number; id: number; selfSize: number; detachedness: number };
+  /**
+   * 节点类型枚举（meta.node_types[type]），缺失时类型按数字输出
+   */
+  nodeTypes?: string[];
+  nodes: ArrayLike<number>;
+  strings: string[];
+  nodeCount: number;
+  /**
+   * 边（快照中缺少 edge_fields 或 edge_count 时为 undefined）
+   *
+   * 每个节点的边按节点顺序连续存放，数量为该节点的 edge_count；to_node 为目标节点在 nodes 中的偏移。
+   */
+  edges?: {
+    fieldCount: number;
+    fieldIndex: { type: number; nameOrIndex: number; toNode: number };
+    types?: string[];
+    /**
+     * edge_count 在 node_fields 中的下标
+     */
+    nodeEdgeCountIndex: number;
+    data: ArrayLike<number>;
+  };
+}
+
+/**
+ * 解析 V8 heap snapshot JSON（内存中的字符串，使用与文件相同的增量解析器）
+ */
+export function parseHeapSnapshotJson(rawJson: string): ParsedHeapSnapshot {
+  const parser = new HeapSnapshotStreamParser();
+  parser.write(Buffer.from(rawJson, 'utf8'));
+  return buildParsedHeapSnapshot(parser.end());
+}
+
+/**
+ * 由流式读取的各部分构建 ParsedHeapSnapshot
+ */
+export function buildParsedHeapSnapshot(sections: HeapSnapshotSections): ParsedHeapSnapshot {
+  const snapshot = sections.snapshot;
+  const meta = snapshot?.meta;
+  const { nodes, strings } = sections;
+
+  if (!meta || !nodes || !strings) {
+    throw new Error('invalid heap snapshot structure');
+  }
+
+  const nodeFields: string[] = meta.node_fields;
+  const nodeFieldIndex = {
+    type: nodeFields.indexOf('type'),
+    name: nodeFields.indexOf('name'),
+    id: nodeFields.indexOf('id'),
+    selfSize: nodeFields.indexOf('self_size'),
+    detachedness: nodeFields.indexOf('detachedness'),
+  };
+
+  if (nodeFieldIndex.type < 0 || nodeFieldIndex.name < 0 || nodeFieldIndex.selfSize < 0) {
+    throw new Error('heap snapshot meta missing required node_fields');
+  }
+
+  const typeEnum = meta.node_types?.[nodeFieldIndex.type];
+
+  return {
+    nodeFieldCount: nodeFields.length,
+    nodeFieldIndex,
+    nodeTypes: Array.isArray(typeEnum) ? typeEnum : undefined,
+    nodes,
+    strings,
+    nodeCount: typeof snapshot.node_count === 'number' ? snapshot.node_count : Math.floor(nodes.length / nodeFields.length),
+    edges: parseEdgeMeta(meta, nodeFields, sections.edges),
+  };
+}
+
+function parseEdgeMeta(
+  meta: any,
+  nodeFields: string[],
+  data: Uint32Array | undefined
+): ParsedHeapSnapshot['edges'] {
+  const edgeFields: unknown = meta.edge_fields;
+  const nodeEdgeCountIndex = nodeFields.indexOf('edge_count');
+  if (!Array.isArray(edgeFields) || !data || nodeEdgeCountIndex < 0) {
+    return undefined;
+  }
+
+  const fieldIndex = {
+    type: edgeFields.indexOf('type'),
+    nameOrIndex: edgeFields.indexOf('name_or_index'),
+    toNode: edgeFields.indexOf('to_node'),
+  };
+  if (fieldIndex.type < 0 || fieldIndex.nameOrIndex < 0 || fieldIndex.toNode < 0) {
+    return undefined;
+  }
+
+  const typeEnum = meta.edge_types?.[fieldIndex.type];
+  return {
+    fieldCount: edgeFields.length,
+    fieldIndex,
+    types: Array.isArray(typeEnum) ? typeEnum : undefined,
+    nodeEdgeCountIndex,
+    data,
+  };
+}
+
+/**
+ * 流式读取并解析 .heapsnapshot 文件（超过 maxParseBytes 时报错）
+ *
+ * 读取在 worker 线程中进行，nodes/edges 存为 Uint32Array，不会把整个文件读成字符串。
+ */
+export async function loadHeapSnapshotFile(
+  filePath: string,
+  maxParseBytes: number,
+  limitations?: string[]
+): Promise<ParsedHeapSnapshot> {
+  const { size } = await stat(filePath);
+  if (size > maxParseBytes) {
+    throw new Error(`heap snapshot ${filePath} (${size} bytes) exceeds maxParseBytes (${maxParseBytes})`);
+  }
+  return buildParsedHeapSnapshot(await readHeapSnapshotSectionsOffThread(filePath, {}, limitations));
+}
+
+/**
+ * 读取第 i 个节点的基本信息
+ */
+export function readHeapNode(
+  snapshot: ParsedHeapSnapshot,
+  index: number
+): { id?: number; name: string; type: string; selfSize: number } {
+  const { nodes, nodeFieldCount, nodeFieldIndex, nodeTypes, strings } = snapshot;
+  const base = index * nodeFieldCount;
+  const nameIndex = nodes[base + nodeFieldIndex.name];
+  const typeValue = nodes[base + nodeFieldIndex.type];
+  return {
+    id: nodeFieldIndex.id >= 0 ? nodes[base + nodeFieldIndex.id] : undefined,
+    name: strings[nameIndex] ?? String(nameIndex),
+    type: nodeTypes ? nodeTypes[typeValue] : String(typeValue),
+    selfSize: nodes[base + nodeFieldIndex.selfSize] ?? 0,
+  };
+}
+
+/**
+ * 节点的构造函数分组名（与 DevTools Summary/Comparison 视图一致）
+ *
+ * 对象和原生对象按名称分组，其余类型按 "(类型)" 分组，如 (string)、(closure)、(compiled code)。
+ */
+export function heapNodeClassName(type: string, name: string): string {
+  switch (type) {
+    case 'object':
+    case 'native':
+      return name;
+    case 'hidden':
+      return '(system)';
+    case 'code':
+      return '(compiled code)';
+    case 'string':
+    case 'concatenated string':
+    case 'sliced string':
+      return '(string)';
+    default:
+      return `(${type})`;
+  }
+}
+
+/**
+ * 两个快照的对比结果（不含来源信息）
+ */
+export interface HeapSnapshotDiff {
+  before: { totalNodes: number; totalSizeBytes: number };
+  after: { totalNodes: number; totalSizeBytes: number };
+  /**
+   * 发生变化的构造函数（按 |sizeDeltaBytes| 降序）
+   */
+  constructors: HeapSnapshotConstructorDelta[];
+  /**
+   * 增长最多的构造函数（按 sizeDeltaBytes 降序，仅包含增长项）
+   */
+  topGrowing: HeapSnapshotConstructorDelta[];
+  /**
+   * after 中新出现且仍存活的最大对象
+   */
+  newObjects: HeapSnapshotNewObject[];
+  /**
+   * after 中能在 before 里找到相同 id 的节点数
+   */
+  matchedNodes: number;
+}
+
+/**
+ * 按节点 id 对比两个快照（DevTools Comparison 视图）
+ *
+ * id 在 before 中不存在的节点为新增对象，id 在 after 中不存在的节点为已释放对象。
+ */
+export function diffHeapSnapshots(
+  before: ParsedHeapSnapshot,
+  after: ParsedHeapSnapshot,
+  topN: number
+): HeapSnapshotDiff {
+  if (before.nodeFieldIndex.id < 0 || after.nodeFieldIndex.id < 0) {
+    throw new Error('heap snapshot meta missing node id field; snapshots cannot be compared');
+  }
+
+  const deltas = new Map<string, HeapSnapshotConstructorDelta>();
+  const deltaFor = (name: string) => {
+    let delta = deltas.get(name);
+    if (!delta) {
+      delta = {
+        name,
+        countBefore: 0,
+        countAfter: 0,
+        countDelta: 0,
+        newCount: 0,
+        deletedCount: 0,
+        sizeBeforeBytes: 0,
+        sizeAfterBytes: 0,
+        sizeDeltaBytes: 0,
+        allocatedBytes: 0,
+        freedBytes: 0,
+      };
+      deltas.set(name, delta);
+    }
+    return delta;
+  };
+
+  const afterIds = new Set<number>();
+  for (let i = 0; i < after.nodeCount; i++) {
+    afterIds.add(after.nodes[i * after.nodeFieldCount + after.nodeFieldIndex.id]);
+  }
+
+  const beforeIds = new Set<number>();
+  let beforeSize = 0;
+  for (let i = 0; i < before.nodeCount; i++) {
+    const node = readHeapNode(before, i);
+    beforeIds.add(node.id!);
+    beforeSize += node.selfSize;
+    const delta = deltaFor(heapNodeClassName(node.type, node.name));
+    delta.countBefore++;
+    delta.sizeBeforeBytes += node.selfSize;
+    if (!afterIds.has(node.id!)) {
+      delta.deletedCount++;
+      delta.freedBytes += node.selfSize;
+    }
+  }
+
+  let afterSize = 0;
+  let matchedNodes = 0;
+  const newObjects: HeapSnapshotNewObject[] = [];
+  for (let i = 0; i < after.nodeCount; i++) {
+    const node = readHeapNode(after, i);
+    const className = heapNodeClassName(node.type, node.name);
+    afterSize += node.selfSize;
+    const delta = deltaFor(className);
+    delta.countAfter++;
+    delta.sizeAfterBytes += node.selfSize;
+    if (beforeIds.has(node.id!)) {
+      matchedNodes++;
+    } else {
+      delta.newCount++;
+      delta.allocatedBytes += node.selfSize;
+      newObjects.push({ id: node.id!, name: node.name, className, type: node.type, selfSizeBytes: node.selfSize });
+    }
+  }
+
+  const changed = Array.from(deltas.values()).filter((delta) => {
+    delta.countDelta = delta.countAfter - delta.countBefore;
+    delta.sizeDeltaBytes = delta.sizeAfterBytes - delta.sizeBeforeBytes;
+    return delta.newCount > 0 || delta.deletedCount > 0;
+  });
+
+  return {
+    before: { totalNodes: before.nodeCount, totalSizeBytes: beforeSize },
+    after: { totalNodes: after.nodeCount, totalSizeBytes: afterSize },
+    constructors: [...changed]
+      .sort((a, b) => Math.abs(b.sizeDeltaBytes) - Math.abs(a.sizeDeltaBytes))
+      .slice(0, topN),
+    topGrowing: changed
+      .filter((delta) => delta.sizeDeltaBytes > 0 || delta.countDelta > 0)
+      .sort((a, b) => b.sizeDeltaBytes - a.sizeDeltaBytes || b.countDelta - a.countDelta)
+      .slice(0, topN),
+    newObjects: newObjects.sort((a, b) => b.selfSizeBytes - a.selfSizeBytes).slice(0, topN),
+    matchedNodes,
+  };
+}
+
+/**
+ * 按构造函数分组统计节点数和 self size
+ */
+export function summarizeHeapSnapshotByClass(snapshot: ParsedHeapSnapshot): {
+  totalSizeBytes: number;
+  classes: Map<string, { count: number; sizeBytes: number }>;
+} {
+  const classes = new Map<string, { count: number; sizeBytes: number }>();
+  let totalSizeBytes = 0;
+  for (let i = 0; i < snapshot.nodeCount; i++) {
+    const node = readHeapNode(snapshot, i);
+    const name = heapNodeClassName(node.type, node.name);
+    const entry = classes.get(name);
+    if (entry) {
+      entry.count++;
+      entry.sizeBytes += node.selfSize;
+    } else {
+      classes.set(name, { count: 1, sizeBytes: node.selfSize });
+    }
+    totalSizeBytes += node.selfSize;
+  }
+  return { totalSizeBytes, classes };
+}
+
+/**
+ * 找出数量在每次采样间都增长的构造函数（memlab 风格的泄漏判定）
+ *
+ * 每次迭代后对象数都至少增加 minGrowthPerIteration 才视为单调增长；
+ * 只增长一次或中途回落的对象通常是缓存或懒加载，不计入。
+ */
+export function findMonotonicGrowth(
+  samples: Array<Map<string, { count: number; sizeBytes: number }>>,
+  minGrowthPerIteration: number
+): LeakSuspect[] {
+  if (samples.length < 2) {
+    return [];
+  }
+
+  const suspects: LeakSuspect[] = [];
+  for (const name of samples[samples.length - 1].keys()) {
+    const counts = samples.map((sample) => sample.get(name)?.count ?? 0);
+    const monotonic = counts.every((count, i) => i === 0 || count - counts[i - 1] >= minGrowthPerIteration);
+    if (!monotonic) {
+      continue;
+    }
+
+    const sizesBytes = samples.map((sample) => sample.get(name)?.sizeBytes ?? 0);
+    const countDelta = counts[counts.length - 1] - counts[0];
+    suspects.push({
+      name,
+      counts,
+      sizesBytes,
+      countDelta,
+      sizeDeltaBytes: sizesBytes[sizesBytes.length - 1] - sizesBytes[0],
+      countPerIteration: countDelta / (samples.length - 1),
+    });
+  }
+
+  return suspects.sort((a, b) => b.sizeDeltaBytes - a.sizeDeltaBytes || b.countDelta - a.countDelta);
+}
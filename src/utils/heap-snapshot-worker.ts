@@ -0,0 +1,17 @@
+import { parentPort, workerData } from 'node:worker_threads';
+import { readHeapSnapshotSections } from './heap-snapshot-stream.js';
+
+/**
+ * heap snapshot 解析 worker（由 readHeapSnapshotSectionsOffThread 启动）
+ */
+readHeapSnapshotSections(workerData.filePath, workerData.options).then(
+  (sections) => {
+    const transfer = [sections.nodes?.buffer, sections.edges?.buffer].filter(
+      (buffer): buffer is ArrayBuffer => buffer instanceof ArrayBuffer
+    );
+    parentPort!.postMessage({ sections }, transfer);
+  },
+  (error) => {
+    parentPort!.postMessage({ error: error instanceof Error ? error.message : String(error) });
+  }
+);
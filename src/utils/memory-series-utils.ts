@@ -0,0 +1,165 @@
+import {
+  MemoryGrowthAssessment,
+  MemoryMonitorResult,
+  MemoryMonitorSample,
+  MemorySeriesStats,
+} from '../types.js';
+
+/**
+ * 判断泄漏所需的最少样本数
+ */
+const MIN_SAMPLES_FOR_ASSESSMENT = 6;
+
+/**
+ * 堆基线（每段最小值）增长超过该比例且超过 MIN_HEAP_GROWTH_BYTES 才视为可疑
+ */
+const HEAP_GROWTH_RATIO = 0.1;
+const MIN_HEAP_GROWTH_BYTES = 1024 * 1024;
+
+type SeriesPoint = { t: number; value: number };
+
+/**
+ * 计算序列的 min/max/首尾值与线性回归斜率（t 为秒）
+ */
+export function computeSeriesStats(points: SeriesPoint[]): MemorySeriesStats | undefined {
+  if (points.length === 0) {
+    return undefined;
+  }
+
+  let min = Infinity;
+  let max = -Infinity;
+  let sumT = 0;
+  let sumV = 0;
+  for (const { t, value } of points) {
+    min = Math.min(min, value);
+    max = Math.max(max, value);
+    sumT += t;
+    sumV += value;
+  }
+
+  const meanT = sumT / points.length;
+  const meanV = sumV / points.length;
+  let covariance = 0;
+  let varianceT = 0;
+  let varianceV = 0;
+  for (const { t, value } of points) {
+    covariance += (t - meanT) * (value - meanV);
+    varianceT += (t - meanT) ** 2;
+    varianceV += (value - meanV) ** 2;
+  }
+
+  const slopePerSecond = varianceT > 0 ? covariance / varianceT : 0;
+  const r2 = varianceT > 0 && varianceV > 0 ? (covariance * covariance) / (varianceT * varianceV) : 0;
+
+  return {
+    min,
+    max,
+    first: points[0].value,
+    last: points[points.length - 1].value,
+    slopePerSecond,
+    r2,
+  };
+}
+
+/**
+ * 提取样本中某个字段的序列（缺失的样本跳过）
+ */
+function series(
+  samples: MemoryMonitorSample[],
+  pick: (sample: MemoryMonitorSample) => number | undefined
+): SeriesPoint[] {
+  if (samples.length === 0) {
+    return [];
+  }
+  const start = samples[0].timestamp;
+  const points: SeriesPoint[] = [];
+  for (const sample of samples) {
+    const value = pick(sample);
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      points.push({ t: (sample.timestamp - start) / 1000, value });
+    }
+  }
+  return points;
+}
+
+const heapSeries = (samples: MemoryMonitorSample[]) => series(samples, (s) => s.heapUsedBytes);
+const domNodeSeries = (samples: MemoryMonitorSample[]) => series(samples, (s) => s.domCounters?.nodes);
+const listenerSeries = (samples: MemoryMonitorSample[]) => series(samples, (s) => s.domCounters?.jsEventListeners);
+
+/**
+ * 汇总监控序列的统计信息
+ */
+export function summarizeMemorySeries(samples: MemoryMonitorSample[]): MemoryMonitorResult['stats'] {
+  const heapUsedBytes = computeSeriesStats(heapSeries(samples));
+  if (!heapUsedBytes) {
+    return undefined;
+  }
+  return {
+    heapUsedBytes,
+    domNodes: computeSeriesStats(domNodeSeries(samples)),
+    jsEventListeners: computeSeriesStats(listenerSeries(samples)),
+    documents: computeSeriesStats(series(samples, (s) => s.domCounters?.documents)),
+  };
+}
+
+/**
+ * 简单的泄漏判断
+ *
+ * 把序列分为前、中、后三段：
+ * - 堆：每段最小值（GC 后的基线）逐段上升，且后段比前段增长超过 10% 和 1MB（GC 锯齿本身不影响判断）
+ * - DOM 节点 / 事件监听器：后段最小值仍高于前段最大值，即计数再也没有回落到之前的水平
+ */
+export function assessMemoryGrowth(samples: MemoryMonitorSample[]): MemoryGrowthAssessment {
+  const reasons: string[] = [];
+  if (samples.length < MIN_SAMPLES_FOR_ASSESSMENT) {
+    return { suspected: false, reasons };
+  }
+
+  const segment = (points: SeriesPoint[]) => {
+    const size = Math.floor(points.length / 3);
+    return {
+      head: points.slice(0, size).map((p) => p.value),
+      middle: points.slice(size, points.length - size).map((p) => p.value),
+      tail: points.slice(points.length - size).map((p) => p.value),
+    };
+  };
+
+  const heap = heapSeries(samples);
+  const heapStats = computeSeriesStats(heap);
+  if (heapStats && heap.length >= MIN_SAMPLES_FOR_ASSESSMENT) {
+    const { head, middle, tail } = segment(heap);
+    const baselineBefore = Math.min(...head);
+    const baselineMiddle = Math.min(...middle);
+    const baselineAfter = Math.min(...tail);
+    const growth = baselineAfter - baselineBefore;
+    if (
+      heapStats.slopePerSecond > 0 &&
+      baselineBefore < baselineMiddle &&
+      baselineMiddle < baselineAfter &&
+      growth >= MIN_HEAP_GROWTH_BYTES &&
+      growth > baselineBefore * HEAP_GROWTH_RATIO
+    ) {
+      reasons.push(
+        `heap baseline grew from ${baselineBefore} to ${baselineAfter} bytes ` +
+          `(+${Math.round((growth / baselineBefore) * 100)}%, ${Math.round(heapStats.slopePerSecond)} bytes/s)`
+      );
+    }
+  }
+
+  for (const [label, points] of [
+    ['DOM node count', domNodeSeries(samples)],
+    ['JS event listener count', listenerSeries(samples)],
+  ] as const) {
+    if (points.length < MIN_SAMPLES_FOR_ASSESSMENT) {
+      continue;
+    }
+    const { head, tail } = segment(points);
+    const peakBefore = Math.max(...head);
+    const lowAfter = Math.min(...tail);
+    if (lowAfter > peakBefore) {
+      reasons.push(`${label} never returned to its earlier level (${peakBefore} → at least ${lowAfter})`);
+    }
+  }
+
+  return { suspected: reasons.length > 0, reasons };
+}
@@ -0,0 +1,49 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { HeapSnapshotExportMode, HeapSnapshotExportResult } from '../types.js';
+
+export interface ProfileExportOptions {
+  mode: HeapSnapshotExportMode;
+  /**
+   * file/both 模式的输出路径，不指定时使用 defaultFilePath
+   */
+  filePath?: string;
+  defaultFilePath: string;
+  maxInlineBytes: number;
+}
+
+/**
+ * 按 get_heap_snapshot 的导出约定（none/file/inline/both）导出已在内存中的 profile JSON
+ *
+ * 用于 .heapprofile、.cpuprofile 等一次性返回的 profile；inline 按字节截断。
+ */
+export async function exportProfileJson(
+  raw: string,
+  options: ProfileExportOptions
+): Promise<HeapSnapshotExportResult> {
+  const shouldReturnFile = options.mode === 'file' || options.mode === 'both';
+  const shouldReturnInline = options.mode === 'inline' || options.mode === 'both';
+  const rawBytes = Buffer.byteLength(raw, 'utf8');
+  const exportInfo: HeapSnapshotExportResult = { mode: options.mode };
+
+  if (shouldReturnFile) {
+    const filePath = options.filePath ?? options.defaultFilePath;
+    await mkdir(dirname(filePath), { recursive: true });
+    await writeFile(filePath, raw, 'utf8');
+    exportInfo.filePath = filePath;
+    exportInfo.fileBytes = rawBytes;
+  }
+
+  if (shouldReturnInline) {
+    const truncated = rawBytes > options.maxInlineBytes;
+    const inline = truncated
+      ? Buffer.from(raw, 'utf8').subarray(0, options.maxInlineBytes).toString('utf8')
+      : raw;
+    exportInfo.inline = inline;
+    exportInfo.inlineBytes = Buffer.byteLength(inline, 'utf8');
+    exportInfo.truncated = truncated ? true : undefined;
+    exportInfo.maxInlineBytes = options.maxInlineBytes;
+  }
+
+  return exportInfo;
+}
@@ -0,0 +1,55 @@
+/**
+ * 固定容量的环形缓冲区，写满后覆盖最早的元素
+ */
+export class RingBuffer<T> {
+  private items: T[] = [];
+  private start = 0;
+  private droppedCount = 0;
+  private readonly capacity: number;
+
+  constructor(capacity: number) {
+    if (!Number.isInteger(capacity) || capacity <= 0) {
+      throw new Error(`Invalid ring buffer capacity: ${capacity}`);
+    }
+    this.capacity = capacity;
+  }
+
+  /**
+   * 追加元素，返回被覆盖的元素（如有）
+   */
+  public push(item: T): T | undefined {
+    if (this.items.length < this.capacity) {
+      this.items.push(item);
+      return undefined;
+    }
+    const evicted = this.items[this.start];
+    this.items[this.start] = item;
+    this.start = (this.start + 1) % this.capacity;
+    this.droppedCount++;
+    return evicted;
+  }
+
+  /**
+   * 按写入顺序返回所有元素
+   */
+  public toArray(): T[] {
+    return [...this.items.slice(this.start), ...this.items.slice(0, this.start)];
+  }
+
+  public get size(): number {
+    return this.items.length;
+  }
+
+  /**
+   * 被覆盖丢弃的元素总数
+   */
+  public get dropped(): number {
+    return this.droppedCount;
+  }
+
+  public clear(): void {
+    this.items = [];
+    this.start = 0;
+    this.droppedCount = 0;
+  }
+}
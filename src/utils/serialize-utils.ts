@@ -0,0 +1,229 @@
+/**
+ * 页面内结果序列化的限制选项
+ */
+export interface SerializeLimits {
+  /**
+   * 对象/数组的最大嵌套深度
+   */
+  maxDepth: number;
+  /**
+   * 数组、Map、Set 最多保留的元素数
+   */
+  maxArrayItems: number;
+  /**
+   * 普通对象最多保留的属性数
+   */
+  maxProperties: number;
+  /**
+   * 字符串最大长度（超出截断）
+   */
+  maxStringLength: number;
+}
+
+export const DEFAULT_SERIALIZE_LIMITS: SerializeLimits = {
+  maxDepth: 4,
+  maxArrayItems: 50,
+  maxProperties: 50,
+  maxStringLength: 1000,
+};
+
+/**
+ * 在页面中执行的序列化函数（通过 Runtime.callFunctionOn 以结果对象为 this 调用）
+ *
+ * 注意：该函数会被转换为字符串注入页面执行，不能引用模块内的任何外部变量。
+ *
+ * 输出为可 JSON 化的预览结构，特殊值使用 `__type` 标记：
+ * - DOM 节点：`{ __type: 'node', nodeName, selector, text, outerHTML }`
+ * - Map / Set：`{ __type: 'map' | 'set', size, entries | values }`
+ * - 循环引用：`{ __type: 'circular', ref: '<path>' }`
+ * - Error：`{ __type: 'error', name, message, stack }`
+ * - undefined / bigint / symbol / function / NaN 等无法直接 JSON 化的值
+ */
+export function serializeInPage(this: unknown, limits: SerializeLimits): unknown {
+  const ancestors = new Map<object, string>();
+
+  const truncate = (text: string): string =>
+    text.length > limits.maxStringLength
+      ? `${text.slice(0, limits.maxStringLength)}…(${text.length} chars)`
+      : text;
+
+  const getClassName = (value: object): string => {
+    try {
+      const ctor = (value as { constructor?: { name?: string } }).constructor;
+      return ctor && typeof ctor.name === 'string' && ctor.name ? ctor.name : 'Object';
+    } catch {
+      return 'Object';
+    }
+  };
+
+  const describeNode = (node: Node): Record<string, unknown> => {
+    if (node.nodeType === Node.ELEMENT_NODE) {
+      const element = node as Element;
+      let selector = element.tagName.toLowerCase();
+      if (element.id) {
+        selector += `#${element.id}`;
+      }
+      const className = typeof element.className === 'string' ? element.className.trim() : '';
+      if (className) {
+        selector += `.${className.split(/\s+/).join('.')}`;
+      }
+      return {
+        __type: 'node',
+        nodeName: element.tagName.toLowerCase(),
+        selector,
+        text: truncate((element.textContent ?? '').trim().slice(0, 200)),
+        outerHTML: truncate(element.outerHTML.slice(0, 300)),
+        childElementCount: element.childElementCount,
+        isConnected: element.isConnected,
+      };
+    }
+    if (node.nodeType === Node.DOCUMENT_NODE) {
+      return {
+        __type: 'node',
+        nodeName: '#document',
+        url: (node as Document).URL,
+        title: (node as Document).title,
+      };
+    }
+    return {
+      __type: 'node',
+      nodeName: node.nodeName,
+      text: truncate((node.textContent ?? '').slice(0, 200)),
+    };
+  };
+
+  const walk = (value: unknown, depth: number, path: string): unknown => {
+    if (value === null) {
+      return null;
+    }
+
+    switch (typeof value) {
+      case 'undefined':
+        return { __type: 'undefined' };
+      case 'string':
+        return truncate(value);
+      case 'boolean':
+        return value;
+      case 'number':
+        return Number.isFinite(value) && !Object.is(value, -0)
+          ? value
+          : { __type: 'number', value: Object.is(value, -0) ? '-0' : String(value) };
+      case 'bigint':
+        return { __type: 'bigint', value: `${value.toString()}n` };
+      case 'symbol':
+        return { __type: 'symbol', description: value.toString() };
+      case 'function':
+        return { __type: 'function', name: (value as { name?: string }).name || '(anonymous)' };
+    }
+
+    const obj = value as object;
+
+    if (ancestors.has(obj)) {
+      return { __type: 'circular', ref: ancestors.get(obj) };
+    }
+    if (typeof Node !== 'undefined' && obj instanceof Node) {
+      return describeNode(obj);
+    }
+    if (obj instanceof Error) {
+      return {
+        __type: 'error',
+        name: obj.name,
+        message: truncate(obj.message),
+        stack: obj.stack ? truncate(obj.stack) : undefined,
+      };
+    }
+    if (obj instanceof Date) {
+      return {
+        __type: 'date',
+        value: Number.isNaN(obj.getTime()) ? 'Invalid Date' : obj.toISOString(),
+      };
+    }
+    if (obj instanceof RegExp) {
+      return { __type: 'regexp', value: String(obj) };
+    }
+    if (typeof Window !== 'undefined' && obj instanceof Window) {
+      return { __type: 'window', location: String(obj.location?.href) };
+    }
+    if (obj instanceof Promise) {
+      return { __type: 'promise' };
+    }
+
+    const className = getClassName(obj);
+    if (depth >= limits.maxDepth) {
+      return { __type: 'object', className, truncated: true };
+    }
+
+    ancestors.set(obj, path);
+    try {
+      if (obj instanceof Map) {
+        const entries: unknown[] = [];
+        let index = 0;
+        for (const [k, v] of obj) {
+          if (index >= limits.maxArrayItems) break;
+          entries.push([walk(k, depth + 1, `${path}[${index}].key`), walk(v, depth + 1, `${path}[${index}].value`)]);
+          index++;
+        }
+        return { __type: 'map', size: obj.size, entries, truncated: obj.size > entries.length || undefined };
+      }
+      if (obj instanceof Set) {
+        const values: unknown[] = [];
+        let index = 0;
+        for (const v of obj) {
+          if (index >= limits.maxArrayItems) break;
+          values.push(walk(v, depth + 1, `${path}[${index}]`));
+          index++;
+        }
+        return { __type: 'set', size: obj.size, values, truncated: obj.size > values.length || undefined };
+      }
+      if (ArrayBuffer.isView(obj)) {
+        const view = obj as unknown as ArrayLike<number>;
+        const length = typeof view.length === 'number' ? view.length : 0;
+        return {
+          __type: 'typedarray',
+          className,
+          length,
+          preview: Array.from({ length: Math.min(length, limits.maxArrayItems) }, (_, i) => view[i]),
+        };
+      }
+      if (
+        Array.isArray(obj) ||
+        (typeof NodeList !== 'undefined' && obj instanceof NodeList) ||
+        (typeof HTMLCollection !== 'undefined' && obj instanceof HTMLCollection)
+      ) {
+        const list = obj as ArrayLike<unknown>;
+        const items: unknown[] = [];
+        const count = Math.min(list.length, limits.maxArrayItems);
+        for (let i = 0; i < count; i++) {
+          items.push(walk(list[i], depth + 1, `${path}[${i}]`));
+        }
+        if (list.length > count) {
+          items.push({ __type: 'more', count: list.length - count });
+        }
+        return Array.isArray(obj) ? items : { __type: 'list', className, length: list.length, items };
+      }
+
+      const result: Record<string, unknown> = {};
+      if (className !== 'Object') {
+        result.__className = className;
+      }
+      const keys = Object.keys(obj);
+      const count = Math.min(keys.length, limits.maxProperties);
+      for (let i = 0; i < count; i++) {
+        const key = keys[i];
+        try {
+          result[key] = walk((obj as Record<string, unknown>)[key], depth + 1, `${path}.${key}`);
+        } catch (error) {
+          result[key] = { __type: 'error', message: `getter threw: ${String(error)}` };
+        }
+      }
+      if (keys.length > count) {
+        result.__moreProperties = keys.length - count;
+      }
+      return result;
+    } finally {
+      ancestors.delete(obj);
+    }
+  };
+
+  return walk(this, 0, '$');
+}
@@ -0,0 +1,128 @@
+import { Page } from 'puppeteer';
+import { AppliedThrottling, ThrottlingOptions, ThrottlingProfileName } from '../types.js';
+
+/**
+ * 预设节流配置
+ *
+ * 网络参数与 Chrome DevTools 预设一致（已包含 DevTools 对请求级节流的延迟/带宽修正）；
+ * lighthouse-mobile 对应 Lighthouse 移动端默认的慢速 4G + 4 倍 CPU 降速。
+ */
+export const THROTTLING_PROFILES: Record<
+  Exclude<ThrottlingProfileName, 'custom'>,
+  Omit<AppliedThrottling, 'profile'>
+> = {
+  none: { offline: false, latencyMs: 0, downloadKbps: -1, uploadKbps: -1, cpuSlowdown: 1 },
+  'slow-3g': { offline: false, latencyMs: 2000, downloadKbps: 400, uploadKbps: 400, cpuSlowdown: 1 },
+  'fast-3g': { offline: false, latencyMs: 562.5, downloadKbps: 1440, uploadKbps: 675, cpuSlowdown: 1 },
+  '4g': { offline: false, latencyMs: 165, downloadKbps: 8100, uploadKbps: 1350, cpuSlowdown: 1 },
+  offline: { offline: true, latencyMs: 0, downloadKbps: 0, uploadKbps: 0, cpuSlowdown: 1 },
+  'lighthouse-mobile': { offline: false, latencyMs: 562.5, downloadKbps: 1474.56, uploadKbps: 675, cpuSlowdown: 4 },
+};
+
+/**
+ * 节流后重新加载页面的超时时间（慢速网络下加载时间较长）
+ */
+const THROTTLED_RELOAD_TIMEOUT = 120000;
+
+/**
+ * 将节流选项解析为实际生效的配置
+ */
+export function resolveThrottling(options: ThrottlingOptions): AppliedThrottling {
+  if (options.cpuSlowdown !== undefined && options.cpuSlowdown < 1) {
+    throw new Error(`Invalid cpuSlowdown: ${options.cpuSlowdown} (must be >= 1)`);
+  }
+
+  if (options.profile === 'custom') {
+    if (
+      options.latencyMs === undefined &&
+      options.downloadKbps === undefined &&
+      options.uploadKbps === undefined &&
+      options.cpuSlowdown === undefined
+    ) {
+      throw new Error('custom throttling requires latencyMs, downloadKbps, uploadKbps or cpuSlowdown');
+    }
+    return {
+      profile: 'custom',
+      offline: false,
+      latencyMs: options.latencyMs ?? 0,
+      downloadKbps: options.downloadKbps ?? -1,
+      uploadKbps: options.uploadKbps ?? -1,
+      cpuSlowdown: options.cpuSlowdown ?? 1,
+    };
+  }
+
+  const preset = THROTTLING_PROFILES[options.profile];
+  if (!preset) {
+    throw new Error(`Unknown throttling profile: ${options.profile}`);
+  }
+  return {
+    profile: options.profile,
+    ...preset,
+    cpuSlowdown: options.cpuSlowdown ?? preset.cpuSlowdown,
+  };
+}
+
+/**
+ * 在页面上应用节流配置（网络 + CPU）
+ */
+export async function applyThrottling(page: Page, throttling: AppliedThrottling): Promise<void> {
+  const toBytesPerSecond = (kbps: number) => (kbps < 0 ? -1 : (kbps * 1000) / 8);
+  const networkThrottled =
+    throttling.latencyMs > 0 || throttling.downloadKbps >= 0 || throttling.uploadKbps >= 0;
+
+  await page.setOfflineMode(throttling.offline);
+  await page.emulateNetworkConditions(
+    !throttling.offline && networkThrottled
+      ? {
+          download: toBytesPerSecond(throttling.downloadKbps),
+          upload: toBytesPerSecond(throttling.uploadKbps),
+          latency: throttling.latencyMs,
+        }
+      : null
+  );
+  await page.emulateCPUThrottling(throttling.cpuSlowdown > 1 ? throttling.cpuSlowdown : null);
+}
+
+/**
+ * 管理页面节流状态的对象（由 BrowserManager 实现）
+ */
+export interface ThrottlingStore {
+  getThrottling(page: Page): AppliedThrottling | undefined;
+  setThrottling(page: Page, throttling: AppliedThrottling): Promise<void>;
+}
+
+/**
+ * 在指定节流配置下重新加载页面并执行测量，测量结束后恢复原配置
+ *
+ * 未指定节流选项时直接测量，并回显页面当前持久生效的节流配置。
+ */
+export async function measureWithThrottling<T>(
+  store: ThrottlingStore,
+  page: Page,
+  options: ThrottlingOptions | undefined,
+  measure: () => Promise<T>
+): Promise<{ result: T; throttling?: AppliedThrottling }> {
+  if (!options) {
+    const current = store.getThrottling(page);
+    return { result: await measure(), throttling: current };
+  }
+
+  const applied = resolveThrottling(options);
+  const previous = store.getThrottling(page);
+
+  await store.setThrottling(page, applied);
+  try {
+    // 离线时重新加载只会得到错误页，直接测量当前页面
+    if (!applied.offline) {
+      await page.reload({ waitUntil: 'load', timeout: THROTTLED_RELOAD_TIMEOUT });
+    }
+    const result = await measure();
+    return { result, throttling: applied };
+  } finally {
+    try {
+      await store.setThrottling(page, previous ?? resolveThrottling({ profile: 'none' }));
+    } catch (error) {
+      // 页面可能已关闭，忽略错误
+    }
+  }
+}
@@ -0,0 +1,407 @@
+import {
+  TraceActivityCategory,
+  TraceDigest,
+  TraceLongTask,
+  TraceScriptAttribution,
+} from '../types.js';
+
+/**
+ * Chrome trace 事件（Trace Event Format，时间单位为微秒）
+ */
+export interface TraceEvent {
+  name: string;
+  cat?: string;
+  ph: string;
+  ts: number;
+  dur?: number;
+  pid: number;
+  tid: number;
+  args?: Record<string, any>;
+}
+
+export interface TraceDigestOptions {
+  /**
+   * 长任务阈值（毫秒），默认 50
+   */
+  longTaskThresholdMs?: number;
+  /**
+   * 返回的长任务数量上限，默认 10
+   */
+  topN?: number;
+  /**
+   * 每个长任务返回的脚本数量上限，默认 5
+   */
+  maxScriptsPerTask?: number;
+}
+
+/**
+ * 主线程上的任务事件（事件循环中的一次任务）
+ */
+const TASK_EVENTS = new Set(['RunTask', 'ThreadControllerImpl::RunTask']);
+
+const CATEGORY_EVENTS: Record<Exclude<TraceActivityCategory, 'other'>, Set<string>> = {
+  scripting: new Set([
+    'EvaluateScript',
+    'v8.evaluateModule',
+    'FunctionCall',
+    'TimerFire',
+    'EventDispatch',
+    'FireAnimationFrame',
+    'FireIdleCallback',
+    'XHRReadyStateChange',
+    'XHRLoad',
+    'RunMicrotasks',
+    'v8.compile',
+    'v8.compileModule',
+    'v8.produceCache',
+    'v8.produceModuleCache',
+    'V8.Execute',
+  ]),
+  rendering: new Set([
+    'Layout',
+    'UpdateLayoutTree',
+    'RecalculateStyles',
+    'UpdateLayerTree',
+    'UpdateLayer',
+    'PrePaint',
+    'Layerize',
+    'HitTest',
+    'ScrollLayer',
+  ]),
+  painting: new Set([
+    'Paint',
+    'PaintImage',
+    'PaintSetup',
+    'CompositeLayers',
+    'Commit',
+    'Decode Image',
+    'Decode LazyPixelRef',
+    'Resize Image',
+    'RasterTask',
+  ]),
+  gc: new Set([
+    'MinorGC',
+    'MajorGC',
+    'GCEvent',
+    'BlinkGC.AtomicPhase',
+    'CppGC.AtomicPhase',
+    'ThreadState::performIdleLazySweep',
+    'ThreadState::completeSweep',
+  ]),
+  loading: new Set(['ParseHTML', 'ParseAuthorStyleSheet']),
+};
+
+const LAYOUT_EVENTS = new Set(['Layout']);
+const RECALC_STYLE_EVENTS = new Set(['UpdateLayoutTree', 'RecalculateStyles']);
+
+type EventKind = TraceActivityCategory | 'task';
+
+/**
+ * 保留下来用于计算自身时间的区间事件
+ */
+interface SliceEvent {
+  name: string;
+  kind: EventKind;
+  ts: number;
+  dur: number;
+  label: string;
+  url?: string;
+  functionName?: string;
+  lineNumber?: number;
+}
+
+interface ThreadState {
+  pid: number;
+  tid: number;
+  slices: SliceEvent[];
+  /**
+   * 尚未匹配到 E 的 B 事件
+   */
+  open: TraceEvent[];
+}
+
+function classify(name: string): EventKind | undefined {
+  if (TASK_EVENTS.has(name)) {
+    return 'task';
+  }
+  for (const [category, names] of Object.entries(CATEGORY_EVENTS)) {
+    if (names.has(name)) {
+      return category as TraceActivityCategory;
+    }
+  }
+  return name.startsWith('V8.GC') ? 'gc' : undefined;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * 增量汇总 Chrome trace
+ *
+ * trace 可能有上百 MB，因此事件逐批送入 add()，只保留主线程分析所需的区间事件，
+ * 完整事件由调用方直接写入文件。主线程在 finish() 时根据 thread_name 元数据与
+ * TracingStartedInBrowser 中主 frame 的进程号确定（元数据事件通常在 trace 末尾才出现）。
+ */
+export class TraceDigestBuilder {
+  private threads: Map<string, ThreadState> = new Map();
+  private rendererMainThreads: Set<string> = new Set();
+  private mainFramePid?: number;
+  private eventCount = 0;
+  private startTs = Infinity;
+  private endTs = -Infinity;
+  private pipelinePresented = 0;
+  private pipelineDropped = 0;
+  private legacyPresented = 0;
+  private legacyDropped = 0;
+
+  public add(event: TraceEvent): void {
+    this.eventCount++;
+
+    if (event.ph === 'M') {
+      if (event.name === 'thread_name' && event.args?.name === 'CrRendererMain') {
+        this.rendererMainThreads.add(`${event.pid}:${event.tid}`);
+      }
+      return;
+    }
+
+    if (typeof event.ts === 'number' && event.ts > 0) {
+      this.startTs = Math.min(this.startTs, event.ts);
+      this.endTs = Math.max(this.endTs, event.ts + (event.dur ?? 0));
+    }
+
+    switch (event.name) {
+      case 'TracingStartedInBrowser': {
+        const frames: Array<{ processId?: number; parent?: string }> = event.args?.data?.frames ?? [];
+        const mainFrame = frames.find((frame) => !frame.parent);
+        if (typeof mainFrame?.processId === 'number') {
+          this.mainFramePid = mainFrame.processId;
+        }
+        return;
+      }
+      case 'PipelineReporter': {
+        const state = event.args?.chrome_frame_reporter?.state;
+        if (state === 'STATE_DROPPED') {
+          this.pipelineDropped++;
+        } else if (typeof state === 'string' && state.startsWith('STATE_PRESENTED')) {
+          this.pipelinePresented++;
+        }
+        return;
+      }
+      case 'DroppedFrame':
+        this.legacyDropped++;
+        return;
+      case 'DrawFrame':
+        this.legacyPresented++;
+        return;
+    }
+
+    if (event.ph === 'X') {
+      this.addSlice(event, event.ts, event.dur ?? 0);
+    } else if (event.ph === 'B') {
+      this.getThread(event).open.push(event);
+    } else if (event.ph === 'E') {
+      const thread = this.getThread(event);
+      const index = thread.open.map((open) => open.name).lastIndexOf(event.name);
+      if (index >= 0) {
+        const [begin] = thread.open.splice(index, 1);
+        this.addSlice({ ...begin, args: { ...begin.args, ...event.args } }, begin.ts, event.ts - begin.ts);
+      }
+    }
+  }
+
+  public finish(options: TraceDigestOptions = {}): TraceDigest {
+    const longTaskThresholdMs = options.longTaskThresholdMs ?? 50;
+    const topN = options.topN ?? 10;
+    const maxScriptsPerTask = options.maxScriptsPerTask ?? 5;
+
+    const durationMs = this.endTs > this.startTs ? (this.endTs - this.startTs) / 1000 : 0;
+    const mainThreadTimeMs: TraceDigest['mainThreadTimeMs'] = {
+      scripting: 0,
+      rendering: 0,
+      painting: 0,
+      gc: 0,
+      loading: 0,
+      other: 0,
+      idle: 0,
+    };
+    const digest: TraceDigest = {
+      durationMs: round(durationMs),
+      eventCount: this.eventCount,
+      mainThreadTimeMs,
+      longTaskCount: 0,
+      totalBlockingTimeMs: 0,
+      longTasks: [],
+      layoutCount: 0,
+      layoutTimeMs: 0,
+      recalcStyleCount: 0,
+      recalcStyleTimeMs: 0,
+      frames: this.buildFrameStats(),
+    };
+
+    const thread = this.findMainThread();
+    if (!thread) {
+      mainThreadTimeMs.idle = digest.durationMs;
+      return digest;
+    }
+    digest.mainThread = { pid: thread.pid, tid: thread.tid };
+
+    const slices = thread.slices.sort((a, b) => a.ts - b.ts || b.dur - a.dur);
+    const childTime = new Map<SliceEvent, number>();
+    const longTasks: Array<TraceLongTask & { attribution: Map<string, TraceScriptAttribution> }> = [];
+    const stack: SliceEvent[] = [];
+    let currentLongTask: (typeof longTasks)[number] | undefined;
+
+    for (const slice of slices) {
+      while (stack.length && stack[stack.length - 1].ts + stack[stack.length - 1].dur <= slice.ts) {
+        stack.pop();
+      }
+      if (stack.length === 0) {
+        currentLongTask = undefined;
+      }
+
+      const parent = stack[stack.length - 1];
+      if (parent) {
+        // 子事件超出父事件的部分不计入父事件
+        const overlap = Math.min(slice.dur, parent.ts + parent.dur - slice.ts);
+        childTime.set(parent, (childTime.get(parent) ?? 0) + overlap);
+      }
+
+      if (LAYOUT_EVENTS.has(slice.name)) {
+        digest.layoutCount++;
+        digest.layoutTimeMs += slice.dur / 1000;
+      } else if (RECALC_STYLE_EVENTS.has(slice.name)) {
+        digest.recalcStyleCount++;
+        digest.recalcStyleTimeMs += slice.dur / 1000;
+      }
+
+      if (slice.kind === 'task' && !stack.some((s) => s.kind === 'task')) {
+        const taskMs = slice.dur / 1000;
+        if (taskMs > longTaskThresholdMs) {
+          currentLongTask = {
+            startMs: round((slice.ts - this.startTs) / 1000),
+            durationMs: round(taskMs),
+            blockingMs: round(taskMs - longTaskThresholdMs),
+            scripts: [],
+            attribution: new Map(),
+          };
+          longTasks.push(currentLongTask);
+        }
+      }
+
+      // 长任务中最外层带 URL 的脚本事件计入该任务的脚本归因
+      if (currentLongTask && slice.kind === 'scripting' && slice.url && !stack.some((s) => s.url)) {
+        const trigger = stack.find((s) => s.kind === 'scripting')?.label;
+        const key = [slice.url, slice.functionName, slice.lineNumber, trigger].join('\u0000');
+        const entry = currentLongTask.attribution.get(key) ?? {
+          url: slice.url,
+          functionName: slice.functionName,
+          lineNumber: slice.lineNumber,
+          trigger,
+          durationMs: 0,
+        };
+        entry.durationMs += slice.dur / 1000;
+        currentLongTask.attribution.set(key, entry);
+      }
+
+      stack.push(slice);
+    }
+
+    let busyMs = 0;
+    for (const slice of slices) {
+      const selfMs = Math.max(0, slice.dur - (childTime.get(slice) ?? 0)) / 1000;
+      mainThreadTimeMs[slice.kind === 'task' ? 'other' : slice.kind] += selfMs;
+      busyMs += selfMs;
+    }
+    for (const key of Object.keys(mainThreadTimeMs) as Array<keyof typeof mainThreadTimeMs>) {
+      mainThreadTimeMs[key] = round(mainThreadTimeMs[key]);
+    }
+    mainThreadTimeMs.idle = round(Math.max(0, durationMs - busyMs));
+
+    digest.layoutTimeMs = round(digest.layoutTimeMs);
+    digest.recalcStyleTimeMs = round(digest.recalcStyleTimeMs);
+    digest.longTaskCount = longTasks.length;
+    digest.totalBlockingTimeMs = round(longTasks.reduce((sum, task) => sum + task.blockingMs, 0));
+    digest.longTasks = longTasks
+      .sort((a, b) => b.durationMs - a.durationMs)
+      .slice(0, topN)
+      .map(({ attribution, ...task }) => ({
+        ...task,
+        scripts: Array.from(attribution.values())
+          .sort((a, b) => b.durationMs - a.durationMs)
+          .slice(0, maxScriptsPerTask)
+          .map((script) => ({ ...script, durationMs: round(script.durationMs) })),
+      }));
+
+    return digest;
+  }
+
+  private getThread(event: TraceEvent): ThreadState {
+    const key = `${event.pid}:${event.tid}`;
+    let thread = this.threads.get(key);
+    if (!thread) {
+      thread = { pid: event.pid, tid: event.tid, slices: [], open: [] };
+      this.threads.set(key, thread);
+    }
+    return thread;
+  }
+
+  private addSlice(event: TraceEvent, ts: number, dur: number): void {
+    const kind = classify(event.name);
+    if (!kind || !(dur > 0)) {
+      return;
+    }
+
+    const data = event.args?.data ?? {};
+    const url = typeof data.url === 'string' && data.url ? data.url : undefined;
+    this.getThread(event).slices.push({
+      name: event.name,
+      kind,
+      ts,
+      dur,
+      label: event.name === 'EventDispatch' && data.type ? `EventDispatch (${data.type})` : event.name,
+      url: kind === 'scripting' ? url : undefined,
+      functionName: kind === 'scripting' && data.functionName ? data.functionName : undefined,
+      lineNumber: kind === 'scripting' && typeof data.lineNumber === 'number' ? data.lineNumber : undefined,
+    });
+  }
+
+  /**
+   * 优先选择主 frame 所在进程的 CrRendererMain；无法确定时选择事件时间最多的 CrRendererMain
+   */
+  private findMainThread(): ThreadState | undefined {
+    const candidates = Array.from(this.rendererMainThreads)
+      .map((key) => this.threads.get(key))
+      .filter((thread): thread is ThreadState => thread !== undefined && thread.slices.length > 0);
+
+    const inMainFrameProcess = candidates.find((thread) => thread.pid === this.mainFramePid);
+    if (inMainFrameProcess) {
+      return inMainFrameProcess;
+    }
+
+    const busiest = (threads: ThreadState[]) => {
+      let best: ThreadState | undefined;
+      let bestTotal = 0;
+      for (const thread of threads) {
+        const total = thread.slices.reduce((sum, slice) => sum + (slice.kind === 'task' ? 0 : slice.dur), 0);
+        if (total > bestTotal) {
+          best = thread;
+          bestTotal = total;
+        }
+      }
+      return best;
+    };
+
+    // 没有 thread_name 元数据时退而选择渲染事件最多的线程
+    return busiest(candidates) ?? busiest(Array.from(this.threads.values()));
+  }
+
+  private buildFrameStats(): TraceDigest['frames'] {
+    // 新版 Chrome 用 PipelineReporter 报告每一帧的结果，旧版使用 DrawFrame / DroppedFrame
+    const usePipeline = this.pipelinePresented + this.pipelineDropped > 0;
+    const presented = usePipeline ? this.pipelinePresented : this.legacyPresented;
+    const dropped = usePipeline ? this.pipelineDropped : this.legacyDropped;
+    if (presented + dropped === 0) {
+      return undefined;
+    }
+    return { presented, dropped, dropRate: round(dropped / (presented + dropped)) };
+  }
+}
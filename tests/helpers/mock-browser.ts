@@ -11,6 +11,7 @@ export { MockPage };
 export class MockBrowser {
   private _pages: MockPage[] = [];
   private _closed: boolean = false;
+  private _disconnected: boolean = false;
   private _closeListeners: Array<() => void> = [];
 
   async newPage(): Promise<Page> {
@@ -27,12 +28,25 @@ export class MockBrowser {
     this._closeListeners.forEach((handler) => handler());
   }
 
-  pages(): Page[] {
+  async userAgent(): Promise<string> {
+    return 'Mozilla/5.0 (X11; Linux x86_64) HeadlessChrome/120.0.0.0 Safari/537.36';
+  }
+
+  async pages(): Promise<Page[]> {
     return this._pages as unknown as Page[];
   }
 
+  async disconnect(): Promise<void> {
+    this._disconnected = true;
+    this._closeListeners.forEach((handler) => handler());
+  }
+
   isConnected(): boolean {
-    return !this._closed;
+    return !this._closed && !this._disconnected;
+  }
+
+  isClosed(): boolean {
+    return this._closed;
   }
 
   on<Key extends keyof any>(
@@ -12,11 +12,18 @@ export class MockPage {
   private _pageErrorListeners: Array<(error: Error) => void> = [];
   private _requestFailedListeners: Array<(request: HTTPRequest) => void> = [];
   private _closeListeners: Array<() => void> = [];
+  private _otherListeners: Map<string, Array<(...args: any[]) => void>> = new Map();
+  private _actions: Array<{ action: string; args: any[] }> = [];
+  private _viewport: { width: number; height: number } | null = null;
+  private _userAgent: string | undefined;
+  private _evalResults: Map<string, any> = new Map();
+  private _mainFrame = { url: () => this._url };
   private _evaluateResults: Map<string, any> = new Map();
   private _waitForSelectorResults: Map<string, boolean> = new Map();
   private _cdpHeapSnapshotRawJson?: string;
   private _cdpHeapSnapshotChunks?: string[];
   private _lastCDPSession?: any;
+  private _cdpResponses: Map<string, (params?: any) => any> = new Map();
 
   constructor(url?: string) {
     if (url) {
@@ -77,7 +84,19 @@ export class MockPage {
   }
 
   async setViewport(viewport: { width: number; height: number }): Promise<void> {
-    // Mock implementation
+    this._viewport = viewport;
+  }
+
+  viewport(): { width: number; height: number } | null {
+    return this._viewport;
+  }
+
+  async setUserAgent(userAgent: string): Promise<void> {
+    this._userAgent = userAgent;
+  }
+
+  getUserAgent(): string | undefined {
+    return this._userAgent;
   }
 
   async screenshot(options?: any): Promise<Buffer | string> {
@@ -108,6 +127,10 @@ export class MockPage {
       this._requestFailedListeners.push(handler);
     } else if (event === 'close') {
       this._closeListeners.push(handler);
+    } else {
+      const list = this._otherListeners.get(event) ?? [];
+      list.push(handler);
+      this._otherListeners.set(event, list);
     }
     return this as unknown as Page;
   }
@@ -134,10 +157,93 @@ export class MockPage {
       this._requestFailedListeners = this._requestFailedListeners.filter((h) => h !== handler);
     } else if (event === 'close') {
       this._closeListeners = this._closeListeners.filter((h) => h !== handler);
+    } else {
+      const list = this._otherListeners.get(event) ?? [];
+      this._otherListeners.set(event, list.filter((h) => h !== handler));
     }
     return this as unknown as Page;
   }
 
+  listenerCount(event: string): number {
+    if (event === 'console') return this._consoleListeners.length;
+    if (event === 'pageerror') return this._pageErrorListeners.length;
+    if (event === 'requestfailed') return this._requestFailedListeners.length;
+    if (event === 'close') return this._closeListeners.length;
+    return this._otherListeners.get(event)?.length ?? 0;
+  }
+
+  removeAllListeners(): Page {
+    this._consoleListeners = [];
+    this._pageErrorListeners = [];
+    this._requestFailedListeners = [];
+    this._closeListeners = [];
+    this._otherListeners.clear();
+    return this as unknown as Page;
+  }
+
+  mainFrame(): any {
+    return this._mainFrame;
+  }
+
+  async click(selector: string, options?: any): Promise<void> {
+    this._actions.push({ action: 'click', args: [selector, options] });
+  }
+
+  async type(selector: string, text: string, options?: any): Promise<void> {
+    this._actions.push({ action: 'type', args: [selector, text, options] });
+  }
+
+  async hover(selector: string): Promise<void> {
+    this._actions.push({ action: 'hover', args: [selector] });
+  }
+
+  async focus(selector: string): Promise<void> {
+    this._actions.push({ action: 'focus', args: [selector] });
+  }
+
+  async select(selector: string, ...values: string[]): Promise<string[]> {
+    this._actions.push({ action: 'select', args: [selector, ...values] });
+    return values;
+  }
+
+  async $eval(selector: string, fn: (...args: any[]) => any, ...args: any[]): Promise<any> {
+    this._actions.push({ action: '$eval', args: [selector] });
+    return this._evalResults.get(selector);
+  }
+
+  async waitForNavigation(options?: any): Promise<any> {
+    return null;
+  }
+
+  async reload(options?: any): Promise<any> {
+    this._actions.push({ action: 'reload', args: [options] });
+    return null;
+  }
+
+  async setOfflineMode(enabled: boolean): Promise<void> {
+    this._actions.push({ action: 'setOfflineMode', args: [enabled] });
+  }
+
+  async emulateNetworkConditions(conditions: any): Promise<void> {
+    this._actions.push({ action: 'emulateNetworkConditions', args: [conditions] });
+  }
+
+  async emulateCPUThrottling(factor: number | null): Promise<void> {
+    this._actions.push({ action: 'emulateCPUThrottling', args: [factor] });
+  }
+
+  keyboard = {
+    down: async (key: string) => {
+      this._actions.push({ action: 'keyboard.down', args: [key] });
+    },
+    up: async (key: string) => {
+      this._actions.push({ action: 'keyboard.up', args: [key] });
+    },
+    press: async (key: string, options?: any) => {
+      this._actions.push({ action: 'keyboard.press', args: [key] });
+    },
+  };
+
   async close(): Promise<void> {
     this._closed = true;
     this._closeListeners.forEach((handler) => handler());
@@ -153,6 +259,7 @@ export class MockPage {
     const session = new MockCDPSession({
       heapSnapshotRawJson: this._cdpHeapSnapshotRawJson,
       heapSnapshotChunks: this._cdpHeapSnapshotChunks,
+      responses: this._cdpResponses,
     });
     this._lastCDPSession = session;
     return session as unknown as CDPSession;
@@ -184,6 +291,13 @@ export class MockPage {
     this._cdpHeapSnapshotRawJson = undefined;
   }
 
+  /**
+   * 自定义某个 CDP 方法的响应（优先于内置的默认响应）
+   */
+  setCDPResponse(method: string, handler: (params?: any) => any): void {
+    this._cdpResponses.set(method, handler);
+  }
+
   /**
    * 获取最近一次创建的 CDP Session（用于断言/调试）
    */
@@ -200,6 +314,37 @@ export class MockPage {
     this._consoleListeners.forEach((handler) => handler(mockMsg));
   }
 
+  /**
+   * 设置 $eval(selector) 的返回值
+   */
+  setEvalResult(selector: string, result: any): void {
+    this._evalResults.set(selector, result);
+  }
+
+  /**
+   * 获取记录的交互操作（click/type/keyboard 等）
+   */
+  getActions(): Array<{ action: string; args: any[] }> {
+    return this._actions;
+  }
+
+  /**
+   * 模拟主框架导航
+   */
+  triggerNavigation(url: string): void {
+    this._url = url;
+    (this._otherListeners.get('framenavigated') ?? []).forEach((handler) =>
+      handler(this._mainFrame)
+    );
+  }
+
+  /**
+   * 触发任意已注册事件
+   */
+  emit(event: string, ...args: any[]): void {
+    (this._otherListeners.get(event) ?? []).forEach((handler) => handler(...args));
+  }
+
   triggerPageError(error: Error): void {
     this._pageErrorListeners.forEach((handler) => handler(error));
   }
@@ -221,10 +366,17 @@ class MockCDPSession {
   private _listeners: Map<string, Set<(...args: any[]) => void>> = new Map();
   private _heapSnapshotRawJson?: string;
   private _heapSnapshotChunks?: string[];
-
-  constructor(opts?: { heapSnapshotRawJson?: string; heapSnapshotChunks?: string[] }) {
+  private _responses?: Map<string, (params?: any) => any>;
+  private _detached = false;
+
+  constructor(opts?: {
+    heapSnapshotRawJson?: string;
+    heapSnapshotChunks?: string[];
+    responses?: Map<string, (params?: any) => any>;
+  }) {
     this._heapSnapshotRawJson = opts?.heapSnapshotRawJson;
     this._heapSnapshotChunks = opts?.heapSnapshotChunks;
+    this._responses = opts?.responses;
   }
 
   on(event: string, handler: (...args: any[]) => void): this {
@@ -258,6 +410,11 @@ class MockCDPSession {
   async send(method: string, params?: any): Promise<any> {
     this._sentCommands.push({ method, params });
 
+    const custom = this._responses?.get(method);
+    if (custom) {
+      return custom(params);
+    }
+
     // Return mock responses based on method
     if (method === 'Performance.enable') {
       return {};
@@ -328,8 +485,19 @@ class MockCDPSession {
     return {};
   }
 
+  /**
+   * 模拟 CDP 事件（用于测试事件订阅逻辑）
+   */
+  trigger(event: string, payload: any): void {
+    this.emit(event, payload);
+  }
+
   async detach(): Promise<void> {
-    // Mock implementation
+    this._detached = true;
+  }
+
+  isDetached(): boolean {
+    return this._detached;
   }
 
   getSentCommands(): Array<{ method: string; params?: any }> {
@@ -8,6 +8,7 @@ vi.mock('puppeteer', () => {
   return {
     default: {
       launch: vi.fn(),
+      connect: vi.fn(),
     },
   };
 });
@@ -38,6 +39,7 @@ describe('BrowserManager', () => {
     // Mock puppeteer.launch
     const puppeteer = await import('puppeteer');
     vi.mocked(puppeteer.default.launch).mockResolvedValue(mockBrowser as unknown as Browser);
+    vi.mocked(puppeteer.default.connect).mockResolvedValue(mockBrowser as unknown as Browser);
   });
 
   afterEach(async () => {
@@ -151,6 +153,21 @@ describe('BrowserManager', () => {
       expect(pages.length).toBeLessThanOrEqual(maxPages);
     });
 
+    it('should notify page closing listeners when evicting old pages', async () => {
+      const instance = BrowserManager.getInstance();
+      const closing = vi.fn();
+      instance.onPageClosing(closing);
+
+      const first = await instance.getPage('http://example0.com');
+      for (let i = 1; i <= 5; i++) {
+        await instance.getPage(`http://example${i}.com`);
+      }
+
+      expect(closing).toHaveBeenCalledTimes(1);
+      expect(closing).toHaveBeenCalledWith(first);
+      expect(first.isClosed()).toBe(true);
+    });
+
     it('should remove closed pages from cache', async () => {
       const instance = BrowserManager.getInstance();
       const url = 'http://example.com';
@@ -164,6 +181,23 @@ describe('BrowserManager', () => {
       const newPage = await instance.getPage(url);
       expect(newPage).not.toBe(page);
     });
+
+    it('should notify page created listeners before navigation', async () => {
+      const instance = BrowserManager.getInstance();
+      const url = 'http://example.com';
+      const calls: string[] = [];
+      const unsubscribe = instance.onPageCreated((page) => {
+        calls.push(page.url());
+      });
+
+      await instance.getPage(url);
+      // 监听器在 goto 之前调用，此时页面尚未导航
+      expect(calls).toEqual(['about:blank']);
+
+      unsubscribe();
+      await instance.getPage('http://other.com');
+      expect(calls).toHaveLength(1);
+    });
   });
 
   describe('Navigation', () => {
@@ -188,6 +222,42 @@ describe('BrowserManager', () => {
       
       expect(page1).toBe(page2);
     });
+
+    it('should apply device emulation before first navigation and persist it', async () => {
+      const instance = BrowserManager.getInstance();
+      const emulation = {
+        device: 'Pixel 5',
+        viewport: { width: 393, height: 851, deviceScaleFactor: 3, isMobile: true, hasTouch: true, isLandscape: false },
+        userAgent: 'Mozilla/5.0 (Linux; Android 11; Pixel 5)',
+      };
+      const urls: string[] = [];
+      instance.onPageCreated((page) => {
+        urls.push(page.url());
+        expect((page as any).viewport()).toEqual(emulation.viewport);
+      });
+
+      const page = await instance.navigate('http://example.com', { emulation });
+
+      expect(urls).toEqual(['about:blank']);
+      expect((page as any).getUserAgent()).toBe(emulation.userAgent);
+      expect(instance.getEmulation(page)).toBe(emulation);
+    });
+
+    it('should restore default viewport and user agent on reset', async () => {
+      const instance = BrowserManager.getInstance();
+      const page = await instance.getPage('http://example.com', {
+        emulation: {
+          viewport: { width: 375, height: 667, deviceScaleFactor: 2, isMobile: true, hasTouch: true, isLandscape: false },
+          userAgent: 'custom-agent',
+        },
+      });
+
+      await instance.setEmulation(page, null);
+
+      expect((page as any).viewport()).toMatchObject({ width: 1920, height: 1080, isMobile: false });
+      expect((page as any).getUserAgent()).toBe(await mockBrowser.userAgent());
+      expect(instance.getEmulation(page)).toBeUndefined();
+    });
   });
 
   describe('Page Cleanup', () => {
@@ -204,6 +274,21 @@ describe('BrowserManager', () => {
       expect(pages.find((p) => p.url === url)).toBeUndefined();
     });
 
+    it('should notify page closing listeners before removing listeners', async () => {
+      const instance = BrowserManager.getInstance();
+      const url = 'http://example.com';
+      const page = await instance.getPage(url);
+      const closing = vi.fn(() => {
+        // 此时页面尚未关闭
+        expect(page.isClosed()).toBe(false);
+      });
+      instance.onPageClosing(closing);
+
+      await instance.closePage(url);
+
+      expect(closing).toHaveBeenCalledWith(page);
+    });
+
     it('should close all pages', async () => {
       const instance = BrowserManager.getInstance();
       const urls = ['http://example1.com', 'http://example2.com'];
@@ -305,6 +390,99 @@ describe('BrowserManager', () => {
     });
   });
 
+  describe('Connect Mode', () => {
+    it('should connect via browserURL from config instead of launching', async () => {
+      const instance = BrowserManager.getInstance({ browserURL: 'http://127.0.0.1:9222' });
+      await instance.initialize();
+
+      const puppeteer = await import('puppeteer');
+      expect(puppeteer.default.connect).toHaveBeenCalledWith(
+        expect.objectContaining({ browserURL: 'http://127.0.0.1:9222' })
+      );
+      expect(puppeteer.default.launch).not.toHaveBeenCalled();
+      expect(instance.isConnectedMode()).toBe(true);
+    });
+
+    it('should read browserWSEndpoint from environment variable', async () => {
+      process.env.PUPPETEER_BROWSER_WS_ENDPOINT = 'ws://127.0.0.1:9222/devtools/browser/abc';
+
+      const instance = BrowserManager.getInstance();
+      await instance.initialize();
+
+      const puppeteer = await import('puppeteer');
+      expect(puppeteer.default.connect).toHaveBeenCalledWith(
+        expect.objectContaining({ browserWSEndpoint: 'ws://127.0.0.1:9222/devtools/browser/abc' })
+      );
+    });
+
+    it('should discover existing tabs into pages', async () => {
+      mockBrowser.createPageWithUrl('http://example.com/dashboard');
+      mockBrowser.createPageWithUrl('about:blank');
+
+      const instance = BrowserManager.getInstance({ browserURL: 'http://127.0.0.1:9222' });
+      await instance.initialize();
+
+      const pages = instance.getPages();
+      expect(pages).toHaveLength(1);
+      expect(pages[0].url).toBe('http://example.com/dashboard');
+      expect(pages[0].attached).toBe(true);
+
+      const page = await instance.getPage('http://example.com/dashboard');
+      expect(page).toBe(mockBrowser.getMockPages()[0]);
+    });
+
+    it('should notify page created listeners for discovered tabs', async () => {
+      const existing = mockBrowser.createPageWithUrl('http://example.com/dashboard');
+      mockBrowser.createPageWithUrl('about:blank');
+
+      const instance = BrowserManager.getInstance({ browserURL: 'http://127.0.0.1:9222' });
+      const created = vi.fn();
+      instance.onPageCreated(created);
+      await instance.initialize();
+
+      expect(created).toHaveBeenCalledTimes(1);
+      expect(created).toHaveBeenCalledWith(existing);
+    });
+
+    it('should notify page closing listeners for tracked pages when the browser disconnects', async () => {
+      const existing = mockBrowser.createPageWithUrl('http://example.com/dashboard');
+
+      const instance = BrowserManager.getInstance({ browserURL: 'http://127.0.0.1:9222' });
+      const closing = vi.fn();
+      instance.onPageClosing(closing);
+      await instance.initialize();
+
+      await mockBrowser.disconnect();
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(closing).toHaveBeenCalledWith(existing);
+      expect(instance.getPages()).toHaveLength(0);
+      expect(instance.isInitialized()).toBe(false);
+    });
+
+    it('should disconnect instead of closing the browser', async () => {
+      const existing = mockBrowser.createPageWithUrl('http://example.com');
+
+      const instance = BrowserManager.getInstance({ browserURL: 'http://127.0.0.1:9222' });
+      await instance.initialize();
+      await instance.close();
+
+      expect(instance.isInitialized()).toBe(false);
+      expect(mockBrowser.isClosed()).toBe(false);
+      expect(mockBrowser.isConnected()).toBe(false);
+      expect(existing.isClosed()).toBe(false);
+    });
+
+    it('should report connection failure with endpoint', async () => {
+      const puppeteer = await import('puppeteer');
+      vi.mocked(puppeteer.default.connect).mockRejectedValue(new Error('ECONNREFUSED'));
+
+      const instance = BrowserManager.getInstance({ browserURL: 'http://127.0.0.1:9222' });
+
+      await expect(instance.initialize()).rejects.toThrow(/127\.0\.0\.1:9222/);
+    });
+  });
+
   describe('Error Handling', () => {
     it('should handle browser launch failure', async () => {
       const puppeteer = await import('puppeteer');
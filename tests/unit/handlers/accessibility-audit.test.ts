@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  AXNode,
+  checkAXTree,
+  checkColorContrast,
+  checkDomFacts,
+  contrastRatio,
+  runAccessibilityAudit,
+} from '../../../src/cdp-handlers/accessibility-audit.js';
+import { scoreAuditRules } from '../../../src/cdp-handlers/audit-utils.js';
+import { MockPage, createMockPage } from '../../helpers/mock-browser.js';
+
+function axNode(role: string, name: string, extra: Partial<AXNode> = {}): AXNode {
+  return {
+    nodeId: `${role}-${name}`,
+    ignored: false,
+    role: { value: role },
+    name: { value: name },
+    ...extra,
+  };
+}
+
+function heading(level: number, backendDOMNodeId: number): AXNode {
+  return axNode('heading', `h${level}`, {
+    backendDOMNodeId,
+    properties: [{ name: 'level', value: { value: level } }],
+  });
+}
+
+describe('accessibility-audit', () => {
+  describe('checkAXTree', () => {
+    it('should flag unnamed images, controls, buttons and links', () => {
+      const checks = checkAXTree([
+        axNode('image', '', { backendDOMNodeId: 1 }),
+        axNode('image', 'Logo', { backendDOMNodeId: 2 }),
+        axNode('textbox', '', { backendDOMNodeId: 3 }),
+        axNode('button', '  ', { backendDOMNodeId: 4 }),
+        axNode('link', 'Home', { backendDOMNodeId: 5 }),
+        // 被忽略的节点（如 alt="" 的装饰图片）不参与检查
+        axNode('image', '', { ignored: true, backendDOMNodeId: 6 }),
+      ]);
+
+      expect(checks['image-alt']).toEqual({ checked: 2, failures: [{ backendNodeId: 1 }] });
+      expect(checks.label.failures).toEqual([{ backendNodeId: 3 }]);
+      expect(checks['button-name'].failures).toEqual([{ backendNodeId: 4 }]);
+      expect(checks['link-name']).toEqual({ checked: 1, failures: [] });
+    });
+
+    it('should flag skipped heading levels', () => {
+      const checks = checkAXTree([heading(1, 1), heading(2, 2), heading(4, 3), heading(2, 4), heading(3, 5)]);
+
+      expect(checks['heading-order'].checked).toBe(5);
+      expect(checks['heading-order'].failures).toEqual([
+        { backendNodeId: 3, explanation: 'Heading level jumps from h2 to h4' },
+      ]);
+    });
+  });
+
+  describe('checkDomFacts', () => {
+    it('should report a missing lang only under html-has-lang', () => {
+      const facts = { idCount: 0, duplicateIds: [], textElements: [] };
+
+      const missing = checkDomFacts({ ...facts, lang: '  ' });
+      expect(missing['html-has-lang'].failures).toHaveLength(1);
+      expect(missing['html-lang-valid']).toEqual({ checked: 0, failures: [] });
+
+      const invalid = checkDomFacts({ ...facts, lang: 'english' });
+      expect(invalid['html-has-lang'].failures).toHaveLength(0);
+      expect(invalid['html-lang-valid'].failures[0].explanation).toBe('Invalid lang value "english"');
+    });
+  });
+
+  describe('color contrast', () => {
+    it('should compute WCAG contrast ratios', () => {
+      expect(contrastRatio([0, 0, 0, 1], [255, 255, 255, 1])).toBeCloseTo(21, 1);
+      expect(contrastRatio([119, 119, 119, 1], [255, 255, 255, 1])).toBeCloseTo(4.48, 2);
+    });
+
+    it('should apply large text thresholds and skip background images', () => {
+      const element = (selector: string, fontSizePx: number, backgroundImage = false) => ({
+        element: { selector },
+        color: 'rgb(119, 119, 119)',
+        backgrounds: ['rgba(0, 0, 0, 0)', 'rgb(255, 255, 255)'],
+        backgroundImage,
+        fontSizePx,
+        fontWeight: 400,
+      });
+
+      const check = checkColorContrast([element('p', 16), element('h1', 32), element('.hero', 16, true)]);
+
+      expect(check.checked).toBe(2);
+      expect(check.failures).toHaveLength(1);
+      expect(check.failures[0].selector).toBe('p');
+      expect(check.failures[0].explanation).toContain('below 4.5:1');
+    });
+  });
+
+  describe('scoreAuditRules', () => {
+    it('should weight passing rules and ignore non-applicable ones', () => {
+      const rule = (weight: number, status: 'pass' | 'fail' | 'not-applicable') => ({
+        id: `${status}-${weight}`,
+        title: '',
+        weight,
+        status,
+        checked: status === 'not-applicable' ? 0 : 1,
+        failureCount: status === 'fail' ? 1 : 0,
+        failures: [],
+      });
+
+      expect(scoreAuditRules([rule(10, 'pass'), rule(7, 'fail'), rule(3, 'pass'), rule(10, 'not-applicable')]).score).toBe(65);
+      expect(scoreAuditRules([rule(10, 'not-applicable')]).score).toBe(100);
+    });
+  });
+
+  describe('runAccessibilityAudit', () => {
+    let mockPage: MockPage;
+
+    beforeEach(() => {
+      mockPage = createMockPage('http://example.com');
+      mockPage.setCDPResponse('Accessibility.getFullAXTree', () => ({
+        nodes: [axNode('image', '', { backendDOMNodeId: 42 }), axNode('button', 'Submit', { backendDOMNodeId: 43 })],
+      }));
+      mockPage.setCDPResponse('DOM.resolveNode', (params: any) => ({ object: { objectId: `obj-${params.backendNodeId}` } }));
+      mockPage.setCDPResponse('Runtime.callFunctionOn', (params: any) => ({
+        result: { value: { selector: `#${params.objectId}`, snippet: '<img src="a.png">' } },
+      }));
+      mockPage.setEvaluateResult('dom-facts', {
+        lang: 'en',
+        idCount: 2,
+        duplicateIds: [{ id: 'main', count: 2, element: { selector: 'div:nth-of-type(2)' } }],
+        textElements: [],
+      });
+    });
+
+    it('should combine AX tree and DOM checks with selectors', async () => {
+      const client = await mockPage.createCDPSession();
+
+      const result = await runAccessibilityAudit(mockPage as any, client);
+      const byId = Object.fromEntries(result.rules.map((rule) => [rule.id, rule]));
+
+      expect(byId['image-alt'].status).toBe('fail');
+      expect(byId['image-alt'].failures).toEqual([{ selector: '#obj-42', snippet: '<img src="a.png">' }]);
+      expect(byId['button-name'].status).toBe('pass');
+      expect(byId['duplicate-id'].failures[0].explanation).toBe('id "main" is used by 2 elements');
+      expect(byId['html-has-lang'].status).toBe('pass');
+      expect(byId['color-contrast'].status).toBe('not-applicable');
+      // 通过：button-name(10) + html-has-lang(7) + html-lang-valid(7)；失败：image-alt(10) + duplicate-id(3)
+      expect(result.score).toBe(65);
+    });
+
+    it('should omit skipped rules', async () => {
+      const client = await mockPage.createCDPSession();
+
+      const result = await runAccessibilityAudit(mockPage as any, client, ['image-alt', 'duplicate-id']);
+
+      expect(result.rules.map((rule) => rule.id)).not.toContain('image-alt');
+      expect(result.score).toBe(100);
+    });
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BestPracticesDomFacts,
+  PageSignals,
+  checkBestPractices,
+  runBestPracticesAudit,
+  startPageSignalCollection,
+} from '../../../src/cdp-handlers/best-practices-audit.js';
+import { compareVersions, findVulnerabilities } from '../../../src/cdp-handlers/vulnerable-libraries.js';
+import { createMockPage } from '../../helpers/mock-browser.js';
+
+function facts(overrides: Partial<BestPracticesDomFacts> = {}): BestPracticesDomFacts {
+  return { url: 'https://example.com/', images: [], libraries: [], ...overrides };
+}
+
+function signals(overrides: Partial<PageSignals> = {}): PageSignals {
+  return {
+    loadObserved: true,
+    navigatedAt: 0,
+    consoleErrors: [],
+    violations: [],
+    deprecations: [],
+    mixedContent: [],
+    ...overrides,
+  };
+}
+
+describe('best-practices-audit', () => {
+  describe('checkBestPractices', () => {
+    it('should pass a clean HTTPS page', () => {
+      const checks = checkBestPractices({ facts: facts(), signals: signals() });
+
+      for (const id of ['is-on-https', 'errors-in-console', 'deprecations', 'geolocation-on-start', 'notification-on-start']) {
+        expect(checks[id].checked, id).toBe(1);
+        expect(checks[id].failures, id).toEqual([]);
+      }
+      expect(checks['image-aspect-ratio'].checked).toBe(0);
+      expect(checks['no-vulnerable-libraries'].checked).toBe(0);
+    });
+
+    it('should flag insecure page, subresources and mixed content once per URL', () => {
+      const checks = checkBestPractices({
+        facts: facts({ url: 'http://example.com/' }),
+        signals: signals({ mixedContent: [{ insecureURL: 'http://cdn.example.com/a.js', resolutionStatus: 'MixedContentBlocked' }] }),
+        networkEntries: [
+          { requestId: '1', url: 'http://example.com/', method: 'GET', resourceType: 'Document', startedAt: 0 },
+          { requestId: '2', url: 'http://cdn.example.com/a.js', method: 'GET', resourceType: 'Script', startedAt: 0 },
+          { requestId: '3', url: 'http://localhost:3000/api', method: 'GET', resourceType: 'Fetch', startedAt: 0 },
+        ],
+      });
+
+      expect(checks['is-on-https'].failures).toEqual([
+        { selector: 'http://example.com/', explanation: 'Page is not served over HTTPS' },
+        { selector: 'http://cdn.example.com/a.js', explanation: 'Insecure Script request' },
+      ]);
+    });
+
+    it('should prefer ConsoleHandler logs over CDP replayed errors', () => {
+      const consoleLogs = [
+        { type: 'error' as const, text: 'Uncaught TypeError: x is undefined', timestamp: 1, url: 'https://example.com/app.js', lineNumber: 9 },
+        { type: 'warning' as const, text: 'ignored', timestamp: 1 },
+      ];
+
+      const fromHandler = checkBestPractices({
+        facts: facts(),
+        signals: signals({ consoleErrors: [{ text: 'replayed' }] }),
+        consoleLogs,
+      });
+      const fromReplay = checkBestPractices({ facts: facts(), signals: signals({ consoleErrors: [{ text: 'replayed' }] }) });
+
+      expect(fromHandler['errors-in-console'].failures).toEqual([
+        { selector: 'https://example.com/app.js:10', explanation: 'Uncaught TypeError: x is undefined' },
+      ]);
+      expect(fromReplay['errors-in-console'].failures).toEqual([{ selector: 'console', explanation: 'replayed' }]);
+    });
+
+    it('should report deprecations and permission requests on load', () => {
+      const checks = checkBestPractices({
+        facts: facts(),
+        signals: signals({
+          deprecations: [{ type: 'PrefixedStorageInfo', url: 'https://example.com/app.js', lineNumber: 0 }],
+          violations: [{ text: 'Only request geolocation information in response to a user gesture.' }],
+        }),
+      });
+
+      expect(checks.deprecations.failures[0]).toEqual({
+        selector: 'https://example.com/app.js:1',
+        explanation: 'Deprecated API: PrefixedStorageInfo',
+      });
+      expect(checks['geolocation-on-start'].failures).toHaveLength(1);
+      expect(checks['notification-on-start'].failures).toEqual([]);
+
+      // 未观察到页面加载时无法判断
+      const notObserved = checkBestPractices({ facts: facts(), signals: signals({ loadObserved: false }) });
+      expect(notObserved['geolocation-on-start'].checked).toBe(0);
+      expect(notObserved['errors-in-console'].checked).toBe(0);
+    });
+
+    it('should detect distorted images and vulnerable libraries', () => {
+      const checks = checkBestPractices({
+        facts: facts({
+          images: [
+            { element: { selector: 'img:nth-of-type(1)' }, displayedWidth: 200, displayedHeight: 100, naturalWidth: 400, naturalHeight: 200 },
+            { element: { selector: 'img:nth-of-type(2)' }, displayedWidth: 200, displayedHeight: 200, naturalWidth: 400, naturalHeight: 200 },
+          ],
+          libraries: [
+            { library: 'jquery', version: '3.4.1' },
+            { library: 'lodash', version: '4.17.21' },
+          ],
+        }),
+        signals: signals(),
+      });
+
+      expect(checks['image-aspect-ratio'].failures).toEqual([
+        { selector: 'img:nth-of-type(2)', explanation: 'Displayed 200x200 (1.00), actual 400x200 (2.00)' },
+      ]);
+      expect(checks['no-vulnerable-libraries'].checked).toBe(2);
+      expect(checks['no-vulnerable-libraries'].failures).toEqual([
+        { selector: 'jquery@3.4.1', explanation: 'CVE-2020-11022 (medium): XSS when passing HTML to DOM manipulation methods' },
+      ]);
+    });
+  });
+
+  describe('vulnerable-libraries', () => {
+    it('should compare versions numerically and honour lower bounds', () => {
+      expect(compareVersions('1.10.0', '1.9.1')).toBeGreaterThan(0);
+      expect(compareVersions('3.5.0-rc1', '3.5')).toBe(0);
+      expect(findVulnerabilities({ library: 'bootstrap', version: '4.1.0' }).map((v) => v.advisory)).toEqual([
+        'CVE-2019-8331',
+      ]);
+      expect(findVulnerabilities({ library: 'bootstrap', version: '3.4.1' })).toEqual([]);
+      expect(findVulnerabilities({ library: 'moment', version: '2.10.0' }).map((v) => v.advisory)).toEqual([
+        'CVE-2022-24785',
+      ]);
+    });
+  });
+
+  describe('runBestPracticesAudit', () => {
+    it('should collect replayed CDP signals and score rules', async () => {
+      const mockPage = createMockPage('https://example.com/');
+      mockPage.setEvaluateResult('bp-facts', facts({ libraries: [{ library: 'jquery', version: '1.8.3' }] }));
+
+      const collector = await startPageSignalCollection(mockPage as any);
+      const session = mockPage.getLastCDPSession();
+      session.trigger('Audits.issueAdded', {
+        issue: {
+          code: 'DeprecationIssue',
+          details: { deprecationIssueDetails: { type: 'UnloadHandler', sourceCodeLocation: { url: 'https://example.com/a.js', lineNumber: 4 } } },
+        },
+      });
+      session.trigger('Runtime.exceptionThrown', { exceptionDetails: { text: 'Uncaught', exception: { description: 'Error: boom' } } });
+      const collected = await collector.stop();
+
+      expect(session.isDetached()).toBe(true);
+      expect(collected.loadObserved).toBe(false);
+
+      const result = await runBestPracticesAudit(mockPage as any, { signals: collected }, ['image-aspect-ratio']);
+      const byId = Object.fromEntries(result.rules.map((rule) => [rule.id, rule]));
+
+      expect(byId['image-aspect-ratio']).toBeUndefined();
+      expect(byId['errors-in-console'].failures[0].explanation).toBe('Error: boom');
+      expect(byId.deprecations.status).toBe('fail');
+      expect(byId['geolocation-on-start'].status).toBe('not-applicable');
+      expect(byId['no-vulnerable-libraries'].failureCount).toBe(1);
+      // 通过：is-on-https(5)；失败：errors-in-console(1) + deprecations(5) + no-vulnerable-libraries(1)
+      expect(result.score).toBe(42);
+    });
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { CoverageHandler } from '../../../src/cdp-handlers/coverage-handler.js';
+import { startCoverageCollection, toCoverageEntries } from '../../../src/cdp-handlers/coverage-collector.js';
+import { BrowserManager } from '../../../src/browser-manager.js';
+import { MockPage, createMockPage } from '../../helpers/mock-browser.js';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { readFile, rm } from 'node:fs/promises';
+
+const appSource = 'function used() {}\nfunction unused() {}\nused();\n';
+const scriptCoverage = {
+  scriptId: '1',
+  url: 'https://example.com/app.js',
+  functions: [
+    { functionName: '', ranges: [{ startOffset: 0, endOffset: appSource.length, count: 1 }], isBlockCoverage: false },
+    { functionName: 'unused', ranges: [{ startOffset: 19, endOffset: 39, count: 0 }], isBlockCoverage: false },
+  ],
+};
+
+describe('CoverageHandler', () => {
+  let handler: CoverageHandler;
+  let mockPage: MockPage;
+
+  beforeEach(() => {
+    mockPage = createMockPage('http://example.com');
+    // 启用域时回放已加载的脚本与样式表
+    mockPage.setCDPResponse('Debugger.enable', () => {
+      const session = mockPage.getLastCDPSession();
+      session.trigger('Debugger.scriptParsed', { scriptId: '1', url: 'https://example.com/app.js', length: appSource.length });
+      session.trigger('Debugger.scriptParsed', { scriptId: '2', url: 'pptr://__puppeteer_evaluation_script__' });
+      return {};
+    });
+    mockPage.setCDPResponse('CSS.enable', () => {
+      const session = mockPage.getLastCDPSession();
+      session.trigger('CSS.styleSheetAdded', {
+        header: { styleSheetId: 's1', sourceURL: 'https://example.com/app.css', origin: 'regular', length: 1000 },
+      });
+      session.trigger('CSS.styleSheetAdded', { header: { styleSheetId: 's2', sourceURL: '', origin: 'user-agent', length: 5000 } });
+      return {};
+    });
+    mockPage.setCDPResponse('Profiler.takePreciseCoverage', () => ({
+      result: [scriptCoverage, { scriptId: '2', url: 'pptr://__puppeteer_evaluation_script__', functions: [] }],
+    }));
+    mockPage.setCDPResponse('Debugger.getScriptSource', () => ({ scriptSource: appSource }));
+    mockPage.setCDPResponse('CSS.stopRuleUsageTracking', () => ({
+      ruleUsage: [
+        { styleSheetId: 's1', startOffset: 0, endOffset: 250, used: true },
+        { styleSheetId: 's1', startOffset: 250, endOffset: 1000, used: false },
+        { styleSheetId: 's2', startOffset: 0, endOffset: 5000, used: true },
+      ],
+    }));
+    const mockBrowserManager = {
+      getPage: vi.fn().mockResolvedValue(mockPage),
+    };
+    handler = new CoverageHandler(mockBrowserManager as unknown as BrowserManager);
+  });
+
+  it('should report used and unused bytes per script and stylesheet', async () => {
+    const result = await handler.collectCoverage({ reload: true });
+
+    const session = mockPage.getLastCDPSession();
+    const methods = session.getSentCommands().map((c: { method: string }) => c.method);
+    expect(methods).toEqual([
+      'Profiler.enable',
+      'Profiler.startPreciseCoverage',
+      'Debugger.enable',
+      'Debugger.setSkipAllPauses',
+      'DOM.enable',
+      'CSS.enable',
+      'CSS.startRuleUsageTracking',
+      'Profiler.takePreciseCoverage',
+      'CSS.stopRuleUsageTracking',
+    ]);
+    expect(session.isDetached()).toBe(true);
+    expect(mockPage.getActions().map((a) => a.action)).toContain('reload');
+
+    expect(result.entries).toEqual([
+      { type: 'css', url: 'https://example.com/app.css', totalBytes: 1000, usedBytes: 250, unusedBytes: 750, unusedPercent: 75 },
+      {
+        type: 'js',
+        url: 'https://example.com/app.js',
+        totalBytes: appSource.length,
+        usedBytes: appSource.length - 20,
+        unusedBytes: 20,
+        unusedPercent: 41.7,
+      },
+    ]);
+    expect(result.summary.js).toMatchObject({ count: 1, unusedBytes: 20 });
+    expect(result.summary.css).toMatchObject({ count: 1, unusedBytes: 750 });
+    expect(result.export).toEqual({ mode: 'none' });
+    expect(result.limitations).toBeUndefined();
+  });
+
+  it('should export Istanbul coverage for JavaScript', async () => {
+    const filePath = join(tmpdir(), `coverage-${Date.now()}.json`);
+
+    try {
+      const result = await handler.collectCoverage({
+        types: ['js'],
+        steps: [{ action: 'click', selector: '#open' }],
+        settleMs: 0,
+        export: { format: 'istanbul', mode: 'file', filePath },
+      });
+
+      expect(result.summary.css).toBeUndefined();
+      expect(result.export).toMatchObject({ mode: 'file', format: 'istanbul', filePath });
+      expect(result.limitations).toEqual([
+        'coverage started after the page loaded; code that only ran during load may be reported as unused (set reload to include it)',
+      ]);
+
+      const coverageMap = JSON.parse(await readFile(filePath, 'utf8'));
+      expect(Object.keys(coverageMap)).toEqual(['https://example.com/app.js']);
+      expect(coverageMap['https://example.com/app.js'].s).toEqual({ '0': 1, '1': 0, '2': 1 });
+      expect(coverageMap['https://example.com/app.js'].fnMap['0'].name).toBe('unused');
+    } finally {
+      await rm(filePath, { force: true });
+    }
+  });
+
+  it('should stop coverage and detach when a scenario step fails', async () => {
+    mockPage.setWaitForSelectorResult('#missing', false);
+
+    await expect(
+      handler.collectCoverage({ steps: [{ action: 'click', selector: '#missing' }], settleMs: 0 })
+    ).rejects.toThrow('Scenario step 1 (click) failed: Element not found: #missing');
+
+    expect(mockPage.getLastCDPSession().isDetached()).toBe(true);
+  });
+
+  it('should collect byte totals without the debugger in bytes-only mode', async () => {
+    const collector = await startCoverageCollection(mockPage as any, { js: true, css: false, bytesOnly: true });
+    const collected = await collector.stop();
+
+    const session = mockPage.getLastCDPSession();
+    expect(session.getSentCommands()).toEqual([
+      { method: 'Profiler.enable', params: undefined },
+      { method: 'Profiler.startPreciseCoverage', params: { callCount: false, detailed: false } },
+      { method: 'Profiler.takePreciseCoverage', params: undefined },
+    ]);
+    // 脚本 URL 与长度取自覆盖率结果，puppeteer 注入的脚本被排除
+    expect(toCoverageEntries(collected)).toEqual([
+      { type: 'js', url: 'https://example.com/app.js', totalBytes: appSource.length, usedBytes: 28, unusedBytes: 20, unusedPercent: 41.7 },
+    ]);
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { EmulationHandler } from '../../../src/cdp-handlers/emulation-handler.js';
+import { BrowserManager } from '../../../src/browser-manager.js';
+import { MockPage, createMockPage } from '../../helpers/mock-browser.js';
+
+describe('EmulationHandler', () => {
+  let handler: EmulationHandler;
+  let mockBrowserManager: any;
+  let mockPage: MockPage;
+
+  beforeEach(() => {
+    mockPage = createMockPage('http://example.com');
+    mockBrowserManager = {
+      getPage: vi.fn().mockResolvedValue(mockPage),
+      getThrottling: vi.fn().mockReturnValue(undefined),
+      setThrottling: vi.fn().mockResolvedValue(undefined),
+      getEmulation: vi.fn().mockReturnValue(undefined),
+      setEmulation: vi.fn().mockResolvedValue(undefined),
+    };
+
+    handler = new EmulationHandler(mockBrowserManager as unknown as BrowserManager);
+  });
+
+  describe('setThrottling', () => {
+    it('should resolve and persist the throttling profile', async () => {
+      const result = await handler.setThrottling({ url: 'http://example.com', profile: 'fast-3g', cpuSlowdown: 2 });
+
+      expect(result.throttling).toMatchObject({ profile: 'fast-3g', latencyMs: 562.5, cpuSlowdown: 2 });
+      expect(mockBrowserManager.setThrottling).toHaveBeenCalledWith(mockPage, result.throttling);
+    });
+
+    it('should validate options before touching the page', async () => {
+      await expect(handler.setThrottling({ profile: 'custom' })).rejects.toThrow('custom throttling requires');
+      expect(mockBrowserManager.getPage).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('emulateDevice', () => {
+    it('should apply a device preset and report the previous emulation', async () => {
+      const previous = { viewport: { width: 800, height: 600, deviceScaleFactor: 1, isMobile: false, hasTouch: false, isLandscape: false } };
+      mockBrowserManager.getEmulation.mockReturnValue(previous);
+
+      const result = await handler.emulateDevice({ device: 'iPhone 13', reload: true });
+
+      expect(result.emulation?.device).toBe('iPhone 13');
+      expect(result.previous).toBe(previous);
+      expect(result.reloaded).toBe(true);
+      expect(mockBrowserManager.setEmulation).toHaveBeenCalledWith(mockPage, result.emulation);
+      expect(mockPage.getActions().some((a) => a.action === 'reload')).toBe(true);
+    });
+
+    it('should reset to the default viewport', async () => {
+      const result = await handler.emulateDevice({ reset: true });
+
+      expect(result.emulation).toBeUndefined();
+      expect(result.reloaded).toBe(false);
+      expect(mockBrowserManager.setEmulation).toHaveBeenCalledWith(mockPage, null);
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { HarHandler } from '../../../src/cdp-handlers/har-handler.js';
+import { BrowserManager } from '../../../src/browser-manager.js';
+import { NetworkHandler } from '../../../src/cdp-handlers/network-handler.js';
+import { PerformanceHandler } from '../../../src/cdp-handlers/performance-handler.js';
+import { MockPage, createMockPage } from '../../helpers/mock-browser.js';
+import * as harUtils from '../../../src/utils/har-utils.js';
+
+vi.mock('../../../src/utils/har-utils.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../../src/utils/har-utils.js')>();
+  return {
+    ...actual,
+    saveHarToFile: vi.fn(),
+  };
+});
+
+describe('HarHandler', () => {
+  let handler: HarHandler;
+  let mockBrowserManager: any;
+  let mockNetworkHandler: any;
+  let mockPerformanceHandler: any;
+  let mockPage: MockPage;
+
+  const entry = (id: string, overrides: Record<string, unknown> = {}) => ({
+    requestId: id,
+    url: `http://example.com/${id}`,
+    method: 'GET',
+    resourceType: 'XHR',
+    startedAt: Date.now(),
+    duration: 10,
+    status: 200,
+    finished: true,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    mockPage = createMockPage('http://example.com');
+    mockBrowserManager = {
+      getPage: vi.fn().mockResolvedValue(mockPage),
+    };
+    mockNetworkHandler = {
+      isCapturing: vi.fn().mockReturnValue(true),
+      getEntries: vi.fn().mockResolvedValue([entry('1'), entry('2', { dataLength: 1000 })]),
+      getResponseBody: vi.fn().mockResolvedValue({ body: '{"ok":true}', base64Encoded: false }),
+    };
+    mockPerformanceHandler = {
+      getPerformanceSummary: vi.fn().mockResolvedValue({ domContentLoaded: 320.4, loadTime: 900.6 }),
+    };
+
+    handler = new HarHandler(
+      mockBrowserManager as unknown as BrowserManager,
+      mockNetworkHandler as unknown as NetworkHandler,
+      mockPerformanceHandler as unknown as PerformanceHandler
+    );
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should return small HAR inline in auto mode', async () => {
+    const result = await handler.exportHar({ urlPattern: '/api/' });
+
+    expect(mockNetworkHandler.getEntries).toHaveBeenCalledWith(mockPage, '/api/');
+    expect(result.entryCount).toBe(2);
+    expect(result.pageTimings).toEqual({ onContentLoad: 320, onLoad: 901 });
+    expect(result.export.mode).toBe('inline');
+    expect(result.limitations).toBeUndefined();
+
+    const har = JSON.parse(result.export.inline!);
+    expect(har.log.entries).toHaveLength(2);
+    expect(har.log.pages[0].pageTimings.onLoad).toBe(901);
+    expect(harUtils.saveHarToFile).not.toHaveBeenCalled();
+  });
+
+  it('should save to file when exceeding inline threshold in auto mode', async () => {
+    vi.mocked(harUtils.saveHarToFile).mockResolvedValue({ filePath: './har/page.har', size: 2048 });
+
+    const result = await handler.exportHar({ maxInlineBytes: 10 });
+
+    expect(result.export).toEqual({ mode: 'file', filePath: './har/page.har', fileBytes: 2048 });
+  });
+
+  it('should truncate inline output and record limitation', async () => {
+    const result = await handler.exportHar({ outputMode: 'inline', maxInlineBytes: 50 });
+
+    expect(result.export.truncated).toBe(true);
+    expect(result.export.inlineBytes).toBeLessThanOrEqual(50);
+    expect(result.limitations?.[0]).toContain('inline HAR truncated');
+  });
+
+  it('should include response bodies up to maxBodyBytes', async () => {
+    const result = await handler.exportHar({ includeBodies: true, maxBodyBytes: 100 });
+
+    expect(result.bodiesIncluded).toBe(1);
+    expect(mockNetworkHandler.getResponseBody).toHaveBeenCalledTimes(1);
+    const har = JSON.parse(result.export.inline!);
+    expect(har.log.entries[0].response.content.text).toBe('{"ok":true}');
+    expect(har.log.entries[1].response.content.comment).toContain('exceeds maxBodyBytes');
+  });
+
+  it('should note when capture had not started and timings are unavailable', async () => {
+    mockNetworkHandler.isCapturing.mockReturnValue(false);
+    mockNetworkHandler.getEntries.mockResolvedValue([]);
+    mockPerformanceHandler.getPerformanceSummary.mockRejectedValue(new Error('no navigation entry'));
+
+    const result = await handler.exportHar({});
+
+    expect(result.pageTimings).toEqual({ onContentLoad: -1, onLoad: -1 });
+    expect(result.limitations).toHaveLength(2);
+    expect(result.limitations?.[1]).toContain('no navigation entry');
+  });
+});
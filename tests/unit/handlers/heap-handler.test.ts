@@ -99,6 +99,21 @@ describe('HeapHandler', () => {
         expect(result.summary.topNodes?.[1].selfSizeBytes).toBe(2000);
     });
 
+    it('should capture and parse snapshots larger than 200MB with default limits', async () => {
+        // 以空白填充模拟大快照：落盘后由流式解析器逐块读取
+        const padding = ' '.repeat(1024 * 1024);
+        (mockPage as any).setHeapSnapshotChunks([
+            ...new Array<string>(210).fill(padding),
+            buildMinimalHeapSnapshotJson(),
+        ]);
+
+        const result = await handler.getHeapSnapshot({ url: 'http://example.com', topN: 2 });
+
+        expect(result.limitations?.some((l) => l.includes('maxSnapshotBytes') || l.includes('maxParseBytes'))).toBeFalsy();
+        expect(result.summary.parsed).toBe(true);
+        expect(result.summary.totalSizeBytes).toBe(8000);
+    }, 60000);
+
     it('should export to file when mode=file and keep file on disk', async () => {
         const raw = buildMinimalHeapSnapshotJson();
         (mockPage as any).setHeapSnapshotRawJson(raw);
@@ -129,6 +144,250 @@ describe('HeapHandler', () => {
             });
         }
     });
-});
 
+    it('should compare the latest exported snapshot with a fresh capture', async () => {
+        const raw = buildMinimalHeapSnapshotJson();
+        (mockPage as any).setHeapSnapshotRawJson(raw);
+
+        const filePath = join(tmpdir(), `heap-handler-compare-${Date.now()}.heapsnapshot`);
+        const grown = JSON.parse(raw);
+        grown.snapshot.node_count = 4;
+        grown.nodes.push(3, 1, 103, 4000); // 新增 Foo object
+
+        try {
+            await handler.getHeapSnapshot({ url: 'http://example.com', export: { mode: 'file', filePath } });
+            (mockPage as any).setHeapSnapshotRawJson(JSON.stringify(grown));
+
+            const result = await handler.compareHeapSnapshots({ url: 'http://example.com', before: 'latest' });
+
+            expect(result.before.source).toBe(filePath);
+            expect(result.after.source).toBe('captured');
+            expect(result.totalNodesDelta).toBe(1);
+            expect(result.totalSizeDeltaBytes).toBe(4000);
+            expect(result.topGrowing[0]).toMatchObject({ name: 'Foo', newCount: 1, allocatedBytes: 4000 });
+            expect(result.newObjects).toEqual([
+                { id: 103, name: 'Foo', className: 'Foo', type: 'object', selfSizeBytes: 4000 },
+            ]);
+            expect(result.limitations).toBeUndefined();
+        } finally {
+            await rm(filePath, { force: true }).catch(() => {
+                // ignore
+            });
+        }
+    });
+
+    it('should fail clearly when no exported snapshot is stored for "latest"', async () => {
+        await expect(handler.compareHeapSnapshots({ before: 'latest' })).rejects.toThrow(
+            'No exported heap snapshot stored'
+        );
+    });
+
+    it('should find retainer paths and retained size for a constructor', async () => {
+        (mockPage as any).setHeapSnapshotRawJson(
+            JSON.stringify({
+                snapshot: {
+                    meta: {
+                        node_fields: ['type', 'name', 'id', 'self_size', 'edge_count'],
+                        node_types: [['synthetic', 'object'], 'string', 'number', 'number', 'number'],
+                        edge_fields: ['type', 'name_or_index', 'to_node'],
+                        edge_types: [['element', 'property'], 'string_or_number', 'node'],
+                    },
+                    node_count: 3,
+                },
+                strings: ['', 'Window', 'Foo', 'foo'],
+                nodes: [
+                    0, 0, 1, 0, 1, // (root)
+                    1, 1, 2, 10, 1, // Window
+                    1, 2, 3, 4000, 0, // Foo
+                ],
+                edges: [
+                    0, 1, 5, // root[1] → Window
+                    1, 3, 10, // Window.foo → Foo
+                ],
+            })
+        );
+
+        const result = await handler.findRetainerPaths({ url: 'http://example.com', constructorName: 'Foo' });
+
+        expect(result.source).toBe('captured');
+        expect(result.constructorSummary).toEqual({ name: 'Foo', count: 1, selfSizeBytes: 4000, retainedSizeBytes: 4000 });
+        expect(result.nodes[0]).toMatchObject({ id: 3, retainedSizeBytes: 4000, distance: 2, dominator: { name: 'Window' } });
+        expect(result.nodes[0].retainerPaths.map((path) => path.text)).toEqual(['Window.foo → Foo @3']);
+        expect(mockPage.getLastCDPSession().isDetached()).toBe(true);
+    });
+
+    it('should require a node id or constructor name for retainer paths', async () => {
+        await expect(handler.findRetainerPaths({})).rejects.toThrow('Either nodeId or constructorName is required');
+    });
+
+    it('should find detached DOM trees marked by the detachedness field', async () => {
+        (mockPage as any).setHeapSnapshotRawJson(
+            JSON.stringify({
+                snapshot: {
+                    meta: {
+                        node_fields: ['type', 'name', 'id', 'self_size', 'edge_count', 'detachedness'],
+                        node_types: [['synthetic', 'object', 'native'], 'string', 'number', 'number', 'number', 'number'],
+                        edge_fields: ['type', 'name_or_index', 'to_node'],
+                        edge_types: [['element', 'property'], 'string_or_number', 'node'],
+                    },
+                    node_count: 4,
+                },
+                strings: ['', 'Window', "<div class='modal'>", 'cache', '<p>'],
+                nodes: [
+                    0, 0, 1, 0, 1, 0, // (root)
+                    1, 1, 2, 10, 1, 0, // Window
+                    2, 2, 3, 300, 1, 2, // <div class='modal'>（detached）
+                    2, 4, 5, 100, 0, 2, // <p>（detached）
+                ],
+                edges: [
+                    0, 1, 6, // root[1] → Window
+                    1, 3, 12, // Window.cache → div
+                    0, 0, 18, // div[0] → p
+                ],
+            })
+        );
+
+        const result = await handler.findDetachedDom({ url: 'http://example.com' });
 
+        expect(result.detachedNodes).toBe(2);
+        expect(result.detachedSelfSizeBytes).toBe(400);
+        expect(result.totalTrees).toBe(1);
+        expect(result.byTag).toEqual([
+            { tag: 'div', count: 1, selfSizeBytes: 300 },
+            { tag: 'p', count: 1, selfSizeBytes: 100 },
+        ]);
+        expect(result.trees[0]).toMatchObject({
+            root: { id: 3, tag: 'div' },
+            nodeCount: 2,
+            tags: { div: 1, p: 1 },
+            retainedSizeBytes: 400,
+        });
+        expect(result.trees[0].retainerPaths[0].text).toBe("Window.cache → <div class='modal'> @3");
+        expect(result.limitations).toBeUndefined();
+    });
+
+    it('should run the scenario per iteration and flag monotonically growing constructors', async () => {
+        let snapshotIndex = 0;
+        mockPage.setCDPResponse('HeapProfiler.takeHeapSnapshot', () => {
+            // 每次迭代泄漏一个 Foo，Bar 只在第一次迭代后增长
+            const leaked = snapshotIndex++;
+            const nodes = [3, 2, 1, 100];
+            for (let i = 0; i <= leaked; i++) nodes.push(3, 1, 10 + i, 50);
+            if (leaked > 0) nodes.push(3, 2, 99, 100);
+            mockPage.getLastCDPSession().trigger('HeapProfiler.addHeapSnapshotChunk', {
+                chunk: JSON.stringify({
+                    snapshot: {
+                        meta: {
+                            node_fields: ['type', 'name', 'id', 'self_size'],
+                            node_types: [['hidden', 'array', 'string', 'object', 'native'], 'string', 'number', 'number'],
+                        },
+                        node_count: nodes.length / 4,
+                    },
+                    strings: ['(root)', 'Foo', 'Bar'],
+                    nodes,
+                }),
+            });
+            return {};
+        });
+
+        const result = await handler.detectMemoryLeak({
+            url: 'http://example.com',
+            steps: [{ action: 'click', selector: '#open' }, { action: 'press', key: 'Escape' }],
+            iterations: 3,
+            warmupIterations: 1,
+            settleMs: 0,
+        });
+
+        expect(result.leakDetected).toBe(true);
+        expect(result.suspects).toHaveLength(1);
+        expect(result.suspects[0]).toMatchObject({ name: 'Foo', counts: [1, 2, 3, 4], countPerIteration: 1 });
+        expect(result.heapSizesBytes).toEqual([150, 300, 350, 400]);
+        expect(mockPage.getActions().filter((a) => a.action === 'click')).toHaveLength(4);
+
+        const commands = mockPage.getLastCDPSession().getSentCommands().map((c: any) => c.method);
+        expect(commands.filter((m: string) => m === 'HeapProfiler.collectGarbage')).toHaveLength(8);
+        expect(mockPage.getLastCDPSession().isDetached()).toBe(true);
+    });
+
+    it('should report which scenario step failed', async () => {
+        mockPage.setWaitForSelectorResult('#missing', false);
+
+        await expect(
+            handler.detectMemoryLeak({ steps: [{ action: 'click', selector: '#missing' }], settleMs: 0 })
+        ).rejects.toThrow('Scenario step 1 (click) failed: Element not found: #missing');
+    });
+
+    it('should return live object counts, DOM counters and renderer memory in analyzeMemory', async () => {
+        const counts: Record<string, number> = { Array: 42, Promise: 3 };
+        mockPage.setCDPResponse('Runtime.getHeapUsage', () => ({
+            usedSize: 1000,
+            totalSize: 4000,
+            embedderHeapUsedSize: 100,
+            backingStorageSize: 20,
+        }));
+        mockPage.setCDPResponse('Runtime.evaluate', ({ expression }) => {
+            const name = /^\((.+)\)\.prototype$/.exec(expression)?.[1] ?? '';
+            return name in counts
+                ? { result: { type: 'object', objectId: `proto:${name}` } }
+                : { result: { type: 'undefined' }, exceptionDetails: { text: `${name} is not defined` } };
+        });
+        mockPage.setCDPResponse('Runtime.queryObjects', ({ prototypeObjectId }) => ({
+            objects: { type: 'object', objectId: `objects:${prototypeObjectId.slice('proto:'.length)}` },
+        }));
+        mockPage.setCDPResponse('Runtime.callFunctionOn', ({ objectId }) => ({
+            result: { type: 'number', value: counts[objectId.slice('objects:'.length)] },
+        }));
+        mockPage.setCDPResponse('Memory.getDOMCounters', () => ({ documents: 2, nodes: 150, jsEventListeners: 7 }));
+
+        const browserSession = {
+            send: vi.fn().mockResolvedValue({
+                processInfo: [
+                    { type: 'browser', id: 1, cpuTime: 3 },
+                    { type: 'renderer', id: process.pid, cpuTime: 1.5 },
+                ],
+            }),
+            detach: vi.fn().mockResolvedValue(undefined),
+        };
+        (mockPage as any).browser = () => ({
+            target: () => ({ createCDPSession: async () => browserSession }),
+            process: () => ({}),
+        });
+
+        const result = await handler.analyzeMemory({
+            url: 'http://example.com',
+            constructors: ['Array', 'Promise', 'Missing'],
+        });
+
+        expect(result.heapUsed).toBe(1000);
+        expect(result.heapTotal).toBe(4000);
+        expect(result.external).toBe(120);
+        expect(result.objectCounts).toEqual({ Array: 42, Promise: 3 });
+        expect(result.domCounters).toEqual({ documents: 2, nodes: 150, jsEventListeners: 7 });
+        expect(result.limitations).toContain('cannot resolve prototype of Missing; object count skipped');
+        expect(browserSession.send).toHaveBeenCalledWith('SystemInfo.getProcessInfo');
+        expect(browserSession.detach).toHaveBeenCalled();
+
+        const renderer = result.processes?.find((p) => p.type === 'renderer');
+        expect(renderer).toMatchObject({ pid: process.pid, cpuTimeSeconds: 1.5 });
+        if (process.platform === 'linux') {
+            expect(renderer?.rssBytes).toBeGreaterThan(0);
+            expect(result.rendererRssTotal).toBe(renderer?.rssBytes);
+            expect(result.rss).toBe(result.rendererRssTotal);
+        }
+
+        const methods = mockPage.getLastCDPSession().getSentCommands().map((c: { method: string }) => c.method);
+        expect(methods).toContain('Runtime.releaseObjectGroup');
+        expect(mockPage.getLastCDPSession().isDetached()).toBe(true);
+    });
+
+    it('should report limitations when process info is unavailable in analyzeMemory', async () => {
+        const result = await handler.analyzeMemory({ url: 'http://example.com', constructors: ['Array'] });
+
+        expect(result.heapUsed).toBe(1000000);
+        expect(result.rendererRssTotal).toBe(0);
+        expect(result.rss).toBe(0);
+        expect(result.processes).toBeUndefined();
+        expect(result.limitations?.some((l) => l.startsWith('SystemInfo.getProcessInfo failed'))).toBe(true);
+        expect(result.limitations).toContain('external memory is not reported by this browser version; external is 0');
+    });
+});
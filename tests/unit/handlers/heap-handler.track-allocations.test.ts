@@ -115,6 +115,62 @@ describe('HeapHandler.trackAllocations', () => {
       });
     }
   });
-});
 
+  it('should use the sampling heap profiler and export a .heapprofile in sampling mode', async () => {
+    vi.useFakeTimers();
+    const profile = {
+      head: {
+        id: 1,
+        callFrame: { functionName: '(root)', scriptId: '0', url: '', lineNumber: -1, columnNumber: -1 },
+        selfSize: 0,
+        children: [
+          {
+            id: 2,
+            callFrame: { functionName: 'buildList', scriptId: '1', url: 'app.js', lineNumber: 9, columnNumber: 2 },
+            selfSize: 4096,
+            children: [],
+          },
+        ],
+      },
+      samples: [{ nodeId: 2, size: 4096, ordinal: 1 }],
+    };
+    mockPage.setCDPResponse('HeapProfiler.stopSampling', () => ({ profile }));
+
+    const filePath = join(tmpdir(), `alloc-sampling-${Date.now()}.heapprofile`);
+
+    try {
+      const promise = handler.trackAllocations({
+        url: 'http://example.com',
+        duration: 1000,
+        mode: 'sampling',
+        samplingInterval: 1024,
+        export: { mode: 'file', filePath },
+      });
+
+      await vi.advanceTimersByTimeAsync(1000);
+      const result = await promise;
+
+      const methods = mockPage.getLastCDPSession().getSentCommands().map((c: { method: string }) => c.method);
+      expect(methods).toContain('HeapProfiler.startSampling');
+      expect(methods).not.toContain('HeapProfiler.startTrackingHeapObjects');
+      expect(methods).not.toContain('HeapProfiler.takeHeapSnapshot');
+      expect(
+        mockPage.getLastCDPSession().getSentCommands().find((c: { method: string }) => c.method === 'HeapProfiler.startSampling')
+          ?.params
+      ).toEqual({ samplingInterval: 1024 });
+
+      expect(result.mode).toBe('sampling');
+      expect(result.summary?.totalAllocatedBytes).toBe(4096);
+      expect(result.summary?.topFunctionsBySelf?.[0]).toMatchObject({ functionName: 'buildList', url: 'app.js', lineNumber: 10 });
+      expect(result.allocations[0]?.stackTrace).toEqual(['buildList (app.js:10:3)']);
+      expect(result.totalAllocated).toBe(4096);
 
+      expect(result.export?.filePath).toBe(filePath);
+      expect(JSON.parse(await readFile(filePath, 'utf8'))).toEqual(profile);
+    } finally {
+      await rm(filePath, { force: true }).catch(() => {
+        // ignore
+      });
+    }
+  });
+});
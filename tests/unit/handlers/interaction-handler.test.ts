@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { InteractionHandler } from '../../../src/cdp-handlers/interaction-handler.js';
+import { BrowserManager } from '../../../src/browser-manager.js';
+import { MockPage, createMockPage } from '../../helpers/mock-browser.js';
+
+describe('InteractionHandler', () => {
+  let handler: InteractionHandler;
+  let mockBrowserManager: any;
+  let mockPage: MockPage;
+
+  beforeEach(() => {
+    mockPage = createMockPage('http://example.com');
+    mockBrowserManager = {
+      getPage: vi.fn().mockResolvedValue(mockPage),
+    };
+
+    handler = new InteractionHandler(mockBrowserManager as unknown as BrowserManager);
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('click', () => {
+    it('should click element and report no navigation', async () => {
+      const result = await handler.click({ selector: '#submit', settleMs: 0 });
+
+      expect(mockBrowserManager.getPage).toHaveBeenCalledWith(undefined);
+      expect(mockPage.getActions()).toContainEqual({
+        action: 'click',
+        args: ['#submit', { button: 'left', clickCount: 1 }],
+      });
+      expect(result.action).toBe('click');
+      expect(result.selector).toBe('#submit');
+      expect(result.navigation).toBeUndefined();
+      expect(result.consoleErrors).toEqual([]);
+    });
+
+    it('should throw readable error when element is missing', async () => {
+      mockPage.setWaitForSelectorResult('#missing', false);
+
+      await expect(handler.click({ selector: '#missing', settleMs: 0 })).rejects.toThrow(
+        'Element not found: #missing'
+      );
+    });
+
+    it('should capture console errors and navigation during the action', async () => {
+      vi.spyOn(mockPage, 'click').mockImplementation(async () => {
+        mockPage.triggerConsole('error', 'Boom');
+        mockPage.triggerConsole('log', 'ignored');
+        mockPage.triggerRequestFailed('http://example.com/api');
+        mockPage.triggerNavigation('http://example.com/next');
+      });
+
+      const result = await handler.click({ selector: 'a', settleMs: 0 });
+
+      expect(result.consoleErrors.map((e) => e.text)).toEqual([
+        'Boom',
+        'Request failed: http://example.com/api',
+      ]);
+      expect(result.navigation).toEqual({
+        from: 'http://example.com',
+        to: 'http://example.com/next',
+        urls: ['http://example.com/next'],
+      });
+      expect(result.url).toBe('http://example.com/next');
+    });
+
+    it('should remove listeners after the action', async () => {
+      await handler.click({ selector: '#submit', settleMs: 0 });
+
+      expect(mockPage.listenerCount('console')).toBe(0);
+      expect(mockPage.listenerCount('framenavigated')).toBe(0);
+    });
+  });
+
+  describe('typeText', () => {
+    it('should clear, type and press Enter', async () => {
+      const result = await handler.typeText({
+        selector: '#q',
+        text: 'hello',
+        clear: true,
+        pressEnter: true,
+        settleMs: 0,
+      });
+
+      const actions = mockPage.getActions().map((a) => a.action);
+      expect(actions).toEqual(['$eval', 'type', 'keyboard.press']);
+      expect(result.details).toEqual({ typedLength: 5 });
+    });
+  });
+
+  describe('fillForm', () => {
+    it('should fill text inputs, checkboxes and selects', async () => {
+      mockPage.setEvalResult('#name', { tagName: 'input', type: 'text', checked: false });
+      mockPage.setEvalResult('#agree', { tagName: 'input', type: 'checkbox', checked: false });
+      mockPage.setEvalResult('#newsletter', { tagName: 'input', type: 'checkbox', checked: false });
+      mockPage.setEvalResult('#country', { tagName: 'select', type: 'select-one', checked: false });
+
+      const result = await handler.fillForm({
+        fields: { '#name': 'Alice', '#agree': true, '#newsletter': false, '#country': 'cn' },
+        submitSelector: '#submit',
+        settleMs: 0,
+      });
+
+      const actions = mockPage.getActions();
+      expect(actions).toContainEqual({ action: 'type', args: ['#name', 'Alice', undefined] });
+      expect(actions).toContainEqual({ action: 'click', args: ['#agree', undefined] });
+      expect(actions).not.toContainEqual({ action: 'click', args: ['#newsletter', undefined] });
+      expect(actions).toContainEqual({ action: 'select', args: ['#country', 'cn'] });
+      expect(actions).toContainEqual({ action: 'click', args: ['#submit', undefined] });
+      expect(result.details).toEqual({
+        filled: ['#name', '#agree', '#newsletter', '#country'],
+        submitted: true,
+      });
+    });
+  });
+
+  describe('selectOption', () => {
+    it('should report missing values', async () => {
+      vi.spyOn(mockPage, 'select').mockResolvedValue(['a']);
+
+      const result = await handler.selectOption({
+        selector: 'select',
+        values: ['a', 'b'],
+        settleMs: 0,
+      });
+
+      expect(result.details).toEqual({ selected: ['a'], missing: ['b'] });
+    });
+  });
+
+  describe('pressKey', () => {
+    it('should press key combinations with modifiers', async () => {
+      await handler.pressKey({ key: 'Control+Shift+A', selector: '#editor', settleMs: 0 });
+
+      expect(mockPage.getActions()).toEqual([
+        { action: 'focus', args: ['#editor'] },
+        { action: 'keyboard.down', args: ['Control'] },
+        { action: 'keyboard.down', args: ['Shift'] },
+        { action: 'keyboard.press', args: ['A'] },
+        { action: 'keyboard.up', args: ['Shift'] },
+        { action: 'keyboard.up', args: ['Control'] },
+      ]);
+    });
+
+    it('should release modifiers when the key press fails', async () => {
+      vi.spyOn(mockPage.keyboard, 'press').mockRejectedValue(new Error('Unknown key: Foo'));
+
+      await expect(
+        handler.pressKey({ key: 'Control+Shift+Foo', settleMs: 0 })
+      ).rejects.toThrow('Unknown key: Foo');
+
+      expect(mockPage.getActions()).toEqual([
+        { action: 'keyboard.down', args: ['Control'] },
+        { action: 'keyboard.down', args: ['Shift'] },
+        { action: 'keyboard.up', args: ['Shift'] },
+        { action: 'keyboard.up', args: ['Control'] },
+      ]);
+    });
+  });
+
+  describe('scroll', () => {
+    it('should return scroll position', async () => {
+      const position = { scrollX: 0, scrollY: 400, scrollHeight: 2000, viewportHeight: 800 };
+      vi.spyOn(mockPage, 'evaluate').mockResolvedValue(position);
+
+      const result = await handler.scroll({ deltaY: 400, settleMs: 0 });
+
+      expect(result.details).toEqual(position);
+    });
+  });
+});
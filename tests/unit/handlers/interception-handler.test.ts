@@ -0,0 +1,185 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { InterceptionHandler } from '../../../src/cdp-handlers/interception-handler.js';
+import { BrowserManager } from '../../../src/browser-manager.js';
+import { MockPage, createMockPage } from '../../helpers/mock-browser.js';
+
+describe('InterceptionHandler', () => {
+  let handler: InterceptionHandler;
+  let mockBrowserManager: any;
+  let mockPage: MockPage;
+
+  const pause = (session: any, requestId: string, url: string, extra: Record<string, unknown> = {}) => {
+    session.trigger('Fetch.requestPaused', {
+      requestId,
+      request: { url, method: 'GET', headers: { Accept: '*/*', 'X-Debug': '1' } },
+      ...extra,
+    });
+  };
+
+  const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+  const lastCommand = (session: any) => {
+    const commands = session.getSentCommands();
+    return commands[commands.length - 1];
+  };
+
+  beforeEach(() => {
+    mockPage = createMockPage('http://example.com');
+    mockBrowserManager = {
+      getPage: vi.fn().mockResolvedValue(mockPage),
+      onPageClosing: vi.fn(),
+    };
+
+    handler = new InterceptionHandler(mockBrowserManager as unknown as BrowserManager);
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should create a single Fetch session for concurrent rule additions', async () => {
+    const createSession = vi.spyOn(mockPage, 'createCDPSession');
+
+    const [, second] = await Promise.all([
+      handler.addRule({ urlPattern: '*/api/a*', action: 'abort' }),
+      handler.addRule({ urlPattern: '*/api/b*', action: 'abort' }),
+    ]);
+
+    expect(createSession).toHaveBeenCalledTimes(1);
+    expect(second.rules).toHaveLength(2);
+  });
+
+  it('should enable Fetch and fulfill matching requests', async () => {
+    const result = await handler.addRule({
+      urlPattern: '*/api/users*',
+      action: 'fulfill',
+      status: 500,
+      body: '{"error":"boom"}',
+    });
+    const session = mockPage.getLastCDPSession();
+
+    expect(result.rules).toHaveLength(1);
+    expect(result.rules[0]).toMatchObject({ id: expect.stringMatching(/^rule-/), hitCount: 0 });
+    expect(session.getSentCommands()[0]).toEqual({
+      method: 'Fetch.enable',
+      params: { patterns: [{ urlPattern: '*', requestStage: 'Request' }] },
+    });
+
+    pause(session, 'r1', 'http://example.com/api/users?page=1');
+    await flush();
+
+    const fulfill = lastCommand(session);
+    expect(fulfill.method).toBe('Fetch.fulfillRequest');
+    expect(fulfill.params.responseCode).toBe(500);
+    expect(fulfill.params.responseHeaders).toContainEqual({
+      name: 'Content-Type',
+      value: 'application/json; charset=utf-8',
+    });
+    expect(Buffer.from(fulfill.params.body, 'base64').toString()).toBe('{"error":"boom"}');
+
+    const listed = await handler.listRules({});
+    expect(listed.rules[0].hitCount).toBe(1);
+  });
+
+  it('should continue requests that match no rule or a different method', async () => {
+    await handler.addRule({ urlPattern: '/\\/api\\//', method: 'post', action: 'abort' });
+    const session = mockPage.getLastCDPSession();
+
+    pause(session, 'r1', 'http://example.com/api/items');
+    await flush();
+
+    expect(lastCommand(session)).toEqual({ method: 'Fetch.continueRequest', params: { requestId: 'r1' } });
+  });
+
+  it('should abort with error reason and respect times', async () => {
+    await handler.addRule({
+      urlPattern: '*.js',
+      action: 'abort',
+      errorReason: 'ConnectionRefused',
+      times: 1,
+    });
+    const session = mockPage.getLastCDPSession();
+
+    pause(session, 'r1', 'http://example.com/app.js');
+    await flush();
+    expect(lastCommand(session)).toEqual({
+      method: 'Fetch.failRequest',
+      params: { requestId: 'r1', errorReason: 'ConnectionRefused' },
+    });
+
+    pause(session, 'r2', 'http://example.com/app.js');
+    await flush();
+    expect(lastCommand(session).method).toBe('Fetch.continueRequest');
+  });
+
+  it('should rewrite request and response headers', async () => {
+    await handler.addRule({
+      urlPattern: '*',
+      action: 'modifyHeaders',
+      requestHeaders: { 'x-debug': null, Authorization: 'Bearer test' },
+      responseHeaders: { 'Cache-Control': 'no-store' },
+    });
+    const session = mockPage.getLastCDPSession();
+
+    expect(session.getSentCommands()[0].params.patterns).toContainEqual({
+      urlPattern: '*',
+      requestStage: 'Response',
+    });
+
+    pause(session, 'r1', 'http://example.com/');
+    await flush();
+    const request = lastCommand(session);
+    expect(request.method).toBe('Fetch.continueRequest');
+    expect(request.params.headers).toEqual([
+      { name: 'Accept', value: '*/*' },
+      { name: 'Authorization', value: 'Bearer test' },
+    ]);
+
+    pause(session, 'r1', 'http://example.com/', {
+      responseStatusCode: 200,
+      responseHeaders: [{ name: 'cache-control', value: 'max-age=60' }],
+    });
+    await flush();
+    const response = lastCommand(session);
+    expect(response.method).toBe('Fetch.continueResponse');
+    expect(response.params.responseHeaders).toEqual([{ name: 'Cache-Control', value: 'no-store' }]);
+  });
+
+  it('should validate rule parameters', async () => {
+    await expect(handler.addRule({ urlPattern: '*', action: 'delay' })).rejects.toThrow(
+      'delayMs is required for delay action'
+    );
+    await expect(handler.addRule({ urlPattern: '*', action: 'modifyHeaders' })).rejects.toThrow(
+      'requestHeaders or responseHeaders is required for modifyHeaders action'
+    );
+    await expect(handler.addRule({ urlPattern: '/[/', action: 'abort' })).rejects.toThrow(
+      'Invalid urlPattern regex'
+    );
+  });
+
+  it('should remove rules and disable Fetch when empty', async () => {
+    const added = await handler.addRule({ urlPattern: '*', action: 'abort' });
+    const session = mockPage.getLastCDPSession();
+
+    await expect(handler.removeRule({ ruleId: 'rule-missing' })).rejects.toThrow(
+      'Intercept rule not found: rule-missing'
+    );
+
+    const result = await handler.removeRule({ ruleId: added.rules[0].id });
+    expect(result.removed).toBe(1);
+    expect(lastCommand(session).method).toBe('Fetch.disable');
+    expect(session.isDetached()).toBe(true);
+    expect((await handler.listRules({})).rules).toEqual([]);
+  });
+
+  it('should clean up when BrowserManager closes the page', async () => {
+    await handler.addRule({ urlPattern: '*', action: 'abort' });
+    const session = mockPage.getLastCDPSession();
+
+    const closingListener = mockBrowserManager.onPageClosing.mock.calls[0][0];
+    await closingListener(mockPage);
+
+    expect(session.isDetached()).toBe(true);
+    expect((await handler.listRules({})).rules).toEqual([]);
+  });
+});
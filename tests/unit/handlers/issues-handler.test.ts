@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { IssuesHandler } from '../../../src/cdp-handlers/issues-handler.js';
+import { BrowserManager } from '../../../src/browser-manager.js';
+import { MockPage, createMockPage } from '../../helpers/mock-browser.js';
+
+describe('IssuesHandler', () => {
+  let handler: IssuesHandler;
+  let mockBrowserManager: any;
+  let mockNetworkHandler: any;
+  let mockPage: MockPage;
+
+  const cookieIssue = {
+    code: 'CookieIssue',
+    details: {
+      cookieIssueDetails: {
+        cookie: { name: 'sid', domain: 'example.com', path: '/' },
+        cookieWarningReasons: [],
+        cookieExclusionReasons: ['ExcludeSameSiteNoneInsecure'],
+        operation: 'SetCookie',
+        request: { requestId: 'r1', url: 'https://api.example.com/login' },
+      },
+    },
+  };
+
+  beforeEach(() => {
+    mockPage = createMockPage('https://example.com');
+    mockBrowserManager = {
+      getPage: vi.fn().mockResolvedValue(mockPage),
+      onPageCreated: vi.fn(),
+      onPageClosing: vi.fn(),
+    };
+    mockNetworkHandler = {
+      isCapturing: vi.fn().mockReturnValue(true),
+      getEntries: vi.fn().mockResolvedValue([
+        { requestId: 'r1', url: 'https://api.example.com/login', method: 'POST', status: 200, resourceType: 'Fetch', startedAt: 0 },
+      ]),
+    };
+
+    handler = new IssuesHandler(mockBrowserManager as unknown as BrowserManager, mockNetworkHandler);
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should register page created listener and enable the Audits domain', async () => {
+    expect(mockBrowserManager.onPageCreated).toHaveBeenCalledTimes(1);
+
+    const listener = mockBrowserManager.onPageCreated.mock.calls[0][0];
+    await listener(mockPage);
+
+    const commands = mockPage.getLastCDPSession().getSentCommands();
+    expect(commands.map((c: any) => c.method)).toContain('Audits.enable');
+  });
+
+  it('should group issues by category and merge duplicates', async () => {
+    await handler.getPageIssues({});
+    const session = mockPage.getLastCDPSession();
+
+    session.trigger('Audits.issueAdded', { issue: cookieIssue });
+    session.trigger('Audits.issueAdded', { issue: cookieIssue });
+    session.trigger('Audits.issueAdded', {
+      issue: {
+        code: 'CorsIssue',
+        details: {
+          corsIssueDetails: {
+            corsErrorStatus: { corsError: 'MissingAllowOriginHeader', failedParameter: '' },
+            isWarning: false,
+            request: { requestId: 'r2', url: 'https://other.example.com/data' },
+          },
+        },
+      },
+    });
+
+    const result = await handler.getPageIssues({});
+
+    expect(result.total).toBe(2);
+    expect(result.categories.cookie!.issues[0]).toMatchObject({
+      code: 'CookieIssue',
+      reason: 'ExcludeSameSiteNoneInsecure',
+      cookie: { name: 'sid', domain: 'example.com', path: '/' },
+      request: { requestId: 'r1', url: 'https://api.example.com/login', method: 'POST', status: 200 },
+      details: { operation: 'SetCookie' },
+      count: 2,
+    });
+    expect(result.categories.cors!.issues[0].reason).toBe('MissingAllowOriginHeader');
+    // 网络捕获中没有的请求不补充方法和状态码
+    expect(result.categories.cors!.issues[0].request).toEqual({
+      requestId: 'r2',
+      url: 'https://other.example.com/data',
+    });
+  });
+
+  it('should resolve violating nodes to selectors', async () => {
+    mockPage.setCDPResponse('DOM.resolveNode', (params: any) => ({ object: { objectId: `obj-${params.backendNodeId}` } }));
+    mockPage.setCDPResponse('Runtime.callFunctionOn', (params: any) => ({
+      result: { value: { selector: `#${params.objectId}`, snippet: '<p class="muted">' } },
+    }));
+    await handler.getPageIssues({});
+    const session = mockPage.getLastCDPSession();
+
+    session.trigger('Audits.issueAdded', {
+      issue: {
+        code: 'LowTextContrastIssue',
+        details: {
+          lowTextContrastIssueDetails: {
+            violatingNodeId: 7,
+            violatingNodeSelector: 'p.muted',
+            contrastRatio: 2.1,
+            thresholdAA: 4.5,
+            thresholdAAA: 7,
+            fontSize: '14px',
+            fontWeight: '400',
+          },
+        },
+      },
+    });
+
+    const result = await handler.getPageIssues({ categories: ['low-contrast'] });
+    const issue = result.categories['low-contrast']!.issues[0];
+
+    expect(issue.node).toEqual({ selector: '#obj-7', snippet: '<p class="muted">' });
+    expect(issue.reason).toBe('Contrast ratio 2.1 is below 4.5 (AA)');
+    expect(issue).not.toHaveProperty('backendNodeId');
+  });
+
+  it('should filter categories, clear on request and on main frame navigation', async () => {
+    await handler.getPageIssues({});
+    const session = mockPage.getLastCDPSession();
+    session.trigger('Audits.issueAdded', { issue: cookieIssue });
+
+    const filtered = await handler.getPageIssues({ categories: ['csp'], clear: true });
+    expect(filtered.total).toBe(0);
+    expect((await handler.getPageIssues({})).total).toBe(0);
+
+    session.trigger('Audits.issueAdded', { issue: cookieIssue });
+    session.trigger('Page.frameNavigated', { frame: { id: 'child', parentId: 'main' } });
+    expect((await handler.getPageIssues({})).total).toBe(1);
+
+    session.trigger('Page.frameNavigated', { frame: { id: 'main' } });
+    expect((await handler.getPageIssues({})).total).toBe(0);
+  });
+});
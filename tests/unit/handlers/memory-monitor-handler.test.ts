@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { MemoryMonitorHandler } from '../../../src/cdp-handlers/memory-monitor-handler.js';
+import { BrowserManager } from '../../../src/browser-manager.js';
+import { MockPage, createMockPage } from '../../helpers/mock-browser.js';
+
+describe('MemoryMonitorHandler', () => {
+  let handler: MemoryMonitorHandler;
+  let mockBrowserManager: any;
+  let mockPage: MockPage;
+  let heapUsed: number;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    heapUsed = 10_000_000;
+    mockPage = createMockPage('http://example.com');
+    mockPage.setCDPResponse('Runtime.getHeapUsage', () => ({ usedSize: heapUsed, totalSize: heapUsed * 2 }));
+    mockPage.setCDPResponse('Runtime.evaluate', () => ({
+      result: { type: 'object', value: { usedJSHeapSize: heapUsed, totalJSHeapSize: heapUsed * 2, jsHeapSizeLimit: 4e9 } },
+    }));
+    mockPage.setCDPResponse('Memory.getDOMCounters', () => ({ documents: 1, nodes: 50, jsEventListeners: 3 }));
+    mockPage.setCDPResponse('Performance.getMetrics', () => ({
+      metrics: [
+        { name: 'Timestamp', value: 1 },
+        { name: 'Nodes', value: 50 },
+        { name: 'LayoutCount', value: 4 },
+      ],
+    }));
+
+    mockBrowserManager = {
+      getPage: vi.fn().mockResolvedValue(mockPage),
+      onPageClosing: vi.fn(),
+    };
+    handler = new MemoryMonitorHandler(mockBrowserManager as unknown as BrowserManager);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should sample at the configured interval and keep a bounded series', async () => {
+    const started = await handler.start({ intervalMs: 500, maxSamples: 4 });
+
+    expect(started.running).toBe(true);
+    expect(started.sampleCount).toBe(1);
+    expect(started.samples[0]).toMatchObject({
+      heapUsedBytes: 10_000_000,
+      heapTotalBytes: 20_000_000,
+      performanceMemory: { usedJSHeapSize: 10_000_000 },
+      domCounters: { documents: 1, nodes: 50, jsEventListeners: 3 },
+      metrics: { Nodes: 50, LayoutCount: 4 },
+    });
+
+    for (let i = 0; i < 5; i++) {
+      heapUsed += 1_000_000;
+      await vi.advanceTimersByTimeAsync(500);
+    }
+
+    const result = await handler.read({ lastN: 2 });
+    expect(result.sampleCount).toBe(4);
+    expect(result.droppedSamples).toBe(2);
+    expect(result.samples.map((s) => s.heapUsedBytes)).toEqual([14_000_000, 15_000_000]);
+    expect(result.stats?.heapUsedBytes).toMatchObject({ min: 12_000_000, max: 15_000_000, slopePerSecond: 2_000_000 });
+    expect(result.stats?.domNodes).toMatchObject({ min: 50, max: 50, slopePerSecond: 0 });
+  });
+
+  it('should stop sampling, detach the session and keep the series readable', async () => {
+    await handler.start({ intervalMs: 1000 });
+    const session = mockPage.getLastCDPSession();
+    await vi.advanceTimersByTimeAsync(2000);
+
+    const stopped = await handler.stop({});
+    expect(stopped.running).toBe(false);
+    expect(stopped.stoppedAt).toBeDefined();
+    expect(stopped.sampleCount).toBe(3);
+    expect(session.isDetached()).toBe(true);
+
+    await vi.advanceTimersByTimeAsync(5000);
+    expect((await handler.read({})).sampleCount).toBe(3);
+
+    // 停止后可以重新开始，旧样本被丢弃
+    expect((await handler.start({})).sampleCount).toBe(1);
+  });
+
+  it('should reject a second start and reads without a monitor', async () => {
+    await expect(handler.read({})).rejects.toThrow('No memory monitor for this page');
+    await expect(handler.start({ intervalMs: 10 })).rejects.toThrow('intervalMs must be at least 100');
+
+    await handler.start({});
+    await expect(handler.start({})).rejects.toThrow('Memory monitor is already running for this page');
+  });
+
+  it('should record failed samples as limitations', async () => {
+    await handler.start({ intervalMs: 1000 });
+    mockPage.setCDPResponse('Runtime.getHeapUsage', () => {
+      throw new Error('Execution context was destroyed');
+    });
+    await vi.advanceTimersByTimeAsync(2000);
+
+    const result = await handler.read({});
+    expect(result.sampleCount).toBe(1);
+    expect(result.failedSamples).toBe(2);
+    expect(result.limitations).toEqual(['2 sample(s) failed; last error: Execution context was destroyed']);
+  });
+
+  it('should dispose the monitor when the page closes', async () => {
+    await handler.start({});
+    const session = mockPage.getLastCDPSession();
+    const onClosing = mockBrowserManager.onPageClosing.mock.calls[0][0];
+
+    await onClosing(mockPage);
+
+    expect(session.isDetached()).toBe(true);
+    await expect(handler.read({})).rejects.toThrow('No memory monitor for this page');
+  });
+});
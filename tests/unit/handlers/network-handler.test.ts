@@ -0,0 +1,193 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { NetworkHandler } from '../../../src/cdp-handlers/network-handler.js';
+import { BrowserManager } from '../../../src/browser-manager.js';
+import { MockPage, createMockPage } from '../../helpers/mock-browser.js';
+
+describe('NetworkHandler', () => {
+  let handler: NetworkHandler;
+  let mockBrowserManager: any;
+  let mockPage: MockPage;
+  let unsubscribeCreated: ReturnType<typeof vi.fn>;
+  let unsubscribeClosing: ReturnType<typeof vi.fn>;
+
+  const sendRequest = (session: any, id: string, url: string, type = 'XHR', timestamp = 1) => {
+    session.trigger('Network.requestWillBeSent', {
+      requestId: id,
+      request: { url, method: 'GET', headers: { accept: '*/*' } },
+      timestamp,
+      wallTime: 1700000000 + timestamp,
+      type,
+      initiator: { type: 'script' },
+    });
+  };
+
+  const respond = (session: any, id: string, status: number, timestamp = 1.2) => {
+    session.trigger('Network.responseReceived', {
+      requestId: id,
+      timestamp,
+      response: {
+        status,
+        statusText: status === 200 ? 'OK' : 'Error',
+        headers: { 'content-type': 'application/json' },
+        mimeType: 'application/json',
+        protocol: 'h2',
+        remoteIPAddress: '1.2.3.4',
+        remotePort: 443,
+      },
+    });
+    session.trigger('Network.loadingFinished', {
+      requestId: id,
+      timestamp: timestamp + 0.05,
+      encodedDataLength: 512,
+    });
+  };
+
+  beforeEach(() => {
+    mockPage = createMockPage('http://example.com');
+    unsubscribeCreated = vi.fn();
+    unsubscribeClosing = vi.fn();
+    mockBrowserManager = {
+      getPage: vi.fn().mockResolvedValue(mockPage),
+      onPageCreated: vi.fn().mockReturnValue(unsubscribeCreated),
+      onPageClosing: vi.fn().mockReturnValue(unsubscribeClosing),
+    };
+
+    handler = new NetworkHandler(mockBrowserManager as unknown as BrowserManager);
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should register page created listener to capture before navigation', async () => {
+    expect(mockBrowserManager.onPageCreated).toHaveBeenCalledTimes(1);
+
+    const listener = mockBrowserManager.onPageCreated.mock.calls[0][0];
+    await listener(mockPage);
+
+    const commands = mockPage.getLastCDPSession().getSentCommands();
+    expect(commands.map((c: any) => c.method)).toContain('Network.enable');
+
+    const result = await handler.getNetworkRequests({});
+    expect(result.notes).toBeUndefined();
+  });
+
+  it('should note when capture starts on first call', async () => {
+    const result = await handler.getNetworkRequests({});
+
+    expect(result.total).toBe(0);
+    expect(result.notes).toHaveLength(1);
+  });
+
+  it('should record completed requests with status, timing and size', async () => {
+    await handler.getNetworkRequests({});
+    const session = mockPage.getLastCDPSession();
+
+    sendRequest(session, '1', 'http://example.com/api/users');
+    respond(session, '1', 200);
+
+    const result = await handler.getNetworkRequests({});
+    expect(result.requests).toHaveLength(1);
+    expect(result.requests[0]).toMatchObject({
+      url: 'http://example.com/api/users',
+      method: 'GET',
+      resourceType: 'XHR',
+      status: 200,
+      protocol: 'h2',
+      remoteAddress: '1.2.3.4:443',
+      encodedDataLength: 512,
+      duration: 250,
+      initiator: 'script',
+      finished: true,
+    });
+    expect(result.requests[0].requestHeaders).toBeUndefined();
+
+    const withHeaders = await handler.getNetworkRequests({ includeHeaders: true });
+    expect(withHeaders.requests[0].responseHeaders).toEqual({ 'content-type': 'application/json' });
+  });
+
+  it('should record redirects and failures', async () => {
+    await handler.getNetworkRequests({});
+    const session = mockPage.getLastCDPSession();
+
+    sendRequest(session, '1', 'http://example.com/old', 'Document', 1);
+    session.trigger('Network.requestWillBeSent', {
+      requestId: '1',
+      request: { url: 'http://example.com/new', method: 'GET', headers: {} },
+      timestamp: 1.1,
+      wallTime: 1700000001.1,
+      type: 'Document',
+      redirectResponse: { status: 301, statusText: 'Moved', headers: {} },
+    });
+    sendRequest(session, '2', 'http://example.com/broken.js', 'Script', 2);
+    session.trigger('Network.loadingFailed', {
+      requestId: '2',
+      timestamp: 2.5,
+      errorText: 'net::ERR_CONNECTION_REFUSED',
+    });
+
+    const result = await handler.getNetworkRequests({});
+    expect(result.requests).toHaveLength(3);
+    expect(result.requests[0]).toMatchObject({
+      status: 301,
+      redirectedTo: 'http://example.com/new',
+      finished: true,
+    });
+    expect(result.requests[1]).toMatchObject({ url: 'http://example.com/new', finished: false });
+    expect(result.requests[2]).toMatchObject({
+      failed: true,
+      errorText: 'net::ERR_CONNECTION_REFUSED',
+      duration: 500,
+    });
+  });
+
+  it('should filter by url pattern, resource type, status and duration', async () => {
+    await handler.getNetworkRequests({});
+    const session = mockPage.getLastCDPSession();
+
+    sendRequest(session, '1', 'http://example.com/api/v1/users', 'XHR', 1);
+    respond(session, '1', 200, 1.1);
+    sendRequest(session, '2', 'http://example.com/api/v2/orders', 'Fetch', 2);
+    respond(session, '2', 500, 4);
+    sendRequest(session, '3', 'http://cdn.example.com/app.js', 'Script', 3);
+    respond(session, '3', 200, 3.01);
+
+    const byPattern = await handler.getNetworkRequests({ urlPattern: '/api\\/v\\d\\//' });
+    expect(byPattern.requests.map((r) => r.requestId)).toEqual(['1', '2']);
+
+    const byType = await handler.getNetworkRequests({ resourceTypes: ['script'] });
+    expect(byType.requests.map((r) => r.requestId)).toEqual(['3']);
+
+    const byStatus = await handler.getNetworkRequests({ statusMin: 400, statusMax: 599 });
+    expect(byStatus.requests.map((r) => r.requestId)).toEqual(['2']);
+
+    const slow = await handler.getNetworkRequests({ minDuration: 1000 });
+    expect(slow.requests.map((r) => r.requestId)).toEqual(['2']);
+    expect(slow.matched).toBe(1);
+    expect(slow.total).toBe(3);
+  });
+
+  it('should clear records and detach session when page closes', async () => {
+    await handler.getNetworkRequests({});
+    const session = mockPage.getLastCDPSession();
+    sendRequest(session, '1', 'http://example.com/a');
+
+    const cleared = await handler.getNetworkRequests({ clear: true });
+    expect(cleared.requests).toHaveLength(1);
+    expect((await handler.getNetworkRequests({})).total).toBe(0);
+
+    await mockPage.close();
+    expect(session.isDetached()).toBe(true);
+  });
+
+  it('should unsubscribe page listeners and detach sessions on dispose', async () => {
+    await handler.getNetworkRequests({});
+    const session = mockPage.getLastCDPSession();
+
+    await handler.dispose();
+
+    expect(unsubscribeCreated).toHaveBeenCalledTimes(1);
+    expect(unsubscribeClosing).toHaveBeenCalledTimes(1);
+    expect(session.isDetached()).toBe(true);
+  });
+});
@@ -20,6 +20,8 @@ describe('PerformanceHandler', () => {
     mockPage = createMockPage('http://example.com');
     mockBrowserManager = {
       getPage: vi.fn().mockResolvedValue(mockPage),
+      getThrottling: vi.fn().mockReturnValue(undefined),
+      setThrottling: vi.fn().mockResolvedValue(undefined),
     };
     
     handler = new PerformanceHandler(mockBrowserManager as unknown as BrowserManager);
@@ -55,6 +57,82 @@ describe('PerformanceHandler', () => {
       expect(result).toHaveProperty('paint');
       expect(result).toHaveProperty('resources');
     });
+
+    it('should measure under the requested throttling and echo it', async () => {
+      mockPage.setEvaluateResult('performance', { navigation: {}, paint: [], resources: [], marks: [], measures: [] });
+
+      const result = await handler.getPerformance({
+        url: 'http://example.com',
+        throttling: { profile: 'slow-3g' },
+      });
+
+      expect(result.throttling).toMatchObject({ profile: 'slow-3g', latencyMs: 2000 });
+      expect(mockBrowserManager.setThrottling).toHaveBeenNthCalledWith(
+        1,
+        mockPage,
+        expect.objectContaining({ profile: 'slow-3g' })
+      );
+      // 测量后恢复为不节流
+      expect(mockBrowserManager.setThrottling).toHaveBeenLastCalledWith(
+        mockPage,
+        expect.objectContaining({ profile: 'none' })
+      );
+    });
+
+    it('should include runtime metrics from Performance.getMetrics', async () => {
+      mockPage.setEvaluateResult('performance', { navigation: {}, paint: [], resources: [], marks: [], measures: [] });
+      mockPage.setCDPResponse('Performance.getMetrics', () => ({
+        metrics: [
+          { name: 'Timestamp', value: 100 },
+          { name: 'JSHeapUsedSize', value: 2_000_000 },
+          { name: 'Nodes', value: 120 },
+          { name: 'LayoutCount', value: 4 },
+          { name: 'ScriptDuration', value: 0.25 },
+        ],
+      }));
+
+      const result = await handler.getPerformance({ url: 'http://example.com' });
+
+      expect(result.runtime).toEqual({ JSHeapUsedSize: 2_000_000, Nodes: 120, LayoutCount: 4, ScriptDuration: 0.25 });
+      expect(result.runtimeDelta).toBeUndefined();
+    });
+
+    it('should report the change in runtime metrics around the wait period', async () => {
+      vi.useFakeTimers();
+      try {
+        mockPage.setEvaluateResult('performance', { navigation: {}, paint: [], resources: [], marks: [], measures: [] });
+        const snapshots = [
+          [
+            { name: 'Timestamp', value: 100 },
+            { name: 'JSHeapUsedSize', value: 2_000_000 },
+            { name: 'LayoutCount', value: 4 },
+            { name: 'TaskDuration', value: 1.5 },
+          ],
+          [
+            { name: 'Timestamp', value: 103.002 },
+            { name: 'JSHeapUsedSize', value: 2_500_000 },
+            { name: 'LayoutCount', value: 10 },
+            { name: 'TaskDuration', value: 2 },
+            { name: 'Nodes', value: 300 },
+          ],
+        ];
+        mockPage.setCDPResponse('Performance.getMetrics', () => ({ metrics: snapshots.shift() }));
+
+        const promise = handler.getPerformance({ url: 'http://example.com', deltaWaitMs: 3000 });
+        await vi.advanceTimersByTimeAsync(3000);
+        const result = await promise;
+
+        expect(result.runtime).toMatchObject({ JSHeapUsedSize: 2_500_000, Nodes: 300 });
+        expect(result.runtimeDelta).toEqual({
+          waitMs: 3000,
+          elapsedMs: 3002,
+          before: { JSHeapUsedSize: 2_000_000, LayoutCount: 4, TaskDuration: 1.5 },
+          delta: { JSHeapUsedSize: 500_000, LayoutCount: 6, TaskDuration: 0.5 },
+        });
+      } finally {
+        vi.useRealTimers();
+      }
+    });
   });
 
   describe('getPerformanceSummary', () => {
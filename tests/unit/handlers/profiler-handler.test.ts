@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ProfilerHandler } from '../../../src/cdp-handlers/profiler-handler.js';
+import { BrowserManager } from '../../../src/browser-manager.js';
+import { MockPage, createMockPage } from '../../helpers/mock-browser.js';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { readFile, rm } from 'node:fs/promises';
+
+const profile = {
+  nodes: [
+    { id: 1, callFrame: { functionName: '(root)', scriptId: '0', url: '', lineNumber: -1, columnNumber: -1 }, children: [2] },
+    { id: 2, callFrame: { functionName: 'onClick', scriptId: '1', url: 'app.js', lineNumber: 4, columnNumber: 2 } },
+  ],
+  startTime: 0,
+  endTime: 3000,
+  samples: [2, 2, 2],
+  timeDeltas: [0, 1000, 1000],
+};
+
+describe('ProfilerHandler', () => {
+  let handler: ProfilerHandler;
+  let mockPage: MockPage;
+
+  beforeEach(() => {
+    mockPage = createMockPage('http://example.com');
+    mockPage.setCDPResponse('Profiler.stop', () => ({ profile }));
+    const mockBrowserManager = {
+      getPage: vi.fn().mockResolvedValue(mockPage),
+    };
+    handler = new ProfilerHandler(mockBrowserManager as unknown as BrowserManager);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should record for the duration and summarize hot functions', async () => {
+    vi.useFakeTimers();
+    const promise = handler.profileCpu({ duration: 2000, samplingInterval: 200 });
+    await vi.advanceTimersByTimeAsync(2000);
+    const result = await promise;
+
+    const session = mockPage.getLastCDPSession();
+    expect(session.getSentCommands().map((c: { method: string }) => c.method)).toEqual([
+      'Profiler.enable',
+      'Profiler.setSamplingInterval',
+      'Profiler.start',
+      'Profiler.stop',
+      'Profiler.disable',
+    ]);
+    expect(session.getSentCommands()[1].params).toEqual({ interval: 200 });
+    expect(session.isDetached()).toBe(true);
+
+    expect(result.summary.scriptMs).toBe(3);
+    expect(result.summary.topFunctionsBySelf[0]).toMatchObject({ functionName: 'onClick', url: 'app.js', lineNumber: 5 });
+    expect(result.export).toEqual({ mode: 'none' });
+  });
+
+  it('should run scenario steps while recording and export a .cpuprofile file', async () => {
+    const filePath = join(tmpdir(), `cpu-${Date.now()}.cpuprofile`);
+
+    try {
+      const result = await handler.profileCpu({
+        steps: [{ action: 'click', selector: '#open' }],
+        settleMs: 0,
+        export: { mode: 'file', filePath },
+      });
+
+      expect(mockPage.getActions()).toContainEqual({ action: 'click', args: ['#open', undefined] });
+      expect(result.export.filePath).toBe(filePath);
+      expect(JSON.parse(await readFile(filePath, 'utf8'))).toEqual(profile);
+    } finally {
+      await rm(filePath, { force: true });
+    }
+  });
+
+  it('should stop profiling and detach when a scenario step fails', async () => {
+    mockPage.setWaitForSelectorResult('#missing', false);
+
+    await expect(
+      handler.profileCpu({ steps: [{ action: 'click', selector: '#missing' }], settleMs: 0 })
+    ).rejects.toThrow('Scenario step 1 (click) failed: Element not found: #missing');
+
+    const session = mockPage.getLastCDPSession();
+    expect(session.getSentCommands().map((c: { method: string }) => c.method)).toContain('Profiler.disable');
+    expect(session.isDetached()).toBe(true);
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ScriptHandler } from '../../../src/cdp-handlers/script-handler.js';
+import { BrowserManager } from '../../../src/browser-manager.js';
+import { MockPage, createMockPage } from '../../helpers/mock-browser.js';
+
+describe('ScriptHandler', () => {
+  let handler: ScriptHandler;
+  let mockBrowserManager: any;
+  let mockPage: MockPage;
+
+  beforeEach(() => {
+    mockPage = createMockPage('http://example.com');
+    mockBrowserManager = {
+      getPage: vi.fn().mockResolvedValue(mockPage),
+    };
+
+    handler = new ScriptHandler(mockBrowserManager as unknown as BrowserManager);
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should require exactly one of expression or functionBody', async () => {
+    await expect(handler.evaluateScript({})).rejects.toThrow(
+      'Exactly one of expression or functionBody must be provided'
+    );
+    await expect(
+      handler.evaluateScript({ expression: '1', functionBody: 'return 1' })
+    ).rejects.toThrow('Exactly one of expression or functionBody must be provided');
+  });
+
+  it('should return primitive values directly', async () => {
+    mockPage.setCDPResponse('Runtime.evaluate', () => ({
+      result: { type: 'number', value: 42 },
+    }));
+
+    const result = await handler.evaluateScript({ expression: '40 + 2' });
+
+    expect(result.success).toBe(true);
+    expect(result.type).toBe('number');
+    expect(result.value).toBe(42);
+    expect(result.truncated).toBeUndefined();
+
+    const commands = mockPage.getLastCDPSession().getSentCommands();
+    const evaluate = commands.find((c: any) => c.method === 'Runtime.evaluate');
+    expect(evaluate.params).toMatchObject({ expression: '40 + 2', awaitPromise: true, replMode: true });
+    expect(commands.some((c: any) => c.method === 'Runtime.releaseObjectGroup')).toBe(true);
+  });
+
+  it('should mark unserializable primitives', async () => {
+    mockPage.setCDPResponse('Runtime.evaluate', () => ({
+      result: { type: 'bigint', unserializableValue: '10n' },
+    }));
+
+    const result = await handler.evaluateScript({ expression: '10n' });
+
+    expect(result.value).toEqual({ __type: 'bigint', value: '10n' });
+  });
+
+  it('should serialize objects in page via callFunctionOn', async () => {
+    mockPage.setCDPResponse('Runtime.evaluate', () => ({
+      result: { type: 'object', className: 'Object', objectId: 'obj-1' },
+    }));
+    mockPage.setCDPResponse('Runtime.callFunctionOn', () => ({
+      result: { type: 'object', value: { a: 1, self: { __type: 'circular', ref: '$' } } },
+    }));
+
+    const result = await handler.evaluateScript({ expression: 'window.state', maxDepth: 2 });
+
+    expect(result.success).toBe(true);
+    expect(result.className).toBe('Object');
+    expect(result.value).toEqual({ a: 1, self: { __type: 'circular', ref: '$' } });
+
+    const call = mockPage
+      .getLastCDPSession()
+      .getSentCommands()
+      .find((c: any) => c.method === 'Runtime.callFunctionOn');
+    expect(call.params.objectId).toBe('obj-1');
+    expect(call.params.returnByValue).toBe(true);
+    expect(call.params.arguments[0].value.maxDepth).toBe(2);
+  });
+
+  it('should truncate previews that exceed maxBytes', async () => {
+    mockPage.setCDPResponse('Runtime.evaluate', () => ({
+      result: { type: 'object', className: 'Array', subtype: 'array', objectId: 'arr-1' },
+    }));
+    mockPage.setCDPResponse('Runtime.callFunctionOn', () => ({
+      result: { type: 'object', value: 'x'.repeat(500) },
+    }));
+
+    const result = await handler.evaluateScript({ expression: 'big', maxBytes: 100 });
+
+    expect(result.type).toBe('array');
+    expect(result.truncated).toBe(true);
+    expect(result.previewBytes).toBeLessThanOrEqual(100);
+    // 超出体积时会收紧限制重试
+    const calls = mockPage
+      .getLastCDPSession()
+      .getSentCommands()
+      .filter((c: any) => c.method === 'Runtime.callFunctionOn');
+    expect(calls.length).toBe(3);
+  });
+
+  it('should return exception details with 1-based positions', async () => {
+    mockPage.setCDPResponse('Runtime.evaluate', () => ({
+      result: { type: 'object', subtype: 'error' },
+      exceptionDetails: {
+        text: 'Uncaught',
+        lineNumber: 0,
+        columnNumber: 6,
+        exception: {
+          type: 'object',
+          subtype: 'error',
+          description: 'TypeError: boom\n    at <anonymous>:1:7',
+        },
+        stackTrace: {
+          callFrames: [{ functionName: '', url: '', lineNumber: 0, columnNumber: 6 }],
+        },
+      },
+    }));
+
+    const result = await handler.evaluateScript({ expression: 'null.boom' });
+
+    expect(result.success).toBe(false);
+    expect(result.exception).toMatchObject({
+      message: 'TypeError: boom',
+      lineNumber: 1,
+      columnNumber: 7,
+      stackTrace: ['(anonymous) (<anonymous>:1:7)'],
+    });
+  });
+
+  it('should call function body on globalThis with args', async () => {
+    mockPage.setCDPResponse('Runtime.evaluate', () => ({
+      result: { type: 'object', className: 'Window', objectId: 'global-1' },
+    }));
+    mockPage.setCDPResponse('Runtime.callFunctionOn', () => ({
+      result: { type: 'string', value: 'a-b' },
+    }));
+
+    const result = await handler.evaluateScript({
+      functionBody: 'return args.join("-")',
+      args: ['a', 'b'],
+    });
+
+    expect(result.value).toBe('a-b');
+    const call = mockPage
+      .getLastCDPSession()
+      .getSentCommands()
+      .find((c: any) => c.method === 'Runtime.callFunctionOn');
+    expect(call.params.objectId).toBe('global-1');
+    expect(call.params.arguments).toEqual([{ value: 'a' }, { value: 'b' }]);
+    expect(call.params.functionDeclaration).toContain('return args.join("-")');
+  });
+
+  it('should time out long-running evaluations', async () => {
+    mockPage.setCDPResponse('Runtime.evaluate', () => new Promise(() => {}));
+
+    await expect(
+      handler.evaluateScript({ expression: 'new Promise(() => {})', timeout: 20 })
+    ).rejects.toThrow('Script evaluation timed out after 20ms');
+
+    // 终止页面中仍在运行的脚本，且不等待繁忙的渲染进程释放对象组
+    const session = mockPage.getLastCDPSession();
+    const methods = session.getSentCommands().map((c: any) => c.method);
+    expect(methods).toContain('Runtime.terminateExecution');
+    expect(methods).not.toContain('Runtime.releaseObjectGroup');
+    expect(session.isDetached()).toBe(true);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { SeoDomFacts, checkSeoFacts, runSeoAudit } from '../../../src/cdp-handlers/seo-audit.js';
+import { createMockPage } from '../../helpers/mock-browser.js';
+
+function facts(overrides: Partial<SeoDomFacts> = {}): SeoDomFacts {
+  return {
+    url: 'https://example.com/products/1',
+    title: 'Product 1',
+    metaDescription: 'A product',
+    viewport: 'width=device-width, initial-scale=1',
+    robotsMeta: [],
+    hreflangs: [],
+    canonicals: [],
+    anchorCount: 3,
+    uncrawlableAnchors: [],
+    jsonLd: [],
+    navigationStatus: 200,
+    ...overrides,
+  };
+}
+
+describe('seo-audit', () => {
+  describe('checkSeoFacts', () => {
+    it('should pass a well-formed page and skip rules without candidates', () => {
+      const checks = checkSeoFacts(facts());
+
+      for (const id of ['viewport', 'document-title', 'meta-description', 'http-status-code', 'is-crawlable', 'crawlable-anchors']) {
+        expect(checks[id].failures, id).toEqual([]);
+      }
+      expect(checks.canonical.checked).toBe(0);
+      expect(checks.hreflang.checked).toBe(0);
+      expect(checks['structured-data'].checked).toBe(0);
+    });
+
+    it('should flag missing metadata and error status codes', () => {
+      const checks = checkSeoFacts(facts({ title: ' ', metaDescription: null, viewport: 'user-scalable=no' }), {
+        status: 404,
+      });
+
+      expect(checks['document-title'].failures).toHaveLength(1);
+      expect(checks['meta-description'].failures[0].explanation).toContain('No <meta name="description">');
+      expect(checks.viewport.failures[0].explanation).toContain('has no width or initial-scale');
+      expect(checks['http-status-code'].failures[0].explanation).toBe('Main document returned HTTP 404');
+    });
+
+    it('should detect noindex in robots meta and X-Robots-Tag headers', () => {
+      const checks = checkSeoFacts(
+        facts({ robotsMeta: [{ name: 'robots', content: 'noindex, follow', element: { selector: 'meta' } }] }),
+        { status: 200, headers: { 'X-Robots-Tag': 'googlebot: none\nnoarchive' } }
+      );
+
+      expect(checks['is-crawlable'].failures.map((f) => f.explanation)).toEqual([
+        '<meta name="robots"> blocks indexing: "noindex, follow"',
+        'X-Robots-Tag header blocks indexing: "googlebot: none"',
+      ]);
+    });
+
+    it('should validate hreflang, canonical and JSON-LD', () => {
+      const checks = checkSeoFacts(
+        facts({
+          hreflangs: [
+            { hreflang: 'en-US', href: 'https://example.com/en/', element: { selector: 'link:nth-of-type(1)' } },
+            { hreflang: 'english', href: 'https://example.com/en/', element: { selector: 'link:nth-of-type(2)' } },
+            { hreflang: 'de', href: '/de/', element: { selector: 'link:nth-of-type(3)' } },
+          ],
+          canonicals: [{ href: 'https://example.com/', element: { selector: 'link[rel=canonical]' } }],
+          jsonLd: [
+            { text: '{"@type": "Product"}', element: { selector: 'script:nth-of-type(1)' } },
+            { text: '{"@type": "Product",}', element: { selector: 'script:nth-of-type(2)' } },
+          ],
+        })
+      );
+
+      expect(checks.hreflang.failures.map((f) => f.selector)).toEqual(['link:nth-of-type(2)', 'link:nth-of-type(3)']);
+      expect(checks.canonical.failures[0].explanation).toBe('Points to the domain root instead of an equivalent page');
+      expect(checks['structured-data'].failures).toHaveLength(1);
+      expect(checks['structured-data'].failures[0].explanation).toMatch(/^Invalid JSON-LD: /);
+    });
+
+    it('should flag conflicting and relative canonicals', () => {
+      const conflicting = checkSeoFacts(
+        facts({
+          canonicals: [
+            { href: 'https://example.com/a', element: { selector: 'link:nth-of-type(1)' } },
+            { href: 'https://example.com/b', element: { selector: 'link:nth-of-type(2)' } },
+          ],
+        })
+      );
+      const relative = checkSeoFacts(
+        facts({ canonicals: [{ href: '/products/1', element: { selector: 'link' } }] })
+      );
+
+      expect(conflicting.canonical.failures[0].explanation).toContain('Multiple conflicting URLs');
+      expect(relative.canonical.failures[0].explanation).toBe('Is not an absolute URL ("/products/1")');
+    });
+  });
+
+  describe('runSeoAudit', () => {
+    it('should score rules and return Lighthouse-style audit entries', async () => {
+      const mockPage = createMockPage('https://example.com/products/1');
+      mockPage.setEvaluateResult('seo-facts', facts({ metaDescription: '' }));
+
+      const result = await runSeoAudit(mockPage as any, undefined, ['structured-data']);
+      const description = result.rules.find((rule) => rule.id === 'meta-description')!;
+
+      expect(result.rules.map((rule) => rule.id)).not.toContain('structured-data');
+      expect(description).toMatchObject({ status: 'fail', score: 0, displayValue: '1 issue' });
+      // 适用规则：viewport、title、description、status、crawlable、anchors；仅 description 失败
+      expect(result.score).toBe(83);
+    });
+  });
+});
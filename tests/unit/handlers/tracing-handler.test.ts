@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { TracingHandler } from '../../../src/cdp-handlers/tracing-handler.js';
+import { BrowserManager } from '../../../src/browser-manager.js';
+import { MockPage, createMockPage } from '../../helpers/mock-browser.js';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { access, readFile, rm } from 'node:fs/promises';
+
+const traceEvents = [
+  { name: 'RunTask', ph: 'X', ts: 1_000_000, dur: 80_000, pid: 10, tid: 1, args: {} },
+  { name: 'FunctionCall', ph: 'X', ts: 1_000_000, dur: 70_000, pid: 10, tid: 1, args: { data: { url: 'app.js', functionName: 'onClick' } } },
+  { name: 'thread_name', ph: 'M', ts: 0, pid: 10, tid: 1, args: { name: 'CrRendererMain' } },
+];
+
+describe('TracingHandler', () => {
+  let handler: TracingHandler;
+  let mockPage: MockPage;
+
+  beforeEach(() => {
+    mockPage = createMockPage('http://example.com');
+    // Tracing.end 之后分两批送达事件，最后发送 tracingComplete
+    mockPage.setCDPResponse('Tracing.end', () => {
+      const session = mockPage.getLastCDPSession();
+      session.trigger('Tracing.dataCollected', { value: traceEvents.slice(0, 2) });
+      session.trigger('Tracing.dataCollected', { value: traceEvents.slice(2) });
+      session.trigger('Tracing.tracingComplete', {});
+      return {};
+    });
+    const mockBrowserManager = {
+      getPage: vi.fn().mockResolvedValue(mockPage),
+    };
+    handler = new TracingHandler(mockBrowserManager as unknown as BrowserManager);
+  });
+
+  it('should record a trace, write a DevTools-loadable file and return a digest', async () => {
+    const filePath = join(tmpdir(), `trace-${Date.now()}.json`);
+
+    try {
+      const result = await handler.recordTrace({
+        categories: ['-*', 'devtools.timeline', 'toplevel'],
+        reload: true,
+        export: { filePath },
+      });
+
+      const session = mockPage.getLastCDPSession();
+      expect(session.getSentCommands().map((c: { method: string }) => c.method)).toEqual(['Tracing.start', 'Tracing.end']);
+      expect(session.getSentCommands()[0].params).toEqual({
+        transferMode: 'ReportEvents',
+        traceConfig: {
+          recordMode: 'recordAsMuchAsPossible',
+          includedCategories: ['devtools.timeline', 'toplevel'],
+          excludedCategories: ['*'],
+        },
+      });
+      expect(session.isDetached()).toBe(true);
+      expect(mockPage.getActions().map((a) => a.action)).toContain('reload');
+
+      expect(result.digest.longTasks[0]).toMatchObject({
+        durationMs: 80,
+        scripts: [{ url: 'app.js', functionName: 'onClick', durationMs: 70 }],
+      });
+      expect(result.limitations).toEqual([
+        'no frame events recorded; include disabled-by-default-devtools.timeline.frame in categories',
+      ]);
+
+      const raw = await readFile(filePath, 'utf8');
+      expect(result.export).toEqual({ mode: 'file', filePath, fileBytes: Buffer.byteLength(raw) });
+      expect(JSON.parse(raw)).toEqual({ traceEvents });
+    } finally {
+      await rm(filePath, { force: true });
+    }
+  });
+
+  it('should end tracing and remove the partial file when a scenario step fails', async () => {
+    const filePath = join(tmpdir(), `trace-${Date.now()}-failed.json`);
+    mockPage.setWaitForSelectorResult('#missing', false);
+
+    await expect(
+      handler.recordTrace({ steps: [{ action: 'click', selector: '#missing' }], settleMs: 0, export: { filePath } })
+    ).rejects.toThrow('Scenario step 1 (click) failed: Element not found: #missing');
+
+    const session = mockPage.getLastCDPSession();
+    expect(session.getSentCommands().map((c: { method: string }) => c.method)).toContain('Tracing.end');
+    expect(session.isDetached()).toBe(true);
+    await expect(access(filePath)).rejects.toThrow();
+  });
+});
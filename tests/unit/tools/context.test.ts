@@ -0,0 +1,64 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createToolContext } from '../../../src/tools/context.js';
+import { BrowserManager } from '../../../src/browser-manager.js';
+import { MockPage, createMockPage } from '../../helpers/mock-browser.js';
+
+describe('createToolContext', () => {
+  let mockBrowserManager: any;
+  let mockPage: MockPage;
+  let subscriptions: Set<() => void>;
+
+  const subscribe = (listener: () => void) => {
+    subscriptions.add(listener);
+    return () => subscriptions.delete(listener);
+  };
+
+  const pageListenerCounts = () =>
+    Object.fromEntries(
+      ['console', 'pageerror', 'requestfailed', 'close'].map((event) => [
+        event,
+        mockPage.listenerCount(event),
+      ])
+    );
+
+  beforeEach(() => {
+    mockPage = createMockPage('http://example.com');
+    subscriptions = new Set();
+    mockBrowserManager = {
+      getPage: vi.fn().mockResolvedValue(mockPage),
+      onPageCreated: vi.fn(subscribe),
+      onPageClosing: vi.fn(subscribe),
+    };
+  });
+
+  it('should restore page listener counts to baseline on dispose', async () => {
+    const baseline = pageListenerCounts();
+    const context = createToolContext(mockBrowserManager as unknown as BrowserManager);
+
+    await context.consoleHandler.getConsoleErrors({});
+    await context.networkHandler.getNetworkRequests({});
+    await context.issuesHandler.getPageIssues({});
+    await context.interceptionHandler.addRule({ urlPattern: '*', action: 'abort' });
+
+    expect(pageListenerCounts()).not.toEqual(baseline);
+    expect(subscriptions.size).toBeGreaterThan(0);
+
+    await context.dispose();
+
+    expect(pageListenerCounts()).toEqual(baseline);
+    expect(subscriptions.size).toBe(0);
+  });
+
+  it('should not leak listeners across repeated sessions', async () => {
+    const baseline = pageListenerCounts();
+
+    for (let i = 0; i < 3; i++) {
+      const context = createToolContext(mockBrowserManager as unknown as BrowserManager);
+      await context.consoleHandler.getConsoleErrors({});
+      await context.networkHandler.getNetworkRequests({});
+      await context.dispose();
+    }
+
+    expect(pageListenerCounts()).toEqual(baseline);
+  });
+});
@@ -0,0 +1,192 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { request } from 'node:http';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { HttpTransportServer } from '../../../src/transports/http-server.js';
+
+const initializeRequest = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2025-03-26',
+    capabilities: {},
+    clientInfo: { name: 'test-client', version: '1.0.0' },
+  },
+};
+
+describe('HttpTransportServer', () => {
+  let server: HttpTransportServer | null = null;
+  let createdServers = 0;
+  let disposedServers = 0;
+
+  const startServer = async (
+    authToken?: string,
+    sessionIdleTimeoutMs?: number
+  ): Promise<string> => {
+    createdServers = 0;
+    disposedServers = 0;
+    server = new HttpTransportServer({
+      host: '127.0.0.1',
+      port: 0,
+      authToken,
+      sessionIdleTimeoutMs,
+      createServer: () => {
+        createdServers++;
+        return {
+          server: new McpServer({ name: 'test', version: '0.0.0' }, { capabilities: { tools: {} } }),
+          dispose: async () => {
+            disposedServers++;
+          },
+        };
+      },
+    });
+    const address = await server.start();
+    return `http://127.0.0.1:${address.port}`;
+  };
+
+  const postInitialize = (baseUrl: string, headers: Record<string, string> = {}) =>
+    fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        ...headers,
+      },
+      body: JSON.stringify(initializeRequest),
+    });
+
+  // fetch 不允许改写 Host 头，这里直接用 node:http 发送初始化请求
+  const postInitializeRaw = (baseUrl: string, headers: Record<string, string>) =>
+    new Promise<number>((resolve, reject) => {
+      const req = request(
+        `${baseUrl}/mcp`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Accept: 'application/json, text/event-stream',
+            ...headers,
+          },
+        },
+        (res) => {
+          res.resume();
+          resolve(res.statusCode ?? 0);
+        }
+      );
+      req.on('error', reject);
+      req.end(JSON.stringify(initializeRequest));
+    });
+
+  afterEach(async () => {
+    if (server) {
+      await server.close();
+      server = null;
+    }
+  });
+
+  it('should create a session on initialize', async () => {
+    const baseUrl = await startServer();
+    const response = await postInitialize(baseUrl);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('mcp-session-id')).toBeTruthy();
+    await response.body?.cancel();
+
+    expect(createdServers).toBe(1);
+    expect(server!.getSessionCount()).toBe(1);
+  });
+
+  it('should create an independent server per session', async () => {
+    const baseUrl = await startServer();
+    const first = await postInitialize(baseUrl);
+    const second = await postInitialize(baseUrl);
+    await first.body?.cancel();
+    await second.body?.cancel();
+
+    expect(first.headers.get('mcp-session-id')).not.toBe(second.headers.get('mcp-session-id'));
+    expect(createdServers).toBe(2);
+  });
+
+  it('should dispose the session context when the session is deleted', async () => {
+    const baseUrl = await startServer();
+    const response = await postInitialize(baseUrl);
+    const sessionId = response.headers.get('mcp-session-id')!;
+    await response.body?.cancel();
+
+    const deleted = await fetch(`${baseUrl}/mcp`, {
+      method: 'DELETE',
+      headers: { 'mcp-session-id': sessionId },
+    });
+    await deleted.body?.cancel();
+
+    expect(deleted.status).toBe(200);
+    expect(server!.getSessionCount()).toBe(0);
+    expect(disposedServers).toBe(1);
+  });
+
+  it('should reject non-initialize requests without session', async () => {
+    const baseUrl = await startServer();
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list' }),
+    });
+
+    expect(response.status).toBe(400);
+    expect(createdServers).toBe(0);
+  });
+
+  it('should require bearer token when configured', async () => {
+    const baseUrl = await startServer('secret');
+
+    const unauthorized = await postInitialize(baseUrl);
+    expect(unauthorized.status).toBe(401);
+
+    const wrongToken = await postInitialize(baseUrl, { Authorization: 'Bearer wrong' });
+    expect(wrongToken.status).toBe(401);
+
+    const authorized = await postInitialize(baseUrl, { Authorization: 'Bearer secret' });
+    expect(authorized.status).toBe(200);
+    await authorized.body?.cancel();
+  });
+
+  it('should reject non-loopback Host headers when listening on loopback', async () => {
+    const baseUrl = await startServer();
+    const port = new URL(baseUrl).port;
+
+    expect(await postInitializeRaw(baseUrl, { Host: `attacker.example:${port}` })).toBe(403);
+    expect(createdServers).toBe(0);
+
+    expect(await postInitializeRaw(baseUrl, { Host: `localhost:${port}` })).toBe(200);
+    expect(createdServers).toBe(1);
+  });
+
+  it('should reject cross-site Origin headers when listening on loopback', async () => {
+    const baseUrl = await startServer();
+
+    expect(await postInitializeRaw(baseUrl, { Origin: 'https://attacker.example' })).toBe(403);
+    expect(createdServers).toBe(0);
+
+    expect(await postInitializeRaw(baseUrl, { Origin: 'http://localhost:5173' })).toBe(200);
+    expect(createdServers).toBe(1);
+  });
+
+  it('should dispose sessions that stay idle past the timeout', async () => {
+    const baseUrl = await startServer(undefined, 50);
+    const response = await postInitialize(baseUrl);
+    await response.body?.cancel();
+    expect(server!.getSessionCount()).toBe(1);
+
+    await new Promise((resolve) => setTimeout(resolve, 150));
+
+    expect(server!.getSessionCount()).toBe(0);
+    expect(disposedServers).toBe(1);
+  });
+
+  it('should return 404 for unknown paths', async () => {
+    const baseUrl = await startServer();
+    const response = await fetch(`${baseUrl}/unknown`);
+    expect(response.status).toBe(404);
+    await response.body?.cancel();
+  });
+});
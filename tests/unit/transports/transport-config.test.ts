@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseTransportConfig,
+  DEFAULT_HTTP_HOST,
+  DEFAULT_HTTP_PORT,
+} from '../../../src/transports/transport-config.js';
+
+describe('parseTransportConfig', () => {
+  it('should default to stdio', () => {
+    const config = parseTransportConfig([], {});
+    expect(config).toEqual({
+      type: 'stdio',
+      host: DEFAULT_HTTP_HOST,
+      port: DEFAULT_HTTP_PORT,
+      authToken: undefined,
+    });
+  });
+
+  it('should read options from environment variables', () => {
+    const config = parseTransportConfig([], {
+      MCP_TRANSPORT: 'http',
+      MCP_HTTP_HOST: '0.0.0.0',
+      MCP_HTTP_PORT: '8080',
+      MCP_AUTH_TOKEN: 'secret',
+    });
+    expect(config).toEqual({
+      type: 'http',
+      host: '0.0.0.0',
+      port: 8080,
+      authToken: 'secret',
+    });
+  });
+
+  it('should prefer CLI flags over environment variables', () => {
+    const config = parseTransportConfig(
+      ['--transport', 'http', '--port=9000', '--auth-token', 'cli-token'],
+      { MCP_TRANSPORT: 'stdio', MCP_HTTP_PORT: '8080', MCP_AUTH_TOKEN: 'env-token' }
+    );
+    expect(config.type).toBe('http');
+    expect(config.port).toBe(9000);
+    expect(config.authToken).toBe('cli-token');
+  });
+
+  it('should reject unknown transport', () => {
+    expect(() => parseTransportConfig(['--transport', 'websocket'], {})).toThrow(/Invalid transport/);
+  });
+
+  it('should reject invalid port', () => {
+    expect(() => parseTransportConfig(['--port', 'abc'], {})).toThrow(/Invalid port/);
+    expect(() => parseTransportConfig([], { MCP_HTTP_PORT: '70000' })).toThrow(/Invalid port/);
+  });
+});
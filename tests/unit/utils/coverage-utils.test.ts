@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import {
+  V8FunctionCoverage,
+  computeCssUsedBytes,
+  computeJsUsedBytes,
+  summarizeCoverageEntries,
+  createCoverageEntry,
+  toDisjointRanges,
+  toIstanbulFileCoverage,
+} from '../../../src/utils/coverage-utils.js';
+
+const source = [
+  'function used(flag) {',
+  '  if (flag) { skip(); }',
+  '  return 1;',
+  '}',
+  '',
+  'function unused() {',
+  '  return 2;',
+  '}',
+  'used(false);',
+].join('\n');
+
+const range = (text: string, count: number, from = 0) => {
+  const startOffset = source.indexOf(text, from);
+  return { startOffset, endOffset: startOffset + text.length, count };
+};
+const usedFn = range('function used(flag) {\n  if (flag) { skip(); }\n  return 1;\n}', 1);
+const skippedBlock = range('{ skip(); }', 0);
+const unusedFn = range('function unused() {\n  return 2;\n}', 0);
+
+const functions: V8FunctionCoverage[] = [
+  { functionName: '', ranges: [{ startOffset: 0, endOffset: source.length, count: 1 }], isBlockCoverage: false },
+  { functionName: 'used', ranges: [usedFn, skippedBlock], isBlockCoverage: true },
+  { functionName: 'unused', ranges: [unusedFn], isBlockCoverage: false },
+];
+
+describe('coverage-utils', () => {
+  it('should flatten nested V8 ranges using the innermost count', () => {
+    expect(toDisjointRanges(functions)).toEqual([
+      { startOffset: 0, endOffset: skippedBlock.startOffset, count: 1 },
+      { startOffset: skippedBlock.startOffset, endOffset: skippedBlock.endOffset, count: 0 },
+      { startOffset: skippedBlock.endOffset, endOffset: unusedFn.startOffset, count: 1 },
+      { startOffset: unusedFn.startOffset, endOffset: unusedFn.endOffset, count: 0 },
+      { startOffset: unusedFn.endOffset, endOffset: source.length, count: 1 },
+    ]);
+
+    const unusedBytes = skippedBlock.endOffset - skippedBlock.startOffset + (unusedFn.endOffset - unusedFn.startOffset);
+    expect(computeJsUsedBytes(functions)).toBe(source.length - unusedBytes);
+  });
+
+  it('should count overlapping used CSS rules once and summarize entries', () => {
+    expect(
+      computeCssUsedBytes([
+        { styleSheetId: '1', startOffset: 0, endOffset: 100, used: true },
+        { styleSheetId: '1', startOffset: 50, endOffset: 120, used: true },
+        { styleSheetId: '1', startOffset: 200, endOffset: 300, used: false },
+      ])
+    ).toBe(120);
+
+    const entries = [createCoverageEntry('css', 'a.css', 400, 120), createCoverageEntry('css', 'b.css', 100, 150)];
+    expect(entries[0]).toEqual({ type: 'css', url: 'a.css', totalBytes: 400, usedBytes: 120, unusedBytes: 280, unusedPercent: 70 });
+    expect(entries[1].usedBytes).toBe(100);
+    expect(summarizeCoverageEntries(entries)).toEqual({
+      count: 2,
+      totalBytes: 500,
+      usedBytes: 220,
+      unusedBytes: 280,
+      unusedPercent: 56,
+    });
+  });
+
+  it('should convert block coverage to Istanbul line statements, functions and branches', () => {
+    const coverage = toIstanbulFileCoverage('https://example.com/app.js', source, functions);
+
+    expect(coverage.path).toBe('https://example.com/app.js');
+    // 空行不产生语句；函数 unused 的三行计数为 0
+    expect(Object.values(coverage.s)).toEqual([1, 1, 1, 1, 0, 0, 0, 1]);
+    expect(coverage.statementMap['1']).toEqual({ start: { line: 2, column: 2 }, end: { line: 2, column: 23 } });
+
+    expect(Object.values(coverage.fnMap).map((fn) => [fn.name, fn.line])).toEqual([
+      ['used', 1],
+      ['unused', 6],
+    ]);
+    expect(coverage.f).toEqual({ '0': 1, '1': 0 });
+
+    expect(coverage.branchMap['0']).toMatchObject({ type: 'branch', line: 2, loc: { start: { line: 2, column: 12 } } });
+    expect(coverage.b).toEqual({ '0': [0] });
+  });
+});
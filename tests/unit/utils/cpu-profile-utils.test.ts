@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { CpuProfile, CpuProfileNode, summarizeCpuProfile } from '../../../src/utils/cpu-profile-utils.js';
+
+function node(id: number, functionName: string, children: number[] = [], url = '', lineNumber = 0): CpuProfileNode {
+  return { id, callFrame: { functionName, scriptId: url ? '1' : '0', url, lineNumber, columnNumber: 0 }, children };
+}
+
+describe('cpu-profile-utils', () => {
+  // (root) → [(idle), (program), (garbage collector), main → [render → render, layout]]
+  const app = 'https://example.com/app.js';
+  const profile: CpuProfile = {
+    nodes: [
+      node(1, '(root)', [2, 3, 4, 5]),
+      node(2, '(idle)'),
+      node(3, '(program)'),
+      node(4, '(garbage collector)'),
+      node(5, 'main', [6, 8], app, 9),
+      node(6, 'render', [7], app, 19),
+      node(7, 'render', [], app, 19),
+      node(8, 'layout', [], app, 29),
+    ],
+    startTime: 0,
+    endTime: 10_000,
+    // 采样时刻（微秒）：0 1000 2000 3000 4000 6000 7000 8000 9000 9500
+    samples: [2, 2, 3, 4, 6, 7, 7, 8, 5, 2],
+    timeDeltas: [0, 1000, 1000, 1000, 1000, 2000, 1000, 1000, 1000, 500],
+  };
+
+  it('should split idle, program, GC and script time', () => {
+    const summary = summarizeCpuProfile(profile, { topN: 10 });
+    expect(summary).toMatchObject({
+      durationMs: 10,
+      sampleCount: 10,
+      idleMs: 2.5,
+      programMs: 1,
+      gcMs: 1,
+      scriptMs: 5.5,
+    });
+  });
+
+  it('should rank functions by self and total time without double counting recursion', () => {
+    const summary = summarizeCpuProfile(profile, { topN: 10 });
+
+    expect(summary.topFunctionsBySelf.map((fn) => [fn.functionName, fn.selfTimeMs, fn.hitCount])).toEqual([
+      ['render', 4, 3],
+      ['layout', 1, 1],
+      ['main', 0.5, 1],
+    ]);
+    expect(summary.topFunctionsByTotal[0]).toEqual({
+      functionName: 'main',
+      url: app,
+      lineNumber: 10,
+      columnNumber: 1,
+      selfTimeMs: 0.5,
+      totalTimeMs: 5.5,
+      selfPercent: 5,
+      hitCount: 1,
+    });
+    expect(summary.topFunctionsByTotal.find((fn) => fn.functionName === 'render')?.totalTimeMs).toBe(4);
+    expect(summarizeCpuProfile(profile, { topN: 1 }).topFunctionsBySelf).toHaveLength(1);
+  });
+
+  it('should reject profiles without nodes', () => {
+    expect(() => summarizeCpuProfile({ nodes: [], startTime: 0, endTime: 0 }, { topN: 5 })).toThrow(
+      'cpu profile has no nodes'
+    );
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { resolveDeviceEmulation } from '../../../src/utils/device-utils.js';
+
+describe('device-utils', () => {
+    it('should resolve known devices case-insensitively', () => {
+        const emulation = resolveDeviceEmulation({ device: 'iphone 13' });
+
+        expect(emulation.device).toBe('iPhone 13');
+        expect(emulation.viewport).toEqual({
+            width: 390,
+            height: 844,
+            deviceScaleFactor: 3,
+            isMobile: true,
+            hasTouch: true,
+            isLandscape: false,
+        });
+        expect(emulation.userAgent).toContain('iPhone');
+    });
+
+    it('should let explicit fields override the device preset', () => {
+        const emulation = resolveDeviceEmulation({ device: 'Pixel 5', width: 400, userAgent: 'custom-agent' });
+
+        expect(emulation.viewport.width).toBe(400);
+        expect(emulation.viewport.height).toBe(851);
+        expect(emulation.userAgent).toBe('custom-agent');
+    });
+
+    it('should build custom viewports from defaults', () => {
+        expect(resolveDeviceEmulation({ width: 1280, height: 720, deviceScaleFactor: 2 })).toEqual({
+            viewport: {
+                width: 1280,
+                height: 720,
+                deviceScaleFactor: 2,
+                isMobile: false,
+                hasTouch: false,
+                isLandscape: false,
+            },
+        });
+    });
+
+    it('should reject unknown devices and incomplete custom viewports', () => {
+        expect(() => resolveDeviceEmulation({ device: 'iPhone 99' })).toThrow(/Unknown device: iPhone 99 \(did you mean: .*iPhone/);
+        expect(() => resolveDeviceEmulation({ width: 800 })).toThrow('Either device or both width and height must be provided');
+        expect(() => resolveDeviceEmulation({ width: 0, height: 600 })).toThrow('Invalid viewport size: 0x600');
+    });
+});
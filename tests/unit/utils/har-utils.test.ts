@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { buildHar } from '../../../src/utils/har-utils.js';
+import { NetworkRequestEntry } from '../../../src/types.js';
+
+describe('har-utils', () => {
+    const baseEntry = (overrides: Partial<NetworkRequestEntry> = {}): NetworkRequestEntry => ({
+        requestId: '1',
+        url: 'http://example.com/api?id=1&q=a',
+        method: 'GET',
+        resourceType: 'XHR',
+        startedAt: Date.UTC(2024, 0, 1),
+        duration: 120,
+        status: 200,
+        statusText: 'OK',
+        mimeType: 'application/json',
+        protocol: 'h2',
+        remoteAddress: '1.2.3.4:443',
+        dataLength: 42,
+        requestHeaders: { Cookie: 'a=1; b=2', accept: '*/*' },
+        responseHeaders: { 'set-cookie': 'x=1\ny=2', 'content-type': 'application/json' },
+        finished: true,
+        ...overrides,
+    });
+
+    describe('buildHar', () => {
+        it('should produce a HAR 1.2 log with page timings', () => {
+            const har = buildHar({
+                entries: [baseEntry()],
+                page: { url: 'http://example.com', title: 'Example', onContentLoad: 300, onLoad: 800 },
+            });
+
+            expect(har.log.version).toBe('1.2');
+            expect(har.log.creator.name).toBe('puppeteer-debugger-mcp-server');
+            expect(har.log.pages).toEqual([
+                {
+                    startedDateTime: '2024-01-01T00:00:00.000Z',
+                    id: 'page_1',
+                    title: 'Example',
+                    pageTimings: { onContentLoad: 300, onLoad: 800 },
+                },
+            ]);
+            expect(har.log.entries).toHaveLength(1);
+        });
+
+        it('should map request and response fields', () => {
+            const har = buildHar({
+                entries: [baseEntry()],
+                page: { url: 'http://example.com', title: '', onContentLoad: -1, onLoad: -1 },
+            });
+            const entry = har.log.entries[0];
+
+            expect(entry.pageref).toBe('page_1');
+            expect(entry.request.httpVersion).toBe('HTTP/2.0');
+            expect(entry.request.queryString).toEqual([
+                { name: 'id', value: '1' },
+                { name: 'q', value: 'a' },
+            ]);
+            expect(entry.request.cookies).toEqual([
+                { name: 'a', value: '1' },
+                { name: 'b', value: '2' },
+            ]);
+            expect(entry.response.headers).toContainEqual({ name: 'set-cookie', value: 'x=1' });
+            expect(entry.response.headers).toContainEqual({ name: 'set-cookie', value: 'y=2' });
+            expect(entry.response.content).toEqual({ size: 42, mimeType: 'application/json' });
+            expect(entry.serverIPAddress).toBe('1.2.3.4');
+            // 没有 ResourceTiming 时全部计入 wait
+            expect(entry.timings.wait).toBe(120);
+            expect(entry.time).toBe(120);
+        });
+
+        it('should derive timings from CDP ResourceTiming', () => {
+            const har = buildHar({
+                entries: [
+                    baseEntry({
+                        duration: 100,
+                        timing: {
+                            requestTime: 1,
+                            dnsStart: 2,
+                            dnsEnd: 10,
+                            connectStart: 10,
+                            connectEnd: 30,
+                            sslStart: 15,
+                            sslEnd: 30,
+                            sendStart: 31,
+                            sendEnd: 32,
+                            receiveHeadersEnd: 80,
+                        },
+                    }),
+                ],
+                page: { url: 'http://example.com', title: '', onContentLoad: -1, onLoad: -1 },
+            });
+
+            expect(har.log.entries[0].timings).toEqual({
+                blocked: 2,
+                dns: 8,
+                connect: 20,
+                send: 1,
+                wait: 48,
+                receive: 20,
+                ssl: 15,
+            });
+            expect(har.log.entries[0].time).toBe(99);
+        });
+
+        it('should include bodies, failures and redirects', () => {
+            const ok = baseEntry();
+            const failed = baseEntry({
+                requestId: '2',
+                status: undefined,
+                failed: true,
+                errorText: 'net::ERR_FAILED',
+            });
+            const redirect = baseEntry({ requestId: '3', status: 302, redirectedTo: 'http://example.com/next' });
+            const bodies = new Map([
+                [ok, { text: 'eyJhIjoxfQ==', base64Encoded: true }],
+                [redirect, { comment: 'body omitted' }],
+            ]);
+
+            const har = buildHar({
+                entries: [ok, failed, redirect],
+                page: { url: 'http://example.com', title: '', onContentLoad: -1, onLoad: -1 },
+                bodies,
+            });
+
+            expect(har.log.entries[0].response.content).toMatchObject({ text: 'eyJhIjoxfQ==', encoding: 'base64' });
+            expect(har.log.entries[1].response.status).toBe(0);
+            expect(har.log.entries[1]._error).toBe('net::ERR_FAILED');
+            expect(har.log.entries[2].response.redirectURL).toBe('http://example.com/next');
+            expect(har.log.entries[2].response.content.comment).toBe('body omitted');
+        });
+    });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { parseHeapSnapshotJson } from '../../../src/utils/heap-snapshot-utils.js';
+import {
+  aggregateRetainedSize,
+  buildHeapGraph,
+  detachedDomTag,
+  findRetainerPaths,
+  groupDetachedDomTrees,
+} from '../../../src/utils/heap-graph.js';
+
+type FixtureEdge = [string, string | number, number];
+
+/**
+ * 构造带边的最小快照：节点为 [type, name, id, self_size, edges]，边为 [type, name_or_index, 目标节点序号]
+ */
+function snapshotJson(nodes: Array<[string, string, number, number, FixtureEdge[]]>): string {
+  const nodeTypes = ['hidden', 'synthetic', 'object', 'native'];
+  const edgeTypes = ['context', 'element', 'property', 'internal', 'hidden', 'shortcut', 'weak'];
+  const strings: string[] = [];
+  const stringIndex = (s: string) => (strings.includes(s) ? strings.indexOf(s) : strings.push(s) - 1);
+  const nodeFields = ['type', 'name', 'id', 'self_size', 'edge_count'];
+  return JSON.stringify({
+    snapshot: {
+      meta: {
+        node_fields: nodeFields,
+        node_types: [nodeTypes, 'string', 'number', 'number', 'number'],
+        edge_fields: ['type', 'name_or_index', 'to_node'],
+        edge_types: [edgeTypes, 'string_or_number', 'node'],
+      },
+      node_count: nodes.length,
+    },
+    nodes: nodes.flatMap(([type, name, id, size, edges]) => [nodeTypes.indexOf(type), stringIndex(name), id, size, edges.length]),
+    edges: nodes.flatMap(([, , , , edges]) =>
+      edges.flatMap(([type, nameOrIndex, to]) => [
+        edgeTypes.indexOf(type),
+        typeof nameOrIndex === 'number' ? nameOrIndex : stringIndex(nameOrIndex),
+        to * nodeFields.length,
+      ])
+    ),
+    strings,
+  });
+}
+
+describe('heap-graph', () => {
+  // Window.cache → Array → [Foo@5, Foo@7]，Window.current → Foo@7，Foo@5.bar → Bar；Foo@11 仅被弱引用
+  const graph = buildHeapGraph(
+    parseHeapSnapshotJson(
+      snapshotJson([
+        ['synthetic', '', 0, 0, [['element', 1, 1]]],
+        ['object', 'Window', 1, 10, [['property', 'cache', 2], ['property', 'current', 4], ['weak', 'w', 6]]],
+        ['object', 'Array', 3, 100, [['element', 0, 3], ['element', 1, 4]]],
+        ['object', 'Foo', 5, 40, [['property', 'bar', 5]]],
+        ['object', 'Foo', 7, 60, []],
+        ['object', 'Bar', 9, 30, []],
+        ['object', 'Foo', 11, 5, [['property', 'bar', 5]]],
+      ])
+    )
+  );
+
+  it('should compute retained sizes from the dominator tree', () => {
+    expect(Array.from(graph.retainedSize)).toEqual([245, 240, 170, 70, 60, 30, 5]);
+    expect(Array.from(graph.dominator)).toEqual([0, 0, 1, 2, 1, 3, 0]);
+    expect(Array.from(graph.distance)).toEqual([0, 1, 2, 3, 2, 4, -1]);
+  });
+
+  it('should not double count objects dominated by members of the same group', () => {
+    expect(aggregateRetainedSize(graph, [3, 4, 6])).toBe(135);
+    expect(aggregateRetainedSize(graph, [3, 5])).toBe(70);
+  });
+
+  it('should return shortest retainer paths with edge names', () => {
+    expect(findRetainerPaths(graph, 5, { maxPaths: 3, maxDepth: 20 }).map((path) => path.text)).toEqual([
+      'Window.cache → Array[0] → Foo.bar → Bar @9',
+    ]);
+
+    const paths = findRetainerPaths(graph, 4, { maxPaths: 3, maxDepth: 20 });
+    expect(paths.map((path) => path.text)).toEqual(['Window.current → Foo @7', 'Window.cache → Array[1] → Foo @7']);
+    expect(paths[0].steps[0]).toEqual({
+      node: { id: 1, name: 'Window', className: 'Window', type: 'object' },
+      edge: { type: 'property', name: 'current' },
+    });
+
+    // 弱引用不构成持有路径
+    expect(findRetainerPaths(graph, 6, { maxPaths: 3, maxDepth: 20 })).toEqual([]);
+  });
+
+  it('should keep the part nearest to the target when a path exceeds maxDepth', () => {
+    const [path] = findRetainerPaths(graph, 5, { maxPaths: 1, maxDepth: 2 });
+    expect(path.truncated).toBe(true);
+    expect(path.text).toBe('… → Array[0] → Foo.bar → Bar @9');
+  });
+
+  it('should group detached DOM nodes into trees by their highest detached dominator', () => {
+    const domGraph = buildHeapGraph(
+      parseHeapSnapshotJson(
+        snapshotJson([
+          ['synthetic', '', 0, 0, [['element', 1, 1], ['element', 2, 5]]],
+          ['object', 'Window', 1, 10, [['property', 'leaked', 2]]],
+          ['native', 'Detached HTMLDivElement', 3, 50, [['element', 0, 3], ['element', 1, 4]]],
+          ['native', 'Detached HTMLSpanElement', 5, 20, []],
+          ['native', 'Detached Text', 7, 10, []],
+          ['native', 'HTMLBodyElement', 9, 5, []],
+        ])
+      )
+    );
+
+    const trees = groupDetachedDomTrees(domGraph);
+    expect(trees).toEqual([{ root: 2, nodes: [2, 3, 4] }]);
+    expect(domGraph.retainedSize[2]).toBe(80);
+    expect(findRetainerPaths(domGraph, 2, { maxPaths: 1, maxDepth: 20 })[0].text).toBe(
+      'Window.leaked → Detached HTMLDivElement @3'
+    );
+  });
+
+  it('should extract the element tag from detached node names', () => {
+    expect(detachedDomTag('Detached HTMLDivElement')).toBe('HTMLDivElement');
+    expect(detachedDomTag("<div class='modal'>")).toBe('div');
+    expect(detachedDomTag('Detached InternalNode')).toBe('InternalNode');
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import {
+  SamplingHeapProfile,
+  SamplingHeapProfileNode,
+  formatSamplingCallFrame,
+  summarizeSamplingHeapProfile,
+} from '../../../src/utils/heap-profile-utils.js';
+
+function node(
+  id: number,
+  functionName: string,
+  selfSize: number,
+  children: SamplingHeapProfileNode[] = [],
+  url = 'https://example.com/app.js',
+  lineNumber = id * 10
+): SamplingHeapProfileNode {
+  return { id, callFrame: { functionName, scriptId: '1', url, lineNumber, columnNumber: 4 }, selfSize, children };
+}
+
+describe('heap-profile-utils', () => {
+  // (root) → main → [render → render(递归), parse]；render 与 parse 分配最多
+  const profile: SamplingHeapProfile = {
+    head: node(1, '(root)', 0, [
+      node(2, 'main', 100, [
+        node(3, 'render', 1000, [node(5, 'render', 500, [], undefined, 30)], undefined, 30),
+        node(4, 'parse', 2000),
+      ]),
+      node(6, '', 10, [], ''),
+    ]),
+    samples: [
+      { nodeId: 3, size: 1000, ordinal: 1 },
+      { nodeId: 4, size: 2000, ordinal: 2 },
+      { nodeId: 4, size: 2000, ordinal: 3 },
+      { nodeId: 5, size: 500, ordinal: 4 },
+    ],
+  };
+
+  it('should aggregate self and total bytes per function without double counting recursion', () => {
+    const summary = summarizeSamplingHeapProfile(profile, { topN: 10 });
+
+    expect(summary.totalAllocatedBytes).toBe(3610);
+    expect(summary.totalCount).toBe(4);
+    expect(summary.topFunctionsBySelf?.map((fn) => [fn.functionName, fn.selfSizeBytes])).toEqual([
+      ['parse', 2000],
+      ['render', 1500],
+      ['main', 100],
+      ['(anonymous)', 10],
+    ]);
+    expect(summary.topFunctionsByTotal?.[0]).toEqual({
+      functionName: 'main',
+      url: 'https://example.com/app.js',
+      lineNumber: 21,
+      columnNumber: 5,
+      selfSizeBytes: 100,
+      totalSizeBytes: 3600,
+      sampleCount: 0,
+    });
+    expect(summary.topFunctionsByTotal?.find((fn) => fn.functionName === 'render')).toMatchObject({
+      totalSizeBytes: 1500,
+      sampleCount: 2,
+    });
+  });
+
+  it('should return top stacks and a call tree pruned by ratio', () => {
+    const summary = summarizeSamplingHeapProfile(profile, { topN: 2, minTreeNodeRatio: 0.1 });
+
+    expect(summary.topStacks).toEqual([
+      {
+        stackTrace: ['main (https://example.com/app.js:21:5)', 'parse (https://example.com/app.js:41:5)'],
+        sizeBytes: 2000,
+        count: 2,
+      },
+      {
+        stackTrace: ['main (https://example.com/app.js:21:5)', 'render (https://example.com/app.js:31:5)'],
+        sizeBytes: 1000,
+        count: 1,
+      },
+    ]);
+    expect(summary.topFunctionsBySelf).toHaveLength(2);
+
+    const tree = summary.callTree!;
+    expect(tree.frame).toBe('(root)');
+    expect(tree.totalSizeBytes).toBe(3610);
+    // 匿名函数（10 字节）低于 10% 被裁剪
+    expect(tree.children?.map((child) => child.frame)).toEqual(['main (https://example.com/app.js:21:5)']);
+    expect(tree.children?.[0].children?.map((child) => [child.frame, child.totalSizeBytes])).toEqual([
+      ['parse (https://example.com/app.js:41:5)', 2000],
+      ['render (https://example.com/app.js:31:5)', 1500],
+    ]);
+  });
+
+  it('should format call frames with 1-based positions', () => {
+    expect(formatSamplingCallFrame({ functionName: 'foo', scriptId: '1', url: 'a.js', lineNumber: 0, columnNumber: 0 })).toBe(
+      'foo (a.js:1:1)'
+    );
+    expect(formatSamplingCallFrame({ functionName: '', scriptId: '0', url: '', lineNumber: -1, columnNumber: -1 })).toBe(
+      '(anonymous)'
+    );
+  });
+});
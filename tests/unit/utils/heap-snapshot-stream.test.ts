@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { existsSync } from 'node:fs';
+import { mkdtemp, readFile, readdir, rm, writeFile } from 'node:fs/promises';
+import { pathToFileURL } from 'node:url';
+import { Worker } from 'node:worker_threads';
+import { build } from 'tsup';
+import {
+  HeapSnapshotStreamParser,
+  readHeapSnapshotSections,
+} from '../../../src/utils/heap-snapshot-stream.js';
+
+const raw = JSON.stringify({
+  snapshot: {
+    meta: { node_fields: ['type', 'name', 'id', 'self_size'], node_types: [['hidden', 'object'], 'string', 'number', 'number'] },
+    node_count: 2,
+    edge_count: 0,
+  },
+  nodes: [0, 0, 1, 0, 1, 1, 4294967295, 120],
+  edges: [],
+  trace_function_infos: [0, 1, 2, 3, 4, 5],
+  trace_tree: [1, 0, 2, 64, [2, 0, 1, 32, []]],
+  samples: [1, 2, 3],
+  locations: [],
+  strings: ['', 'Foo "quoted" \\ path', '中文名称', 'emoji 🚀', 'line\nbreak'],
+});
+
+describe('heap-snapshot-stream', () => {
+  it('should produce the same sections regardless of chunk boundaries', () => {
+    const buffer = Buffer.from(raw, 'utf8');
+    for (const chunkSize of [1, 7, buffer.length]) {
+      const parser = new HeapSnapshotStreamParser();
+      for (let offset = 0; offset < buffer.length; offset += chunkSize) {
+        parser.write(buffer.subarray(offset, offset + chunkSize));
+      }
+      const sections = parser.end();
+      const expected = JSON.parse(raw);
+
+      expect(sections.snapshot).toEqual(expected.snapshot);
+      expect(sections.nodes).toEqual(new Uint32Array(expected.nodes));
+      expect(sections.edges).toEqual(new Uint32Array(0));
+      expect(sections.strings).toEqual(expected.strings);
+      expect(sections.traceTree).toBeUndefined();
+    }
+  });
+
+  it('should read trace sections only when requested', () => {
+    const parser = new HeapSnapshotStreamParser({ includeTrace: true });
+    parser.write(Buffer.from(raw, 'utf8'));
+    const sections = parser.end();
+
+    expect(sections.traceFunctionInfos).toEqual([0, 1, 2, 3, 4, 5]);
+    expect(sections.traceTree).toEqual([1, 0, 2, 64, [2, 0, 1, 32, []]]);
+  });
+
+  it('should reject truncated or malformed input', () => {
+    const truncated = new HeapSnapshotStreamParser();
+    truncated.write(Buffer.from(raw.slice(0, raw.length / 2), 'utf8'));
+    expect(() => truncated.end()).toThrow('unexpected end of heap snapshot JSON');
+
+    const malformed = new HeapSnapshotStreamParser();
+    expect(() => malformed.write(Buffer.from('{"nodes":[1,a]}', 'utf8'))).toThrow("unexpected character 'a'");
+  });
+
+  it('should stream sections from a file', async () => {
+    const filePath = join(tmpdir(), `heap-snapshot-stream-${Date.now()}.heapsnapshot`);
+    try {
+      await writeFile(filePath, raw, 'utf8');
+      const sections = await readHeapSnapshotSections(filePath);
+      expect(sections.nodes?.length).toBe(8);
+      expect(sections.strings?.[2]).toBe('中文名称');
+    } finally {
+      await rm(filePath, { force: true });
+    }
+  });
+
+  it('should emit the worker where the built bundle resolves it', async () => {
+    const outDir = await mkdtemp(join(tmpdir(), 'heap-snapshot-build-'));
+    const filePath = join(outDir, 'input.heapsnapshot');
+    try {
+      await build({ outDir, silent: true });
+
+      // 引用 worker 的产物按自身位置解析相对路径
+      const outputs = (await readdir(outDir)).filter((name) => name.endsWith('.js'));
+      const referencing: string[] = [];
+      for (const name of outputs) {
+        if ((await readFile(join(outDir, name), 'utf8')).includes('./heap-snapshot-worker.js')) {
+          referencing.push(name);
+        }
+      }
+      expect(referencing.length).toBeGreaterThan(0);
+      for (const name of referencing) {
+        const workerUrl = new URL('./heap-snapshot-worker.js', pathToFileURL(join(outDir, name)));
+        expect(existsSync(workerUrl)).toBe(true);
+      }
+
+      // 构建出的 worker 能读取快照
+      await writeFile(filePath, raw, 'utf8');
+      const message = await new Promise<any>((resolve, reject) => {
+        const worker = new Worker(join(outDir, 'heap-snapshot-worker.js'), { workerData: { filePath, options: {} } });
+        worker.once('message', resolve);
+        worker.once('error', reject);
+      });
+      expect(message.error).toBeUndefined();
+      expect(message.sections.nodes).toEqual(new Uint32Array(JSON.parse(raw).nodes));
+      expect(message.sections.strings[3]).toBe('emoji 🚀');
+    } finally {
+      await rm(outDir, { recursive: true, force: true });
+    }
+  }, 60000);
+});
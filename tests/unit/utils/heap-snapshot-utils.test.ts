@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import {
+  diffHeapSnapshots,
+  findMonotonicGrowth,
+  heapNodeClassName,
+  parseHeapSnapshotJson,
+} from '../../../src/utils/heap-snapshot-utils.js';
+
+/**
+ * 构造最小快照：节点为 [type, name, id, self_size]
+ */
+function snapshotJson(nodes: Array<[string, string, number, number]>): string {
+  const types = ['hidden', 'array', 'string', 'object', 'closure'];
+  const strings: string[] = [];
+  const stringIndex = (s: string) => (strings.includes(s) ? strings.indexOf(s) : strings.push(s) - 1);
+  return JSON.stringify({
+    snapshot: {
+      meta: { node_fields: ['type', 'name', 'id', 'self_size'], node_types: [types, 'string', 'number', 'number'] },
+      node_count: nodes.length,
+    },
+    nodes: nodes.flatMap(([type, name, id, size]) => [types.indexOf(type), stringIndex(name), id, size]),
+    strings,
+  });
+}
+
+describe('heap-snapshot-utils', () => {
+  it('should group nodes by DevTools class name', () => {
+    expect(heapNodeClassName('object', 'Foo')).toBe('Foo');
+    expect(heapNodeClassName('concatenated string', 'abc')).toBe('(string)');
+    expect(heapNodeClassName('hidden', 'system / Map')).toBe('(system)');
+    expect(heapNodeClassName('closure', 'onClick')).toBe('(closure)');
+  });
+
+  it('should reject snapshots without required node fields', () => {
+    expect(() => parseHeapSnapshotJson(JSON.stringify({ snapshot: {}, nodes: [], strings: [] }))).toThrow(
+      'invalid heap snapshot structure'
+    );
+  });
+
+  it('should report new, deleted and growing constructors by node id', () => {
+    const before = parseHeapSnapshotJson(
+      snapshotJson([
+        ['object', 'Foo', 1, 100],
+        ['object', 'Foo', 3, 100],
+        ['object', 'Bar', 5, 50],
+        ['string', 'hello', 7, 20],
+      ])
+    );
+    const after = parseHeapSnapshotJson(
+      snapshotJson([
+        ['object', 'Foo', 1, 100],
+        ['object', 'Foo', 9, 100],
+        ['object', 'Foo', 11, 300],
+        ['string', 'hello', 7, 20],
+        ['string', 'world', 13, 40],
+      ])
+    );
+
+    const diff = diffHeapSnapshots(before, after, 10);
+
+    expect(diff.before).toEqual({ totalNodes: 4, totalSizeBytes: 270 });
+    expect(diff.after).toEqual({ totalNodes: 5, totalSizeBytes: 560 });
+    expect(diff.matchedNodes).toBe(2);
+
+    const foo = diff.constructors.find((c) => c.name === 'Foo')!;
+    expect(foo).toMatchObject({
+      countBefore: 2,
+      countAfter: 3,
+      countDelta: 1,
+      newCount: 2,
+      deletedCount: 1,
+      sizeDeltaBytes: 300,
+      allocatedBytes: 400,
+      freedBytes: 100,
+    });
+    expect(diff.constructors.find((c) => c.name === 'Bar')).toMatchObject({ deletedCount: 1, sizeDeltaBytes: -50 });
+    expect(diff.topGrowing.map((c) => c.name)).toEqual(['Foo', '(string)']);
+    expect(diff.newObjects[0]).toEqual({ id: 11, name: 'Foo', className: 'Foo', type: 'object', selfSizeBytes: 300 });
+  });
+
+  it('should only flag constructors growing on every iteration', () => {
+    const sample = (counts: Record<string, number>) =>
+      new Map(Object.entries(counts).map(([name, count]) => [name, { count, sizeBytes: count * 10 }]));
+
+    const suspects = findMonotonicGrowth(
+      [
+        sample({ Leaky: 1, Cache: 5, Stable: 3 }),
+        sample({ Leaky: 3, Cache: 9, Stable: 3 }),
+        sample({ Leaky: 5, Cache: 9, Stable: 3, Fresh: 1 }),
+        sample({ Leaky: 7, Cache: 9, Stable: 3, Fresh: 2 }),
+      ],
+      1
+    );
+
+    expect(suspects.map((s) => s.name)).toEqual(['Leaky']);
+    expect(suspects[0]).toEqual({
+      name: 'Leaky',
+      counts: [1, 3, 5, 7],
+      sizesBytes: [10, 30, 50, 70],
+      countDelta: 6,
+      sizeDeltaBytes: 60,
+      countPerIteration: 2,
+    });
+    expect(findMonotonicGrowth([sample({ Leaky: 1 }), sample({ Leaky: 2 })], 2)).toEqual([]);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { MemoryMonitorSample } from '../../../src/types.js';
+import { assessMemoryGrowth, computeSeriesStats, summarizeMemorySeries } from '../../../src/utils/memory-series-utils.js';
+
+const MB = 1024 * 1024;
+
+/**
+ * 每秒一个样本，heap 为字节数，nodes/listeners 为 DOM 计数
+ */
+function samples(heap: number[], nodes?: number[], listeners?: number[]): MemoryMonitorSample[] {
+  return heap.map((heapUsedBytes, i) => ({
+    timestamp: 1_000_000 + i * 1000,
+    heapUsedBytes,
+    heapTotalBytes: heapUsedBytes * 2,
+    domCounters: nodes ? { documents: 1, nodes: nodes[i], jsEventListeners: listeners?.[i] ?? 0 } : undefined,
+  }));
+}
+
+describe('memory-series-utils', () => {
+  it('should compute min/max and a least squares slope', () => {
+    const stats = computeSeriesStats([
+      { t: 0, value: 10 },
+      { t: 1, value: 12 },
+      { t: 2, value: 14 },
+      { t: 3, value: 16 },
+    ]);
+    expect(stats).toEqual({ min: 10, max: 16, first: 10, last: 16, slopePerSecond: 2, r2: 1 });
+
+    expect(computeSeriesStats([{ t: 0, value: 5 }])).toMatchObject({ slopePerSecond: 0, r2: 0 });
+    expect(computeSeriesStats([])).toBeUndefined();
+  });
+
+  it('should summarize heap and DOM counter series', () => {
+    const stats = summarizeMemorySeries(samples([10 * MB, 11 * MB, 12 * MB], [100, 100, 100]));
+    expect(stats?.heapUsedBytes).toMatchObject({ min: 10 * MB, max: 12 * MB, slopePerSecond: MB });
+    expect(stats?.domNodes).toMatchObject({ min: 100, max: 100, slopePerSecond: 0 });
+    expect(summarizeMemorySeries(samples([10 * MB]))?.domNodes).toBeUndefined();
+    expect(summarizeMemorySeries([])).toBeUndefined();
+  });
+
+  it('should flag a steadily rising heap baseline and DOM nodes that never return', () => {
+    // GC 锯齿，但每次回收后的基线持续抬高
+    const heap = [10, 14, 11, 15, 12, 16, 13, 17, 14].map((v) => v * MB);
+    const nodes = [100, 120, 140, 160, 180, 200, 220, 240, 260];
+    const result = assessMemoryGrowth(samples(heap, nodes, nodes.map(() => 5)));
+
+    expect(result.suspected).toBe(true);
+    expect(result.reasons).toHaveLength(2);
+    expect(result.reasons[0]).toMatch(/^heap baseline grew from 10485760 to 13631488 bytes \(\+30%/);
+    expect(result.reasons[1]).toBe('DOM node count never returned to its earlier level (140 → at least 220)');
+  });
+
+  it('should not flag a stable sawtooth or too few samples', () => {
+    const heap = [10, 14, 10, 14, 10, 14, 10, 14, 10].map((v) => v * MB);
+    const nodes = [100, 300, 100, 300, 100, 300, 100, 300, 100];
+    expect(assessMemoryGrowth(samples(heap, nodes))).toEqual({ suspected: false, reasons: [] });
+
+    expect(assessMemoryGrowth(samples([10 * MB, 20 * MB, 30 * MB], [1, 2, 3]))).toEqual({
+      suspected: false,
+      reasons: [],
+    });
+  });
+});
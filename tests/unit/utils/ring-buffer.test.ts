@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { RingBuffer } from '../../../src/utils/ring-buffer.js';
+
+describe('RingBuffer', () => {
+    it('should keep items in insertion order and evict the oldest', () => {
+        const buffer = new RingBuffer<number>(3);
+
+        expect(buffer.push(1)).toBeUndefined();
+        buffer.push(2);
+        buffer.push(3);
+        expect(buffer.push(4)).toBe(1);
+        expect(buffer.push(5)).toBe(2);
+
+        expect(buffer.toArray()).toEqual([3, 4, 5]);
+        expect(buffer.size).toBe(3);
+        expect(buffer.dropped).toBe(2);
+    });
+
+    it('should reset on clear', () => {
+        const buffer = new RingBuffer<number>(2);
+        buffer.push(1);
+        buffer.push(2);
+        buffer.push(3);
+
+        buffer.clear();
+
+        expect(buffer.toArray()).toEqual([]);
+        expect(buffer.dropped).toBe(0);
+    });
+
+    it('should reject invalid capacity', () => {
+        expect(() => new RingBuffer<number>(0)).toThrow('Invalid ring buffer capacity: 0');
+    });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { serializeInPage, DEFAULT_SERIALIZE_LIMITS } from '../../../src/utils/serialize-utils.js';
+
+describe('serialize-utils', () => {
+    describe('serializeInPage', () => {
+        it('should mark circular references with their path', () => {
+            const obj: any = { name: 'root', child: { list: [1, 2] } };
+            obj.child.parent = obj;
+
+            const result = serializeInPage.call(obj, DEFAULT_SERIALIZE_LIMITS) as any;
+
+            expect(result.name).toBe('root');
+            expect(result.child.list).toEqual([1, 2]);
+            expect(result.child.parent).toEqual({ __type: 'circular', ref: '$' });
+        });
+
+        it('should serialize Map, Set and special values', () => {
+            const value = {
+                map: new Map([['a', 1]]),
+                set: new Set([1, 2]),
+                undef: undefined,
+                big: 10n,
+                nan: NaN,
+                date: new Date('2024-01-01T00:00:00.000Z'),
+                error: new TypeError('boom'),
+            };
+
+            const result = serializeInPage.call(value, DEFAULT_SERIALIZE_LIMITS) as any;
+
+            expect(result.map).toEqual({ __type: 'map', size: 1, entries: [['a', 1]], truncated: undefined });
+            expect(result.set).toEqual({ __type: 'set', size: 2, values: [1, 2], truncated: undefined });
+            expect(result.undef).toEqual({ __type: 'undefined' });
+            expect(result.big).toEqual({ __type: 'bigint', value: '10n' });
+            expect(result.nan).toEqual({ __type: 'number', value: 'NaN' });
+            expect(result.date).toEqual({ __type: 'date', value: '2024-01-01T00:00:00.000Z' });
+            expect(result.error).toMatchObject({ __type: 'error', name: 'TypeError', message: 'boom' });
+        });
+
+        it('should respect depth, item and string limits', () => {
+            const value = {
+                deep: { a: { b: { c: 1 } } },
+                items: Array.from({ length: 5 }, (_, i) => i),
+                text: 'x'.repeat(20),
+            };
+
+            const result = serializeInPage.call(value, {
+                maxDepth: 2,
+                maxArrayItems: 3,
+                maxProperties: 10,
+                maxStringLength: 10,
+            }) as any;
+
+            expect(result.deep.a).toEqual({ __type: 'object', className: 'Object', truncated: true });
+            expect(result.items).toEqual([0, 1, 2, { __type: 'more', count: 2 }]);
+            expect(result.text).toBe(`${'x'.repeat(10)}…(20 chars)`);
+        });
+    });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+    applyThrottling,
+    measureWithThrottling,
+    resolveThrottling,
+} from '../../../src/utils/throttling-utils.js';
+import { AppliedThrottling } from '../../../src/types.js';
+import { createMockPage } from '../../helpers/mock-browser.js';
+
+describe('throttling-utils', () => {
+    it('should resolve presets and allow cpuSlowdown override', () => {
+        expect(resolveThrottling({ profile: 'slow-3g' })).toEqual({
+            profile: 'slow-3g',
+            offline: false,
+            latencyMs: 2000,
+            downloadKbps: 400,
+            uploadKbps: 400,
+            cpuSlowdown: 1,
+        });
+        expect(resolveThrottling({ profile: 'lighthouse-mobile' }).cpuSlowdown).toBe(4);
+        expect(resolveThrottling({ profile: '4g', cpuSlowdown: 2 }).cpuSlowdown).toBe(2);
+    });
+
+    it('should resolve custom profiles and reject invalid options', () => {
+        expect(resolveThrottling({ profile: 'custom', latencyMs: 100, downloadKbps: 1000 })).toEqual({
+            profile: 'custom',
+            offline: false,
+            latencyMs: 100,
+            downloadKbps: 1000,
+            uploadKbps: -1,
+            cpuSlowdown: 1,
+        });
+        expect(() => resolveThrottling({ profile: 'custom' })).toThrow('custom throttling requires');
+        expect(() => resolveThrottling({ profile: 'none', cpuSlowdown: 0.5 })).toThrow('Invalid cpuSlowdown');
+    });
+
+    it('should apply network conditions in bytes per second and CPU throttling', async () => {
+        const page = createMockPage('http://example.com');
+
+        await applyThrottling(page as any, resolveThrottling({ profile: 'lighthouse-mobile' }));
+        await applyThrottling(page as any, resolveThrottling({ profile: 'none' }));
+
+        const actions = page.getActions();
+        expect(actions.slice(0, 3)).toEqual([
+            { action: 'setOfflineMode', args: [false] },
+            { action: 'emulateNetworkConditions', args: [{ download: 184320, upload: 84375, latency: 562.5 }] },
+            { action: 'emulateCPUThrottling', args: [4] },
+        ]);
+        expect(actions.slice(3)).toEqual([
+            { action: 'setOfflineMode', args: [false] },
+            { action: 'emulateNetworkConditions', args: [null] },
+            { action: 'emulateCPUThrottling', args: [null] },
+        ]);
+    });
+
+    it('should reload under throttling and restore the previous profile', async () => {
+        const page = createMockPage('http://example.com');
+        const previous = resolveThrottling({ profile: '4g' });
+        const store = {
+            getThrottling: vi.fn().mockReturnValue(previous),
+            setThrottling: vi.fn().mockResolvedValue(undefined),
+        };
+        const measure = vi.fn().mockResolvedValue('measured');
+
+        const { result, throttling } = await measureWithThrottling(
+            store,
+            page as any,
+            { profile: 'slow-3g' },
+            measure
+        );
+
+        expect(result).toBe('measured');
+        expect(throttling?.profile).toBe('slow-3g');
+        expect(store.setThrottling.mock.calls.map((call) => (call[1] as AppliedThrottling).profile)).toEqual([
+            'slow-3g',
+            '4g',
+        ]);
+        expect(page.getActions().some((a) => a.action === 'reload')).toBe(true);
+    });
+
+    it('should echo the persistent profile without reloading when no options are given', async () => {
+        const page = createMockPage('http://example.com');
+        const current = resolveThrottling({ profile: 'fast-3g' });
+        const store = {
+            getThrottling: vi.fn().mockReturnValue(current),
+            setThrottling: vi.fn(),
+        };
+
+        const { throttling } = await measureWithThrottling(store, page as any, undefined, async () => 1);
+
+        expect(throttling).toBe(current);
+        expect(store.setThrottling).not.toHaveBeenCalled();
+        expect(page.getActions()).toEqual([]);
+    });
+});
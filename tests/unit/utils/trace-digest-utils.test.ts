@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { TraceDigestBuilder, TraceEvent } from '../../../src/utils/trace-digest-utils.js';
+
+const app = 'https://example.com/app.js';
+
+function slice(name: string, ts: number, dur: number, data?: Record<string, unknown>, pid = 10): TraceEvent {
+  return { name, ph: 'X', ts, dur, pid, tid: 1, args: data ? { data } : {} };
+}
+
+function build(events: TraceEvent[]) {
+  const builder = new TraceDigestBuilder();
+  for (const event of events) {
+    builder.add(event);
+  }
+  return builder;
+}
+
+describe('trace-digest-utils', () => {
+  // 时间单位为微秒，trace 从 1s 开始，到 1.5s 结束
+  const events: TraceEvent[] = [
+    { name: 'TracingStartedInBrowser', ph: 'I', ts: 1_000_000, pid: 1, tid: 1, args: { data: { frames: [{ frame: 'F1', processId: 10 }] } } },
+    // 主 frame 进程中的长任务：定时器回调 → 函数调用（含一次 GC）→ 样式重算、布局、绘制
+    slice('RunTask', 1_000_000, 100_000),
+    slice('TimerFire', 1_000_000, 60_000, { timerId: 1 }),
+    slice('FunctionCall', 1_000_000, 60_000, { url: app, functionName: 'tick', lineNumber: 10 }),
+    slice('MinorGC', 1_010_000, 10_000),
+    slice('UpdateLayoutTree', 1_060_000, 10_000),
+    slice('Layout', 1_070_000, 20_000),
+    slice('Paint', 1_090_000, 5_000),
+    // 短任务：B/E 形式的事件分发
+    slice('RunTask', 1_200_000, 20_000),
+    { name: 'EventDispatch', ph: 'B', ts: 1_200_000, pid: 10, tid: 1, args: { data: { type: 'click' } } },
+    { name: 'EventDispatch', ph: 'E', ts: 1_210_000, pid: 10, tid: 1 },
+    // 另一个渲染进程（如跨站 iframe）的长任务不计入主线程
+    slice('RunTask', 1_000_000, 300_000, undefined, 20),
+    slice('FunctionCall', 1_000_000, 300_000, { url: 'https://ads.example/ad.js' }, 20),
+    ...['STATE_PRESENTED_ALL', 'STATE_PRESENTED_PARTIAL', 'STATE_DROPPED', 'STATE_PRESENTED_ALL'].map(
+      (state, i): TraceEvent => ({
+        name: 'PipelineReporter',
+        ph: 'b',
+        ts: 1_000_000 + i * 16_000,
+        pid: 10,
+        tid: 2,
+        args: { chrome_frame_reporter: { state } },
+      })
+    ),
+    { name: 'ResourceSendRequest', ph: 'I', ts: 1_500_000, pid: 10, tid: 1 },
+    // 元数据事件在 trace 末尾
+    { name: 'thread_name', ph: 'M', ts: 0, pid: 10, tid: 1, args: { name: 'CrRendererMain' } },
+    { name: 'thread_name', ph: 'M', ts: 0, pid: 20, tid: 1, args: { name: 'CrRendererMain' } },
+  ];
+
+  it('should split main thread time by category using self time', () => {
+    const digest = build(events).finish();
+
+    expect(digest.durationMs).toBe(500);
+    expect(digest.eventCount).toBe(events.length);
+    expect(digest.mainThread).toEqual({ pid: 10, tid: 1 });
+    expect(digest.mainThreadTimeMs).toEqual({
+      scripting: 60,
+      rendering: 30,
+      painting: 5,
+      gc: 10,
+      loading: 0,
+      other: 15,
+      idle: 380,
+    });
+    expect(digest).toMatchObject({ layoutCount: 1, layoutTimeMs: 20, recalcStyleCount: 1, recalcStyleTimeMs: 10 });
+    expect(digest.frames).toEqual({ presented: 3, dropped: 1, dropRate: 0.25 });
+  });
+
+  it('should report long tasks with attributed scripts', () => {
+    const digest = build(events).finish({ longTaskThresholdMs: 50 });
+
+    expect(digest.longTaskCount).toBe(1);
+    expect(digest.totalBlockingTimeMs).toBe(50);
+    expect(digest.longTasks).toEqual([
+      {
+        startMs: 0,
+        durationMs: 100,
+        blockingMs: 50,
+        scripts: [{ url: app, functionName: 'tick', lineNumber: 10, trigger: 'TimerFire', durationMs: 60 }],
+      },
+    ]);
+
+    expect(build(events).finish({ longTaskThresholdMs: 10 }).longTaskCount).toBe(2);
+  });
+
+  it('should fall back to the busiest thread and legacy frame events', () => {
+    const digest = build([
+      slice('RunTask', 1_000_000, 10_000, undefined, 30),
+      slice('RunTask', 1_000_000, 40_000),
+      slice('Layout', 1_000_000, 30_000),
+      { name: 'DrawFrame', ph: 'I', ts: 1_010_000, pid: 10, tid: 2 },
+      { name: 'DroppedFrame', ph: 'I', ts: 1_020_000, pid: 10, tid: 2 },
+    ]).finish();
+
+    expect(digest.mainThread).toEqual({ pid: 10, tid: 1 });
+    expect(digest.mainThreadTimeMs).toMatchObject({ rendering: 30, other: 10, idle: 0 });
+    expect(digest.frames).toEqual({ presented: 1, dropped: 1, dropRate: 0.5 });
+
+    const empty = build([{ name: 'ResourceSendRequest', ph: 'I', ts: 1_000_000, pid: 10, tid: 1 }]).finish();
+    expect(empty.mainThread).toBeUndefined();
+    expect(empty.frames).toBeUndefined();
+    expect(empty.longTasks).toEqual([]);
+  });
+});
@@ -30,8 +30,13 @@ const packageJson = JSON.parse(
 const version = packageJson.version;
 
 export default defineConfig({
-  // 入口文件
-  entry: ['src/index.ts'],
+  // 入口文件（heap snapshot 解析 worker 需要单独输出，供 new Worker 加载）
+  // 使用对象形式让 worker 与共享 chunk 同样输出到 dist 根目录，
+  // 否则会输出为 dist/utils/heap-snapshot-worker.js，chunk 中的相对路径无法找到
+  entry: {
+    index: 'src/index.ts',
+    'heap-snapshot-worker': 'src/utils/heap-snapshot-worker.ts',
+  },
 
   // 输出格式：ES Modules（因为我们使用 "type": "module"）
   format: ['esm'],